@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { NotificationPreferencesProvider } from "@/contexts/NotificationPreferencesContext";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import PondHome from "./pages/PondHome";
@@ -12,6 +13,12 @@ import PondSelection from "./pages/PondSelection";
 import LiveSensors from "./pages/LiveSensors";
 import DeviceControls from "./pages/DeviceControls";
 import DeviceSchedules from "./pages/DeviceSchedules";
+import AutomationRules from "./pages/AutomationRules";
+import DeviceActivity from "./pages/DeviceActivity";
+import Feeding from "./pages/Feeding";
+import CropCycles from "./pages/CropCycles";
+import Treatments from "./pages/Treatments";
+import WaterManagement from "./pages/WaterManagement";
 import ThresholdSettings from "./pages/ThresholdSettings";
 import Settings from "./pages/Settings";
 import Reports from "./pages/Reports";
@@ -106,6 +113,54 @@ function AppRoutes() {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/pond/:pondId/rules" 
+        element={
+          <ProtectedRoute>
+            <AutomationRules />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/pond/:pondId/activity" 
+        element={
+          <ProtectedRoute>
+            <DeviceActivity />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/pond/:pondId/feeding" 
+        element={
+          <ProtectedRoute>
+            <Feeding />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/pond/:pondId/cycles" 
+        element={
+          <ProtectedRoute>
+            <CropCycles />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/pond/:pondId/treatments" 
+        element={
+          <ProtectedRoute>
+            <Treatments />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/pond/:pondId/water" 
+        element={
+          <ProtectedRoute>
+            <WaterManagement />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/pond/:pondId/reports" 
         element={
@@ -138,6 +193,14 @@ function AppRoutes() {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/pond/:pondId/thresholds" 
+        element={
+          <ProtectedRoute>
+            <ThresholdSettings />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/settings/notifications" 
         element={
@@ -235,14 +298,16 @@ const App = () => (
   <QueryClientProvider client={queryClient}>
     <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Sonner />
-          <BrowserRouter>
-            <AppRoutes />
-            <OfflineIndicator />
-          </BrowserRouter>
-        </TooltipProvider>
+        <NotificationPreferencesProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <BrowserRouter>
+              <AppRoutes />
+              <OfflineIndicator />
+            </BrowserRouter>
+          </TooltipProvider>
+        </NotificationPreferencesProvider>
       </AuthProvider>
     </ThemeProvider>
   </QueryClientProvider>
@@ -4,6 +4,8 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUserSettings } from '@/hooks/useUserSettings';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import {
   Dialog,
@@ -17,6 +19,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Plus, Loader2, Wifi, MapPin, Tag } from 'lucide-react';
+import { SpeciesPresetSelect } from './SpeciesPresetSelect';
+import { getSpeciesPreset } from '@/lib/speciesPresets';
+import { resolveThresholds, thresholdsFromUserSettings } from '@/lib/thresholds';
 
 const pondSchema = z.object({
   name: z.string().min(1, 'Pond name is required').max(100, 'Name too long'),
@@ -24,6 +29,7 @@ const pondSchema = z.object({
     .min(1, 'Device IP is required')
     .regex(/^(?:(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)\.){3}(?:25[0-5]|2[0-4][0-9]|[01]?[0-9][0-9]?)$/, 'Invalid IP address format'),
   location: z.string().max(200, 'Location too long').optional(),
+  fish_type: z.string().optional(),
 });
 
 type PondFormData = z.infer<typeof pondSchema>;
@@ -36,11 +42,14 @@ export function AddPondDialog({ onSuccess }: AddPondDialogProps) {
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { user } = useAuth();
+  const { settings, syncToFirebase } = useUserSettings();
 
   const {
     register,
     handleSubmit,
     reset,
+    watch,
+    setValue,
     formState: { errors },
   } = useForm<PondFormData>({
     resolver: zodResolver(pondSchema),
@@ -48,9 +57,12 @@ export function AddPondDialog({ onSuccess }: AddPondDialogProps) {
       name: '',
       device_ip: '',
       location: '',
+      fish_type: undefined,
     },
   });
 
+  const fishType = watch('fish_type');
+
   const onSubmit = async (data: PondFormData) => {
     if (!user) {
       toast.error('You must be logged in to add a pond');
@@ -59,17 +71,34 @@ export function AddPondDialog({ onSuccess }: AddPondDialogProps) {
 
     setIsSubmitting(true);
     try {
-      const { error } = await supabase.from('ponds').insert({
-        name: data.name,
-        device_ip: data.device_ip,
-        location: data.location || null,
-        user_id: user.id,
-      });
+      const preset = getSpeciesPreset(data.fish_type);
+      const { data: pond, error } = await supabase
+        .from('ponds')
+        .insert({
+          name: data.name,
+          device_ip: data.device_ip,
+          location: data.location || null,
+          fish_type: preset?.id ?? null,
+          // Schedules run in the pond's timezone; assume it's where the pond is being set up
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          thresholds: (preset?.thresholds ?? null) as Json,
+          user_id: user.id,
+        })
+        .select('id')
+        .single();
 
       if (error) {
         throw error;
       }
 
+      // Push the preset limits to the device straight away
+      if (preset && pond) {
+        await syncToFirebase(
+          pond.id,
+          resolveThresholds(thresholdsFromUserSettings(settings), preset.thresholds)
+        );
+      }
+
       toast.success('Pond added successfully!');
       reset();
       setOpen(false);
@@ -150,6 +179,18 @@ export function AddPondDialog({ onSuccess }: AddPondDialogProps) {
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label>Species (Optional)</Label>
+            <SpeciesPresetSelect
+              value={fishType ?? null}
+              onValueChange={(presetId) => setValue('fish_type', presetId ?? undefined)}
+              allowNone
+            />
+            <p className="text-xs text-muted-foreground">
+              Sets recommended pH, DO, temperature and ammonia limits. You can adjust them later.
+            </p>
+          </div>
+
           <div className="flex gap-3 pt-4">
             <Button
               type="button"
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2, Save, Wind, Droplets } from 'lucide-react';
+import { useAutoTuning } from '@/hooks/useAutoTuning';
+import { AutoTuningCondition, ConditionTuning } from '@/types/automation';
+
+interface AutoTuningCardProps {
+  pondId: string;
+  readOnly?: boolean;
+}
+
+const tuningConfig: { condition: AutoTuningCondition; title: string; unit: string; icon: typeof Wind }[] = [
+  { condition: 'low_do', title: 'Low DO → Aerator', unit: 'mg/L', icon: Wind },
+  { condition: 'high_temp', title: 'High Temp → Water Pump', unit: '°C', icon: Droplets },
+];
+
+const fields: { key: keyof ConditionTuning; label: string; step: number }[] = [
+  { key: 'hysteresis', label: 'Hysteresis', step: 0.1 },
+  { key: 'sustainSeconds', label: 'Sustain (s)', step: 10 },
+  { key: 'minOnMinutes', label: 'Min. on (min)', step: 1 },
+  { key: 'minOffMinutes', label: 'Min. off (min)', step: 1 },
+];
+
+// Anti-chatter settings for the built-in auto-mode rules
+export function AutoTuningCard({ pondId, readOnly = false }: AutoTuningCardProps) {
+  const { tuning, isLoading, isSaving, saveTuning } = useAutoTuning(pondId);
+  const [draft, setDraft] = useState(tuning);
+
+  useEffect(() => {
+    setDraft(tuning);
+  }, [tuning]);
+
+  const updateField = (condition: AutoTuningCondition, key: keyof ConditionTuning, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      [condition]: { ...prev[condition], [key]: Math.max(0, Number(value) || 0) },
+    }));
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Built-in Auto Mode</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Readings must stay past the threshold for the sustain time before a device switches, and must
+          recover by the hysteresis amount before it switches back.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tuningConfig.map(({ condition, title, unit, icon: Icon }) => {
+          const changed = fields.some(f => draft[condition][f.key] !== tuning[condition][f.key]);
+          return (
+            <div key={condition} className="space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Icon className="h-4 w-4 text-primary" />
+                {title}
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                {fields.map(field => (
+                  <div key={field.key} className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">
+                      {field.key === 'hysteresis' ? `${field.label} (${unit})` : field.label}
+                    </Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={field.step}
+                      className="h-8 text-xs"
+                      value={draft[condition][field.key]}
+                      onChange={(e) => updateField(condition, field.key, e.target.value)}
+                      disabled={readOnly}
+                    />
+                  </div>
+                ))}
+              </div>
+              {changed && !readOnly && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="w-full h-8"
+                  onClick={() => saveTuning(condition, draft[condition])}
+                  disabled={isSaving}
+                >
+                  {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+                  Save
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
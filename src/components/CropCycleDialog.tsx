@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import type { CycleStockingInput } from '@/types/cropCycle';
+
+interface CropCycleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefilled from the pond's species preset
+  defaultSpecies?: string;
+  onSave: (input: CycleStockingInput) => Promise<boolean>;
+}
+
+const todayInputValue = () => format(new Date(), 'yyyy-MM-dd');
+
+export function CropCycleDialog({ open, onOpenChange, defaultSpecies, onSave }: CropCycleDialogProps) {
+  const [name, setName] = useState('');
+  const [species, setSpecies] = useState('');
+  const [stockedAt, setStockedAt] = useState(todayInputValue);
+  const [stockedCount, setStockedCount] = useState('');
+  const [stockingWeightG, setStockingWeightG] = useState('');
+  const [targetWeightG, setTargetWeightG] = useState('');
+  const [hatchery, setHatchery] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(`Cycle ${format(new Date(), 'MMM yyyy')}`);
+    setSpecies(defaultSpecies ?? '');
+    setStockedAt(todayInputValue());
+    setStockedCount('');
+    setStockingWeightG('');
+    setTargetWeightG('');
+    setHatchery('');
+    setNote('');
+  }, [open, defaultSpecies]);
+
+  const handleSave = async () => {
+    const count = Number(stockedCount);
+    if (!name.trim() || !species.trim()) {
+      toast.error('Name and species are required');
+      return;
+    }
+    if (!Number.isInteger(count) || count <= 0) {
+      toast.error('Enter how many fish were stocked');
+      return;
+    }
+    const date = new Date(`${stockedAt}T00:00`);
+    if (isNaN(date.getTime()) || date > new Date()) {
+      toast.error('Stocking date cannot be in the future');
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave({
+      name: name.trim(),
+      species: species.trim(),
+      stockedAt: date,
+      stockedCount: count,
+      stockingWeightG: Number(stockingWeightG) > 0 ? Number(stockingWeightG) : undefined,
+      targetWeightG: Number(targetWeightG) > 0 ? Number(targetWeightG) : undefined,
+      hatchery: hatchery.trim() || undefined,
+      note: note.trim() || undefined,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Start Crop Cycle</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} maxLength={60} />
+            </div>
+            <div className="space-y-2">
+              <Label>Species</Label>
+              <Input value={species} onChange={(e) => setSpecies(e.target.value)} placeholder="Tilapia" maxLength={60} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label>Stocked on</Label>
+              <Input
+                type="date"
+                value={stockedAt}
+                max={todayInputValue()}
+                onChange={(e) => setStockedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Count</Label>
+              <Input
+                type="number"
+                min={1}
+                value={stockedCount}
+                onChange={(e) => setStockedCount(e.target.value)}
+                placeholder="e.g. 5000"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Avg weight (g)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.1}
+                value={stockingWeightG}
+                onChange={(e) => setStockingWeightG(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Source hatchery</Label>
+              <Input value={hatchery} onChange={(e) => setHatchery(e.target.value)} placeholder="Optional" maxLength={80} />
+            </div>
+            <div className="space-y-2">
+              <Label>Harvest weight (g)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={targetWeightG}
+                onChange={(e) => setTargetWeightG(e.target.value)}
+                placeholder="e.g. 500"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Note</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" maxLength={200} />
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Start Cycle
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertTriangle, Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  CycleHarvestInput,
+  CycleMortalityInput,
+  CycleRecordKind,
+  CycleSamplingInput,
+  MORTALITY_CAUSES,
+} from '@/types/cropCycle';
+import { activeWithdrawals, withdrawalClearsAt } from '@/lib/treatments';
+import type { PondTreatment } from '@/types/treatment';
+
+export type CycleRecordSave =
+  | { kind: 'sampling'; input: CycleSamplingInput }
+  | { kind: 'mortality'; input: CycleMortalityInput }
+  | { kind: 'harvest'; input: CycleHarvestInput };
+
+interface CycleRecordDialogProps {
+  kind: CycleRecordKind | null;
+  onOpenChange: (open: boolean) => void;
+  // Records can't predate stocking
+  stockedAt: Date;
+  // Harvests inside a treatment's withdrawal period need confirming
+  treatments?: PondTreatment[];
+  onSave: (record: CycleRecordSave) => Promise<boolean>;
+}
+
+const titles: Record<CycleRecordKind, string> = {
+  sampling: 'Record Sampling',
+  mortality: 'Record Mortality',
+  harvest: 'Record Harvest',
+};
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export function CycleRecordDialog({ kind, onOpenChange, stockedAt, treatments = [], onSave }: CycleRecordDialogProps) {
+  const [at, setAt] = useState(nowInputValue);
+  const [count, setCount] = useState('');
+  const [weight, setWeight] = useState('');
+  const [cause, setCause] = useState(MORTALITY_CAUSES[0]);
+  const [pricePerKg, setPricePerKg] = useState('');
+  const [buyer, setBuyer] = useState('');
+  const [isFinal, setIsFinal] = useState(false);
+  const [note, setNote] = useState('');
+  const [overrideWithdrawal, setOverrideWithdrawal] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!kind) return;
+    setAt(nowInputValue());
+    setCount('');
+    setWeight('');
+    setCause(MORTALITY_CAUSES[0]);
+    setPricePerKg('');
+    setBuyer('');
+    setIsFinal(false);
+    setNote('');
+    setOverrideWithdrawal(false);
+  }, [kind]);
+
+  if (!kind) return null;
+
+  const atDate = new Date(at);
+  const withdrawing = kind === 'harvest' && !isNaN(atDate.getTime()) ? activeWithdrawals(treatments, atDate) : [];
+  const clearsAt = withdrawalClearsAt(withdrawing, atDate);
+
+  const buildRecord = (date: Date): CycleRecordSave | string => {
+    const countValue = Number(count);
+    const weightValue = Number(weight);
+    const countValid = Number.isInteger(countValue) && countValue > 0;
+
+    switch (kind) {
+      case 'sampling':
+        if (!countValid) return 'Enter how many fish were weighed';
+        if (!(weightValue > 0)) return 'Enter the average weight';
+        return { kind, input: { sampledAt: date, sampleCount: countValue, avgWeightG: weightValue, note: note.trim() || undefined } };
+      case 'mortality':
+        if (!countValid) return 'Enter how many fish died';
+        return { kind, input: { recordedAt: date, count: countValue, cause, note: note.trim() || undefined } };
+      case 'harvest': {
+        if (!(weightValue > 0)) return 'Enter the harvested weight';
+        if (count !== '' && !countValid) return 'Head count must be a whole number';
+        if (withdrawing.length > 0 && !overrideWithdrawal) return 'This harvest falls within a withdrawal period';
+        // Keep a record of which treatments were overridden
+        const withdrawalNote = withdrawing.length > 0
+          ? `Harvested during withdrawal (${withdrawing.map(t => t.product).join(', ')})`
+          : '';
+        return {
+          kind,
+          input: {
+            harvestedAt: date,
+            weightKg: weightValue,
+            count: count === '' ? undefined : countValue,
+            pricePerKg: pricePerKg === '' ? undefined : Math.max(0, Number(pricePerKg)),
+            buyer: buyer.trim() || undefined,
+            isFinal,
+            note: [withdrawalNote, note.trim()].filter(Boolean).join(' · ') || undefined,
+          },
+        };
+      }
+    }
+  };
+
+  const handleSave = async () => {
+    const date = new Date(at);
+    if (isNaN(date.getTime()) || date > new Date() || date < stockedAt) {
+      toast.error('Pick a time between stocking and now');
+      return;
+    }
+    const record = buildRecord(date);
+    if (typeof record === 'string') {
+      toast.error(record);
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave(record);
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!kind} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{titles[kind]}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>When</Label>
+            <Input
+              type="datetime-local"
+              value={at}
+              min={format(stockedAt, "yyyy-MM-dd'T'HH:mm")}
+              max={nowInputValue()}
+              onChange={(e) => setAt(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>
+                {kind === 'sampling' ? 'Fish weighed' : kind === 'mortality' ? 'Dead fish' : 'Head count'}
+              </Label>
+              <Input
+                type="number"
+                min={1}
+                value={count}
+                onChange={(e) => setCount(e.target.value)}
+                placeholder={kind === 'harvest' ? 'Optional' : undefined}
+              />
+            </div>
+            {kind === 'mortality' ? (
+              <div className="space-y-2">
+                <Label>Cause</Label>
+                <Select value={cause} onValueChange={setCause}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MORTALITY_CAUSES.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <Label>{kind === 'sampling' ? 'Avg weight (g)' : 'Weight (kg)'}</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={weight}
+                  onChange={(e) => setWeight(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          {kind === 'harvest' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Price / kg</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={pricePerKg}
+                    onChange={(e) => setPricePerKg(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Buyer</Label>
+                  <Input value={buyer} onChange={(e) => setBuyer(e.target.value)} placeholder="Optional" maxLength={80} />
+                </div>
+              </div>
+              <div className="flex items-center justify-between rounded-xl border p-3">
+                <div>
+                  <Label>Final harvest</Label>
+                  <p className="text-xs text-muted-foreground">Closes the cycle</p>
+                </div>
+                <Switch checked={isFinal} onCheckedChange={setIsFinal} />
+              </div>
+              {clearsAt && (
+                <div className="rounded-xl border border-status-warning/30 bg-status-warning/10 p-3 space-y-3">
+                  <div className="flex gap-2">
+                    <AlertTriangle className="h-4 w-4 text-status-warning shrink-0 mt-0.5" />
+                    <p className="text-xs">
+                      Withdrawal period until {format(clearsAt, 'MMM d, h:mm a')} after{' '}
+                      {withdrawing.map(t => t.product).join(', ')}. Fish harvested now shouldn't be sold for consumption.
+                    </p>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <Label>Harvest anyway</Label>
+                    <Switch checked={overrideWithdrawal} onCheckedChange={setOverrideWithdrawal} />
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+
+          <div className="space-y-2">
+            <Label>Note</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" maxLength={200} />
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,65 +2,87 @@ import { useEffect, useMemo, useState } from "react";
 import { ref, onValue, set } from "firebase/database";
 import { useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
-import { Droplets, Wind, Lightbulb, Power, Clock, Camera, ChevronRight, Video, Check, Send, AlertCircle, ShieldCheck } from "lucide-react";
+import { Power, Clock, Camera, ChevronRight, Video, Check, Send, AlertCircle, ShieldCheck, Hourglass, RotateCw, HelpCircle, Settings2, type LucideIcon } from "lucide-react";
+import { format } from "date-fns";
 
 import { database } from "@/lib/firebase";
 import { cn } from "@/lib/utils";
 import { triggerHapticMedium } from "@/lib/haptics";
 import { useDeviceSchedule } from "@/hooks/useDeviceSchedule";
 import { useDeviceCommand, CommandStatus, getCommandStatusDisplay } from "@/hooks/useDeviceCommand";
+import { useDeviceHold } from "@/hooks/useDeviceHold";
+import { DEVICE_HOLD_LABELS } from "@/types/automation";
+import type { CommandConfirmation } from "@/lib/deviceCommands";
+import { DEFAULT_DEVICES, DEVICE_KINDS, DeviceDefinition, getDeviceIcon, snapLevel, supportsLevel } from "@/lib/deviceRegistry";
+import { Slider } from "@/components/ui/slider";
 import { CameraViewerDialog } from "@/components/CameraViewerDialog";
 
 import { useAuth } from "@/contexts/AuthContext";
 
-export type StaticDeviceType = "motor" | "aerator" | "light" | "camera";
-
 interface DeviceCardProps {
   pondId: string;
-  type: StaticDeviceType;
+  // Key under ponds/{pondId}/devices, or "camera"
+  type: string;
   title: string;
+  // Registry entry for relay devices; drives the icon, subtitle and schedule link
+  device?: DeviceDefinition;
   className?: string;
   cameraUrl?: string | null;
   readOnly?: boolean; // For admin view - disable controls
+  // Latest command's confirmation, from the device list's single listener
+  confirmation?: CommandConfirmation;
+  onEdit?: () => void;
 }
 
 type DeviceMode = "manual" | "auto";
 type ControlSource = "MANUAL" | "AUTO";
 
 interface DeviceMeta {
-  icon: typeof Droplets;
+  icon: LucideIcon;
   subtitle: string;
   hasSchedule: boolean;
+  // Slider granularity in %, set only for variable-level devices
+  levelStep?: number;
 }
 
-function deviceMeta(type: StaticDeviceType): DeviceMeta {
-  switch (type) {
-    case "motor":
-      return { icon: Droplets, subtitle: "Water circulation", hasSchedule: true };
-    case "aerator":
-      return { icon: Wind, subtitle: "Oxygen supply", hasSchedule: true };
-    case "light":
-      return { icon: Lightbulb, subtitle: "Pond lighting", hasSchedule: true };
-    case "camera":
-      return { icon: Camera, subtitle: "Live monitoring", hasSchedule: false };
+function deviceMeta(type: string, device?: DeviceDefinition): DeviceMeta {
+  if (type === "camera") {
+    return { icon: Camera, subtitle: "Live monitoring", hasSchedule: false };
+  }
+  const definition = device ?? DEFAULT_DEVICES.find((d) => d.key === type);
+  if (!definition) {
+    return { icon: getDeviceIcon(undefined), subtitle: DEVICE_KINDS.other.subtitle, hasSchedule: false };
   }
+  return {
+    icon: getDeviceIcon(definition),
+    subtitle: `${DEVICE_KINDS[definition.kind].subtitle} · Ch ${definition.channel}${definition.powerWatts ? ` · ${definition.powerWatts} W` : ""}`,
+    hasSchedule: definition.capabilities.includes("schedule"),
+    ...(supportsLevel(definition) ? { levelStep: definition.levelStep ?? 1 } : {}),
+  };
 }
 
-export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly = false }: DeviceCardProps) {
+export function DeviceCard({ pondId, type, title, device, className, cameraUrl, readOnly = false, confirmation = "none", onEdit }: DeviceCardProps) {
   const navigate = useNavigate();
   const { isAdmin } = useAuth();
   const [isOn, setIsOn] = useState(false);
   const [mode, setMode] = useState<DeviceMode>("manual");
+  const [level, setLevel] = useState(0);
+  // Level restored when switching a variable device back on
+  const [lastLevel, setLastLevel] = useState(100);
   const [cameraDialogOpen, setCameraDialogOpen] = useState(false);
-  const { status: commandStatus, sendCommand } = useDeviceCommand();
+  const { status: commandStatus, attempt, sendCommand } = useDeviceCommand();
 
   // SECURITY: Admins have read-only access to devices - they cannot control them
   const isControlDisabled = readOnly || isAdmin;
 
-  const meta = useMemo(() => deviceMeta(type), [type]);
-  const { icon: Icon, subtitle, hasSchedule } = meta;
+  const meta = useMemo(() => deviceMeta(type, device), [type, device]);
+  const { icon: Icon, subtitle, hasSchedule, levelStep } = meta;
+  const hasLevel = levelStep !== undefined;
 
   const { nextSchedule, isLoading: scheduleLoading } = useDeviceSchedule(pondId, type);
+  const hold = useDeviceHold(pondId, type);
+  const isCommandInFlight = commandStatus === "sending" || commandStatus === "sent" || commandStatus === "retrying";
+  const isUnconfirmed = !isCommandInFlight && confirmation === "unconfirmed";
 
   const handleScheduleClick = () => {
     triggerHapticMedium();
@@ -78,9 +100,14 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
     const unsubscribe = onValue(
       deviceRef,
       (snap) => {
-        const val = snap.val() as { state?: number; mode?: DeviceMode } | null;
-        setIsOn((val?.state ?? 0) === 1);
+        const val = snap.val() as { state?: number; mode?: DeviceMode; level?: number } | null;
+        const on = (val?.state ?? 0) === 1;
+        setIsOn(on);
         setMode(val?.mode ?? "manual");
+        // Firmware without level support only reports the relay state
+        const nextLevel = typeof val?.level === "number" ? val.level : on ? 100 : 0;
+        setLevel(nextLevel);
+        if (nextLevel > 0) setLastLevel(nextLevel);
       },
       () => {}
     );
@@ -98,10 +125,27 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
     triggerHapticMedium();
     const newState = !isOn;
     setIsOn(newState); // Optimistic update
+
+    if (hasLevel) {
+      const nextLevel = newState ? lastLevel : 0;
+      setLevel(nextLevel);
+      await sendCommand(pondId, type, newState ? 1 : 0, "manual", nextLevel);
+      return;
+    }
     
     await sendCommand(pondId, type, newState ? 1 : 0, "manual");
   };
 
+  const handleLevelCommit = async (value: number) => {
+    if (isControlDisabled || mode === "auto") return;
+    const nextLevel = snapLevel(value, levelStep);
+    triggerHapticMedium();
+    setLevel(nextLevel);
+    setIsOn(nextLevel > 0);
+    if (nextLevel > 0) setLastLevel(nextLevel);
+    await sendCommand(pondId, type, nextLevel > 0 ? 1 : 0, "manual", nextLevel);
+  };
+
   const isAuto = mode === "auto";
   const isCamera = type === "camera";
   const controlSource: ControlSource = isAuto ? "AUTO" : "MANUAL";
@@ -125,6 +169,7 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
 
   const getStatusText = () => {
     if (isCamera) return "VIEW";
+    if (hasLevel && isOn) return `ON · ${level}%`;
     return isOn ? "ON" : "OFF";
   };
 
@@ -139,7 +184,7 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
   const renderCommandStatus = () => {
     if (commandStatus === 'idle' || isCamera) return null;
     
-    const { text, color } = getCommandStatusDisplay(commandStatus);
+    const { text, color } = getCommandStatusDisplay(commandStatus, attempt);
     
     return (
       <motion.div
@@ -154,9 +199,15 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
         {commandStatus === 'sent' && (
           <Send className="h-3 w-3" />
         )}
+        {commandStatus === 'retrying' && (
+          <RotateCw className="h-3 w-3 animate-spin" />
+        )}
         {commandStatus === 'acknowledged' && (
           <Check className="h-3 w-3" />
         )}
+        {commandStatus === 'unconfirmed' && (
+          <HelpCircle className="h-3 w-3" />
+        )}
         {commandStatus === 'error' && (
           <AlertCircle className="h-3 w-3" />
         )}
@@ -209,6 +260,14 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
                 </span>
               </motion.div>
             </AnimatePresence>
+
+            {/* The device never confirmed the last command - shown state may be wrong */}
+            {isUnconfirmed && !isCamera && (
+              <div className="flex items-center gap-1 px-2 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider bg-status-warning/20 text-status-warning border border-status-warning/30">
+                <HelpCircle className="h-2.5 w-2.5" />
+                Unconfirmed
+              </div>
+            )}
           </div>
 
           {/* Device Info Row */}
@@ -238,7 +297,18 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
               />
             </div>
             <div className="flex-1">
-              <h3 className="text-base font-semibold text-foreground leading-tight">{title}</h3>
+              <div className="flex items-center gap-1">
+                <h3 className="text-base font-semibold text-foreground leading-tight">{title}</h3>
+                {onEdit && !isCamera && (
+                  <button
+                    onClick={onEdit}
+                    className="p-1 rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                    aria-label={`Edit ${title}`}
+                  >
+                    <Settings2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
               <p className="text-xs text-muted-foreground">{subtitle}</p>
             </div>
           </div>
@@ -263,6 +333,15 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
             {(hasSchedule || isCamera) && <ChevronRight className="h-3.5 w-3.5 text-muted-foreground" />}
           </motion.button>
 
+          {/* Automation hold timer (sustain, min on/off, timed rule) */}
+          {hold && !isCamera && (
+            <div className="flex items-center gap-2 -mt-2 mb-4 px-3 py-1.5 rounded-lg bg-blue-500/10 text-blue-600 dark:text-blue-400">
+              <Hourglass className="h-3.5 w-3.5" />
+              <span className="text-xs font-medium">{DEVICE_HOLD_LABELS[hold.kind]}</span>
+              <span className="text-xs ml-auto">until {format(hold.until, "h:mm a")}</span>
+            </div>
+          )}
+
           {/* Single Large Toggle Button with Dynamic Background */}
           <motion.button
             whileHover={{ scale: (isControlDisabled || isAuto) && !isCamera ? 1 : 1.01 }}
@@ -310,6 +389,24 @@ export function DeviceCard({ pondId, type, title, className, cameraUrl, readOnly
             </AnimatePresence>
           </motion.button>
 
+          {/* Level / speed control for VFD and dimmable devices */}
+          {hasLevel && !isCamera && (
+            <div className="mt-4 flex items-center gap-3">
+              <Slider
+                value={[level]}
+                min={0}
+                max={100}
+                step={levelStep}
+                onValueChange={([value]) => setLevel(value)}
+                onValueCommit={([value]) => handleLevelCommit(value)}
+                disabled={isControlDisabled || isAuto || commandStatus === "sending"}
+                aria-label={`${title} level`}
+                className="flex-1"
+              />
+              <span className="w-10 text-right text-xs font-medium tabular-nums text-muted-foreground">{level}%</span>
+            </div>
+          )}
+
           {/* Command Status Display */}
           <AnimatePresence>
             {commandStatus !== 'idle' && !isCamera && (
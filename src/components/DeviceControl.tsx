@@ -1,15 +1,9 @@
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
 import { Device } from '@/types/aquaculture';
-import { Wind, Droplets, Lightbulb, Bell, Zap, Power } from 'lucide-react';
+import { Wind, Zap, Power } from 'lucide-react';
 import { motion } from 'framer-motion';
-
-const iconMap = {
-  Wind: Wind,
-  Droplets: Droplets,
-  Lightbulb: Lightbulb,
-  Bell: Bell,
-};
+import { DEVICE_ICONS, DeviceIconName } from '@/lib/deviceRegistry';
 
 interface DeviceControlProps {
   device: Device;
@@ -19,7 +13,7 @@ interface DeviceControlProps {
 }
 
 export function DeviceControl({ device, onToggle, onAutoChange, className }: DeviceControlProps) {
-  const Icon = iconMap[device.icon as keyof typeof iconMap] || Wind;
+  const Icon = DEVICE_ICONS[device.icon as DeviceIconName] || Wind;
 
   return (
     <Card className={cn('overflow-hidden border-0 shadow-lg', className)}>
@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Loader2, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  DEVICE_CAPABILITY_LABELS,
+  DEVICE_ICONS,
+  DEVICE_KINDS,
+  DeviceCapability,
+  DeviceDefinition,
+  DeviceIconName,
+  DeviceKind,
+  MAX_RELAY_CHANNELS,
+} from '@/lib/deviceRegistry';
+import type { DeviceDefinitionInput } from '@/hooks/useDeviceRegistry';
+
+interface DeviceEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Device being edited; null adds a new one
+  device: DeviceDefinition | null;
+  // Channels already in use, to suggest the next free one
+  usedChannels: number[];
+  isSaving: boolean;
+  onSave: (device: DeviceDefinitionInput) => Promise<boolean>;
+  onRemove?: () => Promise<boolean>;
+}
+
+export function DeviceEditorDialog({ open, onOpenChange, ...props }: DeviceEditorDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        {/* The content unmounts while closed, so the form starts over on every open */}
+        <DeviceEditorForm key={props.device?.key ?? 'new'} onOpenChange={onOpenChange} {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function DeviceEditorForm({
+  onOpenChange,
+  device,
+  usedChannels,
+  isSaving,
+  onSave,
+  onRemove,
+}: Omit<DeviceEditorDialogProps, 'open'>) {
+  const [name, setName] = useState(device?.name ?? '');
+  const [kind, setKind] = useState<DeviceKind>(device?.kind ?? 'aerator');
+  const [icon, setIcon] = useState<DeviceIconName>(device?.icon ?? 'Wind');
+  const [channel, setChannel] = useState(() => device?.channel ?? (
+    Array.from({ length: MAX_RELAY_CHANNELS }, (_, i) => i + 1).find(c => !usedChannels.includes(c)) ?? 1
+  ));
+  const [powerWatts, setPowerWatts] = useState<number | undefined>(device?.powerWatts);
+  const [capabilities, setCapabilities] = useState<DeviceCapability[]>(device?.capabilities ?? ['schedule', 'automation']);
+  const [levelStep, setLevelStep] = useState<number | undefined>(device?.levelStep);
+  const [gramsPerSecond, setGramsPerSecond] = useState<number | undefined>(device?.gramsPerSecond);
+
+  const handleKindChange = (value: DeviceKind) => {
+    setKind(value);
+    setIcon(DEVICE_KINDS[value].icon);
+    if (!name.trim() || Object.values(DEVICE_KINDS).some(k => k.label === name)) {
+      setName(DEVICE_KINDS[value].label);
+    }
+  };
+
+  const toggleCapability = (capability: DeviceCapability, enabled: boolean) =>
+    setCapabilities(prev => (enabled ? [...prev, capability] : prev.filter(c => c !== capability)));
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please name the device');
+      return;
+    }
+
+    const success = await onSave({
+      name: name.trim(),
+      kind,
+      icon,
+      channel,
+      // Firebase rejects undefined values
+      ...(powerWatts ? { powerWatts } : {}),
+      capabilities,
+      ...(levelStep && capabilities.includes('level') ? { levelStep } : {}),
+      ...(gramsPerSecond && kind === 'feeder' ? { gramsPerSecond } : {}),
+    });
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>{device ? 'Edit Device' : 'Add Device'}</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-5 py-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select value={kind} onValueChange={handleKindChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DEVICE_KINDS) as DeviceKind[]).map(k => (
+                  <SelectItem key={k} value={k}>{DEVICE_KINDS[k].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Aerator 2"
+              maxLength={40}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Icon</Label>
+          <div className="grid grid-cols-8 gap-1.5">
+            {(Object.keys(DEVICE_ICONS) as DeviceIconName[]).map(iconName => {
+              const Icon = DEVICE_ICONS[iconName];
+              return (
+                <button
+                  key={iconName}
+                  type="button"
+                  onClick={() => setIcon(iconName)}
+                  className={cn(
+                    'h-9 rounded-lg border flex items-center justify-center transition-colors',
+                    icon === iconName ? 'border-primary bg-primary/10 text-primary' : 'border-border text-muted-foreground hover:bg-muted'
+                  )}
+                  aria-label={iconName}
+                >
+                  <Icon className="h-4 w-4" />
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Relay channel</Label>
+            <Select value={String(channel)} onValueChange={(value) => setChannel(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: MAX_RELAY_CHANNELS }, (_, i) => i + 1).map(c => (
+                  <SelectItem key={c} value={String(c)}>
+                    Channel {c}{c !== device?.channel && usedChannels.includes(c) ? ' (in use)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Power (W)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={powerWatts ?? ''}
+              onChange={(e) => setPowerWatts(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        {kind === 'feeder' && (
+          <div className="space-y-2">
+            <Label>Feed rate (g/s)</Label>
+            <Input
+              type="number"
+              min={0}
+              step={0.1}
+              value={gramsPerSecond ?? ''}
+              onChange={(e) => setGramsPerSecond(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+              placeholder="Measured grams per second of auger run"
+            />
+            <p className="text-xs text-muted-foreground">
+              Lets feeding plans in grams run on timer-only feeders. Leave empty if the feeder weighs its output.
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <Label>Capabilities</Label>
+          {(Object.keys(DEVICE_CAPABILITY_LABELS) as DeviceCapability[]).map(capability => (
+            <div key={capability} className="flex items-center justify-between">
+              <span className="text-sm">{DEVICE_CAPABILITY_LABELS[capability]}</span>
+              <Switch
+                checked={capabilities.includes(capability)}
+                onCheckedChange={(checked) => toggleCapability(capability, checked)}
+              />
+            </div>
+          ))}
+          {capabilities.includes('level') && (
+            <div className="space-y-2">
+              <Label>Level step (%)</Label>
+              <Input
+                type="number"
+                min={1}
+                max={50}
+                value={levelStep ?? ''}
+                onChange={(e) => setLevelStep(e.target.value === '' ? undefined : Math.min(50, Math.max(1, Number(e.target.value))))}
+                placeholder="1 for dimmers, 25 for a 4-speed pump"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          {device && onRemove && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="text-destructive hover:text-destructive" disabled={isSaving}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove {device.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Its control node and schedules are deleted. Automation rules that use it will skip it.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={async () => {
+                      if (await onRemove()) onOpenChange(false);
+                    }}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    Remove
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+          <Button onClick={handleSave} className="flex-1" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {device ? 'Save Device' : 'Add Device'}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { endOfDay, format, parseISO, startOfDay } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  EXPORT_DATASETS,
+  ExportDataset,
+  ExportFormat,
+  downloadBlob,
+  exportFilename,
+  loadExportTable,
+  toCsv,
+  toXlsx,
+} from '@/lib/dataExport';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pondId: string;
+  pondName: string;
+  // Prefilled from the range shown in Reports
+  defaultFrom: Date;
+  defaultTo: Date;
+}
+
+export function ExportDialog({ open, onOpenChange, ...props }: ExportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {/* The content unmounts while closed, so the form starts over on every open */}
+        <ExportForm onOpenChange={onOpenChange} {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ExportForm({ onOpenChange, pondId, pondName, defaultFrom, defaultTo }: Omit<ExportDialogProps, 'open'>) {
+  // Prefilled once on open, not on every Reports render
+  const [from, setFrom] = useState(() => format(defaultFrom, 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(defaultTo, 'yyyy-MM-dd'));
+  const [datasets, setDatasets] = useState<ExportDataset[]>(['sensors']);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const toggleDataset = (dataset: ExportDataset, checked: boolean) =>
+    setDatasets(prev => checked
+      ? EXPORT_DATASETS.map(d => d.value).filter(d => d === dataset || prev.includes(d))
+      : prev.filter(d => d !== dataset));
+
+  const handleExport = async () => {
+    if (!from || !to || from > to) {
+      toast.error('Choose a valid date range');
+      return;
+    }
+    if (datasets.length === 0) {
+      toast.error('Choose at least one dataset');
+      return;
+    }
+
+    const fromDate = startOfDay(parseISO(from));
+    const toDate = endOfDay(parseISO(to));
+
+    setIsExporting(true);
+    try {
+      const tables = await Promise.all(datasets.map(dataset => loadExportTable(dataset, pondId, fromDate, toDate)));
+      const rowCount = tables.reduce((sum, table) => sum + table.rows.length, 0);
+
+      if (exportFormat === 'xlsx') {
+        downloadBlob(await toXlsx(tables), `${exportFilename(pondName, 'export', fromDate, toDate)}.xlsx`);
+      } else {
+        // One file per dataset
+        for (const table of tables) {
+          downloadBlob(toCsv(table), `${exportFilename(pondName, table.dataset, fromDate, toDate)}.csv`);
+        }
+      }
+
+      toast.success(`Exported ${rowCount.toLocaleString()} row${rowCount === 1 ? '' : 's'}`);
+      onOpenChange(false);
+    } catch (err) {
+      console.error('Error exporting data:', err);
+      toast.error('Failed to export data');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Export Data</DialogTitle>
+        <DialogDescription>Raw records for {pondName}. Times are in UTC.</DialogDescription>
+      </DialogHeader>
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>From</Label>
+            <Input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>To</Label>
+            <Input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Include</Label>
+          {EXPORT_DATASETS.map(dataset => (
+            <div key={dataset.value} className="flex items-center gap-2">
+              <Checkbox
+                id={`export-${dataset.value}`}
+                checked={datasets.includes(dataset.value)}
+                onCheckedChange={(checked) => toggleDataset(dataset.value, checked === true)}
+              />
+              <Label htmlFor={`export-${dataset.value}`} className="font-normal">{dataset.label}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Format</Label>
+          <Tabs value={exportFormat} onValueChange={(v) => setExportFormat(v as ExportFormat)}>
+            <TabsList className="w-full">
+              <TabsTrigger value="xlsx" className="flex-1">Excel</TabsTrigger>
+              <TabsTrigger value="csv" className="flex-1">CSV</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <p className="text-xs text-muted-foreground">
+            {exportFormat === 'xlsx' ? 'One workbook with a sheet per dataset' : 'One file per dataset'}
+          </p>
+        </div>
+
+        <Button onClick={handleExport} className="w-full" disabled={isExporting}>
+          {isExporting ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <Download className="h-4 w-4 mr-2" />
+          )}
+          Export
+        </Button>
+      </div>
+    </>
+  );
+}
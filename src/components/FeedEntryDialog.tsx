@@ -0,0 +1,146 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { feedCost } from '@/lib/feeding';
+import type { FeedDetails } from '@/types/feeding';
+import type { HandFeedingInput } from '@/hooks/useFeedLogs';
+
+interface FeedEntryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Prefilled from the pond's feeding plan, when it has one
+  defaults?: FeedDetails;
+  onSave: (input: HandFeedingInput) => Promise<boolean>;
+}
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export function FeedEntryDialog({ open, onOpenChange, defaults, onSave }: FeedEntryDialogProps) {
+  const [grams, setGrams] = useState('');
+  const [fedAt, setFedAt] = useState(nowInputValue);
+  const [feedType, setFeedType] = useState('');
+  const [brand, setBrand] = useState('');
+  const [pricePerKg, setPricePerKg] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setGrams('');
+    setFedAt(nowInputValue());
+    setFeedType(defaults?.feedType ?? '');
+    setBrand(defaults?.brand ?? '');
+    setPricePerKg(defaults?.pricePerKg !== undefined ? String(defaults.pricePerKg) : '');
+    setNote('');
+  }, [open, defaults]);
+
+  const cost = feedCost(Number(grams) || undefined, pricePerKg === '' ? undefined : Number(pricePerKg));
+
+  const handleSave = async () => {
+    const amount = Number(grams);
+    if (!amount || amount <= 0) {
+      toast.error('Enter how much feed was given');
+      return;
+    }
+    const date = new Date(fedAt);
+    if (isNaN(date.getTime()) || date > new Date()) {
+      toast.error('Feeding time cannot be in the future');
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave({
+      grams: amount,
+      fedAt: date,
+      feedType: feedType.trim() || undefined,
+      brand: brand.trim() || undefined,
+      pricePerKg: pricePerKg === '' ? undefined : Math.max(0, Number(pricePerKg)),
+      note: note.trim() || undefined,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Log Feeding</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Amount (g)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={grams}
+                onChange={(e) => setGrams(e.target.value)}
+                placeholder="e.g. 1500"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Fed at</Label>
+              <Input
+                type="datetime-local"
+                value={fedAt}
+                max={nowInputValue()}
+                onChange={(e) => setFedAt(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label>Feed type</Label>
+              <Input value={feedType} onChange={(e) => setFeedType(e.target.value)} placeholder="Grower" maxLength={40} />
+            </div>
+            <div className="space-y-2">
+              <Label>Brand</Label>
+              <Input value={brand} onChange={(e) => setBrand(e.target.value)} placeholder="Optional" maxLength={40} />
+            </div>
+            <div className="space-y-2">
+              <Label>Price / kg</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={pricePerKg}
+                onChange={(e) => setPricePerKg(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Note</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" maxLength={200} />
+          </div>
+
+          {cost !== null && (
+            <p className="text-xs text-muted-foreground">Cost: {cost.toFixed(2)}</p>
+          )}
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Entry
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
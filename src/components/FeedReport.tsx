@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { useFeedLogs } from '@/hooks/useFeedLogs';
+import { useBiomassEstimates } from '@/hooks/useBiomassEstimates';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
+import { useFeedingPlans } from '@/hooks/useFeedingPlans';
+import { useCropCycles } from '@/hooks/useCropCycles';
+import { FeedEntryDialog } from '@/components/FeedEntryDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Bar, ComposedChart, Line, XAxis } from 'recharts';
+import { Loader2, Plus, Scale, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  FeedRates,
+  biomassAt,
+  computeFcr,
+  dailyFeed,
+  entryKg,
+  feedingRatePercent,
+} from '@/lib/feedConversion';
+import { dayOfCulture, isInCycle } from '@/lib/cropCycles';
+import { samplingBiomassEstimates } from '@/lib/growth';
+import type { BiomassEstimate } from '@/types/feeding';
+
+const rangeOptions = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+];
+
+const chartConfig = {
+  kg: { label: 'Feed (kg)', color: 'hsl(32, 95%, 50%)' },
+  cumulativeKg: { label: 'Cumulative (kg)', color: 'hsl(200, 80%, 45%)' },
+};
+
+interface FeedReportProps {
+  pondId: string;
+  // Viewers and admins see the numbers but can't add entries
+  canEdit: boolean;
+}
+
+export function FeedReport({ pondId, canEdit }: FeedReportProps) {
+  // A number of days, or 'cycle' for everything since the current cycle was stocked
+  const [range, setRange] = useState('30');
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+  const [biomassKg, setBiomassKg] = useState('');
+
+  // All entries, so cumulative FCR covers the whole cycle and not just the range
+  const { logs, isLoading, error, addHandFeeding } = useFeedLogs(pondId, null);
+  const { estimates, addEstimate, deleteEstimate } = useBiomassEstimates(pondId);
+  const { devices } = useDeviceRegistry(pondId);
+  const { plans } = useFeedingPlans(pondId);
+  const { activeCycle } = useCropCycles(pondId);
+
+  const days = range !== 'cycle' ? Number(range) : activeCycle ? dayOfCulture(activeCycle) : 30;
+  // Biomass and FCR only compare records from the current cycle; a previous
+  // cycle's harvest would otherwise read as a loss
+  const cycleLogs = activeCycle ? logs.filter(entry => isInCycle(activeCycle, entry.fedAt)) : logs;
+  // Recorded estimates plus those worked out from the current cycle's samplings
+  const allEstimates = [
+    ...(activeCycle ? estimates.filter(estimate => isInCycle(activeCycle, estimate.measuredAt)) : estimates),
+    ...(activeCycle ? samplingBiomassEstimates(activeCycle) : []),
+  ].sort((a, b) => a.measuredAt.getTime() - b.measuredAt.getTime());
+
+  // Partial harvests between the first and last estimate still count as gain
+  const harvestedKg = (fcrEstimates: BiomassEstimate[]) => {
+    if (!activeCycle || fcrEstimates.length < 2) return 0;
+    const first = fcrEstimates[0].measuredAt;
+    const last = fcrEstimates[fcrEstimates.length - 1].measuredAt;
+    return activeCycle.harvests
+      .filter(harvest => harvest.harvestedAt > first && harvest.harvestedAt <= last)
+      .reduce((sum, harvest) => sum + harvest.weightKg, 0);
+  };
+
+  const rates: FeedRates = Object.fromEntries(devices.map(d => [d.key, d.gramsPerSecond]));
+  const now = new Date();
+  const from = subDays(now, days - 1);
+
+  const daily = dailyFeed(logs, rates, from, now);
+  const totalKg = daily.reduce((sum, day) => sum + day.kg, 0);
+  const totalCost = daily.reduce((sum, day) => sum + day.cost, 0);
+  const lastWeek = daily.slice(-7);
+  const recentDailyKg = lastWeek.reduce((sum, day) => sum + day.kg, 0) / Math.max(1, lastWeek.length);
+  const feedingRate = feedingRatePercent(recentDailyKg, biomassAt(allEstimates, now));
+  const cumulativeFcr = computeFcr(cycleLogs, rates, allEstimates, harvestedKg(allEstimates));
+  const periodEstimates = allEstimates.filter(estimate => estimate.measuredAt >= from);
+  const periodFcr = computeFcr(cycleLogs, rates, periodEstimates, harvestedKg(periodEstimates));
+
+  // Feed and cost by type/brand over the range
+  const byFeed = new Map<string, { kg: number; cost: number }>();
+  for (const entry of logs) {
+    if (entry.status !== 'dispensed' || entry.fedAt < from) continue;
+    const label = [entry.feedType, entry.brand].filter(Boolean).join(' · ') || 'Unspecified';
+    const totals = byFeed.get(label) ?? { kg: 0, cost: 0 };
+    totals.kg += entryKg(entry, rates);
+    totals.cost += entry.cost ?? 0;
+    byFeed.set(label, totals);
+  }
+
+  const handleAddBiomass = async () => {
+    const value = Number(biomassKg);
+    if (!value || value <= 0) {
+      toast.error('Enter the estimated biomass in kg');
+      return;
+    }
+    if (await addEstimate(value, new Date())) setBiomassKg('');
+  };
+
+  const stats = [
+    { label: 'Total feed', value: `${totalKg.toFixed(1)} kg` },
+    { label: 'Feed cost', value: totalCost > 0 ? totalCost.toFixed(2) : '–' },
+    { label: 'Avg / day', value: `${(totalKg / days).toFixed(1)} kg` },
+    { label: 'Feeding rate', value: feedingRate !== null ? `${feedingRate}% BW` : '–' },
+    { label: 'FCR (period)', value: periodFcr ? periodFcr.fcr.toFixed(2) : '–' },
+    { label: 'FCR (to date)', value: cumulativeFcr ? cumulativeFcr.fcr.toFixed(2) : '–' },
+  ];
+
+  if (isLoading && logs.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={range} onValueChange={setRange}>
+          <SelectTrigger className="h-9 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {activeCycle && <SelectItem value="cycle">This cycle ({activeCycle.name})</SelectItem>}
+            {rangeOptions.map(option => (
+              <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canEdit && (
+          <Button size="sm" className="rounded-xl" onClick={() => setIsEntryOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Log Feed
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+      <div className="grid grid-cols-3 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-3 rounded-2xl bg-card border shadow-sm">
+            <p className="text-[10px] text-muted-foreground mb-1">{stat.label}</p>
+            <p className="text-sm font-bold text-foreground">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium">Daily feed</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {totalKg > 0 ? (
+            <ChartContainer config={chartConfig} className="h-[160px] w-full">
+              <ComposedChart data={daily}>
+                <XAxis
+                  dataKey="label"
+                  tick={{ fontSize: 10 }}
+                  axisLine={false}
+                  tickLine={false}
+                  interval="preserveStartEnd"
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="kg" fill="var(--color-kg)" radius={[3, 3, 0, 0]} />
+                <Line type="monotone" dataKey="cumulativeKg" stroke="var(--color-cumulativeKg)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          ) : (
+            <div className="h-[160px] flex items-center justify-center text-muted-foreground text-sm">
+              No feeding recorded in this period
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {byFeed.size > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">By feed</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {[...byFeed.entries()].map(([label, totals]) => (
+              <div key={label} className="flex items-center justify-between text-sm">
+                <span className="truncate">{label}</span>
+                <span className="text-muted-foreground shrink-0">
+                  {totals.kg.toFixed(1)} kg{totals.cost > 0 && ` · ${totals.cost.toFixed(2)}`}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Scale className="h-4 w-4" />
+            Biomass
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {cumulativeFcr && (
+            <p className="text-xs text-muted-foreground">
+              {cumulativeFcr.feedKg} kg fed for {cumulativeFcr.gainKg} kg gained since {format(cumulativeFcr.from, 'MMM d')}
+            </p>
+          )}
+          {allEstimates.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Record biomass, or sampling weights on the crop cycle, to track feeding rate and FCR.
+            </p>
+          )}
+          {[...estimates].reverse().slice(0, 5).map(estimate => (
+            <div key={estimate.id} className="flex items-center justify-between text-sm">
+              <span>{format(estimate.measuredAt, 'MMM d, yyyy')}</span>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{estimate.biomassKg} kg</span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteEstimate(estimate.id)}
+                    aria-label="Delete estimate"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+          {canEdit && (
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                value={biomassKg}
+                onChange={(e) => setBiomassKg(e.target.value)}
+                placeholder="Current biomass (kg)"
+              />
+              <Button variant="outline" onClick={handleAddBiomass}>Record</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <FeedEntryDialog
+        open={isEntryOpen}
+        onOpenChange={setIsEntryOpen}
+        defaults={Object.values(plans)[0]}
+        onSave={addHandFeeding}
+      />
+    </div>
+  );
+}
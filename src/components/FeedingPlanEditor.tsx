@@ -0,0 +1,235 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { DEFAULT_FEEDING_PLAN, rationGrams, rationPercentTotal } from '@/lib/feeding';
+import type { FeedRation, FeedingPlan } from '@/types/feeding';
+
+interface FeedingPlanEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  feederName: string;
+  plan: FeedingPlan | null;
+  // The pond's DO minimum, used when the plan doesn't set its own
+  defaultMinDissolvedOxygen?: number;
+  // This feeder's share of the amount suggested from the cycle's biomass
+  suggestedDailyGrams?: number;
+  isSaving: boolean;
+  onSave: (plan: FeedingPlan) => Promise<boolean>;
+}
+
+export function FeedingPlanEditor({
+  open,
+  onOpenChange,
+  feederName,
+  plan,
+  defaultMinDissolvedOxygen,
+  suggestedDailyGrams,
+  isSaving,
+  onSave,
+}: FeedingPlanEditorProps) {
+  const [draft, setDraft] = useState<FeedingPlan>(DEFAULT_FEEDING_PLAN);
+
+  useEffect(() => {
+    if (open) setDraft(plan ?? { ...DEFAULT_FEEDING_PLAN, enabled: true });
+  }, [open, plan]);
+
+  const percentTotal = rationPercentTotal(draft.rations);
+
+  const updateRation = (index: number, changes: Partial<FeedRation>) =>
+    setDraft(prev => ({
+      ...prev,
+      rations: prev.rations.map((ration, i) => (i === index ? { ...ration, ...changes } : ration)),
+    }));
+
+  const addRation = () =>
+    setDraft(prev => ({
+      ...prev,
+      rations: [...prev.rations, { time: '12:00', percent: Math.max(0, 100 - rationPercentTotal(prev.rations)) }],
+    }));
+
+  const removeRation = (index: number) =>
+    setDraft(prev => ({ ...prev, rations: prev.rations.filter((_, i) => i !== index) }));
+
+  const handleSave = async () => {
+    if (draft.enabled && draft.dailyGrams <= 0) {
+      toast.error('Set a daily feed amount');
+      return;
+    }
+    if (draft.rations.length === 0) {
+      toast.error('Add at least one ration');
+      return;
+    }
+    if (percentTotal !== 100) {
+      toast.error('Rations must add up to 100% of the daily amount');
+      return;
+    }
+    if (new Set(draft.rations.map(r => r.time)).size !== draft.rations.length) {
+      toast.error('Two rations are at the same time');
+      return;
+    }
+
+    if (await onSave(draft)) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Feeding Plan · {feederName}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-5 py-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">Run this plan</p>
+              <p className="text-xs text-muted-foreground">Rations are dispensed automatically in the pond's timezone</p>
+            </div>
+            <Switch
+              checked={draft.enabled}
+              onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Daily amount (g)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={draft.dailyGrams || ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, dailyGrams: Math.max(0, Number(e.target.value)) }))}
+                placeholder="e.g. 2500"
+              />
+              {suggestedDailyGrams !== undefined && suggestedDailyGrams > 0 && (
+                <button
+                  type="button"
+                  className="text-[11px] text-primary hover:underline"
+                  onClick={() => setDraft(prev => ({ ...prev, dailyGrams: suggestedDailyGrams }))}
+                >
+                  Suggested: {suggestedDailyGrams} g
+                </button>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Skip below DO (mg/L)</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.1}
+                value={draft.minDissolvedOxygen ?? ''}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  minDissolvedOxygen: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                }))}
+                placeholder={defaultMinDissolvedOxygen !== undefined ? `${defaultMinDissolvedOxygen} (pond)` : 'Pond minimum'}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div className="space-y-2">
+              <Label>Feed type</Label>
+              <Input
+                value={draft.feedType ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, feedType: e.target.value }))}
+                placeholder="Grower"
+                maxLength={40}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Brand</Label>
+              <Input
+                value={draft.brand ?? ''}
+                onChange={(e) => setDraft(prev => ({ ...prev, brand: e.target.value }))}
+                placeholder="Optional"
+                maxLength={40}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Price / kg</Label>
+              <Input
+                type="number"
+                min={0}
+                step={0.01}
+                value={draft.pricePerKg ?? ''}
+                onChange={(e) => setDraft(prev => ({
+                  ...prev,
+                  pricePerKg: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)),
+                }))}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Rations</Label>
+              <span className={cn(
+                'text-xs font-medium',
+                percentTotal === 100 ? 'text-muted-foreground' : 'text-status-warning'
+              )}>
+                {percentTotal}% of daily amount
+              </span>
+            </div>
+            {draft.rations.map((ration, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={ration.time}
+                  onChange={(e) => updateRation(index, { time: e.target.value })}
+                  className="flex-1"
+                />
+                <div className="relative w-24">
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={ration.percent}
+                    onChange={(e) => updateRation(index, { percent: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                    className="pr-7"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+                </div>
+                <span className="w-16 text-right text-xs text-muted-foreground">
+                  {rationGrams(draft, ration)} g
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => removeRation(index)}
+                  aria-label="Remove ration"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={addRation}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Ration
+            </Button>
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Plan
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { ComposedChart, Line, XAxis, YAxis } from 'recharts';
+import { TrendingUp } from 'lucide-react';
+import {
+  estimateBiomass,
+  feedingRateForWeight,
+  growthCurve,
+  projectedHarvestDate,
+  suggestedDailyFeedGrams,
+} from '@/lib/growth';
+import type { CropCycle } from '@/types/cropCycle';
+
+const chartConfig = {
+  estimatedG: { label: 'Estimated (g)', color: 'hsl(160, 70%, 40%)' },
+  projectedG: { label: 'Projected (g)', color: 'hsl(160, 70%, 40%)' },
+  sampledG: { label: 'Sampled (g)', color: 'hsl(32, 95%, 50%)' },
+};
+
+interface GrowthCardProps {
+  cycle: CropCycle;
+  // The chart is left out where space is tight
+  showChart?: boolean;
+}
+
+// Estimated biomass, growth curve, projected harvest and suggested feed for a cycle
+export function GrowthCard({ cycle, showChart = true }: GrowthCardProps) {
+  const estimate = estimateBiomass(cycle);
+  const harvestDate = projectedHarvestDate(cycle);
+
+  if (!estimate) {
+    return (
+      <Card>
+        <CardContent className="py-4 text-center text-xs text-muted-foreground">
+          Record a sampling weight (or the stocking weight) to estimate biomass.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const stats = [
+    { label: 'Biomass', value: `${estimate.biomassKg.toLocaleString()} kg` },
+    { label: 'Avg weight', value: `${estimate.avgWeightG} g` },
+    { label: 'Live fish', value: estimate.count.toLocaleString() },
+    { label: 'SGR', value: estimate.sgr !== null ? `${estimate.sgr}%/day` : '–' },
+    {
+      label: 'Harvest',
+      value: harvestDate ? format(harvestDate, 'MMM d') : cycle.targetWeightG ? '–' : 'No target',
+    },
+    {
+      label: 'Feed / day',
+      value: `${(suggestedDailyFeedGrams(estimate) / 1000).toFixed(1)} kg`,
+    },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <TrendingUp className="h-4 w-4" />
+          Growth · {cycle.name}
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {estimate.lastSampledAt
+            ? `Last sampled ${format(estimate.lastSampledAt, 'MMM d')}`
+            : 'From stocking weight'}
+          {` · feed at ${feedingRateForWeight(estimate.avgWeightG)}% BW`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-2 rounded-xl bg-muted/50">
+              <p className="text-[10px] text-muted-foreground">{stat.label}</p>
+              <p className="text-sm font-bold text-foreground">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+        {showChart && (
+          <ChartContainer config={chartConfig} className="h-[140px] w-full">
+            <ComposedChart data={growthCurve(cycle)}>
+              <XAxis
+                dataKey="label"
+                tick={{ fontSize: 10 }}
+                axisLine={false}
+                tickLine={false}
+                interval="preserveStartEnd"
+              />
+              <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={32} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Line type="monotone" dataKey="estimatedG" stroke="var(--color-estimatedG)" strokeWidth={2} dot={false} connectNulls />
+              <Line
+                type="monotone"
+                dataKey="projectedG"
+                stroke="var(--color-projectedG)"
+                strokeWidth={2}
+                strokeDasharray="4 4"
+                dot={false}
+                connectNulls
+              />
+              <Line dataKey="sampledG" stroke="none" dot={{ r: 3, fill: 'var(--color-sampledG)' }} isAnimationActive={false} />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useLabTests } from '@/hooks/useLabTests';
+import { usePondThresholds } from '@/hooks/usePondThresholds';
+import { LabTestDialog } from '@/components/LabTestDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { FlaskConical, Loader2, Plus, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SENSOR_REGISTRY, SensorStatusLevel, isSensorKey } from '@/lib/sensorRegistry';
+import {
+  evaluateLabResult,
+  formatLabValue,
+  labParameterLabel,
+  labParameterUnit,
+  labSeries,
+} from '@/lib/labTests';
+
+const rangeOptions = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last year' },
+];
+
+const statusClass: Record<SensorStatusLevel, string> = {
+  safe: 'text-status-safe',
+  warning: 'text-status-warning',
+  critical: 'text-status-critical',
+};
+
+// Free-form parameters share one color
+const CUSTOM_COLOR = 'hsl(var(--primary))';
+
+interface LabReportProps {
+  pondId: string;
+  // Viewers and admins see results but can't add tests
+  canEdit: boolean;
+}
+
+export function LabReport({ pondId, canEdit }: LabReportProps) {
+  const [days, setDays] = useState(90);
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+  const { tests, isLoading, error, addTest, deleteTest } = useLabTests(pondId, days);
+  const { thresholds } = usePondThresholds(pondId);
+
+  const series = labSeries(tests);
+  // Registry parameters first, in registry order, then free-form ones by name
+  const parameters = [...series.keys()].sort((a, b) => {
+    const known = Number(isSensorKey(b)) - Number(isSensorKey(a));
+    return known !== 0 ? known : labParameterLabel(a).localeCompare(labParameterLabel(b));
+  });
+  // Units recorded with free-form parameters
+  const units = new Map(tests.flatMap(test => test.results).map(result => [result.parameter, result.unit]));
+
+  if (isLoading && tests.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="h-9 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {rangeOptions.map(option => (
+              <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {canEdit && (
+          <Button size="sm" className="rounded-xl" onClick={() => setIsEntryOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Log Test
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+      {parameters.length === 0 ? (
+        <div className="text-center py-8">
+          <FlaskConical className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+          <p className="text-muted-foreground">No lab tests in this period</p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Log kit results for ammonia, nitrite, alkalinity, hardness and more
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Latest result per parameter */}
+          <div className="grid grid-cols-3 gap-2">
+            {parameters.map(parameter => {
+              const points = series.get(parameter) ?? [];
+              const latest = points[points.length - 1];
+              const unit = units.get(parameter) ?? null;
+              const status = evaluateLabResult({ parameter, value: latest.value }, thresholds);
+              return (
+                <div key={parameter} className="p-3 rounded-2xl bg-card border shadow-sm">
+                  <p className="text-[10px] text-muted-foreground mb-1 truncate">{labParameterLabel(parameter)}</p>
+                  <p className={cn('text-sm font-bold', status ? statusClass[status] : 'text-foreground')}>
+                    {formatLabValue({ parameter, value: latest.value, unit })}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">{format(latest.at, 'MMM d')}</p>
+                </div>
+              );
+            })}
+          </div>
+
+          {parameters.map(parameter => {
+            const points = series.get(parameter) ?? [];
+            const color = isSensorKey(parameter) ? SENSOR_REGISTRY[parameter].color : CUSTOM_COLOR;
+            const band = isSensorKey(parameter) ? thresholds[parameter] : undefined;
+            const unit = labParameterUnit({ parameter, unit: units.get(parameter) ?? null });
+            const data = points.map(point => ({ label: format(point.at, 'MMM d'), value: point.value }));
+            return (
+              <Card key={parameter}>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <div className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+                    {labParameterLabel(parameter)}{unit && ` (${unit})`}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer
+                    config={{ value: { label: labParameterLabel(parameter), color } }}
+                    className="h-[120px] w-full"
+                  >
+                    <LineChart data={data}>
+                      <XAxis
+                        dataKey="label"
+                        tick={{ fontSize: 10 }}
+                        axisLine={false}
+                        tickLine={false}
+                        interval="preserveStartEnd"
+                      />
+                      <YAxis tick={{ fontSize: 10 }} axisLine={false} tickLine={false} width={32} domain={['auto', 'auto']} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      {band?.min !== undefined && (
+                        <ReferenceLine y={band.min} stroke="hsl(var(--status-warning))" strokeDasharray="3 3" />
+                      )}
+                      {band?.max !== undefined && (
+                        <ReferenceLine y={band.max} stroke="hsl(var(--status-warning))" strokeDasharray="3 3" />
+                      )}
+                      <Line type="monotone" dataKey="value" stroke={color} strokeWidth={2} dot={{ r: 3 }} />
+                    </LineChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {/* Recent tests */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Tests</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {tests.slice(0, 10).map(test => (
+                <div key={test.id} className="flex items-start gap-3 p-3 rounded-xl bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {format(test.testedAt, 'MMM d, h:mm a')}
+                      {test.method && <span className="text-xs text-muted-foreground"> · {test.method}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {test.results.map(result => `${labParameterLabel(result.parameter)} ${formatLabValue(result)}`).join(' · ')}
+                    </p>
+                    {test.note && <p className="text-xs text-muted-foreground italic">{test.note}</p>}
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteTest(test.id)}
+                      aria-label="Delete test"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <LabTestDialog
+        open={isEntryOpen}
+        onOpenChange={setIsEntryOpen}
+        onSave={(input) => addTest(input, thresholds)}
+      />
+    </div>
+  );
+}
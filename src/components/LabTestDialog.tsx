@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Loader2, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { SENSOR_REGISTRY, isSensorKey, isValidSensorValue } from '@/lib/sensorRegistry';
+import { LAB_PARAMETERS, labParameterLabel, labParameterUnit } from '@/lib/labTests';
+import type { LabResultInput, LabTestInput } from '@/types/labTest';
+
+interface LabTestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: LabTestInput) => Promise<boolean>;
+}
+
+interface ResultRow {
+  parameter: string;
+  value: string;
+  unit: string;
+  // Free-form rows get editable name and unit fields
+  custom: boolean;
+}
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+// The usual kit panel; rows left blank are skipped
+const defaultRows = (): ResultRow[] =>
+  LAB_PARAMETERS.slice(0, 5).map(parameter => ({ parameter, value: '', unit: '', custom: false }));
+
+export function LabTestDialog({ open, onOpenChange, onSave }: LabTestDialogProps) {
+  const [testedAt, setTestedAt] = useState(nowInputValue);
+  const [method, setMethod] = useState('');
+  const [note, setNote] = useState('');
+  const [rows, setRows] = useState<ResultRow[]>(defaultRows);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTestedAt(nowInputValue());
+    setMethod('');
+    setNote('');
+    setRows(defaultRows());
+  }, [open]);
+
+  const updateRow = (index: number, changes: Partial<ResultRow>) =>
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const unusedParameters = LAB_PARAMETERS.filter(key => !rows.some(row => row.parameter === key));
+
+  const handleSave = async () => {
+    const date = new Date(testedAt);
+    if (isNaN(date.getTime()) || date > new Date()) {
+      toast.error('Test time cannot be in the future');
+      return;
+    }
+
+    const results: LabResultInput[] = [];
+    for (const row of rows) {
+      if (row.value.trim() === '') continue;
+      const parameter = row.parameter.trim();
+      const value = Number(row.value);
+      if (!parameter) {
+        toast.error('Name every custom parameter');
+        return;
+      }
+      if (isNaN(value)) {
+        toast.error(`${labParameterLabel(parameter)} is not a number`);
+        return;
+      }
+      if (isSensorKey(parameter) && !isValidSensorValue(parameter, value)) {
+        const { min, max } = SENSOR_REGISTRY[parameter].validRange;
+        toast.error(`${labParameterLabel(parameter)} must be between ${min} and ${max}`);
+        return;
+      }
+      results.push({ parameter, value, unit: row.custom ? row.unit.trim() || undefined : undefined });
+    }
+
+    if (results.length === 0) {
+      toast.error('Enter at least one result');
+      return;
+    }
+    if (new Set(results.map(r => r.parameter.toLowerCase())).size !== results.length) {
+      toast.error('A parameter is entered twice');
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave({
+      testedAt: date,
+      method: method.trim() || undefined,
+      note: note.trim() || undefined,
+      results,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Log Lab Test</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Tested at</Label>
+              <Input
+                type="datetime-local"
+                value={testedAt}
+                max={nowInputValue()}
+                onChange={(e) => setTestedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Kit / method</Label>
+              <Input value={method} onChange={(e) => setMethod(e.target.value)} placeholder="Optional" maxLength={60} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Results</Label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex items-center gap-2">
+                {row.custom ? (
+                  <>
+                    <Input
+                      value={row.parameter}
+                      onChange={(e) => updateRow(index, { parameter: e.target.value })}
+                      placeholder="Parameter"
+                      maxLength={40}
+                      className="flex-1"
+                    />
+                    <Input
+                      value={row.unit}
+                      onChange={(e) => updateRow(index, { unit: e.target.value })}
+                      placeholder="Unit"
+                      maxLength={20}
+                      className="w-20"
+                    />
+                  </>
+                ) : (
+                  <span className="flex-1 text-sm">
+                    {labParameterLabel(row.parameter)}
+                    {labParameterUnit({ parameter: row.parameter, unit: null }) && (
+                      <span className="text-xs text-muted-foreground">
+                        {' '}({labParameterUnit({ parameter: row.parameter, unit: null })})
+                      </span>
+                    )}
+                  </span>
+                )}
+                <Input
+                  type="number"
+                  step="any"
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                  className="w-24"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove parameter"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex flex-wrap gap-2">
+              {unusedParameters.map(parameter => (
+                <Button
+                  key={parameter}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setRows(prev => [...prev, { parameter, value: '', unit: '', custom: false }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  {SENSOR_REGISTRY[parameter].shortLabel}
+                </Button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                onClick={() => setRows(prev => [...prev, { parameter: '', value: '', unit: '', custom: true }])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Other
+              </Button>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Note</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" maxLength={200} />
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Test
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
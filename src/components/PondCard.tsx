@@ -5,6 +5,8 @@ import { Waves, MapPin, Fish, ChevronRight, Wifi, WifiOff, User, ShieldCheck } f
 import { formatDistanceToNow } from 'date-fns';
 
 import { PondWithOwnership } from '@/hooks/usePondData';
+import { getSpeciesPreset, formatSpeciesPreset } from '@/lib/speciesPresets';
+import { usePondSensorStatus } from '@/hooks/usePondSensorStatus';
 
 interface PondCardProps {
   pond: PondWithOwnership;
@@ -14,6 +16,14 @@ interface PondCardProps {
 }
 
 export function PondCard({ pond, onClick, className, showOwnerBadge = false }: PondCardProps) {
+  const speciesPreset = getSpeciesPreset(pond.fishType);
+  const speciesLabel = speciesPreset ? formatSpeciesPreset(speciesPreset) : pond.fishType;
+
+  // Sensor warnings/criticals override the connection status
+  const { status: sensorStatus, isStale } = usePondSensorStatus(pond.id);
+  const status: PondWithOwnership['status'] =
+    sensorStatus && sensorStatus !== 'safe' && !isStale ? sensorStatus : pond.status;
+
   const statusColors = {
     online: 'text-status-safe',
     offline: 'text-muted-foreground',
@@ -28,7 +38,7 @@ export function PondCard({ pond, onClick, className, showOwnerBadge = false }: P
     critical: 'bg-status-critical/10',
   };
 
-  const StatusIcon = pond.status === 'offline' ? WifiOff : Wifi;
+  const StatusIcon = status === 'offline' ? WifiOff : Wifi;
 
   return (
     <Card
@@ -68,19 +78,19 @@ export function PondCard({ pond, onClick, className, showOwnerBadge = false }: P
           <div
             className={cn(
               'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium',
-              statusBgColors[pond.status],
-              statusColors[pond.status]
+              statusBgColors[status],
+              statusColors[status]
             )}
           >
             <StatusIcon className="h-3.5 w-3.5" />
-            {pond.status.charAt(0).toUpperCase() + pond.status.slice(1)}
+            {status.charAt(0).toUpperCase() + status.slice(1)}
           </div>
         </div>
 
         <div className="grid grid-cols-2 gap-3 mb-4">
           <div className="flex items-center gap-2 text-sm text-muted-foreground">
             <Fish className="h-4 w-4" />
-            <span>{pond.fishType || 'Unknown'}</span>
+            <span>{speciesLabel || 'Unknown'}</span>
           </div>
           <div className="text-sm text-muted-foreground text-right">
             {pond.capacity?.toLocaleString() || '—'} fish
@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { useRefillConfig } from '@/hooks/useRefillConfig';
+import { RefillConfig } from '@/types/automation';
+
+interface RefillSettingsCardProps {
+  pondId: string;
+  readOnly?: boolean;
+}
+
+type NumericField = Exclude<keyof RefillConfig, 'enabled'>;
+
+const fields: { key: NumericField; label: string; step: number }[] = [
+  { key: 'startBelowCm', label: 'Start below (cm)', step: 1 },
+  { key: 'targetCm', label: 'Refill to (cm)', step: 1 },
+  { key: 'maxRuntimeMinutes', label: 'Max. runtime (min)', step: 5 },
+  { key: 'cooldownMinutes', label: 'Cooldown (min)', step: 5 },
+];
+
+// Built-in auto-mode rule that runs the pumps to bring the water level back up
+export function RefillSettingsCard({ pondId, readOnly = false }: RefillSettingsCardProps) {
+  const { config, isLoading, isSaving, saveConfig } = useRefillConfig(pondId);
+  const [draft, setDraft] = useState(config);
+
+  useEffect(() => {
+    setDraft(config);
+  }, [config]);
+
+  const changed = (Object.keys(config) as (keyof RefillConfig)[]).some(key => draft[key] !== config[key]);
+
+  const handleSave = () => {
+    if (draft.targetCm <= draft.startBelowCm) {
+      toast.error('Refill level must be above the start level');
+      return;
+    }
+    if (draft.maxRuntimeMinutes <= 0) {
+      toast.error('Set a maximum runtime');
+      return;
+    }
+    saveConfig(draft);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6 flex justify-center">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium flex items-center justify-between">
+          Auto Refill
+          <Switch
+            checked={draft.enabled}
+            onCheckedChange={(enabled) => setDraft(prev => ({ ...prev, enabled }))}
+            disabled={readOnly}
+          />
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          With Auto Mode on, pumps start when the level stays below the start level for a minute and stop
+          at the refill level. If the level isn't back in time they stop anyway and an alert is raised.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-4 gap-2">
+          {fields.map(field => (
+            <div key={field.key} className="space-y-1">
+              <Label className="text-[10px] text-muted-foreground">{field.label}</Label>
+              <Input
+                type="number"
+                min={0}
+                step={field.step}
+                className="h-8 text-xs"
+                value={draft[field.key]}
+                onChange={(e) => setDraft(prev => ({ ...prev, [field.key]: Math.max(0, Number(e.target.value) || 0) }))}
+                disabled={readOnly}
+              />
+            </div>
+          ))}
+        </div>
+        {changed && !readOnly && (
+          <Button size="sm" variant="outline" className="w-full h-8" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? <Loader2 className="h-3.5 w-3.5 animate-spin mr-1" /> : <Save className="h-3.5 w-3.5 mr-1" />}
+            Save
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,432 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, Save, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { DEVICE_SENSOR_KEYS, SENSOR_REGISTRY, type SensorKey } from '@/lib/sensorRegistry';
+import {
+  AutomationRule,
+  RuleAction,
+  RuleCondition,
+  RuleDeviceType,
+  RuleOperator,
+  RULE_OPERATORS,
+} from '@/types/automation';
+import type { AutomationRuleInput } from '@/hooks/useAutomationRules';
+import { supportsLevel, type DeviceDefinition } from '@/lib/deviceRegistry';
+
+interface RuleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Rule being edited; null creates a new one
+  rule: AutomationRule | null;
+  // Devices rules may switch, from the pond's registry
+  devices: DeviceDefinition[];
+  isSaving: boolean;
+  onSave: (rule: AutomationRuleInput) => Promise<boolean>;
+}
+
+const defaultCondition = (): RuleCondition => ({
+  type: 'sensor',
+  sensor: 'dissolvedOxygen',
+  operator: '<',
+  value: 4,
+  forSeconds: 300,
+});
+
+const defaultAction = (device: RuleDeviceType): RuleAction => ({ type: 'device', device, state: 'on' });
+
+const newCondition = (type: RuleCondition['type']): RuleCondition =>
+  type === 'time' ? { type: 'time', from: '22:00', to: '06:00' } : defaultCondition();
+
+const newAction = (type: RuleAction['type'], device: RuleDeviceType): RuleAction => {
+  switch (type) {
+    case 'alert':
+      return { type: 'alert', severity: 'warning', message: '' };
+    case 'snapshot':
+      return { type: 'snapshot' };
+    default:
+      return defaultAction(device);
+  }
+};
+
+// Firebase rejects undefined values, and zero durations mean "not set"
+function cleanCondition(condition: RuleCondition): RuleCondition {
+  if (condition.type === 'time') return condition;
+  const { forSeconds, hysteresis, ...rest } = condition;
+  return {
+    ...rest,
+    ...(forSeconds ? { forSeconds } : {}),
+    ...(hysteresis ? { hysteresis } : {}),
+  };
+}
+
+function cleanAction(action: RuleAction): RuleAction {
+  if (action.type !== 'device') return action;
+  const { durationMinutes, level, ...rest } = action;
+  return {
+    ...rest,
+    ...(durationMinutes ? { durationMinutes } : {}),
+    // A level only means something when switching on
+    ...(level !== undefined && action.state === 'on' ? { level } : {}),
+  };
+}
+
+const optionalNumber = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)));
+
+export function RuleEditorDialog({ open, onOpenChange, rule, devices, isSaving, onSave }: RuleEditorDialogProps) {
+  const [name, setName] = useState('');
+  const [conditions, setConditions] = useState<RuleCondition[]>([]);
+  const [actions, setActions] = useState<RuleAction[]>([]);
+  const [minOnMinutes, setMinOnMinutes] = useState<number | undefined>();
+  const [minOffMinutes, setMinOffMinutes] = useState<number | undefined>();
+  const firstDevice = devices.find(d => d.kind === 'aerator')?.key ?? devices[0]?.key ?? 'aerator';
+
+  useEffect(() => {
+    if (!open) return;
+    setName(rule?.name ?? '');
+    setConditions(rule?.conditions.length ? rule.conditions : [defaultCondition()]);
+    setActions(rule?.actions.length ? rule.actions : [defaultAction(firstDevice)]);
+    setMinOnMinutes(rule?.minOnMinutes);
+    setMinOffMinutes(rule?.minOffMinutes);
+  }, [open, rule, firstDevice]);
+
+  const updateCondition = (index: number, next: RuleCondition) =>
+    setConditions(prev => prev.map((c, i) => (i === index ? next : c)));
+
+  const updateAction = (index: number, next: RuleAction) =>
+    setActions(prev => prev.map((a, i) => (i === index ? next : a)));
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Please name the rule');
+      return;
+    }
+    if (!conditions.some(c => c.type === 'sensor')) {
+      toast.error('Add at least one sensor condition');
+      return;
+    }
+    if (actions.length === 0) {
+      toast.error('Add at least one action');
+      return;
+    }
+
+    const success = await onSave({
+      name: name.trim(),
+      enabled: rule?.enabled ?? true,
+      conditions: conditions.map(cleanCondition),
+      actions: actions.map(cleanAction),
+      ...(minOnMinutes ? { minOnMinutes } : {}),
+      ...(minOffMinutes ? { minOffMinutes } : {}),
+    });
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit Rule' : 'New Rule'}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-5 py-2">
+          <div className="space-y-2">
+            <Label>Name</Label>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Night-time low DO"
+            />
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-2">
+            <Label>When all of these are true</Label>
+            {conditions.map((condition, index) => (
+              <div key={index} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={condition.type}
+                    onValueChange={(value: RuleCondition['type']) => updateCondition(index, newCondition(value))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="sensor">Sensor reading</SelectItem>
+                      <SelectItem value="time">Time of day</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground"
+                    onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {condition.type === 'sensor' ? (
+                  <>
+                    <div className="grid grid-cols-[1fr_auto_5rem] gap-2">
+                      <Select
+                        value={condition.sensor}
+                        onValueChange={(value: SensorKey) => updateCondition(index, { ...condition, sensor: value })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {DEVICE_SENSOR_KEYS.map(key => (
+                            <SelectItem key={key} value={key}>{SENSOR_REGISTRY[key].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={condition.operator}
+                        onValueChange={(value: RuleOperator) => updateCondition(index, { ...condition, operator: value })}
+                      >
+                        <SelectTrigger className="h-8 w-16">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {RULE_OPERATORS.map(op => (
+                            <SelectItem key={op} value={op}>{op}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        className="h-8"
+                        step={SENSOR_REGISTRY[condition.sensor]?.thresholdStep ?? 0.1}
+                        value={condition.value}
+                        onChange={(e) => updateCondition(index, { ...condition, value: Number(e.target.value) })}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>for at least</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="h-7 w-16"
+                        value={condition.forSeconds ?? ''}
+                        onChange={(e) => updateCondition(index, { ...condition, forSeconds: optionalNumber(e.target.value) })}
+                      />
+                      <span>seconds</span>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>clear only</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="h-7 w-16"
+                        step={SENSOR_REGISTRY[condition.sensor]?.thresholdStep ?? 0.1}
+                        value={condition.hysteresis ?? ''}
+                        onChange={(e) => updateCondition(index, { ...condition, hysteresis: optionalNumber(e.target.value) })}
+                      />
+                      <span>past the limit (hysteresis)</span>
+                    </div>
+                  </>
+                ) : (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      type="time"
+                      className="h-8"
+                      value={condition.from}
+                      onChange={(e) => updateCondition(index, { ...condition, from: e.target.value })}
+                    />
+                    <Input
+                      type="time"
+                      className="h-8"
+                      value={condition.to}
+                      onChange={(e) => updateCondition(index, { ...condition, to: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setConditions(prev => [...prev, defaultCondition()])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Condition
+            </Button>
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-2">
+            <Label>Then</Label>
+            {actions.map((action, index) => (
+              <div key={index} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center gap-2">
+                  <Select
+                    value={action.type}
+                    onValueChange={(value: RuleAction['type']) => updateAction(index, newAction(value, firstDevice))}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="device">Switch device</SelectItem>
+                      <SelectItem value="alert">Send alert</SelectItem>
+                      <SelectItem value="snapshot">Camera snapshot</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground"
+                    onClick={() => setActions(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+
+                {action.type === 'device' && (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Select
+                        value={action.device}
+                        onValueChange={(value: RuleDeviceType) => updateAction(index, { ...action, device: value })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {devices.map(device => (
+                            <SelectItem key={device.key} value={device.key}>{device.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={action.state}
+                        onValueChange={(value: 'on' | 'off') => updateAction(index, { ...action, state: value })}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="on">Turn ON</SelectItem>
+                          <SelectItem value="off">Turn OFF</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span>for</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="h-7 w-16"
+                        value={action.durationMinutes ?? ''}
+                        onChange={(e) => updateAction(index, { ...action, durationMinutes: optionalNumber(e.target.value) })}
+                      />
+                      <span>minutes (blank = until the rule clears)</span>
+                    </div>
+                    {action.state === 'on' && supportsLevel(devices.find(d => d.key === action.device)) && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>at</span>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="h-7 w-16"
+                          value={action.level ?? ''}
+                          placeholder="100"
+                          onChange={(e) => updateAction(index, {
+                            ...action,
+                            level: e.target.value === '' ? undefined : Math.min(100, Math.max(1, Number(e.target.value))),
+                          })}
+                        />
+                        <span>% level</span>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {action.type === 'alert' && (
+                  <div className="grid grid-cols-[7rem_1fr] gap-2">
+                    <Select
+                      value={action.severity}
+                      onValueChange={(value: 'warning' | 'critical') => updateAction(index, { ...action, severity: value })}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="warning">Warning</SelectItem>
+                        <SelectItem value="critical">Critical</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      className="h-8"
+                      placeholder="Message (defaults to rule name)"
+                      value={action.message}
+                      onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full"
+              onClick={() => setActions(prev => [...prev, defaultAction(firstDevice)])}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Action
+            </Button>
+          </div>
+
+          {/* Anti-chatter */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Min. on (min)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={minOnMinutes ?? ''}
+                onChange={(e) => setMinOnMinutes(optionalNumber(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Min. off (min)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={minOffMinutes ?? ''}
+                onChange={(e) => setMinOffMinutes(optionalNumber(e.target.value))}
+              />
+            </div>
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            {rule ? 'Save Rule' : 'Create Rule'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,89 +1,26 @@
 import { cn } from '@/lib/utils';
 import { Card, CardContent } from '@/components/ui/card';
-import { Droplets, Thermometer, FlaskConical, TrendingUp, TrendingDown, Minus, AlertCircle, Waves } from 'lucide-react';
+import { TrendingUp, TrendingDown, Minus, AlertCircle } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useEffect, useState } from 'react';
 import { useSensorAlerts } from '@/hooks/useSensorAlerts';
 import { Sparkline } from './sensors/Sparkline';
 import { Skeleton } from './ui/skeleton';
+import { SENSOR_REGISTRY, SensorKey } from '@/lib/sensorRegistry';
+import type { ThresholdBand } from '@/lib/thresholds';
+import { evaluateSensorStatus, getStatusBands } from '@/lib/sensorStatus';
 
 interface SensorCardProps {
-  type: 'ph' | 'do' | 'temperature' | 'turbidity' | 'waterLevel';
+  type: SensorKey;
   value: number | null;
   history?: number[];
   className?: string;
   isLoading?: boolean;
   isStale?: boolean;
+  // Pond's configured limits; falls back to the registry safe range
+  threshold?: ThresholdBand;
 }
 
-const sensorConfig = {
-  ph: {
-    label: 'pH Level',
-    unit: 'pH',
-    icon: FlaskConical,
-    min: 6.5,
-    max: 8.5,
-    decimals: 2,
-    getStatus: (value: number): 'safe' | 'warning' | 'critical' => {
-      if (value >= 6.5 && value <= 8.5) return 'safe';
-      if (value >= 6.0 && value <= 9.0) return 'warning';
-      return 'critical';
-    },
-  },
-  do: {
-    label: 'Dissolved O₂',
-    unit: 'mg/L',
-    icon: Droplets,
-    min: 5.0,
-    max: 14.0,
-    decimals: 2,
-    getStatus: (value: number): 'safe' | 'warning' | 'critical' => {
-      if (value >= 5.0) return 'safe';
-      if (value >= 3.0) return 'warning';
-      return 'critical';
-    },
-  },
-  temperature: {
-    label: 'Temperature',
-    unit: '°C',
-    icon: Thermometer,
-    min: 24,
-    max: 32,
-    decimals: 1,
-    getStatus: (value: number): 'safe' | 'warning' | 'critical' => {
-      if (value >= 24 && value <= 32) return 'safe';
-      if (value >= 20 && value <= 35) return 'warning';
-      return 'critical';
-    },
-  },
-  turbidity: {
-    label: 'Turbidity',
-    unit: 'NTU',
-    icon: Droplets,
-    min: 0,
-    max: 50,
-    decimals: 1,
-    getStatus: (value: number): 'safe' | 'warning' | 'critical' => {
-      if (value <= 25) return 'safe';
-      if (value <= 40) return 'warning';
-      return 'critical';
-    },
-  },
-  waterLevel: {
-    label: 'Water Level',
-    unit: 'cm',
-    icon: Waves,
-    min: 0,
-    max: 100,
-    decimals: 1,
-    getStatus: (value: number): 'safe' | 'warning' | 'critical' => {
-      if (value >= 30 && value <= 80) return 'safe';
-      if (value >= 20 && value <= 90) return 'warning';
-      return 'critical';
-    },
-  },
-};
-
 export function SensorCard({ 
   type, 
   value, 
@@ -91,8 +28,9 @@ export function SensorCard({
   className,
   isLoading = false,
   isStale = false,
+  threshold,
 }: SensorCardProps) {
-  const config = sensorConfig[type];
+  const config = SENSOR_REGISTRY[type];
   const Icon = config.icon;
   const [prevValue, setPrevValue] = useState(value);
   const [trend, setTrend] = useState<'up' | 'down' | 'stable'>('stable');
@@ -100,10 +38,10 @@ export function SensorCard({
   // Handle null/undefined values - sensor not configured
   const hasValue = value !== null && value !== undefined;
   const displayValue = hasValue ? value : 0;
-  const status = hasValue ? config.getStatus(displayValue) : 'safe';
+  const status = hasValue ? evaluateSensorStatus(type, displayValue, threshold) : 'safe';
 
   // Enable sound/vibration alerts only for valid values
-  useSensorAlerts(hasValue ? status : 'safe');
+  useSensorAlerts(hasValue ? status : 'safe', true, type);
 
   // Track value trend
   useEffect(() => {
@@ -166,9 +104,15 @@ export function SensorCard({
   const TrendIcon = trend === 'up' ? TrendingUp : trend === 'down' ? TrendingDown : Minus;
 
   // Calculate progress bar position
-  const range = config.max - config.min;
+  const { safe } = getStatusBands(type, threshold);
+  const min = safe.min ?? config.safeRange.min;
+  const max = safe.max ?? config.safeRange.max;
+  const safeLabel = safe.min !== undefined && safe.max !== undefined
+    ? `${min}–${max}`
+    : safe.min !== undefined ? `≥ ${min}` : `≤ ${max}`;
+  const range = max - min;
   const progress = hasValue 
-    ? Math.min(100, Math.max(0, ((displayValue - config.min) / range) * 100))
+    ? Math.min(100, Math.max(0, ((displayValue - min) / range) * 100))
     : 0;
 
   // Loading state
@@ -229,7 +173,7 @@ export function SensorCard({
                   {config.label}
                 </p>
                 <p className="text-xs text-muted-foreground/60">
-                  Safe: {config.min}–{config.max} {config.unit}
+                  Safe: {safeLabel} {config.unit}
                 </p>
               </div>
             </div>
@@ -327,7 +271,7 @@ export function SensorCard({
           {/* Sparkline - only show with valid history */}
           {hasValue && history.length >= 2 && (
             <div className="mb-3">
-              <Sparkline data={history} status={status} height={40} />
+              <Sparkline data={history} type={type} threshold={threshold} height={40} />
             </div>
           )}
 
@@ -350,8 +294,8 @@ export function SensorCard({
             </div>
             {/* Range markers */}
             <div className="flex justify-between mt-1.5 text-[10px] text-muted-foreground/50">
-              <span>{config.min}</span>
-              <span>{config.max}</span>
+              <span>{min}</span>
+              <span>{max}</span>
             </div>
           </div>
         </CardContent>
@@ -0,0 +1,58 @@
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SPECIES_PRESETS, formatSpeciesPreset } from '@/lib/speciesPresets';
+
+// Value used for "no preset" since Radix Select doesn't allow empty item values
+export const NO_SPECIES_PRESET = 'none';
+
+interface SpeciesPresetSelectProps {
+  value?: string | null;
+  onValueChange: (presetId: string | null) => void;
+  placeholder?: string;
+  allowNone?: boolean;
+  disabled?: boolean;
+}
+
+const speciesGroups = Array.from(new Set(SPECIES_PRESETS.map(preset => preset.species)));
+
+export function SpeciesPresetSelect({
+  value,
+  onValueChange,
+  placeholder = 'Select species',
+  allowNone = false,
+  disabled = false,
+}: SpeciesPresetSelectProps) {
+  return (
+    <Select
+      value={value ?? (allowNone ? NO_SPECIES_PRESET : undefined)}
+      onValueChange={(next) => onValueChange(next === NO_SPECIES_PRESET ? null : next)}
+      disabled={disabled}
+    >
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowNone && (
+          <SelectItem value={NO_SPECIES_PRESET}>No preset (use my defaults)</SelectItem>
+        )}
+        {speciesGroups.map(species => (
+          <SelectGroup key={species}>
+            <SelectLabel>{species}</SelectLabel>
+            {SPECIES_PRESETS.filter(preset => preset.species === species).map(preset => (
+              <SelectItem key={preset.id} value={preset.id}>
+                {formatSpeciesPreset(preset)}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
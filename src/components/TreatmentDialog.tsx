@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  PondTreatmentInput,
+  TREATMENT_CATEGORIES,
+  TREATMENT_UNITS,
+  TreatmentCategory,
+} from '@/types/treatment';
+
+interface TreatmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: PondTreatmentInput) => Promise<boolean>;
+}
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export function TreatmentDialog({ open, onOpenChange, onSave }: TreatmentDialogProps) {
+  const [appliedAt, setAppliedAt] = useState(nowInputValue);
+  const [category, setCategory] = useState<TreatmentCategory>('lime');
+  const [product, setProduct] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [unit, setUnit] = useState('kg');
+  const [reason, setReason] = useState('');
+  const [withdrawalDays, setWithdrawalDays] = useState('0');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAppliedAt(nowInputValue());
+    setCategory('lime');
+    setProduct('');
+    setQuantity('');
+    setUnit('kg');
+    setReason('');
+    setWithdrawalDays('0');
+    setNote('');
+  }, [open]);
+
+  const handleCategoryChange = (value: string) => {
+    const option = TREATMENT_CATEGORIES.find(c => c.value === value);
+    if (!option) return;
+    setCategory(option.value);
+    setUnit(option.defaultUnit);
+  };
+
+  const handleSave = async () => {
+    const date = new Date(appliedAt);
+    const quantityValue = Number(quantity);
+    const withdrawalValue = Number(withdrawalDays);
+
+    if (isNaN(date.getTime()) || date > new Date()) {
+      toast.error('Application time cannot be in the future');
+      return;
+    }
+    if (!product.trim()) {
+      toast.error('Enter the product used');
+      return;
+    }
+    if (!(quantityValue > 0)) {
+      toast.error('Enter the quantity applied');
+      return;
+    }
+    if (!Number.isInteger(withdrawalValue) || withdrawalValue < 0 || withdrawalValue > 365) {
+      toast.error('Withdrawal period must be 0–365 days');
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave({
+      appliedAt: date,
+      category,
+      product: product.trim(),
+      quantity: quantityValue,
+      unit,
+      reason: reason.trim() || undefined,
+      withdrawalDays: withdrawalValue,
+      note: note.trim() || undefined,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Record Treatment</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Applied at</Label>
+              <Input
+                type="datetime-local"
+                value={appliedAt}
+                max={nowInputValue()}
+                onChange={(e) => setAppliedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={category} onValueChange={handleCategoryChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TREATMENT_CATEGORIES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Product</Label>
+            <Input
+              value={product}
+              onChange={(e) => setProduct(e.target.value)}
+              placeholder="e.g. Agricultural lime"
+              maxLength={80}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Quantity</Label>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Unit</Label>
+              <Select value={unit} onValueChange={setUnit}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TREATMENT_UNITS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Input value={reason} onChange={(e) => setReason(e.target.value)} placeholder="Optional" maxLength={120} />
+            </div>
+            <div className="space-y-2">
+              <Label>Withdrawal (days)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={365}
+                value={withdrawalDays}
+                onChange={(e) => setWithdrawalDays(e.target.value)}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Harvests within the withdrawal period will need confirming.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Note</Label>
+            <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" maxLength={200} />
+          </div>
+
+          <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+            {isSaving ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Save className="h-4 w-4 mr-2" />
+            )}
+            Save Treatment
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
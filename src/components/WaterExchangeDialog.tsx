@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { exchangePercentFromLevels } from '@/lib/waterExchange';
+import { WATER_SOURCES, WaterExchangeInput, WaterSource } from '@/types/waterExchange';
+
+interface WaterExchangeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Live water level, offered as the refilled level
+  currentLevelCm: number | null;
+  onSave: (input: WaterExchangeInput) => Promise<boolean>;
+}
+
+const nowInputValue = () => format(new Date(), "yyyy-MM-dd'T'HH:mm");
+
+export function WaterExchangeDialog({ open, onOpenChange, ...props }: WaterExchangeDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {/* The content unmounts while closed, so the form starts over on every open */}
+        <WaterExchangeForm onOpenChange={onOpenChange} {...props} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function WaterExchangeForm({ onOpenChange, currentLevelCm, onSave }: Omit<WaterExchangeDialogProps, 'open'>) {
+  const [exchangedAt, setExchangedAt] = useState(nowInputValue);
+  const [source, setSource] = useState<WaterSource>('well');
+  const [levelBefore, setLevelBefore] = useState('');
+  // Prefilled once on open, not on every new reading
+  const [levelAfter, setLevelAfter] = useState(currentLevelCm !== null ? String(currentLevelCm) : '');
+  const [percent, setPercent] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Levels, when both are entered, decide the percent
+  const levelsGiven = levelBefore !== '' && levelAfter !== '';
+  const computedPercent = levelsGiven ? exchangePercentFromLevels(Number(levelBefore), Number(levelAfter)) : null;
+
+  const handleSave = async () => {
+    const date = new Date(exchangedAt);
+    if (isNaN(date.getTime()) || date > new Date()) {
+      toast.error('Exchange time cannot be in the future');
+      return;
+    }
+    if (levelsGiven && computedPercent === null) {
+      toast.error('Refilled level must be above the drained level');
+      return;
+    }
+    const value = computedPercent ?? Number(percent);
+    if (!(value > 0) || value > 100) {
+      toast.error('Enter the percent exchanged (1–100) or both levels');
+      return;
+    }
+
+    setIsSaving(true);
+    const success = await onSave({
+      exchangedAt: date,
+      percent: value,
+      source,
+      levelBeforeCm: levelsGiven ? Number(levelBefore) : undefined,
+      levelAfterCm: levelsGiven ? Number(levelAfter) : undefined,
+      note: note.trim() || undefined,
+    });
+    setIsSaving(false);
+    if (success) onOpenChange(false);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Log Water Exchange</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>When</Label>
+            <Input
+              type="datetime-local"
+              value={exchangedAt}
+              max={nowInputValue()}
+              onChange={(e) => setExchangedAt(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Source</Label>
+            <Select value={source} onValueChange={(value) => setSource(value as WaterSource)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WATER_SOURCES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Drained to (cm)</Label>
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={levelBefore}
+              onChange={(e) => setLevelBefore(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Refilled to (cm)</Label>
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={levelAfter}
+              onChange={(e) => setLevelAfter(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Exchanged (%)</Label>
+          <Input
+            type="number"
+            min={1}
+            max={100}
+            value={computedPercent !== null ? String(computedPercent) : percent}
+            onChange={(e) => setPercent(e.target.value)}
+            disabled={computedPercent !== null}
+          />
+          {computedPercent !== null && (
+            <p className="text-xs text-muted-foreground">Worked out from the drained and refilled levels</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Note</Label>
+          <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" maxLength={200} />
+        </div>
+
+        <Button onClick={handleSave} className="w-full" disabled={isSaving}>
+          {isSaving ? (
+            <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          ) : (
+            <Save className="h-4 w-4 mr-2" />
+          )}
+          Save Exchange
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -1,15 +1,23 @@
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import type { SensorKey } from '@/lib/sensorRegistry';
+import type { ThresholdBand } from '@/lib/thresholds';
+import { evaluateSensorStatus, getStatusBands } from '@/lib/sensorStatus';
 
 interface SparklineProps {
   data: number[];
-  status: 'safe' | 'warning' | 'critical';
+  type: SensorKey;
+  threshold?: ThresholdBand;
   height?: number;
 }
 
-export function Sparkline({ data, status, height = 32 }: SparklineProps) {
+export function Sparkline({ data, type, threshold, height = 32 }: SparklineProps) {
   if (data.length < 2) return null;
 
+  // Colour follows the latest reading, evaluated with the same bands as the card
+  const status = evaluateSensorStatus(type, data[data.length - 1], threshold);
+  const { safe } = getStatusBands(type, threshold);
+
   const min = Math.min(...data);
   const max = Math.max(...data);
   const range = max - min || 1;
@@ -18,10 +26,11 @@ export function Sparkline({ data, status, height = 32 }: SparklineProps) {
   const width = 100;
   const effectiveHeight = height - padding * 2;
   
+  const toY = (value: number) => padding + effectiveHeight - ((value - min) / range) * effectiveHeight;
+
   const points = data.map((value, index) => {
     const x = (index / (data.length - 1)) * width;
-    const y = padding + effectiveHeight - ((value - min) / range) * effectiveHeight;
-    return `${x},${y}`;
+    return `${x},${toY(value)}`;
   }).join(' ');
 
   const statusColors = {
@@ -49,6 +58,23 @@ export function Sparkline({ data, status, height = 32 }: SparklineProps) {
           </linearGradient>
         </defs>
         
+        {/* Threshold lines - only drawn when they fall inside the plotted range */}
+        {[safe.min, safe.max].map((limit, index) =>
+          limit !== undefined && limit >= min && limit <= max ? (
+            <line
+              key={index}
+              x1={0}
+              x2={width}
+              y1={toY(limit)}
+              y2={toY(limit)}
+              stroke="hsl(var(--muted-foreground))"
+              strokeOpacity="0.4"
+              strokeWidth="0.75"
+              strokeDasharray="3 3"
+            />
+          ) : null
+        )}
+
         {/* Area fill */}
         <motion.polygon
           points={areaPoints}
@@ -74,7 +100,7 @@ export function Sparkline({ data, status, height = 32 }: SparklineProps) {
         {/* Current value dot */}
         <motion.circle
           cx={width}
-          cy={padding + effectiveHeight - ((data[data.length - 1] - min) / range) * effectiveHeight}
+          cy={toY(data[data.length - 1])}
           r="2.5"
           fill={statusColors[status]}
           initial={{ scale: 0 }}
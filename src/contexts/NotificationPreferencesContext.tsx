@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { NotificationPreferencesContext } from '@/hooks/useNotificationPreferences';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  DigestFrequency,
+  NotificationPreferences,
+} from '@/types/notifications';
+
+function fromRow(row: Tables<'notification_preferences'>): NotificationPreferences {
+  return {
+    pushEnabled: row.push_enabled,
+    emailEnabled: row.email_enabled,
+    soundEnabled: row.sound_enabled,
+    digestFrequency: row.digest_frequency as DigestFrequency,
+    digestHour: row.digest_hour,
+    quietHoursEnabled: row.quiet_hours_enabled,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end,
+    categories: {
+      critical: row.critical_alerts,
+      warning: row.warning_alerts,
+      dissolved_oxygen: row.dissolved_oxygen_alerts,
+      temperature: row.temperature_alerts,
+      ph: row.ph_alerts,
+    },
+    timezone: row.timezone,
+  };
+}
+
+// The browser's timezone, so digests and quiet hours follow the user's clock
+function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * The signed-in user's notification preferences, loaded once and shared by the
+ * Notifications page and everything that delivers alerts. Users without a saved
+ * row get the defaults; the row is created on first save.
+ */
+export function NotificationPreferencesProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const defaults = { ...DEFAULT_NOTIFICATION_PREFERENCES, timezone: browserTimeZone() };
+    if (!userId) {
+      setPreferences(defaults);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchPreferences = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        const { data, error: fetchError } = await supabase
+          .from('notification_preferences')
+          .select('*')
+          .eq('user_id', userId)
+          .maybeSingle();
+        if (fetchError) throw fetchError;
+        if (!cancelled) setPreferences(data ? fromRow(data) : defaults);
+      } catch (err) {
+        console.error('Error fetching notification preferences:', err);
+        if (!cancelled) setError('Failed to load notification preferences');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPreferences();
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const savePreferences = useCallback(async (next: NotificationPreferences): Promise<boolean> => {
+    if (!userId) return false;
+
+    setIsSaving(true);
+    try {
+      const { data, error: saveError } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: userId,
+          push_enabled: next.pushEnabled,
+          email_enabled: next.emailEnabled,
+          sound_enabled: next.soundEnabled,
+          digest_frequency: next.digestFrequency,
+          digest_hour: next.digestHour,
+          quiet_hours_enabled: next.quietHoursEnabled,
+          quiet_hours_start: next.quietHoursStart,
+          quiet_hours_end: next.quietHoursEnd,
+          critical_alerts: next.categories.critical,
+          warning_alerts: next.categories.warning,
+          dissolved_oxygen_alerts: next.categories.dissolved_oxygen,
+          temperature_alerts: next.categories.temperature,
+          ph_alerts: next.categories.ph,
+          timezone: browserTimeZone(),
+        }, { onConflict: 'user_id' })
+        .select()
+        .single();
+      if (saveError) throw saveError;
+
+      setPreferences(fromRow(data));
+      return true;
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      toast.error('Failed to save notification settings');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [userId]);
+
+  return (
+    <NotificationPreferencesContext.Provider value={{ preferences, isLoading, isSaving, error, savePreferences }}>
+      {children}
+    </NotificationPreferencesContext.Provider>
+  );
+}
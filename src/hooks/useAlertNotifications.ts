@@ -0,0 +1,42 @@
+import { useEffect, useRef } from 'react';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { alertTypeCategory, shouldDeliverAlert } from '@/lib/notificationPreferences';
+import type { Alert } from '@/types/aquaculture';
+
+const SEVERITY_TITLES: Record<Alert['severity'], string> = {
+  critical: 'Critical alert',
+  warning: 'Warning',
+  info: 'Pond update',
+};
+
+/**
+ * Shows a system notification for each alert raised while the app is open,
+ * filtered by the user's notification preferences. Needs the browser's
+ * notification permission, which is asked for when push is turned on.
+ */
+export function useAlertNotifications(alerts: Alert[]) {
+  const { preferences } = useNotificationPreferences();
+  // Alerts from before the app opened are already in the feed
+  const openedAt = useRef(Date.now());
+  const delivered = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+
+    for (const alert of alerts) {
+      if (alert.acknowledged || alert.timestamp.getTime() < openedAt.current) continue;
+      if (delivered.current.has(alert.id)) continue;
+      delivered.current.add(alert.id);
+
+      const category = alertTypeCategory(alert.type);
+      if (!shouldDeliverAlert(preferences, 'push', { severity: alert.severity, category })) continue;
+
+      try {
+        new Notification(SEVERITY_TITLES[alert.severity], { body: alert.message, tag: alert.id });
+      } catch (err) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.error('Error showing notification:', err);
+      }
+    }
+  }, [alerts, preferences]);
+}
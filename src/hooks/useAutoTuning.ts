@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ref, onValue, set } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { toast } from 'sonner';
+import { AutoTuning, AutoTuningCondition, ConditionTuning, DEFAULT_AUTO_TUNING } from '@/types/automation';
+
+/**
+ * Hysteresis, sustain and minimum on/off settings for the built-in auto-mode
+ * rules, stored at ponds/{pondId}/config/auto_tuning and read by the engine.
+ */
+export function useAutoTuning(pondId: string) {
+  const [tuning, setTuning] = useState<AutoTuning>(DEFAULT_AUTO_TUNING);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!database || !pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    const tuningRef = ref(database, `ponds/${pondId}/config/auto_tuning`);
+    const unsubscribe = onValue(
+      tuningRef,
+      (snapshot) => {
+        const data: Partial<Record<AutoTuningCondition, Partial<ConditionTuning>>> = snapshot.val() || {};
+        setTuning({
+          low_do: { ...DEFAULT_AUTO_TUNING.low_do, ...data.low_do },
+          high_temp: { ...DEFAULT_AUTO_TUNING.high_temp, ...data.high_temp },
+        });
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching auto-mode tuning:', err);
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId]);
+
+  const saveTuning = useCallback(async (condition: AutoTuningCondition, next: ConditionTuning): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      await set(ref(database, `ponds/${pondId}/config/auto_tuning/${condition}`), next);
+      toast.success('Auto mode settings saved');
+      return true;
+    } catch (err) {
+      console.error('Error saving auto-mode tuning:', err);
+      toast.error('Failed to save auto mode settings');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId]);
+
+  return { tuning, isLoading, isSaving, saveTuning };
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ref, onValue, set, push, remove, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { toast } from 'sonner';
+import { AutomationRule } from '@/types/automation';
+
+export type AutomationRuleInput = Omit<AutomationRule, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface UseAutomationRulesReturn {
+  rules: AutomationRule[];
+  isLoading: boolean;
+  error: string | null;
+  isSaving: boolean;
+  addRule: (rule: AutomationRuleInput) => Promise<boolean>;
+  updateRule: (ruleId: string, rule: AutomationRuleInput) => Promise<boolean>;
+  deleteRule: (ruleId: string) => Promise<boolean>;
+  toggleRule: (ruleId: string, enabled: boolean) => Promise<boolean>;
+}
+
+export function useAutomationRules(pondId: string): UseAutomationRulesReturn {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!database || !pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    const rulesRef = ref(database, `ponds/${pondId}/rules`);
+
+    const unsubscribe = onValue(
+      rulesRef,
+      (snapshot) => {
+        const data: Record<string, Partial<AutomationRule>> = snapshot.val() || {};
+        const nextRules: AutomationRule[] = Object.entries(data)
+          .filter(([, rule]) => rule && typeof rule === 'object')
+          .map(([id, rule]) => ({
+            id,
+            name: rule.name || 'Untitled rule',
+            enabled: rule.enabled !== false,
+            // Firebase may hand arrays back as index-keyed objects
+            conditions: Object.values(rule.conditions ?? {}),
+            actions: Object.values(rule.actions ?? {}),
+            ...(typeof rule.minOnMinutes === 'number' ? { minOnMinutes: rule.minOnMinutes } : {}),
+            ...(typeof rule.minOffMinutes === 'number' ? { minOffMinutes: rule.minOffMinutes } : {}),
+            createdAt: rule.createdAt || Date.now(),
+            updatedAt: rule.updatedAt || Date.now(),
+          }))
+          .sort((a, b) => a.createdAt - b.createdAt);
+
+        setRules(nextRules);
+        setIsLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error('Error fetching automation rules:', err);
+        setError('Failed to load rules');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId]);
+
+  const addRule = useCallback(async (rule: AutomationRuleInput): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      const newRef = push(ref(database, `ponds/${pondId}/rules`));
+      await set(newRef, { ...rule, createdAt: Date.now(), updatedAt: Date.now() });
+      toast.success('Rule added');
+      return true;
+    } catch (err) {
+      console.error('Error adding rule:', err);
+      toast.error('Failed to add rule');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId]);
+
+  const updateRule = useCallback(async (ruleId: string, rule: AutomationRuleInput): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      // Conditions and actions are replaced wholesale; null clears optional timers
+      await update(ref(database, `ponds/${pondId}/rules/${ruleId}`), {
+        ...rule,
+        minOnMinutes: rule.minOnMinutes ?? null,
+        minOffMinutes: rule.minOffMinutes ?? null,
+        updatedAt: Date.now(),
+      });
+      toast.success('Rule updated');
+      return true;
+    } catch (err) {
+      console.error('Error updating rule:', err);
+      toast.error('Failed to update rule');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId]);
+
+  const deleteRule = useCallback(async (ruleId: string): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      await remove(ref(database, `ponds/${pondId}/rules/${ruleId}`));
+      toast.success('Rule removed');
+      return true;
+    } catch (err) {
+      console.error('Error deleting rule:', err);
+      toast.error('Failed to remove rule');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId]);
+
+  const toggleRule = useCallback(async (ruleId: string, enabled: boolean): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    try {
+      await update(ref(database, `ponds/${pondId}/rules/${ruleId}`), { enabled, updatedAt: Date.now() });
+      return true;
+    } catch (err) {
+      console.error('Error toggling rule:', err);
+      toast.error('Failed to update rule');
+      return false;
+    }
+  }, [pondId]);
+
+  return {
+    rules,
+    isLoading,
+    error,
+    isSaving,
+    addRule,
+    updateRule,
+    deleteRule,
+    toggleRule,
+  };
+}
@@ -0,0 +1,84 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { BiomassEstimate } from '@/types/feeding';
+
+// Standing stock estimates for a pond, oldest first
+export function useBiomassEstimates(pondId: string) {
+  const [estimates, setEstimates] = useState<BiomassEstimate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEstimates = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('biomass_estimates')
+        .select('*')
+        .eq('pond_id', pondId)
+        .order('measured_at', { ascending: true });
+
+      if (fetchError) throw fetchError;
+
+      setEstimates((data || []).map(row => ({
+        id: row.id,
+        measuredAt: new Date(row.measured_at),
+        biomassKg: row.biomass_kg,
+        note: row.note,
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching biomass estimates:', err);
+      setError('Failed to load biomass');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId]);
+
+  useEffect(() => {
+    fetchEstimates();
+  }, [fetchEstimates]);
+
+  const addEstimate = useCallback(async (biomassKg: number, measuredAt: Date, note?: string): Promise<boolean> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const { error: insertError } = await supabase.from('biomass_estimates').insert({
+        pond_id: pondId,
+        biomass_kg: biomassKg,
+        measured_at: measuredAt.toISOString(),
+        note: note || null,
+        created_by: session.user.id,
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Biomass recorded');
+      await fetchEstimates();
+      return true;
+    } catch (err) {
+      console.error('Error recording biomass:', err);
+      toast.error('Failed to record biomass');
+      return false;
+    }
+  }, [pondId, fetchEstimates]);
+
+  const deleteEstimate = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from('biomass_estimates').delete().eq('id', id);
+      if (deleteError) throw deleteError;
+      setEstimates(prev => prev.filter(estimate => estimate.id !== id));
+      return true;
+    } catch (err) {
+      console.error('Error deleting biomass estimate:', err);
+      toast.error('Failed to delete biomass estimate');
+      return false;
+    }
+  }, []);
+
+  return { estimates, isLoading, error, refetch: fetchEstimates, addEstimate, deleteEstimate };
+}
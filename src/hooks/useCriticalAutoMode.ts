@@ -1,174 +1,142 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { ref, set, onValue } from 'firebase/database';
+import { useEffect, useRef, useState } from 'react';
+import { ref, onValue } from 'firebase/database';
 import { database } from '@/lib/firebase';
 import { useUserSettings } from './useUserSettings';
 import { toast } from 'sonner';
 
-interface SensorData {
-  temperature: number;
-  ph: number;
-  dissolvedOxygen: number;
-  turbidity?: number;
-}
+/**
+ * Auto mode runs server-side in the `automation-engine` edge function, which
+ * evaluates ponds/{id}/sensors every minute and switches devices itself.
+ * This hook only displays the engine's state from ponds/{id}/automation/state,
+ * and whether auto mode is on from ponds/{id}/config, the flag the engine reads.
+ */
+
+export type CriticalConditionType = 'low_do' | 'high_temp' | 'low_temp' | 'abnormal_ph';
 
-interface CriticalCondition {
-  type: 'low_do' | 'high_temp' | 'low_temp' | 'abnormal_ph';
+export interface CriticalCondition {
+  type: CriticalConditionType;
   severity: 'warning' | 'critical';
   message: string;
-  action?: 'aerator_on' | 'motor_on' | 'alert_only';
+  value: number;
+  since: Date;
+}
+
+export interface AutoActivation {
+  device: string;
+  // Rule holding the device; built-in rules are prefixed `builtin_`
+  reason: string;
+  since: Date;
+  until: Date | null;
 }
 
-// Validate sensor data to filter invalid readings
-function isValidSensorData(data: SensorData): boolean {
-  // Filter -127 temperature (disconnected sensor)
-  if (data.temperature <= -100 || data.temperature > 50) return false;
-  // Filter negative pH/DO
-  if (data.ph < 0 || data.ph > 14) return false;
-  if (data.dissolvedOxygen < 0 || data.dissolvedOxygen > 20) return false;
-  return true;
+interface EngineStateSnapshot {
+  evaluatedAt?: number;
+  skippedReason?: string;
+  conditions?: Record<string, { severity: CriticalCondition['severity']; message: string; value: number; since: number }>;
+  activeDevices?: Record<string, { reason: string; since: number; until?: number }>;
+  rules?: Record<string, { active: boolean; activatedAt?: number }>;
 }
 
+// Engine runs every minute; no evaluation for 3 minutes means it isn't running
+const ENGINE_STALE_MS = 3 * 60 * 1000;
+
 export function useCriticalAutoMode(pondId: string) {
   const { settings } = useUserSettings();
-  const lastConditionsRef = useRef<string[]>([]);
-  const autoActivatedDevicesRef = useRef<Set<string>>(new Set());
-
-  const checkCriticalConditions = useCallback((sensors: SensorData): CriticalCondition[] => {
-    if (!isValidSensorData(sensors)) return [];
-
-    const conditions: CriticalCondition[] = [];
-    const { temp_min, temp_max, ph_min, ph_max, do_min } = settings;
-
-    // Low Dissolved Oxygen
-    if (sensors.dissolvedOxygen < do_min) {
-      conditions.push({
-        type: 'low_do',
-        severity: sensors.dissolvedOxygen < do_min - 1 ? 'critical' : 'warning',
-        message: `Low DO: ${sensors.dissolvedOxygen.toFixed(1)} mg/L`,
-        action: 'aerator_on',
-      });
-    }
-
-    // High Temperature
-    if (sensors.temperature > temp_max) {
-      conditions.push({
-        type: 'high_temp',
-        severity: sensors.temperature > temp_max + 3 ? 'critical' : 'warning',
-        message: `High Temp: ${sensors.temperature.toFixed(1)}°C`,
-        action: 'motor_on',
-      });
-    }
-
-    // Low Temperature
-    if (sensors.temperature < temp_min) {
-      conditions.push({
-        type: 'low_temp',
-        severity: sensors.temperature < temp_min - 3 ? 'critical' : 'warning',
-        message: `Low Temp: ${sensors.temperature.toFixed(1)}°C`,
-        action: 'alert_only',
-      });
-    }
-
-    // Abnormal pH
-    if (sensors.ph < ph_min || sensors.ph > ph_max) {
-      conditions.push({
-        type: 'abnormal_ph',
-        severity: sensors.ph < ph_min - 0.5 || sensors.ph > ph_max + 0.5 ? 'critical' : 'warning',
-        message: `Abnormal pH: ${sensors.ph.toFixed(2)}`,
-        action: 'alert_only',
-      });
-    }
-
-    return conditions;
-  }, [settings]);
-
-  const activateDevice = useCallback(async (deviceType: string) => {
-    if (!database || !settings.auto_mode_enabled) return;
-
-    try {
-      const deviceRef = ref(database, `ponds/${pondId}/devices/${deviceType}`);
-      await set(deviceRef, { state: 1, mode: 'auto' });
-      autoActivatedDevicesRef.current.add(deviceType);
-      console.log(`[AutoMode] Activated ${deviceType} for pond ${pondId}`);
-    } catch (err) {
-      console.error(`Error activating ${deviceType}:`, err);
-    }
-  }, [pondId, settings.auto_mode_enabled]);
-
-  const deactivateAutoDevices = useCallback(async () => {
-    if (!database) return;
-
-    for (const deviceType of autoActivatedDevicesRef.current) {
-      try {
-        const deviceRef = ref(database, `ponds/${pondId}/devices/${deviceType}`);
-        await set(deviceRef, { state: 0, mode: 'manual' });
-        console.log(`[AutoMode] Deactivated ${deviceType} for pond ${pondId}`);
-      } catch (err) {
-        console.error(`Error deactivating ${deviceType}:`, err);
-      }
-    }
-    autoActivatedDevicesRef.current.clear();
-  }, [pondId]);
+  const [conditions, setConditions] = useState<CriticalCondition[]>([]);
+  const [autoActivatedDevices, setAutoActivatedDevices] = useState<AutoActivation[]>([]);
+  const [activeRuleIds, setActiveRuleIds] = useState<string[]>([]);
+  const [lastEvaluatedAt, setLastEvaluatedAt] = useState<Date | null>(null);
+  const [skippedReason, setSkippedReason] = useState<string | null>(null);
+  const [autoModeEnabled, setAutoModeEnabled] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const lastConditionsRef = useRef<CriticalConditionType[] | null>(null);
 
   useEffect(() => {
-    if (!database || !settings.auto_mode_enabled) return;
-
-    const sensorsRef = ref(database, `ponds/${pondId}/sensors`);
-
-    const unsubscribe = onValue(sensorsRef, async (snapshot) => {
-      const data = snapshot.val();
-      if (!data) return;
-
-      const sensors: SensorData = {
-        temperature: data.temperature ?? 0,
-        ph: data.ph ?? 0,
-        dissolvedOxygen: data.dissolvedOxygen ?? 0,
-        turbidity: data.turbidity ?? 0,
-      };
-
-      const conditions = checkCriticalConditions(sensors);
-      const conditionKeys = conditions.map(c => c.type);
-
-      // Check if conditions changed
+    if (!database || !pondId) return;
+
+    const stateRef = ref(database, `ponds/${pondId}/automation/state`);
+
+    const unsubscribe = onValue(stateRef, (snapshot) => {
+      const data: EngineStateSnapshot = snapshot.val() || {};
+
+      const nextConditions: CriticalCondition[] = Object.entries(data.conditions || {}).map(
+        ([type, condition]) => ({
+          type: type as CriticalConditionType,
+          severity: condition.severity,
+          message: condition.message,
+          value: condition.value,
+          since: new Date(condition.since),
+        })
+      );
+
+      const nextDevices: AutoActivation[] = Object.entries(data.activeDevices || {}).map(
+        ([device, activation]) => ({
+          device,
+          reason: activation.reason,
+          since: new Date(activation.since),
+          until: activation.until ? new Date(activation.until) : null,
+        })
+      );
+
+      // Toast conditions the engine raised since we started watching
       const prevKeys = lastConditionsRef.current;
-      const hasNewConditions = conditionKeys.some(k => !prevKeys.includes(k));
-      const conditionsResolved = prevKeys.length > 0 && conditionKeys.length === 0;
-
-      if (hasNewConditions && settings.alerts_enabled) {
-        // New critical condition detected
-        for (const condition of conditions) {
-          if (!prevKeys.includes(condition.type)) {
-            // Show alert
-            if (condition.severity === 'critical') {
-              toast.error(condition.message, { duration: 10000 });
-            } else {
-              toast.warning(condition.message, { duration: 5000 });
-            }
-
-            // Execute auto action
-            if (condition.action === 'aerator_on') {
-              await activateDevice('aerator');
-            } else if (condition.action === 'motor_on') {
-              await activateDevice('motor');
-            }
+      if (prevKeys && settings.alerts_enabled) {
+        for (const condition of nextConditions) {
+          if (prevKeys.includes(condition.type)) continue;
+          if (condition.severity === 'critical') {
+            toast.error(condition.message, { duration: 10000 });
+          } else {
+            toast.warning(condition.message, { duration: 5000 });
           }
         }
+        if (prevKeys.length > 0 && nextConditions.length === 0) {
+          toast.success('Sensor values returned to safe range');
+        }
       }
+      lastConditionsRef.current = nextConditions.map(c => c.type);
+
+      setConditions(nextConditions);
+      setAutoActivatedDevices(nextDevices);
+      setActiveRuleIds(
+        Object.entries(data.rules || {}).filter(([, rule]) => rule?.active).map(([id]) => id)
+      );
+      setLastEvaluatedAt(data.evaluatedAt ? new Date(data.evaluatedAt) : null);
+      setSkippedReason(data.skippedReason ?? null);
+    }, (error) => {
+      console.error('Error reading automation state:', error);
+    });
 
-      // Conditions resolved - deactivate auto devices
-      if (conditionsResolved) {
-        toast.success('Sensor values returned to safe range');
-        await deactivateAutoDevices();
-      }
+    return () => unsubscribe();
+  }, [pondId, settings.alerts_enabled]);
 
-      lastConditionsRef.current = conditionKeys;
+  useEffect(() => {
+    if (!database || !pondId) return;
+
+    const flagRef = ref(database, `ponds/${pondId}/config/auto_mode_enabled`);
+    const unsubscribe = onValue(flagRef, (snapshot) => {
+      setAutoModeEnabled(snapshot.val() === true);
+    }, (error) => {
+      console.error('Error reading auto mode flag:', error);
     });
 
     return () => unsubscribe();
-  }, [pondId, settings.auto_mode_enabled, settings.alerts_enabled, checkCriticalConditions, activateDevice, deactivateAutoDevices]);
+  }, [pondId]);
+
+  // Re-check engine liveness even when the state doesn't change
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const isEngineStale = !lastEvaluatedAt || now - lastEvaluatedAt.getTime() > ENGINE_STALE_MS;
 
   return {
-    isAutoModeActive: settings.auto_mode_enabled,
-    autoActivatedDevices: Array.from(autoActivatedDevicesRef.current),
+    isAutoModeActive: autoModeEnabled,
+    autoActivatedDevices,
+    activeRuleIds,
+    conditions,
+    lastEvaluatedAt,
+    skippedReason,
+    isEngineStale,
   };
 }
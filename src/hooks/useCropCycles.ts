@@ -0,0 +1,311 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAlertsInRange } from '@/lib/dataExport';
+import { toast } from 'sonner';
+import type {
+  CropCycle,
+  CycleConditions,
+  CycleHarvestInput,
+  CycleMortalityInput,
+  CycleRecordKind,
+  CycleSamplingInput,
+  CycleStockingInput,
+} from '@/types/cropCycle';
+
+const recordTables = {
+  sampling: 'cycle_samplings',
+  mortality: 'cycle_mortalities',
+  harvest: 'cycle_harvests',
+} as const;
+
+// Postgres exclusion_violation, from no_overlapping_crop_cycles
+const OVERLAP_ERROR = '23P01';
+
+const byTime = <T,>(key: keyof T) => (a: T, b: T) =>
+  (a[key] as Date).getTime() - (b[key] as Date).getTime();
+
+// Crop cycles for a pond with their samplings, mortalities and harvests, newest cycle first
+export function useCropCycles(pondId: string) {
+  const [cycles, setCycles] = useState<CropCycle[]>([]);
+  const [conditions, setConditions] = useState<Record<string, CycleConditions>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCycles = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('crop_cycles')
+        .select('*, cycle_samplings(*), cycle_mortalities(*), cycle_harvests(*)')
+        .eq('pond_id', pondId)
+        .order('stocked_at', { ascending: false });
+
+      if (fetchError) throw fetchError;
+
+      setCycles((data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        species: row.species,
+        stockedAt: new Date(row.stocked_at),
+        stockedCount: row.stocked_count,
+        stockingWeightG: row.stocking_weight_g,
+        targetWeightG: row.target_weight_g,
+        hatchery: row.hatchery,
+        endedAt: row.ended_at ? new Date(row.ended_at) : null,
+        note: row.note,
+        samplings: row.cycle_samplings.map(s => ({
+          id: s.id,
+          sampledAt: new Date(s.sampled_at),
+          sampleCount: s.sample_count,
+          avgWeightG: s.avg_weight_g,
+          note: s.note,
+        })).sort(byTime('sampledAt')),
+        mortalities: row.cycle_mortalities.map(m => ({
+          id: m.id,
+          recordedAt: new Date(m.recorded_at),
+          count: m.count,
+          cause: m.cause,
+          note: m.note,
+        })).sort(byTime('recordedAt')),
+        harvests: row.cycle_harvests.map(h => ({
+          id: h.id,
+          harvestedAt: new Date(h.harvested_at),
+          weightKg: h.weight_kg,
+          count: h.count,
+          pricePerKg: h.price_per_kg,
+          buyer: h.buyer,
+          isFinal: h.is_final,
+          note: h.note,
+        })).sort(byTime('harvestedAt')),
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching crop cycles:', err);
+      setError('Failed to load crop cycles');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId]);
+
+  useEffect(() => {
+    fetchCycles();
+  }, [fetchCycles]);
+
+  // Water conditions per cycle, for the comparison table
+  useEffect(() => {
+    if (cycles.length === 0) return;
+    let cancelled = false;
+
+    Promise.all(cycles.map(async cycle => {
+      // Readings are summarised in Postgres; alerts are only kept in Firebase
+      const [{ data, error: rpcError }, alerts] = await Promise.all([
+        supabase.rpc('crop_cycle_conditions', { _cycle_id: cycle.id }),
+        // The window is [stockedAt, endedAt); endAt is inclusive
+        fetchAlertsInRange(pondId, cycle.stockedAt, new Date((cycle.endedAt ?? new Date()).getTime() - 1)),
+      ]);
+      if (rpcError) throw rpcError;
+      const row = data?.[0];
+      if (!row) return null;
+      return [cycle.id, {
+        readingCount: row.reading_count,
+        avgTemperature: row.avg_temperature,
+        avgPh: row.avg_ph,
+        avgDissolvedOxygen: row.avg_dissolved_oxygen,
+        minDissolvedOxygen: row.min_dissolved_oxygen,
+        alertCount: alerts.length,
+        criticalAlertCount: alerts.filter(alert => alert.severity === 'critical').length,
+      }] as const;
+    }))
+      .then(results => {
+        if (cancelled) return;
+        setConditions(Object.fromEntries(results.filter((entry): entry is NonNullable<typeof entry> => entry !== null)));
+      })
+      .catch(err => console.error('Error fetching cycle conditions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [cycles, pondId]);
+
+  const getUserId = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error('Not signed in');
+    return session.user.id;
+  };
+
+  const startCycle = useCallback(async (input: CycleStockingInput): Promise<boolean> => {
+    try {
+      const { error: insertError } = await supabase.from('crop_cycles').insert({
+        pond_id: pondId,
+        name: input.name,
+        species: input.species,
+        stocked_at: input.stockedAt.toISOString(),
+        stocked_count: input.stockedCount,
+        stocking_weight_g: input.stockingWeightG ?? null,
+        target_weight_g: input.targetWeightG ?? null,
+        hatchery: input.hatchery || null,
+        note: input.note || null,
+        created_by: await getUserId(),
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Cycle started');
+      await fetchCycles();
+      return true;
+    } catch (err) {
+      console.error('Error starting crop cycle:', err);
+      const overlaps = (err as { code?: string })?.code === OVERLAP_ERROR;
+      toast.error(overlaps ? 'Cycles in a pond cannot overlap — end the current one first' : 'Failed to start cycle');
+      return false;
+    }
+  }, [pondId, fetchCycles]);
+
+  const endCycle = useCallback(async (cycleId: string, endedAt: Date): Promise<boolean> => {
+    try {
+      const { error: updateError } = await supabase
+        .from('crop_cycles')
+        .update({ ended_at: endedAt.toISOString() })
+        .eq('id', cycleId);
+
+      if (updateError) throw updateError;
+      toast.success('Cycle ended');
+      await fetchCycles();
+      return true;
+    } catch (err) {
+      console.error('Error ending crop cycle:', err);
+      toast.error('Failed to end cycle');
+      return false;
+    }
+  }, [fetchCycles]);
+
+  const deleteCycle = useCallback(async (cycleId: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from('crop_cycles').delete().eq('id', cycleId);
+      if (deleteError) throw deleteError;
+      setCycles(prev => prev.filter(cycle => cycle.id !== cycleId));
+      toast.success('Cycle deleted');
+      return true;
+    } catch (err) {
+      console.error('Error deleting crop cycle:', err);
+      toast.error('Failed to delete cycle');
+      return false;
+    }
+  }, []);
+
+  const addSampling = useCallback(async (cycleId: string, input: CycleSamplingInput): Promise<boolean> => {
+    try {
+      const { error: insertError } = await supabase.from('cycle_samplings').insert({
+        cycle_id: cycleId,
+        pond_id: pondId,
+        sampled_at: input.sampledAt.toISOString(),
+        sample_count: input.sampleCount,
+        avg_weight_g: input.avgWeightG,
+        note: input.note || null,
+        created_by: await getUserId(),
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Sampling recorded');
+      await fetchCycles();
+      return true;
+    } catch (err) {
+      console.error('Error recording sampling:', err);
+      toast.error('Failed to record sampling');
+      return false;
+    }
+  }, [pondId, fetchCycles]);
+
+  const addMortality = useCallback(async (cycleId: string, input: CycleMortalityInput): Promise<boolean> => {
+    try {
+      const { error: insertError } = await supabase.from('cycle_mortalities').insert({
+        cycle_id: cycleId,
+        pond_id: pondId,
+        recorded_at: input.recordedAt.toISOString(),
+        count: input.count,
+        cause: input.cause || null,
+        note: input.note || null,
+        created_by: await getUserId(),
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Mortality recorded');
+      await fetchCycles();
+      return true;
+    } catch (err) {
+      console.error('Error recording mortality:', err);
+      toast.error('Failed to record mortality');
+      return false;
+    }
+  }, [pondId, fetchCycles]);
+
+  // A final harvest also ends the cycle at the harvest time
+  const addHarvest = useCallback(async (cycleId: string, input: CycleHarvestInput): Promise<boolean> => {
+    try {
+      const { error: insertError } = await supabase.from('cycle_harvests').insert({
+        cycle_id: cycleId,
+        pond_id: pondId,
+        harvested_at: input.harvestedAt.toISOString(),
+        weight_kg: input.weightKg,
+        count: input.count ?? null,
+        price_per_kg: input.pricePerKg ?? null,
+        buyer: input.buyer || null,
+        is_final: input.isFinal,
+        note: input.note || null,
+        created_by: await getUserId(),
+      });
+
+      if (insertError) throw insertError;
+
+      if (input.isFinal) {
+        const { error: updateError } = await supabase
+          .from('crop_cycles')
+          .update({ ended_at: input.harvestedAt.toISOString() })
+          .eq('id', cycleId);
+        if (updateError) throw updateError;
+      }
+
+      toast.success(input.isFinal ? 'Harvest recorded, cycle closed' : 'Harvest recorded');
+      await fetchCycles();
+      return true;
+    } catch (err) {
+      console.error('Error recording harvest:', err);
+      toast.error('Failed to record harvest');
+      return false;
+    }
+  }, [pondId, fetchCycles]);
+
+  const deleteRecord = useCallback(async (kind: CycleRecordKind, id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from(recordTables[kind]).delete().eq('id', id);
+      if (deleteError) throw deleteError;
+      await fetchCycles();
+      return true;
+    } catch (err) {
+      console.error(`Error deleting ${kind}:`, err);
+      toast.error('Failed to delete record');
+      return false;
+    }
+  }, [fetchCycles]);
+
+  const activeCycle = cycles.find(cycle => cycle.endedAt === null) ?? null;
+
+  return {
+    cycles,
+    activeCycle,
+    conditions,
+    isLoading,
+    error,
+    refetch: fetchCycles,
+    startCycle,
+    endCycle,
+    deleteCycle,
+    addSampling,
+    addMortality,
+    addHarvest,
+    deleteRecord,
+  };
+}
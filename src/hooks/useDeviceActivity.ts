@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { AckResult, ActivitySource, DeviceActivity } from '@/types/activity';
+
+export interface DeviceActivityFilters {
+  deviceType: string | 'all';
+  source: ActivitySource | 'all';
+  days: number;
+}
+
+const PAGE_SIZE = 200;
+
+// Device state changes from the device_activity audit log, newest first
+export function useDeviceActivity(pondId: string, filters: DeviceActivityFilters) {
+  const [activity, setActivity] = useState<DeviceActivity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivity = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from('device_activity')
+        .select('*')
+        .eq('pond_id', pondId)
+        .gte('created_at', subDays(new Date(), filters.days).toISOString())
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (filters.deviceType !== 'all') query = query.eq('device_type', filters.deviceType);
+      if (filters.source !== 'all') query = query.eq('source', filters.source);
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      // Resolve display names for manual changes
+      const actorIds = [...new Set((data || []).map(row => row.actor_id).filter((id): id is string => !!id))];
+      const names: Record<string, string> = {};
+      if (actorIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from('profiles')
+          .select('user_id, full_name')
+          .in('user_id', actorIds);
+        for (const profile of profiles || []) {
+          if (profile.full_name) names[profile.user_id] = profile.full_name;
+        }
+      }
+
+      setActivity((data || []).map(row => ({
+        id: row.id,
+        deviceType: row.device_type,
+        source: row.source as ActivitySource,
+        actorId: row.actor_id,
+        actorLabel: row.actor_label,
+        actorName: row.actor_id ? names[row.actor_id] : undefined,
+        previousState: row.previous_state === 0 || row.previous_state === 1 ? row.previous_state : null,
+        newState: row.new_state === 1 ? 1 : 0,
+        previousLevel: row.previous_level,
+        newLevel: row.new_level,
+        commandId: row.command_id,
+        ackResult: row.ack_result as AckResult,
+        ackedAt: row.acked_at ? new Date(row.acked_at) : null,
+        createdAt: new Date(row.created_at),
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching device activity:', err);
+      setError('Failed to load device activity');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId, filters.deviceType, filters.source, filters.days]);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  return { activity, isLoading, error, refetch: fetchActivity };
+}
@@ -1,22 +1,95 @@
 import { useState, useCallback } from 'react';
-import { ref, set, onValue, off } from 'firebase/database';
-import { database, ensureAuth } from '@/lib/firebase';
+import { ref, get } from 'firebase/database';
+import { database, ensureAuth, getCurrentUser } from '@/lib/firebase';
+import { logManualActivity } from '@/lib/deviceActivity';
+import {
+  COMMAND_ACK_TIMEOUT_MS,
+  COMMAND_MAX_ATTEMPTS,
+  ackMatches,
+  createCommand,
+  waitForAck,
+  writeCommand,
+} from '@/lib/deviceCommands';
 
-export type CommandStatus = 'idle' | 'sending' | 'sent' | 'acknowledged' | 'error';
+export type CommandStatus = 'idle' | 'sending' | 'sent' | 'retrying' | 'acknowledged' | 'unconfirmed' | 'error';
 
 interface UseDeviceCommandReturn {
   status: CommandStatus;
-  sendCommand: (pondId: string, deviceType: string, state: 0 | 1, mode?: 'manual' | 'auto') => Promise<boolean>;
+  attempt: number;
+  sendCommand: (pondId: string, deviceType: string, state: 0 | 1, mode?: 'manual' | 'auto', level?: number) => Promise<boolean>;
+}
+
+interface SendDeviceCommandOptions {
+  mode?: 'manual' | 'auto';
+  onAttempt?: (attempt: number) => void;
+  // Shown in the activity log, e.g. "All Off"
+  label?: string;
+  // 0-100% for variable-level devices; `state` should be 1 for any level above zero
+  level?: number;
+}
+
+// Send a command and retry until the ESP32 acks it or we run out of attempts
+export async function sendDeviceCommand(
+  pondId: string,
+  deviceType: string,
+  state: 0 | 1,
+  { mode = 'manual', onAttempt, label, level }: SendDeviceCommandOptions = {}
+): Promise<'acknowledged' | 'mismatch' | 'unconfirmed'> {
+  // Try to ensure auth, but don't block if it fails
+  // Firebase rules will reject unauthorized writes anyway
+  await ensureAuth().catch(() => {
+    console.log('Auth not available, attempting write anyway');
+  });
+
+  const previous = await get(ref(database, `ponds/${pondId}/devices/${deviceType}`))
+    .then(snapshot => snapshot.val() as { state?: number; level?: number } | null)
+    .catch(() => null);
+
+  const command = createCommand(state, mode, 'app', getCurrentUser()?.uid, level);
+  let result: 'acknowledged' | 'mismatch' | 'unconfirmed' = 'unconfirmed';
+
+  for (let attempt = 1; attempt <= COMMAND_MAX_ATTEMPTS; attempt++) {
+    onAttempt?.(attempt);
+    const issuedAt = Date.now();
+    // Retries re-send the same command id, so a late ack for an earlier attempt still counts
+    await writeCommand(pondId, deviceType, {
+      ...command,
+      attempt,
+      issuedAt,
+      expiresAt: issuedAt + COMMAND_ACK_TIMEOUT_MS,
+    });
+
+    const ack = await waitForAck(pondId, deviceType, command.id, COMMAND_ACK_TIMEOUT_MS);
+    if (ack) {
+      result = ackMatches(command, ack) ? 'acknowledged' : 'mismatch';
+      break;
+    }
+  }
+
+  await logManualActivity({
+    pondId,
+    deviceType,
+    previousState: previous?.state === 1 ? 1 : previous?.state === 0 ? 0 : null,
+    newState: state,
+    ...(level !== undefined ? { previousLevel: previous?.level ?? null, newLevel: level } : {}),
+    commandId: command.id,
+    ackResult: result,
+    label,
+  });
+
+  return result;
 }
 
 export function useDeviceCommand(): UseDeviceCommandReturn {
   const [status, setStatus] = useState<CommandStatus>('idle');
+  const [attempt, setAttempt] = useState(0);
 
   const sendCommand = useCallback(async (
     pondId: string,
     deviceType: string,
     state: 0 | 1,
-    mode: 'manual' | 'auto' = 'manual'
+    mode: 'manual' | 'auto' = 'manual',
+    level?: number
   ): Promise<boolean> => {
     if (!database) {
       setStatus('error');
@@ -26,43 +99,18 @@ export function useDeviceCommand(): UseDeviceCommandReturn {
     setStatus('sending');
 
     try {
-      // Try to ensure auth, but don't block if it fails
-      // Firebase rules will reject unauthorized writes anyway
-      await ensureAuth().catch(() => {
-        console.log('Auth not available, attempting write anyway');
+      const result = await sendDeviceCommand(pondId, deviceType, state, {
+        mode,
+        level,
+        onAttempt: (n) => {
+          setAttempt(n);
+          setStatus(n === 1 ? 'sent' : 'retrying');
+        },
       });
 
-      // IMPORTANT: Match the exact paths the rest of the app (and security rules) expect.
-      // Do NOT overwrite `ponds/{pondId}/devices/{deviceType}` with an object.
-      const modeRef = ref(database, `ponds/${pondId}/devices/${deviceType}/mode`);
-      const stateRef = ref(database, `ponds/${pondId}/devices/${deviceType}/state`);
-
-      await set(modeRef, mode);
-      await set(stateRef, state);
-      
-      setStatus('sent');
-
-      // Listen for acknowledgment from ESP32
-      const ackRef = ref(database, `ponds/${pondId}/devices/${deviceType}/ack`);
-      
-      return new Promise((resolve) => {
-        const timeout = setTimeout(() => {
-          off(ackRef);
-          // Even without ack, command was sent
-          setStatus('sent');
-          resolve(true);
-        }, 3000); // 3 second timeout for ack
-
-        onValue(ackRef, (snapshot) => {
-          const ackTime = snapshot.val();
-          if (ackTime && Date.now() - ackTime < 5000) {
-            clearTimeout(timeout);
-            off(ackRef);
-            setStatus('acknowledged');
-            resolve(true);
-          }
-        });
-      });
+      // The board answered with a different relay state - treat as a failure
+      setStatus(result === 'mismatch' ? 'error' : result);
+      return result === 'acknowledged';
     } catch (err) {
       console.error('Command error:', err);
       setStatus('error');
@@ -70,18 +118,22 @@ export function useDeviceCommand(): UseDeviceCommandReturn {
     }
   }, []);
 
-  return { status, sendCommand };
+  return { status, attempt, sendCommand };
 }
 
 // Status display helper
-export function getCommandStatusDisplay(status: CommandStatus): { text: string; color: string } {
+export function getCommandStatusDisplay(status: CommandStatus, attempt = 0): { text: string; color: string } {
   switch (status) {
     case 'sending':
       return { text: 'Sending...', color: 'text-muted-foreground' };
     case 'sent':
-      return { text: 'Command Sent', color: 'text-primary' };
+      return { text: 'Waiting for device...', color: 'text-primary' };
+    case 'retrying':
+      return { text: `Retrying (${attempt}/${COMMAND_MAX_ATTEMPTS})...`, color: 'text-status-warning' };
     case 'acknowledged':
       return { text: 'Device Acknowledged', color: 'text-status-safe' };
+    case 'unconfirmed':
+      return { text: 'Device did not confirm', color: 'text-status-warning' };
     case 'error':
       return { text: 'Command Failed', color: 'text-destructive' };
     default:
@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { ref, onValue } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { CommandConfirmation, DeviceAck, DeviceCommandEnvelope, getCommandConfirmation } from '@/lib/deviceCommands';
+
+type DeviceSnapshot = { command?: DeviceCommandEnvelope; ack?: DeviceAck };
+
+// Confirmation state of the latest command for every device in a pond,
+// whoever issued it (app, automation engine or schedule executor)
+export function useDeviceConfirmations(pondId: string): Record<string, CommandConfirmation> {
+  const [devices, setDevices] = useState<Record<string, DeviceSnapshot>>({});
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!database || !pondId) return;
+
+    const devicesRef = ref(database, `ponds/${pondId}/devices`);
+    const unsubscribe = onValue(
+      devicesRef,
+      (snapshot) => {
+        setDevices(snapshot.val() || {});
+        setNow(Date.now());
+      },
+      (error) => {
+        console.error('Error reading device commands:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId]);
+
+  // Re-evaluate when the next pending command expires
+  useEffect(() => {
+    const nextExpiry = Object.values(devices)
+      .map(d => d?.command?.expiresAt ?? 0)
+      .filter(expiresAt => expiresAt > now)
+      .sort((a, b) => a - b)[0];
+    if (!nextExpiry) return;
+
+    const timeout = setTimeout(() => setNow(Date.now()), nextExpiry - now + 100);
+    return () => clearTimeout(timeout);
+  }, [devices, now]);
+
+  const confirmations: Record<string, CommandConfirmation> = {};
+  for (const [type, device] of Object.entries(devices)) {
+    confirmations[type] = getCommandConfirmation(device, now);
+  }
+  return confirmations;
+}
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { ref, onValue } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { DeviceHold, DeviceHoldKind } from '@/types/automation';
+
+// The automation engine's current hold timer for one device, if any
+export function useDeviceHold(pondId: string, deviceType: string): DeviceHold | null {
+  const [hold, setHold] = useState<DeviceHold | null>(null);
+
+  useEffect(() => {
+    if (!database || !pondId) return;
+
+    const holdRef = ref(database, `ponds/${pondId}/automation/state/holds/${deviceType}`);
+    const unsubscribe = onValue(
+      holdRef,
+      (snapshot) => {
+        const data = snapshot.val() as { kind: DeviceHoldKind; ruleId: string; until: number } | null;
+        setHold(data ? { kind: data.kind, ruleId: data.ruleId, until: new Date(data.until) } : null);
+      },
+      (error) => {
+        console.error('Error reading device hold:', error);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId, deviceType]);
+
+  return hold;
+}
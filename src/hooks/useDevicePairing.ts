@@ -1,5 +1,5 @@
 import { useState, useCallback } from 'react';
-import { ref, set, get } from 'firebase/database';
+import { ref, set, get, update } from 'firebase/database';
 import { database } from '@/lib/firebase';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
@@ -44,8 +44,10 @@ export function useDevicePairing(): UseDevicePairingReturn {
       const normalizedPondId = pondId.trim().toUpperCase();
 
       // Check if this pond ID already exists and is owned by someone else
+      let relinking = false;
       if (database) {
         const existingPond = await get(ref(database, `ponds/${normalizedPondId}`));
+        relinking = existingPond.exists();
         if (existingPond.exists()) {
           const data = existingPond.val();
           if (data.ownerUid && data.ownerUid !== user.id) {
@@ -66,9 +68,12 @@ export function useDevicePairing(): UseDevicePairingReturn {
         throw new Error(supabaseError.message);
       }
 
-      // 2. Initialize/update in Firebase with owner credentials
+      // 2. Initialize/update in Firebase with owner credentials. The rules only
+      // allow setting the whole pond when creating it, so a re-link updates
+      // its children instead (which also keeps the server-written ones).
       if (database) {
-        await set(ref(database, `ponds/${normalizedPondId}`), {
+        const pondRef = ref(database, `ponds/${normalizedPondId}`);
+        await (relinking ? update : set)(pondRef, {
           name,
           ownerUid: user.id, // CRITICAL: Lock to this user's UID
           ownerEmail: user.email, // Display only
@@ -0,0 +1,142 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ref, onValue, update } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { toast } from 'sonner';
+import {
+  DEFAULT_DEVICES,
+  DeviceDefinition,
+  createDeviceKey,
+  parseDeviceRegistry,
+} from '@/lib/deviceRegistry';
+
+export type DeviceDefinitionInput = Omit<DeviceDefinition, 'key' | 'order'>;
+
+interface UseDeviceRegistryReturn {
+  devices: DeviceDefinition[];
+  isLoading: boolean;
+  error: string | null;
+  isSaving: boolean;
+  addDevice: (device: DeviceDefinitionInput) => Promise<boolean>;
+  updateDevice: (key: string, device: DeviceDefinitionInput) => Promise<boolean>;
+  removeDevice: (key: string) => Promise<boolean>;
+}
+
+function toRecord(device: DeviceDefinition) {
+  return {
+    name: device.name,
+    kind: device.kind,
+    icon: device.icon,
+    channel: device.channel,
+    powerWatts: device.powerWatts ?? null,
+    capabilities: device.capabilities,
+    levelStep: device.levelStep ?? null,
+    gramsPerSecond: device.gramsPerSecond ?? null,
+    order: device.order,
+  };
+}
+
+export function useDeviceRegistry(pondId: string): UseDeviceRegistryReturn {
+  const [devices, setDevices] = useState<DeviceDefinition[]>(DEFAULT_DEVICES);
+  // False until the pond has saved its own registry
+  const [isStored, setIsStored] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!database || !pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    const registryRef = ref(database, `ponds/${pondId}/deviceRegistry`);
+
+    const unsubscribe = onValue(
+      registryRef,
+      (snapshot) => {
+        setDevices(parseDeviceRegistry(snapshot.val()));
+        setIsStored(snapshot.exists());
+        setIsLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error('Error fetching device registry:', err);
+        setError('Failed to load devices');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId]);
+
+  // Multi-path update under the pond; the first edit also saves the default devices
+  const save = useCallback(async (updates: Record<string, unknown>, success: string, failure: string): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      const seeded: Record<string, unknown> = {};
+      if (!isStored) {
+        for (const device of devices) seeded[`deviceRegistry/${device.key}`] = toRecord(device);
+      }
+      await update(ref(database, `ponds/${pondId}`), { ...seeded, ...updates });
+      toast.success(success);
+      return true;
+    } catch (err) {
+      console.error(`${failure}:`, err);
+      toast.error(failure);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId, devices, isStored]);
+
+  const channelTaken = useCallback((channel: number, exceptKey?: string) => {
+    const owner = devices.find(d => d.channel === channel && d.key !== exceptKey);
+    if (owner) toast.error(`Relay channel ${channel} is already used by ${owner.name}`);
+    return !!owner;
+  }, [devices]);
+
+  const addDevice = useCallback(async (input: DeviceDefinitionInput): Promise<boolean> => {
+    if (channelTaken(input.channel)) return false;
+
+    const key = createDeviceKey(input.kind, devices.map(d => d.key));
+    const order = devices.reduce((max, d) => Math.max(max, d.order + 1), 0);
+    return save({
+      [`deviceRegistry/${key}`]: toRecord({ ...input, key, order }),
+      // Create the control node the controller listens on, off and in manual mode
+      [`devices/${key}/state`]: 0,
+      [`devices/${key}/mode`]: 'manual',
+      [`devices/${key}/channel`]: input.channel,
+    }, `${input.name} added`, 'Failed to add device');
+  }, [devices, save, channelTaken]);
+
+  const updateDevice = useCallback(async (key: string, input: DeviceDefinitionInput): Promise<boolean> => {
+    if (channelTaken(input.channel, key)) return false;
+
+    const existing = devices.find(d => d.key === key);
+    return save({
+      [`deviceRegistry/${key}`]: toRecord({ ...input, key, order: existing?.order ?? devices.length }),
+      [`devices/${key}/channel`]: input.channel,
+    }, 'Device updated', 'Failed to update device');
+  }, [devices, save, channelTaken]);
+
+  const removeDevice = useCallback(async (key: string): Promise<boolean> => {
+    const name = devices.find(d => d.key === key)?.name ?? key;
+    return save({
+      [`deviceRegistry/${key}`]: null,
+      [`devices/${key}`]: null,
+      [`schedules/${key}`]: null,
+    }, `${name} removed`, 'Failed to remove device');
+  }, [devices, save]);
+
+  return {
+    devices,
+    isLoading,
+    error,
+    isSaving,
+    addDevice,
+    updateDevice,
+    removeDevice,
+  };
+}
@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { feedCost } from '@/lib/feeding';
+import { FeedDetails, FeedLogEntry, FeedSource, FeedStatus } from '@/types/feeding';
+
+const PAGE_SIZE = 1000;
+
+// Feed given by hand, without a feeder
+export interface HandFeedingInput extends FeedDetails {
+  grams: number;
+  fedAt: Date;
+  note?: string;
+}
+
+// Feed log entries from the feed_logs table, newest first; `days: null` loads everything
+export function useFeedLogs(pondId: string, days: number | null = 7) {
+  const [logs, setLogs] = useState<FeedLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLogs = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      let query = supabase
+        .from('feed_logs')
+        .select('*')
+        .eq('pond_id', pondId)
+        .order('fed_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (days !== null) query = query.gte('fed_at', subDays(new Date(), days).toISOString());
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setLogs((data || []).map(row => ({
+        id: row.id,
+        deviceType: row.device_type,
+        source: row.source as FeedSource,
+        actorId: row.actor_id,
+        rationTime: row.ration_time,
+        grams: row.grams,
+        seconds: row.seconds,
+        dispensedGrams: row.dispensed_grams,
+        status: row.status as FeedStatus,
+        dissolvedOxygen: row.dissolved_oxygen,
+        feedType: row.feed_type,
+        brand: row.brand,
+        cost: row.cost,
+        message: row.message,
+        note: row.note,
+        fedAt: new Date(row.fed_at),
+        createdAt: new Date(row.created_at),
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching feed logs:', err);
+      setError('Failed to load feed log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId, days]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const addHandFeeding = useCallback(async (input: HandFeedingInput): Promise<boolean> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const { error: insertError } = await supabase.from('feed_logs').insert({
+        pond_id: pondId,
+        device_type: null,
+        source: 'manual',
+        actor_id: session.user.id,
+        grams: input.grams,
+        status: 'dispensed',
+        feed_type: input.feedType || null,
+        brand: input.brand || null,
+        cost: feedCost(input.grams, input.pricePerKg),
+        fed_at: input.fedAt.toISOString(),
+        note: input.note || null,
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Feeding recorded');
+      await fetchLogs();
+      return true;
+    } catch (err) {
+      console.error('Error recording feeding:', err);
+      toast.error('Failed to record feeding');
+      return false;
+    }
+  }, [pondId, fetchLogs]);
+
+  const deleteEntry = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from('feed_logs').delete().eq('id', id);
+      if (deleteError) throw deleteError;
+      setLogs(prev => prev.filter(entry => entry.id !== id));
+      toast.success('Entry deleted');
+      return true;
+    } catch (err) {
+      console.error('Error deleting feed entry:', err);
+      toast.error('Failed to delete entry');
+      return false;
+    }
+  }, []);
+
+  return { logs, isLoading, error, refetch: fetchLogs, addHandFeeding, deleteEntry };
+}
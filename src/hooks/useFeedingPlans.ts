@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ref, onValue, set } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { toast } from 'sonner';
+import { parseFeedingPlan } from '@/lib/feeding';
+import type { FeedingPlan } from '@/types/feeding';
+
+interface UseFeedingPlansReturn {
+  // Keyed by feeder device key
+  plans: Record<string, FeedingPlan>;
+  isLoading: boolean;
+  error: string | null;
+  isSaving: boolean;
+  savePlan: (deviceKey: string, plan: FeedingPlan) => Promise<boolean>;
+}
+
+// Daily feeding plans, run server-side by the schedule executor
+export function useFeedingPlans(pondId: string): UseFeedingPlansReturn {
+  const [plans, setPlans] = useState<Record<string, FeedingPlan>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!database || !pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    const plansRef = ref(database, `ponds/${pondId}/feedingPlans`);
+
+    const unsubscribe = onValue(
+      plansRef,
+      (snapshot) => {
+        const parsed: Record<string, FeedingPlan> = {};
+        for (const [key, raw] of Object.entries((snapshot.val() ?? {}) as Record<string, Partial<FeedingPlan>>)) {
+          const plan = parseFeedingPlan(raw);
+          if (plan) parsed[key] = plan;
+        }
+        setPlans(parsed);
+        setIsLoading(false);
+        setError(null);
+      },
+      (err) => {
+        console.error('Error fetching feeding plans:', err);
+        setError('Failed to load feeding plans');
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId]);
+
+  const savePlan = useCallback(async (deviceKey: string, plan: FeedingPlan): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      await set(ref(database, `ponds/${pondId}/feedingPlans/${deviceKey}`), {
+        enabled: plan.enabled,
+        dailyGrams: plan.dailyGrams,
+        rations: [...plan.rations].sort((a, b) => a.time.localeCompare(b.time)),
+        minDissolvedOxygen: plan.minDissolvedOxygen ?? null,
+        feedType: plan.feedType || null,
+        brand: plan.brand || null,
+        pricePerKg: plan.pricePerKg ?? null,
+        updatedAt: Date.now(),
+      });
+      toast.success('Feeding plan saved');
+      return true;
+    } catch (err) {
+      console.error('Failed to save feeding plan:', err);
+      toast.error('Failed to save feeding plan');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId]);
+
+  return { plans, isLoading, error, isSaving, savePlan };
+}
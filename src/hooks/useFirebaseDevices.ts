@@ -1,6 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { ref, onValue, set } from 'firebase/database';
 import { database } from '@/lib/firebase';
+import { createCommand, writeCommand } from '@/lib/deviceCommands';
+import { logManualActivity } from '@/lib/deviceActivity';
+import { DeviceKind, supportsLevel } from '@/lib/deviceRegistry';
+import { useDeviceRegistry } from './useDeviceRegistry';
 import { Device } from '@/types/aquaculture';
 
 interface UseFirebaseDevicesReturn {
@@ -52,16 +56,17 @@ function removePendingAction(actionId: string): void {
   }
 }
 
-const deviceConfig: Record<string, { name: string; icon: string; autoCondition?: string }> = {
-  motor: { name: 'Water Pump', icon: 'Droplets', autoCondition: 'When water level is low' },
-  aerator: { name: 'Aerator', icon: 'Wind', autoCondition: 'When DO < 5.0 mg/L' },
-  light: { name: 'Lights', icon: 'Lightbulb', autoCondition: 'Scheduled lighting' },
+const autoConditions: Partial<Record<DeviceKind, string>> = {
+  pump: 'When water level is low',
+  aerator: 'When DO < 5.0 mg/L',
+  light: 'Scheduled lighting',
 };
 
 export function useFirebaseDevices(pondId: string = 'pond1', readOnly: boolean = false): UseFirebaseDevicesReturn {
   // Use ref for pondId to avoid recreating callbacks
   const pondIdRef = useRef(pondId);
   pondIdRef.current = pondId;
+  const { devices: registry } = useDeviceRegistry(pondId);
 
   const getCachedDevices = useCallback((): Device[] => {
     try {
@@ -96,8 +101,18 @@ export function useFirebaseDevices(pondId: string = 'pond1', readOnly: boolean =
       const pending = getPendingActions().filter(a => a.pondId === pondId);
       for (const action of pending) {
         try {
-          const deviceRef = ref(database, `ponds/${action.pondId}/devices/${action.deviceId}/state`);
-          await set(deviceRef, action.value);
+          // Issued fresh on reconnect so the command doesn't arrive already expired
+          const command = createCommand(action.value, 'manual', 'app');
+          await writeCommand(action.pondId, action.deviceId, command);
+          await logManualActivity({
+            pondId: action.pondId,
+            deviceType: action.deviceId,
+            previousState: null,
+            newState: action.value,
+            commandId: command.id,
+            ackResult: 'pending',
+            label: 'Offline queue',
+          });
           removePendingAction(action.id);
           setPendingActionsCount(getPendingActions().filter(a => a.pondId === pondId).length);
           console.log(`Synced pending action for device ${action.deviceId} on pond ${action.pondId}`);
@@ -142,42 +157,34 @@ export function useFirebaseDevices(pondId: string = 'pond1', readOnly: boolean =
       devicesRef,
       (snapshot) => {
         try {
-          const data = snapshot.val();
-          if (data) {
-            const deviceList: Device[] = Object.entries(data).map(([key, value]: [string, any]) => {
-              const config = deviceConfig[key] || { name: key, icon: 'Wind' };
-              // Value can be just 0|1 or an object with state/mode
-              const state = typeof value === 'object' ? value.state : value;
-              const mode = typeof value === 'object' ? value.mode : 'manual';
-              
-              return {
-                id: key,
-                name: config.name,
-                type: key,
-                isOn: state === 1,
-                isAuto: mode === 'auto',
-                icon: config.icon,
-                autoCondition: config.autoCondition,
-              };
-            });
-            
-            setDevices(deviceList);
-            // Cache using pondId directly
-            try {
-              localStorage.setItem(`aqua_devices_cache_${pondId}`, JSON.stringify(deviceList));
-            } catch {}
-            setFirebaseConnected(true);
-            setError(null);
-          } else {
-            // Initialize with default devices if no data
-            const defaultDevices: Device[] = [
-              { id: 'motor', name: 'Water Pump', type: 'motor', isOn: false, isAuto: false, icon: 'Droplets', autoCondition: 'When water level is low' },
-              { id: 'aerator', name: 'Aerator', type: 'aerator', isOn: false, isAuto: false, icon: 'Wind', autoCondition: 'When DO < 5.0 mg/L' },
-              { id: 'light', name: 'Lights', type: 'light', isOn: false, isAuto: false, icon: 'Lightbulb', autoCondition: 'Scheduled lighting' },
-            ];
-            setDevices(defaultDevices);
-            setFirebaseConnected(true);
-          }
+          const data: Record<string, unknown> = snapshot.val() || {};
+          // The pond's registry decides which devices exist and how they're labelled
+          const deviceList: Device[] = registry.map((definition) => {
+            const value = data[definition.key] as { state?: number; mode?: string; level?: number } | number | undefined;
+            // Value can be just 0|1 or an object with state/mode
+            const state = typeof value === 'object' ? value?.state : value;
+            const mode = typeof value === 'object' ? value?.mode : 'manual';
+            const level = typeof value === 'object' ? value?.level : undefined;
+
+            return {
+              id: definition.key,
+              name: definition.name,
+              type: definition.kind,
+              isOn: state === 1,
+              isAuto: mode === 'auto',
+              ...(supportsLevel(definition) ? { level: level ?? (state === 1 ? 100 : 0) } : {}),
+              icon: definition.icon,
+              autoCondition: autoConditions[definition.kind],
+            };
+          });
+
+          setDevices(deviceList);
+          // Cache using pondId directly
+          try {
+            localStorage.setItem(`aqua_devices_cache_${pondId}`, JSON.stringify(deviceList));
+          } catch {}
+          setFirebaseConnected(true);
+          setError(null);
           setIsLoading(false);
         } catch (err) {
           console.error('Error parsing device data:', err);
@@ -204,7 +211,7 @@ export function useFirebaseDevices(pondId: string = 'pond1', readOnly: boolean =
     return () => {
       unsubscribe();
     };
-  }, [pondId]);
+  }, [pondId, registry]);
 
   const toggleDevice = useCallback(async (deviceId: string) => {
     if (readOnlyRef.current || !database) {
@@ -248,11 +255,24 @@ export function useFirebaseDevices(pondId: string = 'pond1', readOnly: boolean =
         setPendingActionsCount(getPendingActions().filter(a => a.pondId === currentPondId).length);
         console.log(`Queued offline action for device ${deviceId} on pond ${currentPondId}`);
       } else {
-        const deviceStateRef = ref(database, `ponds/${currentPondId}/devices/${deviceId}/state`);
-        set(deviceStateRef, newState).catch(err => {
-          console.error('Error toggling device:', err);
-          setError('Failed to toggle device');
-        });
+        // Variable devices switch between off and full output here
+        const level = device.level !== undefined ? (newState === 1 ? 100 : 0) : undefined;
+        const command = createCommand(newState, 'manual', 'app', undefined, level);
+        writeCommand(currentPondId, deviceId, command)
+          .then(() => logManualActivity({
+            pondId: currentPondId,
+            deviceType: deviceId,
+            previousState: device.isOn ? 1 : 0,
+            newState,
+            ...(level !== undefined ? { previousLevel: device.level ?? null, newLevel: level } : {}),
+            commandId: command.id,
+            // Not waited on here; the automation engine resolves it from the device's ack
+            ackResult: 'pending',
+          }))
+          .catch(err => {
+            console.error('Error toggling device:', err);
+            setError('Failed to toggle device');
+          });
       }
 
       return updated;
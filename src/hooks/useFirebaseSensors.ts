@@ -1,22 +1,17 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { ref, onValue, off } from 'firebase/database';
 import { database } from '@/lib/firebase';
+import { DEVICE_SENSOR_KEYS, SENSOR_KEYS, SensorKey, readSensorValue } from '@/lib/sensorRegistry';
 
 // Firebase sensor keys - MUST match exactly what ESP32 sends
-// STRICT: Only pH and dissolvedOxygen from ESP32
+// Keys, units and valid ranges live in the sensor registry.
 // Temperature comes from Weather API, NOT Firebase
-export interface FirebaseSensorData {
-  ph: number | null;
-  dissolvedOxygen: number | null;
-}
+export type FirebaseSensorData = Record<SensorKey, number | null>;
 
 // Check if at least one sensor has valid data
 export function hasAnySensorData(data: FirebaseSensorData | null): boolean {
   if (!data) return false;
-  return (
-    typeof data.ph === 'number' ||
-    typeof data.dissolvedOxygen === 'number'
-  );
+  return DEVICE_SENSOR_KEYS.some(key => typeof data[key] === 'number');
 }
 
 export interface SensorDebugInfo {
@@ -40,40 +35,18 @@ export interface UseFirebaseSensorsResult {
 // Sensor data is stale if older than 60 seconds
 const STALE_THRESHOLD_MS = 60000;
 
-// STRICT: Validate sensor reading with exact ranges
-// Temperature is NO LONGER from Firebase - it comes from Weather API
-function isValidSensorValue(key: string, value: any): boolean {
-  if (value === null || value === undefined) return false;
-  if (typeof value !== 'number') return false;
-  if (isNaN(value)) return false;
-
-  // STRICT valid ranges - only pH and DO from ESP32
-  switch (key) {
-    case 'ph':
-      return value >= 0 && value <= 14;
-    case 'dissolvedOxygen':
-      return value >= 0 && value <= 20;
-    default:
-      // Unknown sensor - not allowed (temperature no longer from Firebase)
-      return false;
-  }
-}
-
-// STRICT: Parse and validate ONLY pH and DO sensors
-// Temperature comes from Weather API, NOT Firebase
+// Parse and validate every registered device sensor
+// Unknown keys are ignored; temperature comes from Weather API, NOT Firebase
 function parseSensorData(data: any): FirebaseSensorData {
+  const parsed = Object.fromEntries(SENSOR_KEYS.map(key => [key, null])) as FirebaseSensorData;
   if (!data || typeof data !== 'object') {
-    return {
-      ph: null,
-      dissolvedOxygen: null,
-    };
+    return parsed;
   }
 
-  // STRICT: Only parse pH and dissolvedOxygen from ESP32
-  return {
-    ph: isValidSensorValue('ph', data.ph) ? Number(data.ph) : null,
-    dissolvedOxygen: isValidSensorValue('dissolvedOxygen', data.dissolvedOxygen) ? Number(data.dissolvedOxygen) : null,
-  };
+  for (const key of DEVICE_SENSOR_KEYS) {
+    parsed[key] = readSensorValue(data, key);
+  }
+  return parsed;
 }
 
 export function useFirebaseSensors(pondId: string): UseFirebaseSensorsResult {
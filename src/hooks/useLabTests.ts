@@ -0,0 +1,150 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { ref, push, set } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { evaluateLabResult, formatLabValue, labParameterLabel } from '@/lib/labTests';
+import type { SensorThresholds } from '@/lib/thresholds';
+import type { LabTest, LabTestInput } from '@/types/labTest';
+
+// Lab tests for a pond with their results, newest first; `days: null` loads everything
+export function useLabTests(pondId: string, days: number | null = 90) {
+  const [tests, setTests] = useState<LabTest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTests = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      let query = supabase
+        .from('lab_tests')
+        .select('*, lab_test_results(*)')
+        .eq('pond_id', pondId)
+        .order('tested_at', { ascending: false });
+
+      if (days !== null) query = query.gte('tested_at', subDays(new Date(), days).toISOString());
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setTests((data || []).map(row => ({
+        id: row.id,
+        testedAt: new Date(row.tested_at),
+        method: row.method,
+        note: row.note,
+        results: row.lab_test_results.map(result => ({
+          id: result.id,
+          parameter: result.parameter,
+          value: result.value,
+          unit: result.unit,
+        })),
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching lab tests:', err);
+      setError('Failed to load lab tests');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId, days]);
+
+  useEffect(() => {
+    fetchTests();
+  }, [fetchTests]);
+
+  // Out-of-range results raise alerts like live sensors do
+  const raiseAlerts = useCallback(async (input: LabTestInput, thresholds: SensorThresholds) => {
+    if (!database) return 0;
+    let raised = 0;
+    for (const result of input.results) {
+      const status = evaluateLabResult(result, thresholds);
+      if (status !== 'warning' && status !== 'critical') continue;
+      await set(push(ref(database, `ponds/${pondId}/alerts`)), {
+        type: 'lab',
+        message: `Lab test: ${labParameterLabel(result.parameter)} ${formatLabValue({ ...result, unit: result.unit ?? null })} is out of range`,
+        severity: status,
+        timestamp: input.testedAt.getTime(),
+        acknowledged: false,
+      });
+      raised++;
+    }
+    return raised;
+  }, [pondId]);
+
+  const addTest = useCallback(async (input: LabTestInput, thresholds: SensorThresholds): Promise<boolean> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const { data: test, error: testError } = await supabase
+        .from('lab_tests')
+        .insert({
+          pond_id: pondId,
+          tested_at: input.testedAt.toISOString(),
+          method: input.method || null,
+          note: input.note || null,
+          created_by: session.user.id,
+        })
+        .select('id')
+        .single();
+
+      if (testError) throw testError;
+
+      const { error: resultsError } = await supabase.from('lab_test_results').insert(
+        input.results.map(result => ({
+          test_id: test.id,
+          pond_id: pondId,
+          parameter: result.parameter,
+          value: result.value,
+          unit: result.unit || null,
+        }))
+      );
+
+      if (resultsError) {
+        // Don't leave an empty test behind
+        await supabase.from('lab_tests').delete().eq('id', test.id);
+        throw resultsError;
+      }
+
+      let raised = 0;
+      try {
+        raised = await raiseAlerts(input, thresholds);
+      } catch (alertError) {
+        console.error('Error raising lab alerts:', alertError);
+      }
+
+      if (raised > 0) {
+        toast.warning(`Lab test saved · ${raised} value${raised === 1 ? '' : 's'} out of range`);
+      } else {
+        toast.success('Lab test saved');
+      }
+      await fetchTests();
+      return true;
+    } catch (err) {
+      console.error('Error saving lab test:', err);
+      toast.error('Failed to save lab test');
+      return false;
+    }
+  }, [pondId, fetchTests, raiseAlerts]);
+
+  const deleteTest = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from('lab_tests').delete().eq('id', id);
+      if (deleteError) throw deleteError;
+      setTests(prev => prev.filter(test => test.id !== id));
+      toast.success('Lab test deleted');
+      return true;
+    } catch (err) {
+      console.error('Error deleting lab test:', err);
+      toast.error('Failed to delete lab test');
+      return false;
+    }
+  }, []);
+
+  return { tests, isLoading, error, refetch: fetchTests, addTest, deleteTest };
+}
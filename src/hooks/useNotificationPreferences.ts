@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { NotificationPreferences } from '@/types/notifications';
+
+interface NotificationPreferencesContextType {
+  preferences: NotificationPreferences;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  savePreferences: (next: NotificationPreferences) => Promise<boolean>;
+}
+
+// Provided by NotificationPreferencesProvider in src/contexts
+export const NotificationPreferencesContext = createContext<NotificationPreferencesContextType | undefined>(undefined);
+
+export function useNotificationPreferences() {
+  const context = useContext(NotificationPreferencesContext);
+  if (context === undefined) {
+    throw new Error('useNotificationPreferences must be used within a NotificationPreferencesProvider');
+  }
+  return context;
+}
@@ -6,11 +6,18 @@ import { useFirebaseSensors } from './useFirebaseSensors';
 import { useFirebaseAlerts } from './useFirebaseAlerts';
 import { useFirebasePondStatus } from './useFirebasePondStatus';
 import { useAuth } from '@/contexts/AuthContext';
+import { SensorThresholds, parseThresholds } from '@/lib/thresholds';
 
 export interface PondWithOwnership extends Pond {
   ownerUid?: string;
   ownerEmail?: string;
   isOwner?: boolean;
+  // Pond's own threshold profile; undefined when it follows the owner's defaults
+  thresholdProfile?: SensorThresholds;
+  // IANA timezone schedules run in
+  timezone?: string;
+  // Days of stored sensor history kept before it is deleted
+  readingRetentionDays?: number;
 }
 
 export function usePondData() {
@@ -45,10 +52,14 @@ export function usePondData() {
         name: pond.name,
         ipAddress: pond.device_ip,
         location: pond.location || undefined,
+        fishType: pond.fish_type || undefined,
         status: 'online' as const,
         lastUpdated: new Date(pond.updated_at),
         ownerUid: pond.user_id,
         isOwner: pond.user_id === user.id,
+        thresholdProfile: parseThresholds(pond.thresholds) ?? undefined,
+        timezone: pond.timezone,
+        readingRetentionDays: pond.reading_retention_days,
       }));
 
       setPonds(mappedPonds);
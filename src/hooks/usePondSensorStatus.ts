@@ -0,0 +1,31 @@
+import { useMemo } from 'react';
+import { useFirebaseSensors } from './useFirebaseSensors';
+import { usePondThresholds } from './usePondThresholds';
+import { SensorKey, SensorStatusLevel } from '@/lib/sensorRegistry';
+import { evaluateSensors, worstStatus } from '@/lib/sensorStatus';
+
+interface UsePondSensorStatusReturn {
+  // Worst status across all reporting sensors; null until data arrives
+  status: SensorStatusLevel | null;
+  statuses: Partial<Record<SensorKey, SensorStatusLevel>>;
+  isStale: boolean;
+}
+
+// Live status of a pond's sensors against its effective thresholds
+export function usePondSensorStatus(pondId: string): UsePondSensorStatusReturn {
+  const { sensorData, isStale } = useFirebaseSensors(pondId);
+  const { thresholds } = usePondThresholds(pondId);
+
+  const statuses = useMemo(
+    () => (sensorData ? evaluateSensors(sensorData, thresholds) : {}),
+    [sensorData, thresholds]
+  );
+
+  const hasReadings = Object.keys(statuses).length > 0;
+
+  return {
+    status: hasReadings ? worstStatus(Object.values(statuses)) : null,
+    statuses,
+    isStale,
+  };
+}
@@ -0,0 +1,129 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { useUserSettings } from './useUserSettings';
+import {
+  SensorThresholds,
+  parseThresholds,
+  resolveThresholds,
+  thresholdsFromUserSettings,
+} from '@/lib/thresholds';
+
+interface UsePondThresholdsReturn {
+  // Effective limits for this pond (pond profile → user defaults → registry)
+  thresholds: SensorThresholds;
+  // The pond's own profile, or null when it follows the user defaults
+  pondProfile: SensorThresholds | null;
+  userDefaults: SensorThresholds;
+  hasCustomProfile: boolean;
+  // Species preset id recorded on the pond (ponds.fish_type)
+  fishType: string | null;
+  isLoading: boolean;
+  error: string | null;
+  saveProfile: (profile: SensorThresholds | null, fishType?: string | null) => Promise<void>;
+}
+
+export function usePondThresholds(pondId: string): UsePondThresholdsReturn {
+  const { settings, isLoading: settingsLoading, syncToFirebase } = useUserSettings();
+  const [pondProfile, setPondProfile] = useState<SensorThresholds | null>(null);
+  const [fishType, setFishType] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchProfile = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('ponds')
+        .select('thresholds, fish_type')
+        .eq('id', pondId)
+        .maybeSingle();
+
+      if (fetchError) throw fetchError;
+      setPondProfile(parseThresholds(data?.thresholds));
+      setFishType(data?.fish_type ?? null);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching pond thresholds:', err);
+      setError('Failed to load pond thresholds');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  // Keep in sync when the profile is edited from another screen or device
+  useEffect(() => {
+    if (!pondId) return;
+
+    const channel = supabase
+      .channel(`pond-thresholds-${pondId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'ponds',
+          filter: `id=eq.${pondId}`,
+        },
+        () => {
+          fetchProfile();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [pondId, fetchProfile]);
+
+  const userDefaults = useMemo(() => thresholdsFromUserSettings(settings), [settings]);
+
+  const thresholds = useMemo(
+    () => resolveThresholds(userDefaults, pondProfile),
+    [userDefaults, pondProfile]
+  );
+
+  // fishType is left untouched unless passed explicitly
+  const saveProfile = useCallback(async (profile: SensorThresholds | null, nextFishType?: string | null) => {
+    try {
+      const { error: updateError } = await supabase
+        .from('ponds')
+        .update({
+          thresholds: profile as Json,
+          ...(nextFishType !== undefined ? { fish_type: nextFishType } : {}),
+        })
+        .eq('id', pondId);
+
+      if (updateError) throw updateError;
+
+      setPondProfile(profile);
+      if (nextFishType !== undefined) setFishType(nextFishType);
+      // ESP32 reads its limits from ponds/{pondId}/config/thresholds
+      await syncToFirebase(pondId, resolveThresholds(userDefaults, profile));
+    } catch (err) {
+      console.error('Error saving pond thresholds:', err);
+      toast.error('Failed to save pond thresholds');
+      throw err;
+    }
+  }, [pondId, userDefaults, syncToFirebase]);
+
+  return {
+    thresholds,
+    pondProfile,
+    userDefaults,
+    hasCustomProfile: pondProfile !== null,
+    fishType,
+    isLoading: isLoading || settingsLoading,
+    error,
+    saveProfile,
+  };
+}
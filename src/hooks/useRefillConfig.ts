@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ref, onValue, set } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { toast } from 'sonner';
+import { DEFAULT_REFILL_CONFIG, RefillConfig } from '@/types/automation';
+
+/**
+ * Settings for the built-in refill rule, stored at ponds/{pondId}/config/refill
+ * and read by the automation engine.
+ */
+export function useRefillConfig(pondId: string) {
+  const [config, setConfig] = useState<RefillConfig>(DEFAULT_REFILL_CONFIG);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!database || !pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    const refillRef = ref(database, `ponds/${pondId}/config/refill`);
+    const unsubscribe = onValue(
+      refillRef,
+      (snapshot) => {
+        const data: Partial<RefillConfig> = snapshot.val() || {};
+        setConfig({ ...DEFAULT_REFILL_CONFIG, ...data });
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching refill settings:', err);
+        setIsLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [pondId]);
+
+  const saveConfig = useCallback(async (next: RefillConfig): Promise<boolean> => {
+    if (!database || !pondId) return false;
+
+    setIsSaving(true);
+    try {
+      await set(ref(database, `ponds/${pondId}/config/refill`), next);
+      toast.success('Refill settings saved');
+      return true;
+    } catch (err) {
+      console.error('Error saving refill settings:', err);
+      toast.error('Failed to save refill settings');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [pondId]);
+
+  return { config, isLoading, isSaving, saveConfig };
+}
@@ -0,0 +1,55 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ScheduleExecutionLog, ScheduleExecutionStatus } from '@/types/schedule';
+
+// Recent schedule executions recorded by the server-side schedule executor
+export function useScheduleExecutions(pondId: string, limit = 20) {
+  const [executions, setExecutions] = useState<ScheduleExecutionLog[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExecutions = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('schedule_executions')
+        .select('*')
+        .eq('pond_id', pondId)
+        .order('scheduled_for', { ascending: false })
+        .limit(limit);
+
+      if (fetchError) throw fetchError;
+
+      setExecutions((data || []).map(row => ({
+        id: row.id,
+        scheduleId: row.schedule_id,
+        deviceType: row.device_type,
+        action: row.action as 'ON' | 'OFF',
+        scheduledFor: new Date(row.scheduled_for).getTime(),
+        executedAt: row.executed_at ? new Date(row.executed_at).getTime() : undefined,
+        status: row.status as ScheduleExecutionStatus,
+        attempts: row.attempts,
+        message: row.message || undefined,
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching schedule executions:', err);
+      setError('Failed to load execution history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId, limit]);
+
+  useEffect(() => {
+    fetchExecutions();
+    // Executor runs once a minute; refresh on the same cadence
+    const interval = setInterval(fetchExecutions, 60000);
+    return () => clearInterval(interval);
+  }, [fetchExecutions]);
+
+  return { executions, isLoading, error, refetch: fetchExecutions };
+}
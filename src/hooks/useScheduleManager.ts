@@ -54,6 +54,7 @@ export function useScheduleManager(pondId: string): UseScheduleManagerReturn {
                     endTime: scheduleData.endTime || '00:00',
                     repeat: scheduleData.repeat || 'daily',
                     daysOfWeek: scheduleData.daysOfWeek || [0, 1, 2, 3, 4, 5, 6],
+                    ...(typeof scheduleData.level === 'number' ? { level: scheduleData.level } : {}),
                     enabled: scheduleData.enabled !== false && scheduleData.isActive !== false,
                     createdAt: scheduleData.createdAt || Date.now(),
                     updatedAt: scheduleData.updatedAt || Date.now(),
@@ -1,4 +1,7 @@
 import { useEffect, useRef, useCallback } from 'react';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { sensorAlertCategory, shouldDeliverAlert } from '@/lib/notificationPreferences';
+import type { SensorKey } from '@/lib/sensorRegistry';
 
 type SensorStatus = 'safe' | 'warning' | 'critical';
 
@@ -71,7 +74,12 @@ const triggerVibration = (status: SensorStatus) => {
   }
 };
 
-export function useSensorAlerts(status: SensorStatus, enabled: boolean = true) {
+// Sound and vibration follow the user's notification preferences: severity and
+// sensor toggles and quiet hours, plus the sound toggle for sound
+export function useSensorAlerts(status: SensorStatus, enabled: boolean = true, sensor?: SensorKey) {
+  const { preferences } = useNotificationPreferences();
+  const preferencesRef = useRef(preferences);
+  preferencesRef.current = preferences;
   const lastAlertStatus = useRef<SensorStatus>('safe');
   const lastAlertTime = useRef<number>(0);
   const ALERT_COOLDOWN = 10000; // 10 seconds between alerts
@@ -84,12 +92,13 @@ export function useSensorAlerts(status: SensorStatus, enabled: boolean = true) {
       newStatus !== 'safe' &&
       (newStatus !== lastAlertStatus.current || now - lastAlertTime.current > ALERT_COOLDOWN)
     ) {
-      playAlertSound(newStatus);
-      triggerVibration(newStatus);
+      const alert = { severity: newStatus, category: sensorAlertCategory(sensor) };
+      if (shouldDeliverAlert(preferencesRef.current, 'sound', alert)) playAlertSound(newStatus);
+      if (shouldDeliverAlert(preferencesRef.current, 'vibration', alert)) triggerVibration(newStatus);
       lastAlertStatus.current = newStatus;
       lastAlertTime.current = now;
     }
-  }, []);
+  }, [sensor]);
 
   useEffect(() => {
     if (enabled) {
@@ -1,24 +1,40 @@
 import { useState, useEffect, useCallback } from 'react';
 import { ref, query, orderByChild, limitToLast, get } from 'firebase/database';
 import { database } from '@/lib/firebase';
+import { supabase } from '@/integrations/supabase/client';
+import { SENSOR_KEYS, SensorKey, readSensorValue } from '@/lib/sensorRegistry';
+import {
+  HistoryResolution,
+  READING_COLUMNS,
+  SensorAggregate,
+  TIME_RANGE_MS,
+  TimeRange,
+  fetchSensorAggregates,
+  pickResolution,
+} from '@/lib/sensorHistory';
 
-export interface SensorHistoryPoint {
+export type SensorHistoryPoint = {
   timestamp: number;
   date: string;
-  temperature: number;
-  ph: number;
-  dissolvedOxygen: number;
-  turbidity?: number;
-}
+  // Min and max per sensor when the point is an aggregated bucket
+  ranges?: Partial<Record<SensorKey, [number, number]>>;
+} & Partial<Record<SensorKey, number>>;
+
+export type { TimeRange, TimeRangePreset } from '@/lib/sensorHistory';
 
-export type TimeRange = '1h' | '24h' | '7d';
+// Raw rows are fetched in pages; the cap keeps very long ranges from stalling the page
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 20000;
 
 interface UseSensorHistoryReturn {
   history: SensorHistoryPoint[];
   isLoading: boolean;
   error: string | null;
   hasData: boolean;
+  // Chosen from the length of the range
+  resolution: HistoryResolution;
   refetch: () => Promise<void>;
+  getSeries: (key: SensorKey) => number[];
   // Legacy compatibility
   phHistory: number[];
   doHistory: number[];
@@ -26,72 +42,121 @@ interface UseSensorHistoryReturn {
   addReading: (reading: { ph: number; dissolvedOxygen: number; temperature: number }) => void;
 }
 
-// Filter invalid sensor readings
-function isValidReading(reading: any): boolean {
-  if (!reading) return false;
-  if (reading.temperature <= -100 || reading.temperature > 50) return false;
-  if (reading.ph < 0 || reading.ph > 14) return false;
-  if (reading.dissolvedOxygen < 0 || reading.dissolvedOxygen > 20) return false;
-  return true;
+// Keep only registered sensors whose value is within the valid range
+function parseReading(value: Record<string, unknown>): Partial<Record<SensorKey, number>> {
+  const reading: Partial<Record<SensorKey, number>> = {};
+  for (const key of SENSOR_KEYS) {
+    const parsed = readSensorValue(value, key);
+    if (parsed !== null) reading[key] = parsed;
+  }
+  return reading;
+}
+
+// Daily buckets have no meaningful time of day
+const formatPointDate = (timestamp: number, resolution: HistoryResolution = 'raw') =>
+  new Date(timestamp).toLocaleString('en-US', resolution === '1d'
+    ? { month: 'short', day: 'numeric' }
+    : { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Minute (or, after compaction, hourly) averages stored by the sensor-ingest function
+async function fetchRawHistory(pondId: string, from: number, to: number): Promise<SensorHistoryPoint[]> {
+  const points: SensorHistoryPoint[] = [];
+  for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sensor_readings')
+      .select('*')
+      .eq('pond_id', pondId)
+      .gte('recorded_at', new Date(from).toISOString())
+      .lte('recorded_at', new Date(to).toISOString())
+      .order('recorded_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      const timestamp = new Date(row.recorded_at).getTime();
+      const point: SensorHistoryPoint = { timestamp, date: formatPointDate(timestamp) };
+      for (const [key, column] of Object.entries(READING_COLUMNS) as [SensorKey, string][]) {
+        const value = row[column as keyof typeof row];
+        if (typeof value === 'number') point[key] = value;
+      }
+      points.push(point);
+    }
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return points;
+}
+
+async function fetchAggregatedHistory(
+  pondId: string,
+  from: number,
+  to: number,
+  resolution: Exclude<HistoryResolution, 'raw'>
+): Promise<SensorHistoryPoint[]> {
+  const buckets = await fetchSensorAggregates(pondId, from, to, resolution);
+  return buckets.map(bucket => {
+    const point: SensorHistoryPoint = { timestamp: bucket.timestamp, date: formatPointDate(bucket.timestamp, resolution), ranges: {} };
+    for (const [key, aggregate] of Object.entries(bucket.sensors) as [SensorKey, SensorAggregate][]) {
+      point[key] = aggregate.avg;
+      point.ranges![key] = [aggregate.min, aggregate.max];
+    }
+    return point;
+  });
 }
 
-export function useSensorHistory(pondId: string, timeRange: TimeRange = '24h'): UseSensorHistoryReturn {
+export function useSensorHistory(pondId: string, range: TimeRange = '24h'): UseSensorHistoryReturn {
   const [history, setHistory] = useState<SensorHistoryPoint[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const getTimeRangeMs = (range: TimeRange): number => {
-    switch (range) {
-      case '1h': return 60 * 60 * 1000;
-      case '24h': return 24 * 60 * 60 * 1000;
-      case '7d': return 7 * 24 * 60 * 60 * 1000;
-    }
-  };
+  // Primitive deps so a new { from, to } object with the same dates doesn't refetch
+  const preset = typeof range === 'string' ? range : null;
+  const customFrom = typeof range === 'string' ? null : range.from.getTime();
+  const customTo = typeof range === 'string' ? null : range.to.getTime();
 
-  const fetchHistory = useCallback(async () => {
-    if (!database) {
-      setError('Firebase not initialized');
-      setIsLoading(false);
-      return;
-    }
+  const resolution = preset ? pickResolution(0, TIME_RANGE_MS[preset]) : pickResolution(customFrom!, customTo!);
 
+  const fetchHistory = useCallback(async () => {
     setIsLoading(true);
     setError(null);
 
+    const now = Date.now();
+    const from = preset ? now - TIME_RANGE_MS[preset] : customFrom!;
+    const to = preset ? now : customTo!;
+
     try {
-      const now = Date.now();
-      const cutoff = now - getTimeRangeMs(timeRange);
-
-      // Try to fetch from history path
-      const historyRef = ref(database, `ponds/${pondId}/history`);
-      const historyQuery = query(historyRef, orderByChild('timestamp'), limitToLast(500));
-      
-      const snapshot = await get(historyQuery);
-      const data = snapshot.val();
-
-      if (data && typeof data === 'object') {
-        const points: SensorHistoryPoint[] = Object.entries(data)
-          .map(([key, value]: [string, any]) => ({
-            timestamp: value.timestamp || parseInt(key),
-            date: new Date(value.timestamp || parseInt(key)).toLocaleString('en-US', {
-              month: 'short',
-              day: 'numeric',
-              hour: '2-digit',
-              minute: '2-digit',
-            }),
-            temperature: value.temperature ?? 0,
-            ph: value.ph ?? 0,
-            dissolvedOxygen: value.dissolvedOxygen ?? value.do ?? 0,
-            turbidity: value.turbidity ?? 0,
-          }))
-          .filter(point => point.timestamp >= cutoff && isValidReading(point))
-          .sort((a, b) => a.timestamp - b.timestamp);
-
-        setHistory(points);
-      } else {
-        // No history data available
-        setHistory([]);
+      if (resolution !== 'raw') {
+        setHistory(await fetchAggregatedHistory(pondId, from, to, resolution));
+        return;
       }
+
+      const persisted = await fetchRawHistory(pondId, from, to);
+      const lastPersisted = persisted.length > 0 ? persisted[persisted.length - 1].timestamp : -Infinity;
+
+      // Readings from the last minute or two aren't persisted yet; take them from Firebase
+      let recent: SensorHistoryPoint[] = [];
+      if (database && to > lastPersisted) {
+        const historyRef = ref(database, `ponds/${pondId}/history`);
+        const historyQuery = query(historyRef, orderByChild('timestamp'), limitToLast(500));
+        const snapshot = await get(historyQuery);
+        const data = snapshot.val();
+
+        if (data && typeof data === 'object') {
+          recent = Object.entries(data)
+            .map(([key, value]: [string, any]) => {
+              const timestamp = value.timestamp || parseInt(key);
+              return { timestamp, date: formatPointDate(timestamp), ...parseReading(value) };
+            })
+            .filter(point =>
+              point.timestamp >= from &&
+              point.timestamp <= to &&
+              point.timestamp > lastPersisted &&
+              SENSOR_KEYS.some(key => point[key] !== undefined)
+            )
+            .sort((a, b) => a.timestamp - b.timestamp);
+        }
+      }
+
+      setHistory([...persisted, ...recent]);
     } catch (err) {
       console.error('Error fetching sensor history:', err);
       setError('Failed to load sensor history');
@@ -99,7 +164,7 @@ export function useSensorHistory(pondId: string, timeRange: TimeRange = '24h'):
     } finally {
       setIsLoading(false);
     }
-  }, [pondId, timeRange]);
+  }, [pondId, preset, customFrom, customTo, resolution]);
 
   useEffect(() => {
     fetchHistory();
@@ -111,16 +176,24 @@ export function useSensorHistory(pondId: string, timeRange: TimeRange = '24h'):
     console.log('addReading called but data comes from Firebase:', reading);
   }, []);
 
+  const getSeries = useCallback((key: SensorKey): number[] => {
+    return history
+      .map(point => point[key])
+      .filter((value): value is number => value !== undefined);
+  }, [history]);
+
   return {
     history,
     isLoading,
     error,
     hasData: history.length > 0,
+    resolution,
     refetch: fetchHistory,
+    getSeries,
     // Legacy compatibility
-    phHistory: history.map(h => h.ph),
-    doHistory: history.map(h => h.dissolvedOxygen),
-    tempHistory: history.map(h => h.temperature),
+    phHistory: getSeries('ph'),
+    doHistory: getSeries('dissolvedOxygen'),
+    tempHistory: getSeries('temperature'),
     addReading,
   };
 }
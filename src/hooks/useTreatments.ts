@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { PondTreatment, PondTreatmentInput, TreatmentCategory } from '@/types/treatment';
+
+// Treatments applied to a pond, newest first; `days: null` loads everything
+export function useTreatments(pondId: string, days: number | null = null) {
+  const [treatments, setTreatments] = useState<PondTreatment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTreatments = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      let query = supabase
+        .from('pond_treatments')
+        .select('*')
+        .eq('pond_id', pondId)
+        .order('applied_at', { ascending: false });
+
+      if (days !== null) query = query.gte('applied_at', subDays(new Date(), days).toISOString());
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setTreatments((data || []).map(row => ({
+        id: row.id,
+        appliedAt: new Date(row.applied_at),
+        category: row.category as TreatmentCategory,
+        product: row.product,
+        quantity: row.quantity,
+        unit: row.unit,
+        reason: row.reason,
+        withdrawalDays: row.withdrawal_days,
+        note: row.note,
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching treatments:', err);
+      setError('Failed to load treatments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId, days]);
+
+  useEffect(() => {
+    fetchTreatments();
+  }, [fetchTreatments]);
+
+  const addTreatment = useCallback(async (input: PondTreatmentInput): Promise<boolean> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const { error: insertError } = await supabase.from('pond_treatments').insert({
+        pond_id: pondId,
+        applied_at: input.appliedAt.toISOString(),
+        category: input.category,
+        product: input.product,
+        quantity: input.quantity,
+        unit: input.unit,
+        reason: input.reason || null,
+        withdrawal_days: input.withdrawalDays,
+        note: input.note || null,
+        created_by: session.user.id,
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Treatment recorded');
+      await fetchTreatments();
+      return true;
+    } catch (err) {
+      console.error('Error saving treatment:', err);
+      toast.error('Failed to save treatment');
+      return false;
+    }
+  }, [pondId, fetchTreatments]);
+
+  const deleteTreatment = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from('pond_treatments').delete().eq('id', id);
+      if (deleteError) throw deleteError;
+      setTreatments(prev => prev.filter(treatment => treatment.id !== id));
+      toast.success('Treatment deleted');
+      return true;
+    } catch (err) {
+      console.error('Error deleting treatment:', err);
+      toast.error('Failed to delete treatment');
+      return false;
+    }
+  }, []);
+
+  return { treatments, isLoading, error, refetch: fetchTreatments, addTreatment, deleteTreatment };
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { ref, set } from 'firebase/database';
+import { ref, update } from 'firebase/database';
 import { database } from '@/lib/firebase';
 import { toast } from 'sonner';
+import { SensorThresholds, toFirebaseThresholds } from '@/lib/thresholds';
 
 export interface UserSettings {
   id?: string;
@@ -27,7 +28,7 @@ export interface UserSettings {
   temp_unit: 'celsius' | 'fahrenheit';
 }
 
-const defaultSettings: UserSettings = {
+export const defaultSettings: UserSettings = {
   temp_min: 25,
   temp_max: 32,
   ph_min: 6.5,
@@ -44,12 +45,15 @@ const defaultSettings: UserSettings = {
   temp_unit: 'celsius',
 };
 
+// Toggles the automation engine and schedule executor read from ponds/{id}/config
+type FirebaseFlags = Pick<UserSettings, 'auto_mode_enabled' | 'alerts_enabled'>;
+
 interface UseUserSettingsReturn {
   settings: UserSettings;
   isLoading: boolean;
   error: string | null;
   updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
-  syncToFirebase: (pondId: string) => Promise<void>;
+  syncToFirebase: (pondId: string, thresholds?: SensorThresholds, flags?: FirebaseFlags) => Promise<void>;
 }
 
 export function useUserSettings(): UseUserSettingsReturn {
@@ -185,20 +189,17 @@ export function useUserSettings(): UseUserSettingsReturn {
   }, [userId, settings]);
 
   // Sync thresholds and auto_mode to Firebase for ESP32 access
-  const syncToFirebase = useCallback(async (pondId: string) => {
+  // Thresholds are only written when given, so a pond's own profile is never
+  // overwritten by a settings toggle. Pass `flags` right after updateSettings;
+  // `settings` still holds the values from before the update until the next render.
+  const syncToFirebase = useCallback(async (pondId: string, thresholds?: SensorThresholds, flags?: FirebaseFlags) => {
     if (!database) return;
 
     try {
-      await set(ref(database, `ponds/${pondId}/config`), {
-        thresholds: {
-          temp_min: settings.temp_min,
-          temp_max: settings.temp_max,
-          ph_min: settings.ph_min,
-          ph_max: settings.ph_max,
-          do_min: settings.do_min,
-        },
-        auto_mode_enabled: settings.auto_mode_enabled,
-        alerts_enabled: settings.alerts_enabled,
+      await update(ref(database, `ponds/${pondId}/config`), {
+        ...(thresholds ? { thresholds: toFirebaseThresholds(thresholds) } : {}),
+        auto_mode_enabled: flags?.auto_mode_enabled ?? settings.auto_mode_enabled,
+        alerts_enabled: flags?.alerts_enabled ?? settings.alerts_enabled,
       });
     } catch (err) {
       console.error('Error syncing to Firebase:', err);
@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback } from 'react';
+import { subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { WaterExchange, WaterExchangeInput, WaterSource } from '@/types/waterExchange';
+
+// Water exchanges for a pond, newest first; `days: null` loads everything
+export function useWaterExchanges(pondId: string, days: number | null = 90) {
+  const [exchanges, setExchanges] = useState<WaterExchange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchExchanges = useCallback(async () => {
+    if (!pondId) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      let query = supabase
+        .from('water_exchanges')
+        .select('*')
+        .eq('pond_id', pondId)
+        .order('exchanged_at', { ascending: false });
+
+      if (days !== null) query = query.gte('exchanged_at', subDays(new Date(), days).toISOString());
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+
+      setExchanges((data || []).map(row => ({
+        id: row.id,
+        exchangedAt: new Date(row.exchanged_at),
+        percent: row.percent,
+        source: row.source as WaterSource,
+        levelBeforeCm: row.level_before_cm,
+        levelAfterCm: row.level_after_cm,
+        note: row.note,
+      })));
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching water exchanges:', err);
+      setError('Failed to load water exchanges');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [pondId, days]);
+
+  useEffect(() => {
+    fetchExchanges();
+  }, [fetchExchanges]);
+
+  const addExchange = useCallback(async (input: WaterExchangeInput): Promise<boolean> => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not signed in');
+
+      const { error: insertError } = await supabase.from('water_exchanges').insert({
+        pond_id: pondId,
+        exchanged_at: input.exchangedAt.toISOString(),
+        percent: input.percent,
+        source: input.source,
+        level_before_cm: input.levelBeforeCm ?? null,
+        level_after_cm: input.levelAfterCm ?? null,
+        note: input.note || null,
+        created_by: session.user.id,
+      });
+
+      if (insertError) throw insertError;
+      toast.success('Water exchange recorded');
+      await fetchExchanges();
+      return true;
+    } catch (err) {
+      console.error('Error saving water exchange:', err);
+      toast.error('Failed to save water exchange');
+      return false;
+    }
+  }, [pondId, fetchExchanges]);
+
+  const deleteExchange = useCallback(async (id: string): Promise<boolean> => {
+    try {
+      const { error: deleteError } = await supabase.from('water_exchanges').delete().eq('id', id);
+      if (deleteError) throw deleteError;
+      setExchanges(prev => prev.filter(exchange => exchange.id !== id));
+      toast.success('Water exchange deleted');
+      return true;
+    } catch (err) {
+      console.error('Error deleting water exchange:', err);
+      toast.error('Failed to delete water exchange');
+      return false;
+    }
+  }, []);
+
+  return { exchanges, isLoading, error, refetch: fetchExchanges, addExchange, deleteExchange };
+}
@@ -55,6 +55,44 @@ export type Database = {
           },
         ]
       }
+      biomass_estimates: {
+        Row: {
+          biomass_kg: number
+          created_at: string
+          created_by: string | null
+          id: string
+          measured_at: string
+          note: string | null
+          pond_id: string
+        }
+        Insert: {
+          biomass_kg: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          measured_at?: string
+          note?: string | null
+          pond_id: string
+        }
+        Update: {
+          biomass_kg?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          measured_at?: string
+          note?: string | null
+          pond_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "biomass_estimates_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       camera_recordings: {
         Row: {
           camera_id: string
@@ -220,6 +258,265 @@ export type Database = {
           },
         ]
       }
+      crop_cycles: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ended_at: string | null
+          hatchery: string | null
+          id: string
+          name: string
+          note: string | null
+          pond_id: string
+          species: string
+          stocked_at: string
+          stocked_count: number
+          stocking_weight_g: number | null
+          target_weight_g: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          hatchery?: string | null
+          id?: string
+          name: string
+          note?: string | null
+          pond_id: string
+          species: string
+          stocked_at: string
+          stocked_count: number
+          stocking_weight_g?: number | null
+          target_weight_g?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          hatchery?: string | null
+          id?: string
+          name?: string
+          note?: string | null
+          pond_id?: string
+          species?: string
+          stocked_at?: string
+          stocked_count?: number
+          stocking_weight_g?: number | null
+          target_weight_g?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_cycles_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cycle_harvests: {
+        Row: {
+          buyer: string | null
+          count: number | null
+          created_at: string
+          created_by: string | null
+          cycle_id: string
+          harvested_at: string
+          id: string
+          is_final: boolean
+          note: string | null
+          pond_id: string
+          price_per_kg: number | null
+          weight_kg: number
+        }
+        Insert: {
+          buyer?: string | null
+          count?: number | null
+          created_at?: string
+          created_by?: string | null
+          cycle_id: string
+          harvested_at?: string
+          id?: string
+          is_final?: boolean
+          note?: string | null
+          pond_id: string
+          price_per_kg?: number | null
+          weight_kg: number
+        }
+        Update: {
+          buyer?: string | null
+          count?: number | null
+          created_at?: string
+          created_by?: string | null
+          cycle_id?: string
+          harvested_at?: string
+          id?: string
+          is_final?: boolean
+          note?: string | null
+          pond_id?: string
+          price_per_kg?: number | null
+          weight_kg?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_harvests_cycle_id_pond_id_fkey"
+            columns: ["cycle_id", "pond_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id", "pond_id"]
+          },
+        ]
+      }
+      cycle_mortalities: {
+        Row: {
+          cause: string | null
+          count: number
+          created_at: string
+          created_by: string | null
+          cycle_id: string
+          id: string
+          note: string | null
+          pond_id: string
+          recorded_at: string
+        }
+        Insert: {
+          cause?: string | null
+          count: number
+          created_at?: string
+          created_by?: string | null
+          cycle_id: string
+          id?: string
+          note?: string | null
+          pond_id: string
+          recorded_at?: string
+        }
+        Update: {
+          cause?: string | null
+          count?: number
+          created_at?: string
+          created_by?: string | null
+          cycle_id?: string
+          id?: string
+          note?: string | null
+          pond_id?: string
+          recorded_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_mortalities_cycle_id_pond_id_fkey"
+            columns: ["cycle_id", "pond_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id", "pond_id"]
+          },
+        ]
+      }
+      cycle_samplings: {
+        Row: {
+          avg_weight_g: number
+          created_at: string
+          created_by: string | null
+          cycle_id: string
+          id: string
+          note: string | null
+          pond_id: string
+          sample_count: number
+          sampled_at: string
+        }
+        Insert: {
+          avg_weight_g: number
+          created_at?: string
+          created_by?: string | null
+          cycle_id: string
+          id?: string
+          note?: string | null
+          pond_id: string
+          sample_count: number
+          sampled_at?: string
+        }
+        Update: {
+          avg_weight_g?: number
+          created_at?: string
+          created_by?: string | null
+          cycle_id?: string
+          id?: string
+          note?: string | null
+          pond_id?: string
+          sample_count?: number
+          sampled_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cycle_samplings_cycle_id_pond_id_fkey"
+            columns: ["cycle_id", "pond_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id", "pond_id"]
+          },
+        ]
+      }
+      device_activity: {
+        Row: {
+          ack_result: string
+          acked_at: string | null
+          actor_id: string | null
+          actor_label: string | null
+          command_id: string | null
+          created_at: string
+          device_type: string
+          id: string
+          new_level: number | null
+          new_state: number
+          pond_id: string
+          previous_level: number | null
+          previous_state: number | null
+          source: string
+        }
+        Insert: {
+          ack_result?: string
+          acked_at?: string | null
+          actor_id?: string | null
+          actor_label?: string | null
+          command_id?: string | null
+          created_at?: string
+          device_type: string
+          id?: string
+          new_level?: number | null
+          new_state: number
+          pond_id: string
+          previous_level?: number | null
+          previous_state?: number | null
+          source: string
+        }
+        Update: {
+          ack_result?: string
+          acked_at?: string | null
+          actor_id?: string | null
+          actor_label?: string | null
+          command_id?: string | null
+          created_at?: string
+          device_type?: string
+          id?: string
+          new_level?: number | null
+          new_state?: number
+          pond_id?: string
+          previous_level?: number | null
+          previous_state?: number | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_activity_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       device_schedules: {
         Row: {
           created_at: string
@@ -296,31 +593,315 @@ export type Database = {
           },
         ]
       }
+      feed_logs: {
+        Row: {
+          acked_at: string | null
+          actor_id: string | null
+          brand: string | null
+          cost: number | null
+          created_at: string
+          device_type: string | null
+          dispense_id: string | null
+          dispensed_grams: number | null
+          dissolved_oxygen: number | null
+          fed_at: string
+          feed_type: string | null
+          grams: number | null
+          id: string
+          message: string | null
+          note: string | null
+          pond_id: string
+          ration_time: string | null
+          scheduled_for: string | null
+          seconds: number | null
+          source: string
+          status: string
+        }
+        Insert: {
+          acked_at?: string | null
+          actor_id?: string | null
+          brand?: string | null
+          cost?: number | null
+          created_at?: string
+          device_type?: string | null
+          dispense_id?: string | null
+          dispensed_grams?: number | null
+          dissolved_oxygen?: number | null
+          fed_at?: string
+          feed_type?: string | null
+          grams?: number | null
+          id?: string
+          message?: string | null
+          note?: string | null
+          pond_id: string
+          ration_time?: string | null
+          scheduled_for?: string | null
+          seconds?: number | null
+          source: string
+          status?: string
+        }
+        Update: {
+          acked_at?: string | null
+          actor_id?: string | null
+          brand?: string | null
+          cost?: number | null
+          created_at?: string
+          device_type?: string | null
+          dispense_id?: string | null
+          dispensed_grams?: number | null
+          dissolved_oxygen?: number | null
+          fed_at?: string
+          feed_type?: string | null
+          grams?: number | null
+          id?: string
+          message?: string | null
+          note?: string | null
+          pond_id?: string
+          ration_time?: string | null
+          scheduled_for?: string | null
+          seconds?: number | null
+          source?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feed_logs_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_test_results: {
+        Row: {
+          id: string
+          parameter: string
+          pond_id: string
+          test_id: string
+          unit: string | null
+          value: number
+        }
+        Insert: {
+          id?: string
+          parameter: string
+          pond_id: string
+          test_id: string
+          unit?: string | null
+          value: number
+        }
+        Update: {
+          id?: string
+          parameter?: string
+          pond_id?: string
+          test_id?: string
+          unit?: string | null
+          value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_test_results_test_id_pond_id_fkey"
+            columns: ["test_id", "pond_id"]
+            isOneToOne: false
+            referencedRelation: "lab_tests"
+            referencedColumns: ["id", "pond_id"]
+          },
+        ]
+      }
+      lab_tests: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          method: string | null
+          note: string | null
+          pond_id: string
+          tested_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method?: string | null
+          note?: string | null
+          pond_id: string
+          tested_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          method?: string | null
+          note?: string | null
+          pond_id?: string
+          tested_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_tests_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          critical_alerts: boolean
+          digest_frequency: string
+          digest_hour: number
+          dissolved_oxygen_alerts: boolean
+          email_enabled: boolean
+          id: string
+          last_digest_at: string | null
+          ph_alerts: boolean
+          push_enabled: boolean
+          quiet_hours_enabled: boolean
+          quiet_hours_end: string
+          quiet_hours_start: string
+          sound_enabled: boolean
+          temperature_alerts: boolean
+          timezone: string
+          updated_at: string
+          user_id: string
+          warning_alerts: boolean
+        }
+        Insert: {
+          created_at?: string
+          critical_alerts?: boolean
+          digest_frequency?: string
+          digest_hour?: number
+          dissolved_oxygen_alerts?: boolean
+          email_enabled?: boolean
+          id?: string
+          last_digest_at?: string | null
+          ph_alerts?: boolean
+          push_enabled?: boolean
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          sound_enabled?: boolean
+          temperature_alerts?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id: string
+          warning_alerts?: boolean
+        }
+        Update: {
+          created_at?: string
+          critical_alerts?: boolean
+          digest_frequency?: string
+          digest_hour?: number
+          dissolved_oxygen_alerts?: boolean
+          email_enabled?: boolean
+          id?: string
+          last_digest_at?: string | null
+          ph_alerts?: boolean
+          push_enabled?: boolean
+          quiet_hours_enabled?: boolean
+          quiet_hours_end?: string
+          quiet_hours_start?: string
+          sound_enabled?: boolean
+          temperature_alerts?: boolean
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+          warning_alerts?: boolean
+        }
+        Relationships: []
+      }
+      pond_treatments: {
+        Row: {
+          applied_at: string
+          category: string
+          created_at: string
+          created_by: string | null
+          id: string
+          note: string | null
+          pond_id: string
+          product: string
+          quantity: number
+          reason: string | null
+          unit: string
+          withdrawal_days: number
+        }
+        Insert: {
+          applied_at?: string
+          category: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          pond_id: string
+          product: string
+          quantity: number
+          reason?: string | null
+          unit: string
+          withdrawal_days?: number
+        }
+        Update: {
+          applied_at?: string
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          note?: string | null
+          pond_id?: string
+          product?: string
+          quantity?: number
+          reason?: string | null
+          unit?: string
+          withdrawal_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pond_treatments_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ponds: {
         Row: {
           created_at: string
           device_ip: string
+          fish_type: string | null
           id: string
           location: string | null
           name: string
+          reading_retention_days: number
+          thresholds: Json | null
+          timezone: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
           device_ip: string
+          fish_type?: string | null
           id?: string
           location?: string | null
           name: string
+          reading_retention_days?: number
+          thresholds?: Json | null
+          timezone?: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
           device_ip?: string
+          fish_type?: string | null
           id?: string
           location?: string | null
           name?: string
+          reading_retention_days?: number
+          thresholds?: Json | null
+          timezone?: string
           updated_at?: string
           user_id?: string
         }
@@ -353,30 +934,107 @@ export type Database = {
         }
         Relationships: []
       }
+      schedule_executions: {
+        Row: {
+          action: string
+          attempts: number
+          claimed_at: string
+          command_id: string | null
+          device_type: string
+          executed_at: string | null
+          id: string
+          message: string | null
+          pond_id: string
+          schedule_id: string
+          scheduled_for: string
+          status: string
+        }
+        Insert: {
+          action: string
+          attempts?: number
+          claimed_at?: string
+          command_id?: string | null
+          device_type: string
+          executed_at?: string | null
+          id?: string
+          message?: string | null
+          pond_id: string
+          schedule_id: string
+          scheduled_for: string
+          status?: string
+        }
+        Update: {
+          action?: string
+          attempts?: number
+          claimed_at?: string
+          command_id?: string | null
+          device_type?: string
+          executed_at?: string | null
+          id?: string
+          message?: string | null
+          pond_id?: string
+          schedule_id?: string
+          scheduled_for?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_executions_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sensor_readings: {
         Row: {
-          dissolved_oxygen: number
+          ammonia: number | null
+          bucket_seconds: number
+          dissolved_oxygen: number | null
           id: string
-          ph: number
+          nitrite: number | null
+          orp: number | null
+          ph: number | null
           pond_id: string
           recorded_at: string
-          temperature: number
+          salinity: number | null
+          sample_count: number
+          temperature: number | null
+          turbidity: number | null
+          water_level: number | null
         }
         Insert: {
-          dissolved_oxygen: number
+          ammonia?: number | null
+          bucket_seconds?: number
+          dissolved_oxygen?: number | null
           id?: string
-          ph: number
+          nitrite?: number | null
+          orp?: number | null
+          ph?: number | null
           pond_id: string
           recorded_at?: string
-          temperature: number
+          salinity?: number | null
+          sample_count?: number
+          temperature?: number | null
+          turbidity?: number | null
+          water_level?: number | null
         }
         Update: {
-          dissolved_oxygen?: number
+          ammonia?: number | null
+          bucket_seconds?: number
+          dissolved_oxygen?: number | null
           id?: string
-          ph?: number
+          nitrite?: number | null
+          orp?: number | null
+          ph?: number | null
           pond_id?: string
           recorded_at?: string
-          temperature?: number
+          salinity?: number | null
+          sample_count?: number
+          temperature?: number | null
+          turbidity?: number | null
+          water_level?: number | null
         }
         Relationships: [
           {
@@ -469,11 +1127,109 @@ export type Database = {
         }
         Relationships: []
       }
+      water_exchanges: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          exchanged_at: string
+          id: string
+          level_after_cm: number | null
+          level_before_cm: number | null
+          note: string | null
+          percent: number
+          pond_id: string
+          source: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          exchanged_at?: string
+          id?: string
+          level_after_cm?: number | null
+          level_before_cm?: number | null
+          note?: string | null
+          percent: number
+          pond_id: string
+          source: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          exchanged_at?: string
+          id?: string
+          level_after_cm?: number | null
+          level_before_cm?: number | null
+          note?: string | null
+          percent?: number
+          pond_id?: string
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "water_exchanges_pond_id_fkey"
+            columns: ["pond_id"]
+            isOneToOne: false
+            referencedRelation: "ponds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      claim_schedule_execution: {
+        Args: {
+          _action: string
+          _device_type: string
+          _pond_id: string
+          _schedule_id: string
+          _scheduled_for: string
+        }
+        Returns: boolean
+      }
+      compact_sensor_readings: {
+        Args: never
+        Returns: undefined
+      }
+      crop_cycle_conditions: {
+        Args: {
+          _cycle_id: string
+        }
+        Returns: {
+          avg_dissolved_oxygen: number | null
+          avg_ph: number | null
+          avg_temperature: number | null
+          min_dissolved_oxygen: number | null
+          reading_count: number
+        }[]
+      }
+      device_states_at: {
+        Args: {
+          _at: string
+          _pond_id: string
+        }
+        Returns: {
+          device_type: string
+          state: number
+        }[]
+      }
+      dissolved_oxygen_summary: {
+        Args: {
+          _from: string
+          _pond_id: string
+          _threshold: number
+          _to: string
+        }
+        Returns: {
+          avg_dissolved_oxygen: number | null
+          max_dissolved_oxygen: number | null
+          min_dissolved_oxygen: number | null
+          reading_count: number
+          seconds_below_threshold: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -481,6 +1237,45 @@ export type Database = {
         }
         Returns: boolean
       }
+      sensor_history_buckets: {
+        Args: {
+          _bucket_seconds: number
+          _from: string
+          _pond_id: string
+          _to: string
+        }
+        Returns: {
+          ammonia_avg: number | null
+          ammonia_max: number | null
+          ammonia_min: number | null
+          bucket_start: string
+          dissolved_oxygen_avg: number | null
+          dissolved_oxygen_max: number | null
+          dissolved_oxygen_min: number | null
+          nitrite_avg: number | null
+          nitrite_max: number | null
+          nitrite_min: number | null
+          orp_avg: number | null
+          orp_max: number | null
+          orp_min: number | null
+          ph_avg: number | null
+          ph_max: number | null
+          ph_min: number | null
+          salinity_avg: number | null
+          salinity_max: number | null
+          salinity_min: number | null
+          sample_count: number
+          temperature_avg: number | null
+          temperature_max: number | null
+          temperature_min: number | null
+          turbidity_avg: number | null
+          turbidity_max: number | null
+          turbidity_min: number | null
+          water_level_avg: number | null
+          water_level_max: number | null
+          water_level_min: number | null
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,83 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { FeedRates, entryKg } from '@/lib/feedConversion';
+import type { CropCycle } from '@/types/cropCycle';
+import type { FeedLogEntry } from '@/types/feeding';
+
+/**
+ * Crop cycle bookkeeping
+ *
+ * A cycle owns everything timestamped inside its [stockedAt, endedAt) window;
+ * cycles in a pond never overlap, so each reading, alert or feed log belongs to
+ * at most one. Survival counts recorded losses and harvested head; FCR is only
+ * worked out once the cycle is harvested.
+ */
+
+export interface CycleSummary {
+  days: number;
+  mortality: number;
+  // Stocked minus recorded losses and harvested head
+  remainingCount: number;
+  survivalPercent: number;
+  harvestedKg: number;
+  revenue: number;
+  feedKg: number;
+  feedCost: number;
+  fcr: number | null;
+  latestWeightG: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const isActiveCycle = (cycle: CropCycle) => cycle.endedAt === null;
+
+export function isInCycle(cycle: CropCycle, date: Date): boolean {
+  return date >= cycle.stockedAt && (cycle.endedAt === null || date < cycle.endedAt);
+}
+
+// The cycle a reading, alert or feed log taken at `date` belongs to
+export function cycleAt(cycles: CropCycle[], date: Date): CropCycle | undefined {
+  return cycles.find(cycle => isInCycle(cycle, date));
+}
+
+// Day 1 is the stocking day
+export function dayOfCulture(cycle: CropCycle, at = new Date()): number {
+  const end = cycle.endedAt && cycle.endedAt < at ? cycle.endedAt : at;
+  return differenceInCalendarDays(end, cycle.stockedAt) + 1;
+}
+
+export function stockingBiomassKg(cycle: CropCycle): number | null {
+  return cycle.stockingWeightG ? (cycle.stockedCount * cycle.stockingWeightG) / 1000 : null;
+}
+
+export function summarizeCycle(cycle: CropCycle, feedLogs: FeedLogEntry[], rates: FeedRates): CycleSummary {
+  const mortality = cycle.mortalities.reduce((sum, record) => sum + record.count, 0);
+  const harvestedCount = cycle.harvests.reduce((sum, harvest) => sum + (harvest.count ?? 0), 0);
+  const harvestedKg = cycle.harvests.reduce((sum, harvest) => sum + harvest.weightKg, 0);
+  const revenue = cycle.harvests.reduce((sum, harvest) => sum + harvest.weightKg * (harvest.pricePerKg ?? 0), 0);
+
+  const cycleFeed = feedLogs.filter(entry => isInCycle(cycle, entry.fedAt));
+  const feedKg = cycleFeed.reduce((sum, entry) => sum + entryKg(entry, rates), 0);
+  const feedCost = cycleFeed.reduce((sum, entry) => sum + (entry.cost ?? 0), 0);
+
+  // Harvest head counts are the better number once every harvest has one
+  const allCounted = cycle.harvests.length > 0 && cycle.harvests.every(harvest => harvest.count !== null);
+  const survivors = !isActiveCycle(cycle) && allCounted ? harvestedCount : cycle.stockedCount - mortality;
+
+  const gainKg = harvestedKg - (stockingBiomassKg(cycle) ?? 0);
+  const fcr = !isActiveCycle(cycle) && gainKg > 0 && feedKg > 0 ? round2(feedKg / gainKg) : null;
+
+  const latestSampling = cycle.samplings[cycle.samplings.length - 1];
+
+  return {
+    days: dayOfCulture(cycle),
+    mortality,
+    remainingCount: Math.max(0, cycle.stockedCount - mortality - harvestedCount),
+    survivalPercent: round2((Math.max(0, survivors) / cycle.stockedCount) * 100),
+    harvestedKg: round2(harvestedKg),
+    revenue: round2(revenue),
+    feedKg: round2(feedKg),
+    feedCost: round2(feedCost),
+    fcr,
+    latestWeightG: latestSampling?.avgWeightG ?? cycle.stockingWeightG,
+  };
+}
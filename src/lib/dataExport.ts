@@ -0,0 +1,222 @@
+import { format } from 'date-fns';
+import { ref, query, orderByChild, startAt, endAt, get } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { supabase } from '@/integrations/supabase/client';
+import type { Alert } from '@/types/aquaculture';
+
+/**
+ * Raw data export for consultants and auditors
+ *
+ * Each dataset becomes one table: a CSV file, or a sheet in an Excel workbook.
+ * Times are UTC. Everything is generated in the browser.
+ */
+
+export type ExportDataset = 'sensors' | 'alerts' | 'activity' | 'executions';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type ExportValue = string | number | Date | null;
+
+export interface ExportTable {
+  dataset: ExportDataset;
+  columns: string[];
+  rows: ExportValue[][];
+}
+
+export const EXPORT_DATASETS: { value: ExportDataset; label: string }[] = [
+  { value: 'sensors', label: 'Sensor history' },
+  { value: 'alerts', label: 'Alerts' },
+  { value: 'activity', label: 'Device activity' },
+  { value: 'executions', label: 'Schedule executions' },
+];
+
+const PAGE_SIZE = 1000;
+// Minute rows for a full year of one pond
+const MAX_ROWS = 600000;
+
+export type AlertRecord = Pick<Alert, 'id' | 'type' | 'severity' | 'message' | 'timestamp' | 'acknowledged'>;
+
+type PagedQuery<T> = (offset: number, limit: number) => PromiseLike<{ data: T[] | null; error: unknown }>;
+
+// Every row of a ranged query, a page at a time
+export async function fetchAllRows<T>(page: PagedQuery<T>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; offset < MAX_ROWS; offset += PAGE_SIZE) {
+    const { data, error } = await page(offset, PAGE_SIZE);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function loadSensorReadings(pondId: string, from: Date, to: Date): Promise<ExportTable> {
+  const rows = await fetchAllRows((offset, limit) => supabase
+    .from('sensor_readings')
+    .select('*')
+    .eq('pond_id', pondId)
+    .gte('recorded_at', from.toISOString())
+    .lte('recorded_at', to.toISOString())
+    .order('recorded_at', { ascending: true })
+    .range(offset, offset + limit - 1));
+
+  return {
+    dataset: 'sensors',
+    columns: [
+      'Time (UTC)', 'Bucket (s)', 'Samples', 'pH', 'Dissolved oxygen (mg/L)', 'Temperature (°C)',
+      'Ammonia (mg/L)', 'Nitrite (mg/L)', 'Salinity (ppt)', 'ORP (mV)', 'Turbidity (NTU)', 'Water level (cm)',
+    ],
+    rows: rows.map(row => [
+      new Date(row.recorded_at), row.bucket_seconds, row.sample_count, row.ph, row.dissolved_oxygen, row.temperature,
+      row.ammonia, row.nitrite, row.salinity, row.orp, row.turbidity, row.water_level,
+    ]),
+  };
+}
+
+// Alerts live in Firebase, not Postgres; oldest first
+export async function fetchAlertsInRange(pondId: string, from: Date, to: Date): Promise<AlertRecord[]> {
+  if (!database) throw new Error('Firebase not initialized');
+  const alertsQuery = query(
+    ref(database, `ponds/${pondId}/alerts`),
+    orderByChild('timestamp'),
+    startAt(from.getTime()),
+    endAt(to.getTime())
+  );
+  const snapshot = await get(alertsQuery);
+  const data = (snapshot.val() || {}) as Record<string, Record<string, unknown>>;
+
+  return Object.entries(data)
+    .filter(([, value]) => typeof value?.timestamp === 'number')
+    .map(([key, value]) => ({
+      id: key,
+      type: (value.type || 'sensor') as Alert['type'],
+      severity: (value.severity || 'warning') as Alert['severity'],
+      message: String(value.message || 'Alert triggered'),
+      timestamp: new Date(value.timestamp as number),
+      acknowledged: !!value.acknowledged,
+    }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+async function loadAlerts(pondId: string, from: Date, to: Date): Promise<ExportTable> {
+  const alerts = await fetchAlertsInRange(pondId, from, to);
+  return {
+    dataset: 'alerts',
+    columns: ['Time (UTC)', 'Type', 'Severity', 'Message', 'Acknowledged', 'Alert ID'],
+    rows: alerts.map(alert => [
+      alert.timestamp, alert.type, alert.severity, alert.message, alert.acknowledged ? 'yes' : 'no', alert.id,
+    ]),
+  };
+}
+
+async function loadDeviceActivity(pondId: string, from: Date, to: Date): Promise<ExportTable> {
+  const rows = await fetchAllRows((offset, limit) => supabase
+    .from('device_activity')
+    .select('*')
+    .eq('pond_id', pondId)
+    .gte('created_at', from.toISOString())
+    .lte('created_at', to.toISOString())
+    .order('created_at', { ascending: true })
+    .range(offset, offset + limit - 1));
+
+  return {
+    dataset: 'activity',
+    columns: [
+      'Time (UTC)', 'Device', 'Source', 'Actor', 'Actor ID', 'Previous state', 'New state',
+      'Previous level', 'New level', 'Command ID', 'Ack result', 'Acked at (UTC)',
+    ],
+    rows: rows.map(row => [
+      new Date(row.created_at), row.device_type, row.source, row.actor_label, row.actor_id, row.previous_state, row.new_state,
+      row.previous_level, row.new_level, row.command_id, row.ack_result, row.acked_at ? new Date(row.acked_at) : null,
+    ]),
+  };
+}
+
+async function loadScheduleExecutions(pondId: string, from: Date, to: Date): Promise<ExportTable> {
+  const rows = await fetchAllRows((offset, limit) => supabase
+    .from('schedule_executions')
+    .select('*')
+    .eq('pond_id', pondId)
+    .gte('scheduled_for', from.toISOString())
+    .lte('scheduled_for', to.toISOString())
+    .order('scheduled_for', { ascending: true })
+    .range(offset, offset + limit - 1));
+
+  return {
+    dataset: 'executions',
+    columns: ['Scheduled for (UTC)', 'Device', 'Action', 'Status', 'Attempts', 'Executed at (UTC)', 'Message', 'Schedule ID'],
+    rows: rows.map(row => [
+      new Date(row.scheduled_for), row.device_type, row.action, row.status, row.attempts,
+      row.executed_at ? new Date(row.executed_at) : null, row.message, row.schedule_id,
+    ]),
+  };
+}
+
+export function loadExportTable(dataset: ExportDataset, pondId: string, from: Date, to: Date): Promise<ExportTable> {
+  switch (dataset) {
+    case 'sensors': return loadSensorReadings(pondId, from, to);
+    case 'alerts': return loadAlerts(pondId, from, to);
+    case 'activity': return loadDeviceActivity(pondId, from, to);
+    case 'executions': return loadScheduleExecutions(pondId, from, to);
+  }
+}
+
+export function exportDatasetLabel(dataset: ExportDataset): string {
+  return EXPORT_DATASETS.find(d => d.value === dataset)?.label ?? dataset;
+}
+
+function csvCell(value: ExportValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'number') return String(value);
+  // Spreadsheets would run text starting with these as a formula
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(table: ExportTable): Blob {
+  const lines = [table.columns, ...table.rows].map(row => row.map(csvCell).join(','));
+  // BOM so Excel opens the file as UTF-8 (°C, names with accents)
+  return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+}
+
+// exceljs is large, so it's only loaded when someone actually exports a workbook
+export async function toXlsx(tables: ExportTable[]): Promise<Blob> {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const table of tables) {
+    const sheet = workbook.addWorksheet(exportDatasetLabel(table.dataset));
+    sheet.addRow(table.columns).font = { bold: true };
+    sheet.views = [{ state: 'frozen', ySplit: 1 }];
+    for (const row of table.rows) sheet.addRow(row);
+    table.columns.forEach((column, index) => {
+      const sheetColumn = sheet.getColumn(index + 1);
+      sheetColumn.width = Math.max(12, column.length + 2);
+      if (table.rows.some(row => row[index] instanceof Date)) {
+        sheetColumn.numFmt = 'yyyy-mm-dd hh:mm:ss';
+        sheetColumn.width = 20;
+      }
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// e.g. "north-pond_sensors_2026-09-01_2026-09-30"
+export function exportFilename(pondName: string, part: string, from: Date, to: Date): string {
+  const slug = pondName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'pond';
+  return `${slug}_${part}_${format(from, 'yyyy-MM-dd')}_${format(to, 'yyyy-MM-dd')}`;
+}
@@ -0,0 +1,43 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { AckResult } from '@/types/activity';
+
+interface ManualActivity {
+  pondId: string;
+  deviceType: string;
+  previousState: 0 | 1 | null;
+  newState: 0 | 1;
+  // Only for devices with a variable level
+  previousLevel?: number | null;
+  newLevel?: number;
+  commandId: string;
+  ackResult: AckResult;
+  // e.g. "All Off" for bulk actions
+  label?: string;
+}
+
+// Record a manual device change; never throws, the command itself already went out
+export async function logManualActivity(activity: ManualActivity): Promise<void> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const { error } = await supabase.from('device_activity').insert({
+      pond_id: activity.pondId,
+      device_type: activity.deviceType,
+      source: 'manual',
+      actor_id: session.user.id,
+      actor_label: activity.label ?? null,
+      previous_state: activity.previousState,
+      new_state: activity.newState,
+      previous_level: activity.previousLevel ?? null,
+      new_level: activity.newLevel ?? null,
+      command_id: activity.commandId,
+      ack_result: activity.ackResult,
+      acked_at: activity.ackResult === 'acknowledged' || activity.ackResult === 'mismatch' ? new Date().toISOString() : null,
+    });
+
+    if (error) throw error;
+  } catch (err) {
+    console.error('Error recording device activity:', err);
+  }
+}
@@ -0,0 +1,97 @@
+import { ref, update, onValue } from 'firebase/database';
+import { database } from '@/lib/firebase';
+import { ackMatches, type CommandIssuer, type DeviceAck, type DeviceCommandEnvelope } from '@shared/deviceCommand.ts';
+
+/**
+ * Device command protocol.
+ *
+ * A command is written atomically to ponds/{pondId}/devices/{type} together
+ * with the desired `state`/`mode` (which older firmware still reads):
+ *
+ *   command: { id, state, level?, mode, issuer, issuedAt, expiresAt, attempt }
+ *
+ * `level` (0-100%) is set for variable-speed and dimmable devices; `state` is
+ * then 1 for any level above zero. The ESP32 applies commands that haven't
+ * expired and answers with
+ *
+ *   ack: { commandId, state, level?, at }
+ *
+ * where `state`/`level` are the output after applying it. A command with no
+ * matching ack by `expiresAt` is "unconfirmed".
+ */
+
+// The envelope, ack and ack check are shared with the edge functions
+export { ackMatches };
+export type { CommandIssuer, DeviceAck, DeviceCommandEnvelope };
+
+export type CommandConfirmation = 'none' | 'pending' | 'acknowledged' | 'mismatch' | 'unconfirmed';
+
+// How long the board has to ack each attempt, and how many attempts the app makes
+export const COMMAND_ACK_TIMEOUT_MS = 5000;
+export const COMMAND_MAX_ATTEMPTS = 3;
+
+export function createCommand(
+  state: 0 | 1,
+  mode: 'manual' | 'auto',
+  issuer: CommandIssuer,
+  issuedBy?: string,
+  level?: number
+): DeviceCommandEnvelope {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    state,
+    ...(level !== undefined ? { level } : {}),
+    mode,
+    issuer,
+    ...(issuedBy ? { issuedBy } : {}),
+    issuedAt: now,
+    expiresAt: now + COMMAND_ACK_TIMEOUT_MS,
+    attempt: 1,
+  };
+}
+
+// Single multi-path update, so the board never sees a state without its command
+export async function writeCommand(pondId: string, deviceType: string, command: DeviceCommandEnvelope): Promise<void> {
+  await update(ref(database, `ponds/${pondId}/devices/${deviceType}`), {
+    command,
+    state: command.state,
+    mode: command.mode,
+    ...(command.level !== undefined ? { level: command.level } : {}),
+  });
+}
+
+// Resolves with the ack for this command, or null once the timeout passes
+export function waitForAck(pondId: string, deviceType: string, commandId: string, timeoutMs: number): Promise<DeviceAck | null> {
+  return new Promise((resolve) => {
+    const ackRef = ref(database, `ponds/${pondId}/devices/${deviceType}/ack`);
+    let unsubscribe: () => void = () => {};
+
+    const timeout = setTimeout(() => {
+      unsubscribe();
+      resolve(null);
+    }, timeoutMs);
+
+    unsubscribe = onValue(ackRef, (snapshot) => {
+      const ack = snapshot.val() as DeviceAck | null;
+      if (ack?.commandId === commandId) {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(ack);
+      }
+    });
+  });
+}
+
+// Confirmation status of the latest command, from a devices/{type} snapshot
+export function getCommandConfirmation(
+  device: { command?: DeviceCommandEnvelope; ack?: DeviceAck } | null,
+  now = Date.now()
+): CommandConfirmation {
+  const command = device?.command;
+  if (!command?.id) return 'none';
+  if (device?.ack?.commandId === command.id) {
+    return ackMatches(command, device.ack) ? 'acknowledged' : 'mismatch';
+  }
+  return now < command.expiresAt ? 'pending' : 'unconfirmed';
+}
@@ -0,0 +1,82 @@
+import { Droplets, Wind, Lightbulb, Wheat, Flame, Fan, Waves, Plug, type LucideIcon } from 'lucide-react';
+import {
+  DEVICE_KINDS,
+  type DeviceCapability,
+  type DeviceDefinition,
+  type DeviceIconName,
+  type DeviceKind,
+} from '@shared/deviceRegistry.ts';
+
+/**
+ * Device registry - the relay devices installed on each pond.
+ *
+ * Stored at `ponds/{pondId}/deviceRegistry/{key}`, where `key` is also the
+ * node under `devices/` and `schedules/` that the controller and automation
+ * read. Ponds without a registry get DEFAULT_DEVICES, which match the
+ * original motor/aerator/light layout.
+ *
+ * The model and parser live with the edge functions, which read the same
+ * node; this module adds the icons and the editing helpers.
+ */
+
+export {
+  DEFAULT_DEVICES,
+  DEVICE_KINDS,
+  parseDeviceRegistry,
+  type DeviceCapability,
+  type DeviceDefinition,
+  type DeviceIconName,
+  type DeviceKind,
+} from '@shared/deviceRegistry.ts';
+
+export const DEVICE_ICONS: Record<DeviceIconName, LucideIcon> = {
+  Droplets,
+  Wind,
+  Lightbulb,
+  Wheat,
+  Flame,
+  Fan,
+  Waves,
+  Plug,
+};
+
+export const DEVICE_CAPABILITY_LABELS: Record<DeviceCapability, string> = {
+  schedule: 'Schedules',
+  automation: 'Automation rules',
+  level: 'Variable level (VFD / dimmer)',
+};
+
+export const MAX_RELAY_CHANNELS = 8;
+
+export function getDeviceIcon(device: Pick<DeviceDefinition, 'icon' | 'kind'> | undefined): LucideIcon {
+  if (!device) return Plug;
+  return DEVICE_ICONS[device.icon] ?? DEVICE_ICONS[DEVICE_KINDS[device.kind]?.icon] ?? Plug;
+}
+
+export function supportsLevel(device: Pick<DeviceDefinition, 'capabilities'> | undefined): boolean {
+  return !!device?.capabilities.includes('level');
+}
+
+export function isFeeder(device: Pick<DeviceDefinition, 'kind'> | undefined): boolean {
+  return device?.kind === 'feeder';
+}
+
+// Snap a 0-100 level to the device's step
+export function snapLevel(level: number, step = 1): number {
+  const snapped = Math.round(level / step) * step;
+  return Math.min(100, Math.max(0, snapped));
+}
+
+// Firebase key for a new device, e.g. "aerator_2"
+export function createDeviceKey(kind: DeviceKind, existingKeys: string[]): string {
+  const base = kind === 'pump' ? 'motor' : kind;
+  if (!existingKeys.includes(base)) return base;
+  let n = 2;
+  while (existingKeys.includes(`${base}_${n}`)) n++;
+  return `${base}_${n}`;
+}
+
+// Display names keyed by device key, for places that only have the key
+export function getDeviceNames(devices: DeviceDefinition[]): Record<string, string> {
+  return Object.fromEntries(devices.map(device => [device.key, device.name]));
+}
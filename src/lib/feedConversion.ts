@@ -0,0 +1,102 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { fedGrams } from '@/lib/feeding';
+import type { BiomassEstimate, FeedLogEntry } from '@/types/feeding';
+
+/**
+ * Feed conversion
+ *
+ * FCR is feed given divided by biomass gained between two biomass estimates.
+ * Feeding rate is daily feed as a percentage of standing biomass (% BW/day),
+ * with biomass interpolated between estimates.
+ */
+
+export interface DailyFeed {
+  date: string; // "yyyy-MM-dd"
+  label: string;
+  kg: number;
+  cost: number;
+  cumulativeKg: number;
+}
+
+export interface FcrResult {
+  fcr: number;
+  feedKg: number;
+  gainKg: number;
+  from: Date;
+  to: Date;
+}
+
+// Feeder calibrations, for entries that only record run time
+export type FeedRates = Record<string, number | undefined>;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function entryKg(entry: FeedLogEntry, rates: FeedRates): number {
+  return fedGrams(entry, entry.deviceType ? rates[entry.deviceType] : undefined) / 1000;
+}
+
+// One bucket per calendar day from `from` to `to`, including days without feeding
+export function dailyFeed(entries: FeedLogEntry[], rates: FeedRates, from: Date, to: Date): DailyFeed[] {
+  const byDay = new Map<string, { kg: number; cost: number }>();
+  for (const entry of entries) {
+    if (entry.status !== 'dispensed') continue;
+    const key = format(entry.fedAt, 'yyyy-MM-dd');
+    const day = byDay.get(key) ?? { kg: 0, cost: 0 };
+    day.kg += entryKg(entry, rates);
+    day.cost += entry.cost ?? 0;
+    byDay.set(key, day);
+  }
+
+  const days: DailyFeed[] = [];
+  let cumulativeKg = 0;
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    const key = format(day, 'yyyy-MM-dd');
+    const { kg, cost } = byDay.get(key) ?? { kg: 0, cost: 0 };
+    cumulativeKg += kg;
+    days.push({ date: key, label: format(day, 'MMM d'), kg: round2(kg), cost: round2(cost), cumulativeKg: round2(cumulativeKg) });
+  }
+  return days;
+}
+
+// Biomass at a point in time, interpolated between estimates (sorted oldest first)
+export function biomassAt(estimates: BiomassEstimate[], date: Date): number | null {
+  if (estimates.length === 0 || date < estimates[0].measuredAt) return null;
+  for (let i = estimates.length - 1; i >= 0; i--) {
+    const before = estimates[i];
+    if (before.measuredAt > date) continue;
+    const after = estimates[i + 1];
+    if (!after) return before.biomassKg;
+    const span = after.measuredAt.getTime() - before.measuredAt.getTime();
+    const t = span > 0 ? (date.getTime() - before.measuredAt.getTime()) / span : 0;
+    return before.biomassKg + (after.biomassKg - before.biomassKg) * t;
+  }
+  return null;
+}
+
+// Daily feed as a percentage of standing biomass
+export function feedingRatePercent(dailyKg: number, biomassKg: number | null): number | null {
+  if (!biomassKg || biomassKg <= 0) return null;
+  return round2((dailyKg / biomassKg) * 100);
+}
+
+// FCR between the first and last of the given estimates; null without a gain to divide by
+export function computeFcr(
+  entries: FeedLogEntry[],
+  rates: FeedRates,
+  estimates: BiomassEstimate[],
+  // Stock removed in between (partial harvests) still counts as gain
+  harvestedKg = 0
+): FcrResult | null {
+  if (estimates.length < 2) return null;
+  const first = estimates[0];
+  const last = estimates[estimates.length - 1];
+  const gainKg = last.biomassKg - first.biomassKg + harvestedKg;
+  if (gainKg <= 0) return null;
+
+  const feedKg = entries
+    .filter(entry => entry.fedAt > first.measuredAt && entry.fedAt <= last.measuredAt)
+    .reduce((sum, entry) => sum + entryKg(entry, rates), 0);
+  if (feedKg <= 0) return null;
+
+  return { fcr: round2(feedKg / gainKg), feedKg: round2(feedKg), gainKg: round2(gainKg), from: first.measuredAt, to: last.measuredAt };
+}
@@ -0,0 +1,229 @@
+import { ref, update, onValue } from 'firebase/database';
+import { database, ensureAuth, getCurrentUser } from '@/lib/firebase';
+import { supabase } from '@/integrations/supabase/client';
+import { dispenseDeadline, type DispenseAck, type DispenseEnvelope } from '@shared/dispense.ts';
+import type { FeedAmount, FeedDetails, FeedLogEntry, FeedRation, FeedingPlan } from '@/types/feeding';
+
+/**
+ * Feeder dispense protocol.
+ *
+ * A dispense is a one-shot order written next to the feeder's relay state at
+ * ponds/{pondId}/devices/{key}:
+ *
+ *   dispense: { id, grams?, seconds?, issuer, issuedBy?, issuedAt, expiresAt }
+ *
+ * Timer feeders run the auger for `seconds`; feeders with a load cell stop at
+ * `grams`. The ESP32 starts a dispense only once per id and only before
+ * `expiresAt`, and answers when it is done with
+ *
+ *   dispenseAck: { dispenseId, grams?, seconds?, at }
+ *
+ * Dispenses are never retried - a repeat could feed the pond twice.
+ */
+
+// The envelope, ack and deadline are shared with the edge functions
+export { dispenseDeadline };
+export type { DispenseAck, DispenseEnvelope };
+
+// Time the board has to pick a dispense up, on top of the run itself
+export const DISPENSE_START_TIMEOUT_MS = 10000;
+
+export const DEFAULT_FEEDING_PLAN: FeedingPlan = {
+  enabled: false,
+  dailyGrams: 0,
+  rations: [
+    { time: '07:00', percent: 40 },
+    { time: '12:00', percent: 30 },
+    { time: '17:00', percent: 30 },
+  ],
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Grams for one ration of the plan
+export function rationGrams(plan: Pick<FeedingPlan, 'dailyGrams'>, ration: FeedRation): number {
+  return round1((plan.dailyGrams * ration.percent) / 100);
+}
+
+export function rationPercentTotal(rations: FeedRation[]): number {
+  return rations.reduce((sum, ration) => sum + ration.percent, 0);
+}
+
+// Cost of an amount of feed at the given price, rounded to cents
+export function feedCost(grams: number | undefined, pricePerKg: number | undefined): number | null {
+  if (grams === undefined || pricePerKg === undefined) return null;
+  return Math.round(grams * pricePerKg / 10) / 100;
+}
+
+// Fill in the auger run time from the feeder's calibration, when it has one
+export function resolveFeedAmount(amount: FeedAmount, gramsPerSecond?: number): FeedAmount {
+  if (amount.seconds !== undefined || amount.grams === undefined || !gramsPerSecond) return amount;
+  return { ...amount, seconds: round1(amount.grams / gramsPerSecond) };
+}
+
+// Grams a log entry actually fed: the feeder's weight, else the order, else run time x calibration
+export function fedGrams(entry: FeedLogEntry, gramsPerSecond?: number): number {
+  if (entry.status !== 'dispensed') return 0;
+  if (entry.dispensedGrams !== null) return entry.dispensedGrams;
+  if (entry.grams !== null) return entry.grams;
+  return entry.seconds !== null && gramsPerSecond ? round1(entry.seconds * gramsPerSecond) : 0;
+}
+
+export function parseFeedingPlan(raw: Partial<FeedingPlan> | null): FeedingPlan | null {
+  if (!raw || typeof raw !== 'object') return null;
+  // Firebase may hand arrays back as index-keyed objects
+  const rations = Object.values(raw.rations ?? {})
+    .filter((r): r is FeedRation => !!r && typeof r.time === 'string' && typeof r.percent === 'number')
+    .sort((a, b) => a.time.localeCompare(b.time));
+  return {
+    enabled: raw.enabled === true,
+    dailyGrams: typeof raw.dailyGrams === 'number' ? raw.dailyGrams : 0,
+    rations,
+    ...(typeof raw.minDissolvedOxygen === 'number' ? { minDissolvedOxygen: raw.minDissolvedOxygen } : {}),
+    ...(typeof raw.feedType === 'string' ? { feedType: raw.feedType } : {}),
+    ...(typeof raw.brand === 'string' ? { brand: raw.brand } : {}),
+    ...(typeof raw.pricePerKg === 'number' ? { pricePerKg: raw.pricePerKg } : {}),
+    ...(typeof raw.updatedAt === 'number' ? { updatedAt: raw.updatedAt } : {}),
+  };
+}
+
+function waitForDispenseAck(pondId: string, deviceType: string, dispenseId: string, timeoutMs: number): Promise<DispenseAck | null> {
+  return new Promise((resolve) => {
+    const ackRef = ref(database, `ponds/${pondId}/devices/${deviceType}/dispenseAck`);
+    let unsubscribe: () => void = () => {};
+
+    const timeout = setTimeout(() => {
+      unsubscribe();
+      resolve(null);
+    }, timeoutMs);
+
+    unsubscribe = onValue(ackRef, (snapshot) => {
+      const ack = snapshot.val() as DispenseAck | null;
+      if (ack?.dispenseId === dispenseId) {
+        clearTimeout(timeout);
+        unsubscribe();
+        resolve(ack);
+      }
+    });
+  });
+}
+
+interface ManualFeeding {
+  pondId: string;
+  deviceType: string;
+  amount: FeedAmount;
+  details: FeedDetails;
+  dispenseId: string;
+  dissolvedOxygen?: number | null;
+}
+
+// Record a manual dispense as pending before it is sent, so a closed app still
+// leaves a row for the automation engine to settle. Never throws; returns the row id.
+async function logManualFeeding(feeding: ManualFeeding): Promise<string | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return null;
+
+    const { data, error } = await supabase.from('feed_logs').insert({
+      pond_id: feeding.pondId,
+      device_type: feeding.deviceType,
+      source: 'manual',
+      actor_id: session.user.id,
+      grams: feeding.amount.grams ?? null,
+      seconds: feeding.amount.seconds ?? null,
+      feed_type: feeding.details.feedType ?? null,
+      brand: feeding.details.brand ?? null,
+      cost: feedCost(feeding.amount.grams, feeding.details.pricePerKg),
+      status: 'pending',
+      dissolved_oxygen: feeding.dissolvedOxygen ?? null,
+      dispense_id: feeding.dispenseId,
+    }).select('id').single();
+
+    if (error) throw error;
+    return data.id;
+  } catch (err) {
+    console.error('Error recording feeding:', err);
+    return null;
+  }
+}
+
+// Settle a pending manual row from the feeder's ack; leaves rows the server already settled
+async function settleManualFeeding(
+  rowId: string,
+  ack: DispenseAck | null,
+  amount: FeedAmount,
+  details: FeedDetails
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('feed_logs')
+      .update(ack
+        ? {
+            status: 'dispensed',
+            dispensed_grams: ack.grams ?? null,
+            cost: feedCost(ack.grams ?? amount.grams, details.pricePerKg),
+            acked_at: new Date(ack.at).toISOString(),
+          }
+        : { status: 'unconfirmed' })
+      .eq('id', rowId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  } catch (err) {
+    console.error('Error updating feeding:', err);
+  }
+}
+
+// Send a dispense to a feeder and wait for it to finish
+export async function dispenseFeed(
+  pondId: string,
+  deviceType: string,
+  amount: FeedAmount,
+  {
+    gramsPerSecond,
+    dissolvedOxygen,
+    details = {},
+  }: { gramsPerSecond?: number; dissolvedOxygen?: number | null; details?: FeedDetails } = {}
+): Promise<DispenseAck | null> {
+  // Firebase rules reject unauthorized writes anyway
+  await ensureAuth().catch(() => {
+    console.log('Auth not available, attempting write anyway');
+  });
+
+  const resolved = resolveFeedAmount(amount, gramsPerSecond);
+  const issuedAt = Date.now();
+  const issuedBy = getCurrentUser()?.uid;
+  const dispense: DispenseEnvelope = {
+    id: crypto.randomUUID(),
+    ...(resolved.grams !== undefined ? { grams: resolved.grams } : {}),
+    ...(resolved.seconds !== undefined ? { seconds: resolved.seconds } : {}),
+    issuer: 'app',
+    ...(issuedBy ? { issuedBy } : {}),
+    issuedAt,
+    expiresAt: issuedAt + DISPENSE_START_TIMEOUT_MS,
+  };
+
+  const rowId = await logManualFeeding({
+    pondId,
+    deviceType,
+    amount: resolved,
+    details,
+    dispenseId: dispense.id,
+    dissolvedOxygen,
+  });
+
+  try {
+    await update(ref(database, `ponds/${pondId}/devices/${deviceType}`), { dispense });
+  } catch (err) {
+    // Never sent; don't leave the row pending
+    if (rowId) {
+      const message = err instanceof Error ? err.message : String(err);
+      await supabase.from('feed_logs').update({ status: 'failed', message, cost: null }).eq('id', rowId);
+    }
+    throw err;
+  }
+  const ack = await waitForDispenseAck(pondId, deviceType, dispense.id, dispenseDeadline(dispense) - issuedAt);
+
+  if (rowId) await settleManualFeeding(rowId, ack, resolved, details);
+  return ack;
+}
@@ -0,0 +1,197 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import type { CropCycle } from '@/types/cropCycle';
+import type { BiomassEstimate } from '@/types/feeding';
+
+/**
+ * Growth and biomass estimation from sampling weights
+ *
+ * Weight grows exponentially between samples, so it is interpolated on a log
+ * scale and extrapolated at the specific growth rate (SGR, %/day) of the last
+ * two weights. Live count is stocking minus recorded losses and harvested head.
+ * Suggested feed is biomass times a feeding-table rate for the current size.
+ */
+
+export interface WeightPoint {
+  at: Date;
+  weightG: number;
+}
+
+export interface BiomassEstimateResult {
+  count: number;
+  avgWeightG: number;
+  biomassKg: number;
+  // Null until there are two weights to compare
+  sgr: number | null;
+  // The newest weight is from a sample rather than projected
+  lastSampledAt: Date | null;
+}
+
+export interface GrowthPoint {
+  date: string; // "yyyy-MM-dd"
+  label: string;
+  sampledG?: number;
+  estimatedG?: number;
+  projectedG?: number;
+}
+
+// % body weight per day by average weight (g); warm-water grow-out feeding table
+const FEEDING_TABLE: { upToG: number; percent: number }[] = [
+  { upToG: 5, percent: 8 },
+  { upToG: 20, percent: 6 },
+  { upToG: 50, percent: 4.5 },
+  { upToG: 100, percent: 3.5 },
+  { upToG: 250, percent: 2.5 },
+  { upToG: 500, percent: 2 },
+  { upToG: Infinity, percent: 1.5 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Don't project further out than this
+const MAX_PROJECTION_DAYS = 365;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Stocking weight (when known) then each sampling, oldest first
+export function weightPoints(cycle: CropCycle): WeightPoint[] {
+  const points: WeightPoint[] = cycle.stockingWeightG
+    ? [{ at: cycle.stockedAt, weightG: cycle.stockingWeightG }]
+    : [];
+  return points.concat(cycle.samplings.map(s => ({ at: s.sampledAt, weightG: s.avgWeightG })));
+}
+
+// Specific growth rate between two weights, % per day
+export function specificGrowthRate(from: WeightPoint, to: WeightPoint): number | null {
+  const days = (to.at.getTime() - from.at.getTime()) / DAY_MS;
+  if (days <= 0 || from.weightG <= 0 || to.weightG <= 0) return null;
+  return round2(((Math.log(to.weightG) - Math.log(from.weightG)) / days) * 100);
+}
+
+export function currentSgr(cycle: CropCycle): number | null {
+  const points = weightPoints(cycle);
+  if (points.length < 2) return null;
+  return specificGrowthRate(points[points.length - 2], points[points.length - 1]);
+}
+
+// Average weight at a point in time; null before the first weight is known
+export function weightAt(cycle: CropCycle, date: Date): number | null {
+  const points = weightPoints(cycle);
+  if (points.length === 0 || date < points[0].at) return null;
+
+  for (let i = points.length - 1; i >= 0; i--) {
+    const before = points[i];
+    if (before.at > date) continue;
+    const after = points[i + 1];
+    if (after) {
+      const span = after.at.getTime() - before.at.getTime();
+      const t = span > 0 ? (date.getTime() - before.at.getTime()) / span : 0;
+      return Math.exp(Math.log(before.weightG) + (Math.log(after.weightG) - Math.log(before.weightG)) * t);
+    }
+    // Past the last weight: keep growing at the latest rate, never shrink
+    const sgr = currentSgr(cycle);
+    if (sgr === null || sgr <= 0) return before.weightG;
+    const days = Math.min((date.getTime() - before.at.getTime()) / DAY_MS, MAX_PROJECTION_DAYS);
+    return before.weightG * Math.exp((sgr / 100) * days);
+  }
+  return null;
+}
+
+// Fish alive in the pond at a point in time
+export function liveCountAt(cycle: CropCycle, date: Date): number {
+  const lost = cycle.mortalities
+    .filter(record => record.recordedAt <= date)
+    .reduce((sum, record) => sum + record.count, 0);
+  const harvested = cycle.harvests
+    .filter(harvest => harvest.harvestedAt <= date)
+    .reduce((sum, harvest) => {
+      if (harvest.count !== null) return sum + harvest.count;
+      // Partial harvests weighed but not counted
+      const weightG = weightAt(cycle, harvest.harvestedAt);
+      return sum + (weightG ? Math.round((harvest.weightKg * 1000) / weightG) : 0);
+    }, 0);
+  return Math.max(0, cycle.stockedCount - lost - harvested);
+}
+
+export function estimateBiomass(cycle: CropCycle, at = new Date()): BiomassEstimateResult | null {
+  const avgWeightG = weightAt(cycle, at);
+  if (avgWeightG === null) return null;
+  const count = liveCountAt(cycle, at);
+  const lastSampling = cycle.samplings[cycle.samplings.length - 1];
+
+  return {
+    count,
+    avgWeightG: round1(avgWeightG),
+    biomassKg: round1((count * avgWeightG) / 1000),
+    sgr: currentSgr(cycle),
+    lastSampledAt: lastSampling?.sampledAt ?? null,
+  };
+}
+
+// When the average weight reaches the cycle's target at the current growth rate
+export function projectedHarvestDate(cycle: CropCycle): Date | null {
+  const points = weightPoints(cycle);
+  const last = points[points.length - 1];
+  const sgr = currentSgr(cycle);
+  if (!cycle.targetWeightG || !last || sgr === null || sgr <= 0) return null;
+  if (last.weightG >= cycle.targetWeightG) return last.at;
+
+  const days = Math.log(cycle.targetWeightG / last.weightG) / (sgr / 100);
+  if (days > MAX_PROJECTION_DAYS) return null;
+  return new Date(last.at.getTime() + days * DAY_MS);
+}
+
+// Daily points from stocking: sampled weights, the estimate to today, then the projection
+export function growthCurve(cycle: CropCycle, now = new Date()): GrowthPoint[] {
+  const harvestDate = projectedHarvestDate(cycle);
+  const end = cycle.endedAt ?? (harvestDate && harvestDate > now ? harvestDate : now);
+  const sampledByDay = new Map(weightPoints(cycle).map(p => [format(p.at, 'yyyy-MM-dd'), p.weightG]));
+  const totalDays = differenceInCalendarDays(end, cycle.stockedAt);
+  // Keep the chart to about 60 points
+  const step = Math.max(1, Math.ceil(totalDays / 60));
+
+  const points: GrowthPoint[] = [];
+  let lastEstimated: GrowthPoint | undefined;
+  for (let day = startOfDay(cycle.stockedAt); day <= end; day = addDays(day, step)) {
+    const key = format(day, 'yyyy-MM-dd');
+    const weight = weightAt(cycle, day);
+    const point: GrowthPoint = { date: key, label: format(day, 'MMM d') };
+    if (sampledByDay.has(key)) point.sampledG = sampledByDay.get(key);
+    if (weight !== null) {
+      if (day <= now) {
+        point.estimatedG = round1(weight);
+        lastEstimated = point;
+      } else {
+        // Start the projection where the estimate ends so the lines join
+        if (lastEstimated && lastEstimated.projectedG === undefined) lastEstimated.projectedG = lastEstimated.estimatedG;
+        point.projectedG = round1(weight);
+      }
+    }
+    points.push(point);
+  }
+  // Samples that fall between plotted days still get their dot
+  for (const [key, weightG] of sampledByDay) {
+    if (!points.some(point => point.date === key)) {
+      const day = new Date(`${key}T00:00`);
+      points.push({ date: key, label: format(day, 'MMM d'), sampledG: weightG, estimatedG: weightG });
+    }
+  }
+  return points.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function feedingRateForWeight(avgWeightG: number): number {
+  return FEEDING_TABLE.find(row => avgWeightG <= row.upToG)?.percent ?? 1.5;
+}
+
+export function suggestedDailyFeedGrams(estimate: BiomassEstimateResult): number {
+  return Math.round(estimate.biomassKg * feedingRateForWeight(estimate.avgWeightG) * 10);
+}
+
+// Biomass at stocking and each sampling, for feeding rate and FCR alongside manual estimates
+export function samplingBiomassEstimates(cycle: CropCycle): BiomassEstimate[] {
+  return weightPoints(cycle).map((point, index) => ({
+    id: `${cycle.id}-${index}`,
+    measuredAt: point.at,
+    biomassKg: round1((liveCountAt(cycle, point.at) * point.weightG) / 1000),
+    note: index === 0 && cycle.stockingWeightG ? 'Stocking' : 'Sampling',
+  }));
+}
@@ -0,0 +1,63 @@
+import { SENSOR_REGISTRY, SensorKey, SensorStatusLevel, formatSensorValue, isSensorKey } from './sensorRegistry';
+import { evaluateSensorStatus } from './sensorStatus';
+import type { SensorThresholds } from './thresholds';
+import type { LabPoint, LabResult, LabTest } from '@/types/labTest';
+
+/**
+ * Manual lab tests
+ *
+ * Registry parameters are judged against the pond's resolved thresholds, the
+ * same way live sensors are; free-form parameters are charted but never alert.
+ */
+
+// Offered first in the entry form, in this order
+export const LAB_PARAMETERS: SensorKey[] = [
+  'ammonia',
+  'nitrite',
+  'alkalinity',
+  'hardness',
+  'salinity',
+  'ph',
+  'dissolvedOxygen',
+];
+
+export function labParameterLabel(parameter: string): string {
+  return isSensorKey(parameter) ? SENSOR_REGISTRY[parameter].label : parameter;
+}
+
+export function labParameterUnit(result: Pick<LabResult, 'parameter' | 'unit'>): string {
+  if (isSensorKey(result.parameter)) {
+    const { unit } = SENSOR_REGISTRY[result.parameter];
+    return unit === 'pH' ? '' : unit;
+  }
+  return result.unit ?? '';
+}
+
+export function formatLabValue(result: Pick<LabResult, 'parameter' | 'value' | 'unit'>): string {
+  if (isSensorKey(result.parameter)) return formatSensorValue(result.parameter, result.value);
+  const unit = labParameterUnit(result);
+  return unit ? `${result.value} ${unit}` : String(result.value);
+}
+
+// Null for free-form parameters, which have no thresholds
+export function evaluateLabResult(
+  result: Pick<LabResult, 'parameter' | 'value'>,
+  thresholds: SensorThresholds
+): SensorStatusLevel | null {
+  if (!isSensorKey(result.parameter)) return null;
+  return evaluateSensorStatus(result.parameter, result.value, thresholds[result.parameter]);
+}
+
+// Values per parameter, oldest first
+export function labSeries(tests: LabTest[]): Map<string, LabPoint[]> {
+  const series = new Map<string, LabPoint[]>();
+  for (const test of tests) {
+    for (const result of test.results) {
+      const points = series.get(result.parameter) ?? [];
+      points.push({ at: test.testedAt, value: result.value });
+      series.set(result.parameter, points);
+    }
+  }
+  for (const points of series.values()) points.sort((a, b) => a.at.getTime() - b.at.getTime());
+  return series;
+}
@@ -0,0 +1,71 @@
+import type { Alert } from '@/types/aquaculture';
+import type { AlertCategory, NotificationPreferences } from '@/types/notifications';
+import type { SensorKey } from './sensorRegistry';
+import { isValidTimeZone, isWithinWindow, localTime, parseTime } from '@shared/time.ts';
+
+/**
+ * Notification preference rules
+ *
+ * An alert reaches a channel when the channel is on and its severity's toggle
+ * is on. Unless it is critical, its sensor's toggle (for the sensors that have
+ * one) must be on too and it must not fall in quiet hours.
+ */
+
+// Vibration has no toggle of its own
+export type AlertChannel = 'push' | 'sound' | 'vibration';
+
+export type AlertSeverity = Alert['severity'];
+
+// Sensors with their own toggle; other sensors only go by severity
+const SENSOR_CATEGORIES: Partial<Record<SensorKey, AlertCategory>> = {
+  dissolvedOxygen: 'dissolved_oxygen',
+  temperature: 'temperature',
+  ph: 'ph',
+};
+
+const ALERT_TYPE_CATEGORIES: Partial<Record<Alert['type'], AlertCategory>> = {
+  do: 'dissolved_oxygen',
+  temperature: 'temperature',
+  ph: 'ph',
+};
+
+export function sensorAlertCategory(sensor: SensorKey | undefined): AlertCategory | null {
+  return sensor ? SENSOR_CATEGORIES[sensor] ?? null : null;
+}
+
+export function alertTypeCategory(type: Alert['type']): AlertCategory | null {
+  return ALERT_TYPE_CATEGORIES[type] ?? null;
+}
+
+function minuteOfDay(now: Date, timeZone: string): number {
+  // Unknown timezone; the device clock is the best guess
+  if (!isValidTimeZone(timeZone)) return now.getHours() * 60 + now.getMinutes();
+  return localTime(now, timeZone).minuteOfDay;
+}
+
+// Windows may wrap midnight (22:00-06:00); an empty window (start = end) is never quiet
+export function isQuietTime(preferences: NotificationPreferences, now = new Date()): boolean {
+  if (!preferences.quietHoursEnabled) return false;
+  const start = parseTime(preferences.quietHoursStart);
+  const end = parseTime(preferences.quietHoursEnd);
+  if (start === null || end === null || start === end) return false;
+
+  return isWithinWindow(minuteOfDay(now, preferences.timezone), start, end);
+}
+
+export function shouldDeliverAlert(
+  preferences: NotificationPreferences,
+  channel: AlertChannel,
+  alert: { severity: AlertSeverity; category: AlertCategory | null },
+  now = new Date()
+): boolean {
+  if (channel === 'push' && !preferences.pushEnabled) return false;
+  if (channel === 'sound' && !preferences.soundEnabled) return false;
+
+  const critical = alert.severity === 'critical';
+  if (!preferences.categories[critical ? 'critical' : 'warning']) return false;
+  if (critical) return true;
+  if (alert.category && !preferences.categories[alert.category]) return false;
+
+  return !isQuietTime(preferences, now);
+}
@@ -0,0 +1,189 @@
+import { supabase } from '@/integrations/supabase/client';
+import { SENSOR_KEYS, SensorKey } from './sensorRegistry';
+import type { SensorThresholds } from './thresholds';
+import type { DeviceDefinition } from './deviceRegistry';
+import {
+  AggregateResolution,
+  RESOLUTION_SECONDS,
+  SensorAggregatePoint,
+  fetchSensorAggregates,
+} from './sensorHistory';
+import { AlertRecord, fetchAlertsInRange, fetchAllRows } from './dataExport';
+import { DeviceRuntimeTotals, deviceRuntimes, formatDuration } from '@shared/deviceRuntime.ts';
+
+/**
+ * Printable pond report
+ *
+ * Everything is worked out from the aggregated buckets used for the charts, so
+ * breach durations are counted in whole buckets (5 minutes up to a month,
+ * hourly beyond).
+ */
+
+// Shared with the email digest, so both format durations alike
+export { formatDuration };
+
+export interface SensorSummary {
+  key: SensorKey;
+  min: number;
+  avg: number;
+  max: number;
+  latest: number;
+}
+
+export interface ThresholdBreach {
+  key: SensorKey;
+  bound: 'min' | 'max';
+  limit: number;
+  // Separate spells outside the limit
+  count: number;
+  durationMs: number;
+}
+
+export interface DeviceRuntime {
+  device: string;
+  name: string;
+  switchOns: number;
+  runtimeMs: number;
+  // Only for devices with a rated power
+  energyKwh: number | null;
+}
+
+export interface PondReport {
+  pondName: string;
+  from: Date;
+  to: Date;
+  generatedAt: Date;
+  resolution: AggregateResolution;
+  buckets: SensorAggregatePoint[];
+  // Sensors that reported in the period, in registry order
+  sensors: SensorKey[];
+  thresholds: SensorThresholds;
+  summaries: SensorSummary[];
+  breaches: ThresholdBreach[];
+  alerts: AlertRecord[];
+  runtimes: DeviceRuntime[];
+}
+
+// Breaches need finer buckets than a chart would use
+function reportResolution(from: number, to: number): AggregateResolution {
+  return to - from <= 31 * 24 * 60 * 60 * 1000 ? '5m' : '1h';
+}
+
+export function summarizeSensor(key: SensorKey, buckets: SensorAggregatePoint[]): SensorSummary | null {
+  const points = buckets.filter(bucket => bucket.sensors[key]);
+  if (points.length === 0) return null;
+
+  let weighted = 0;
+  let samples = 0;
+  for (const bucket of points) {
+    weighted += bucket.sensors[key]!.avg * bucket.sampleCount;
+    samples += bucket.sampleCount;
+  }
+  return {
+    key,
+    min: Math.min(...points.map(bucket => bucket.sensors[key]!.min)),
+    avg: samples > 0 ? weighted / samples : points[0].sensors[key]!.avg,
+    max: Math.max(...points.map(bucket => bucket.sensors[key]!.max)),
+    latest: points[points.length - 1].sensors[key]!.avg,
+  };
+}
+
+// A spell ends at the first bucket back inside the limit or at a gap in the data
+export function findBreaches(
+  key: SensorKey,
+  buckets: SensorAggregatePoint[],
+  thresholds: SensorThresholds,
+  bucketMs: number
+): ThresholdBreach[] {
+  const band = thresholds[key];
+  if (!band) return [];
+
+  const breaches: ThresholdBreach[] = [];
+  for (const bound of ['min', 'max'] as const) {
+    const limit = band[bound];
+    if (limit === undefined) continue;
+
+    let count = 0;
+    let durationMs = 0;
+    let previousBreached: number | null = null;
+    for (const bucket of buckets) {
+      const aggregate = bucket.sensors[key];
+      const breached = !!aggregate && (bound === 'min' ? aggregate.min < limit : aggregate.max > limit);
+      if (!breached) {
+        previousBreached = null;
+        continue;
+      }
+      if (previousBreached === null || bucket.timestamp - previousBreached > bucketMs) count++;
+      durationMs += bucketMs;
+      previousBreached = bucket.timestamp;
+    }
+
+    if (count > 0) breaches.push({ key, bound, limit, count, durationMs });
+  }
+  return breaches;
+}
+
+// Shared on-time totals with each device's name and energy use added
+function namedRuntimes(totals: DeviceRuntimeTotals[], devices: DeviceDefinition[]): DeviceRuntime[] {
+  return totals.map(({ device, switchOns, runtimeMs }) => {
+    const definition = devices.find(d => d.key === device);
+    return {
+      device,
+      name: definition?.name ?? device,
+      switchOns,
+      runtimeMs,
+      energyKwh: definition?.powerWatts ? (definition.powerWatts * runtimeMs) / 3_600_000 / 1000 : null,
+    };
+  });
+}
+
+interface LoadPondReportOptions {
+  pondId: string;
+  pondName: string;
+  from: Date;
+  to: Date;
+  thresholds: SensorThresholds;
+  devices: DeviceDefinition[];
+}
+
+export async function loadPondReport({ pondId, pondName, from, to, thresholds, devices }: LoadPondReportOptions): Promise<PondReport> {
+  const resolution = reportResolution(from.getTime(), to.getTime());
+  const bucketMs = RESOLUTION_SECONDS[resolution] * 1000;
+
+  const [buckets, alerts, activity, startStates] = await Promise.all([
+    fetchSensorAggregates(pondId, from.getTime(), to.getTime(), resolution),
+    fetchAlertsInRange(pondId, from, to),
+    fetchAllRows((offset, limit) => supabase
+      .from('device_activity')
+      .select('device_type, new_state, ack_result, created_at')
+      .eq('pond_id', pondId)
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1)),
+    supabase.rpc('device_states_at', { _pond_id: pondId, _at: from.toISOString() }).then(({ data, error }) => {
+      if (error) throw error;
+      return Object.fromEntries((data ?? []).map(row => [row.device_type, row.state]));
+    }),
+  ]);
+
+  const summaries = SENSOR_KEYS
+    .map(key => summarizeSensor(key, buckets))
+    .filter((summary): summary is SensorSummary => summary !== null);
+  const sensors = summaries.map(summary => summary.key);
+
+  return {
+    pondName,
+    from,
+    to,
+    generatedAt: new Date(),
+    resolution,
+    buckets,
+    sensors,
+    thresholds,
+    summaries,
+    breaches: sensors.flatMap(key => findBreaches(key, buckets, thresholds, bucketMs)),
+    alerts,
+    runtimes: namedRuntimes(deviceRuntimes(activity, startStates, from.getTime(), to.getTime()), devices),
+  };
+}
@@ -0,0 +1,308 @@
+import { format } from 'date-fns';
+import type { jsPDF } from 'jspdf';
+import { SENSOR_REGISTRY, SensorKey, formatSensorValue } from './sensorRegistry';
+import { RESOLUTION_LABELS, RESOLUTION_SECONDS } from './sensorHistory';
+import { PondReport, formatDuration } from './pondReport';
+
+// A4 portrait, in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CHART_HEIGHT = 38;
+// Long alert lists are cut off; the export has all of them
+const MAX_ALERTS = 40;
+
+const MUTED: [number, number, number] = [110, 110, 110];
+const LINE: [number, number, number] = [220, 220, 220];
+const WARNING: [number, number, number] = [217, 119, 6];
+const CRITICAL: [number, number, number] = [220, 38, 38];
+
+interface Column {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+// Registry colors are CSS hsl(), some via theme variables; PDFs need RGB
+function toRgb(color: string): [number, number, number] {
+  const resolved = color.replace(/var\((--[\w-]+)\)/, (_, name: string) =>
+    getComputedStyle(document.documentElement).getPropertyValue(name).trim()
+  );
+  const hsl = /hsl\(\s*([\d.]+)[\s,]+([\d.]+)%[\s,]+([\d.]+)%/i.exec(resolved);
+  if (!hsl) return [37, 99, 235];
+  const h = Number(hsl[1]) / 360;
+  const s = Number(hsl[2]) / 100;
+  const l = Number(hsl[3]) / 100;
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const channel = (t: number) => {
+    const x = t < 0 ? t + 1 : t > 1 ? t - 1 : t;
+    if (x < 1 / 6) return p + (q - p) * 6 * x;
+    if (x < 1 / 2) return q;
+    if (x < 2 / 3) return p + (q - p) * (2 / 3 - x) * 6;
+    return p;
+  };
+  return [channel(h + 1 / 3), channel(h), channel(h - 1 / 3)].map(v => Math.round(v * 255)) as [number, number, number];
+}
+
+function sensorTitle(key: SensorKey): string {
+  const { label, unit } = SENSOR_REGISTRY[key];
+  return unit === 'pH' ? label : `${label} (${unit})`;
+}
+
+class ReportWriter {
+  y = MARGIN;
+
+  constructor(private doc: jsPDF, private footer: string) {}
+
+  // Start a new page when the next block wouldn't fit
+  ensure(height: number) {
+    if (this.y + height <= PAGE_HEIGHT - MARGIN - 8) return;
+    this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  heading(text: string) {
+    this.ensure(14);
+    this.y += 4;
+    this.doc.setFont('helvetica', 'bold').setFontSize(12).setTextColor(0);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 6;
+  }
+
+  note(text: string) {
+    this.doc.setFont('helvetica', 'normal').setFontSize(8).setTextColor(...MUTED);
+    const lines = this.doc.splitTextToSize(text, CONTENT_WIDTH) as string[];
+    this.ensure(lines.length * 4);
+    this.doc.text(lines, MARGIN, this.y);
+    this.y += lines.length * 4 + 1;
+  }
+
+  table(columns: Column[], rows: string[][], rowColors: ([number, number, number] | null)[] = []) {
+    const rowHeight = 6;
+    const drawHeader = () => {
+      this.doc.setFont('helvetica', 'bold').setFontSize(8).setTextColor(...MUTED);
+      this.cells(columns, columns.map(c => c.label));
+      this.doc.setDrawColor(...LINE).line(MARGIN, this.y + 1.5, MARGIN + CONTENT_WIDTH, this.y + 1.5);
+      this.y += rowHeight;
+    };
+
+    this.ensure(rowHeight * 2);
+    drawHeader();
+    rows.forEach((row, index) => {
+      if (this.y + rowHeight > PAGE_HEIGHT - MARGIN - 8) {
+        this.doc.addPage();
+        this.y = MARGIN;
+        drawHeader();
+      }
+      this.doc.setFont('helvetica', 'normal').setFontSize(9).setTextColor(...(rowColors[index] ?? [0, 0, 0]));
+      this.cells(columns, row);
+      this.y += rowHeight;
+    });
+    this.y += 2;
+  }
+
+  private cells(columns: Column[], values: string[]) {
+    let x = MARGIN;
+    columns.forEach((column, index) => {
+      const text = this.doc.splitTextToSize(values[index] ?? '', column.width - 2)[0] ?? '';
+      if (column.align === 'right') {
+        this.doc.text(text, x + column.width - 1, this.y, { align: 'right' });
+      } else {
+        this.doc.text(text, x, this.y);
+      }
+      x += column.width;
+    });
+  }
+
+  chart(report: PondReport, key: SensorKey) {
+    const points = report.buckets
+      .filter(bucket => bucket.sensors[key])
+      .map(bucket => ({ t: bucket.timestamp, ...bucket.sensors[key]! }));
+    if (points.length === 0) return;
+
+    this.ensure(CHART_HEIGHT + 12);
+    const doc = this.doc;
+    const sensor = SENSOR_REGISTRY[key];
+    const band = report.thresholds[key];
+
+    doc.setFont('helvetica', 'bold').setFontSize(9).setTextColor(0);
+    doc.text(sensorTitle(key), MARGIN, this.y);
+    this.y += 2;
+
+    const left = MARGIN + 12;
+    const width = CONTENT_WIDTH - 12;
+    const top = this.y;
+    const t0 = report.from.getTime();
+    const t1 = report.to.getTime();
+
+    // Scale to the data and any limits, so a limit line is always on the chart
+    const values = points.flatMap(p => [p.min, p.max]);
+    if (band?.min !== undefined) values.push(band.min);
+    if (band?.max !== undefined) values.push(band.max);
+    let low = Math.min(...values);
+    let high = Math.max(...values);
+    if (high - low < 1e-6) {
+      low -= 1;
+      high += 1;
+    }
+    const pad = (high - low) * 0.08;
+    low -= pad;
+    high += pad;
+
+    const x = (t: number) => left + ((t - t0) / Math.max(t1 - t0, 1)) * width;
+    const y = (v: number) => top + CHART_HEIGHT - ((v - low) / (high - low)) * CHART_HEIGHT;
+
+    doc.setDrawColor(...LINE).setLineWidth(0.2).rect(left, top, width, CHART_HEIGHT);
+    doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(...MUTED);
+    doc.text(formatSensorValue(key, high, false), left - 1, top + 2, { align: 'right' });
+    doc.text(formatSensorValue(key, low, false), left - 1, top + CHART_HEIGHT, { align: 'right' });
+
+    for (const limit of [band?.min, band?.max]) {
+      if (limit === undefined) continue;
+      doc.setDrawColor(...WARNING).setLineDashPattern([1, 1], 0);
+      doc.line(left, y(limit), left + width, y(limit));
+      doc.setLineDashPattern([], 0);
+    }
+
+    // Min-max band as thin vertical strokes, then the average line
+    const color = toRgb(sensor.color);
+    doc.setDrawColor(...color.map(c => Math.round(c + (255 - c) * 0.7)) as [number, number, number]).setLineWidth(0.3);
+    for (const p of points) {
+      if (p.max > p.min) doc.line(x(p.t), y(p.min), x(p.t), y(p.max));
+    }
+    // Gaps in the data are left as gaps
+    const maxStep = RESOLUTION_SECONDS[report.resolution] * 1000 * 2;
+    doc.setDrawColor(...color).setLineWidth(0.5);
+    for (let i = 1; i < points.length; i++) {
+      if (points[i].t - points[i - 1].t > maxStep) continue;
+      doc.line(x(points[i - 1].t), y(points[i - 1].avg), x(points[i].t), y(points[i].avg));
+    }
+    doc.setLineWidth(0.2);
+
+    doc.setTextColor(...MUTED);
+    doc.text(format(report.from, 'MMM d, HH:mm'), left, top + CHART_HEIGHT + 4);
+    doc.text(format(report.to, 'MMM d, HH:mm'), left + width, top + CHART_HEIGHT + 4, { align: 'right' });
+    this.y = top + CHART_HEIGHT + 9;
+  }
+
+  finish() {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal').setFontSize(7).setTextColor(...MUTED);
+      this.doc.text(this.footer, MARGIN, PAGE_HEIGHT - MARGIN + 4);
+      this.doc.text(`Page ${page} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN + 4, { align: 'right' });
+    }
+  }
+}
+
+// jspdf is only loaded when a report is actually generated
+export async function buildPondReportPdf(report: PondReport): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const period = `${format(report.from, 'MMM d, yyyy')} - ${format(report.to, 'MMM d, yyyy')}`;
+  const writer = new ReportWriter(doc, `${report.pondName} · ${period}`);
+
+  doc.setProperties({ title: `${report.pondName} report, ${period}` });
+  doc.setFont('helvetica', 'bold').setFontSize(18).setTextColor(0);
+  doc.text(report.pondName, MARGIN, writer.y + 4);
+  writer.y += 11;
+  doc.setFont('helvetica', 'normal').setFontSize(10).setTextColor(...MUTED);
+  doc.text(`Pond report · ${period}`, MARGIN, writer.y);
+  writer.y += 5;
+  writer.note(`Generated ${format(report.generatedAt, 'MMM d, yyyy HH:mm')}`);
+
+  writer.heading('Summary');
+  if (report.summaries.length === 0) {
+    writer.note('No sensor readings were stored in this period.');
+  } else {
+    writer.table(
+      [
+        { label: 'Sensor', width: 70 },
+        { label: 'Min', width: 27.5, align: 'right' },
+        { label: 'Average', width: 27.5, align: 'right' },
+        { label: 'Max', width: 27.5, align: 'right' },
+        { label: 'Latest', width: 27.5, align: 'right' },
+      ],
+      report.summaries.map(s => [
+        sensorTitle(s.key),
+        formatSensorValue(s.key, s.min, false),
+        formatSensorValue(s.key, s.avg, false),
+        formatSensorValue(s.key, s.max, false),
+        formatSensorValue(s.key, s.latest, false),
+      ])
+    );
+  }
+
+  writer.heading('Threshold breaches');
+  if (report.breaches.length === 0) {
+    writer.note(report.summaries.length === 0 ? 'No readings to check.' : 'All readings stayed within the pond\'s limits.');
+  } else {
+    writer.table(
+      [
+        { label: 'Sensor', width: 70 },
+        { label: 'Limit', width: 40 },
+        { label: 'Times', width: 30, align: 'right' },
+        { label: 'Time outside', width: 40, align: 'right' },
+      ],
+      report.breaches.map(b => [
+        sensorTitle(b.key),
+        `${b.bound === 'min' ? 'Below' : 'Above'} ${formatSensorValue(b.key, b.limit)}`,
+        String(b.count),
+        formatDuration(b.durationMs),
+      ])
+    );
+    writer.note(`Durations are counted in ${RESOLUTION_LABELS[report.resolution].replace(' averages', '').toLowerCase()} steps.`);
+  }
+
+  if (report.sensors.length > 0) {
+    writer.heading('Sensors');
+    writer.note('Line: average. Shading: min to max. Dashed: limits.');
+    for (const key of report.sensors) writer.chart(report, key);
+  }
+
+  writer.heading(`Alerts (${report.alerts.length})`);
+  if (report.alerts.length === 0) {
+    writer.note('No alerts in this period.');
+  } else {
+    const shown = report.alerts.slice(-MAX_ALERTS).reverse();
+    writer.table(
+      [
+        { label: 'Time', width: 32 },
+        { label: 'Severity', width: 20 },
+        { label: 'Message', width: 128 },
+      ],
+      shown.map(a => [format(a.timestamp, 'MMM d, HH:mm'), a.severity, a.message]),
+      shown.map(a => (a.severity === 'critical' ? CRITICAL : a.severity === 'warning' ? WARNING : null))
+    );
+    if (report.alerts.length > MAX_ALERTS) {
+      writer.note(`Showing the latest ${MAX_ALERTS}. Export the alerts from Reports for the full list.`);
+    }
+  }
+
+  writer.heading('Device runtime');
+  if (report.runtimes.length === 0) {
+    writer.note('No devices were switched in this period.');
+  } else {
+    writer.table(
+      [
+        { label: 'Device', width: 80 },
+        { label: 'Switched on', width: 30, align: 'right' },
+        { label: 'Runtime', width: 35, align: 'right' },
+        { label: 'Energy', width: 35, align: 'right' },
+      ],
+      report.runtimes.map(r => [
+        r.name,
+        String(r.switchOns),
+        formatDuration(r.runtimeMs),
+        r.energyKwh !== null ? `${r.energyKwh.toFixed(1)} kWh` : '--',
+      ])
+    );
+    writer.note('Runtime is worked out from the device activity log. Devices that were not switched in the period are not listed.');
+  }
+
+  writer.finish();
+  return doc.output('blob');
+}
@@ -0,0 +1,126 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SensorKey } from './sensorRegistry';
+
+/**
+ * Stored sensor history
+ *
+ * Short ranges are charted from the stored minute rows as they are; longer ones
+ * are aggregated server-side into min/avg/max buckets so a chart never has more
+ * than a few hundred points.
+ */
+
+export type TimeRangePreset = '1h' | '24h' | '7d' | '30d' | '90d';
+
+// A preset relative to now, or fixed dates (a custom range or a crop cycle)
+export type TimeRange = TimeRangePreset | { from: Date; to: Date };
+
+export type HistoryResolution = 'raw' | '5m' | '1h' | '1d';
+
+export type AggregateResolution = Exclude<HistoryResolution, 'raw'>;
+
+export interface SensorAggregate {
+  avg: number;
+  min: number;
+  max: number;
+}
+
+export interface SensorAggregatePoint {
+  // Start of the bucket
+  timestamp: number;
+  // Readings the bucket covers
+  sampleCount: number;
+  sensors: Partial<Record<SensorKey, SensorAggregate>>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const TIME_RANGE_MS: Record<TimeRangePreset, number> = {
+  '1h': HOUR_MS,
+  '24h': DAY_MS,
+  '7d': 7 * DAY_MS,
+  '30d': 30 * DAY_MS,
+  '90d': 90 * DAY_MS,
+};
+
+export const RESOLUTION_SECONDS: Record<AggregateResolution, number> = {
+  '5m': 5 * 60,
+  '1h': 60 * 60,
+  '1d': 24 * 60 * 60,
+};
+
+export const RESOLUTION_LABELS: Record<HistoryResolution, string> = {
+  raw: 'Every minute',
+  '5m': '5-minute averages',
+  '1h': 'Hourly averages',
+  '1d': 'Daily averages',
+};
+
+// sensor_readings columns for the sensors that are stored
+export const READING_COLUMNS: Partial<Record<SensorKey, string>> = {
+  ph: 'ph',
+  dissolvedOxygen: 'dissolved_oxygen',
+  temperature: 'temperature',
+  ammonia: 'ammonia',
+  nitrite: 'nitrite',
+  salinity: 'salinity',
+  orp: 'orp',
+  turbidity: 'turbidity',
+  waterLevel: 'water_level',
+};
+
+export function timeRangeBounds(range: TimeRange, now = Date.now()): { from: number; to: number } {
+  if (typeof range === 'string') return { from: now - TIME_RANGE_MS[range], to: now };
+  return { from: range.from.getTime(), to: range.to.getTime() };
+}
+
+// Finest resolution that keeps the range under ~750 points
+export function pickResolution(from: number, to: number): HistoryResolution {
+  const span = to - from;
+  if (span <= 6 * HOUR_MS) return 'raw';
+  if (span <= 2 * DAY_MS) return '5m';
+  if (span <= 31 * DAY_MS) return '1h';
+  return '1d';
+}
+
+// Buckets come back a page at a time, like any PostgREST result
+const PAGE_SIZE = 1000;
+
+export async function fetchSensorAggregates(
+  pondId: string,
+  from: number,
+  to: number,
+  resolution: AggregateResolution
+): Promise<SensorAggregatePoint[]> {
+  const rows = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('sensor_history_buckets', {
+        _pond_id: pondId,
+        _from: new Date(from).toISOString(),
+        _to: new Date(to).toISOString(),
+        _bucket_seconds: RESOLUTION_SECONDS[resolution],
+      })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows.map(row => {
+    const sensors: Partial<Record<SensorKey, SensorAggregate>> = {};
+    for (const [key, column] of Object.entries(READING_COLUMNS) as [SensorKey, string][]) {
+      const avg = row[`${column}_avg` as keyof typeof row];
+      const min = row[`${column}_min` as keyof typeof row];
+      const max = row[`${column}_max` as keyof typeof row];
+      if (typeof avg === 'number' && typeof min === 'number' && typeof max === 'number') {
+        sensors[key] = { avg, min, max };
+      }
+    }
+    return {
+      timestamp: new Date(row.bucket_start).getTime(),
+      sampleCount: row.sample_count,
+      sensors,
+    };
+  });
+}
@@ -0,0 +1,261 @@
+import { Droplets, Thermometer, FlaskConical, Waves, Skull, Biohazard, Zap, Eye, Beaker, TestTube, type LucideIcon } from 'lucide-react';
+
+/**
+ * Sensor registry - single source of truth for every sensor the app understands.
+ *
+ * Firebase parsing, SensorCard, sensor history, Reports and ThresholdSettings all
+ * read from here. To support a new ESP32 sensor, add one entry below using the
+ * exact key the board publishes under `ponds/{pondId}/sensors`. Parameters only
+ * measured with test kits use source 'lab' and come from lab_test_results.
+ */
+
+export type SensorStatusLevel = 'safe' | 'warning' | 'critical';
+
+export type ThresholdBound = 'min' | 'max';
+
+export type SensorKey =
+  | 'ph'
+  | 'dissolvedOxygen'
+  | 'temperature'
+  | 'ammonia'
+  | 'nitrite'
+  | 'salinity'
+  | 'orp'
+  | 'turbidity'
+  | 'waterLevel'
+  | 'alkalinity'
+  | 'hardness';
+
+export interface SensorDefinition {
+  key: SensorKey;
+  label: string;
+  shortLabel: string;
+  unit: string;
+  icon: LucideIcon;
+  decimals: number;
+  // Physically plausible range - readings outside are discarded as invalid
+  validRange: { min: number; max: number };
+  // Default safe band, shown on cards and used when no threshold is configured
+  safeRange: { min: number; max: number };
+  // Which limits users can configure, and how far past them a reading turns critical (see sensorStatus.ts)
+  thresholdBounds: ThresholdBound[];
+  thresholdStep: number;
+  criticalMargin: number;
+  // Where the value comes from: ESP32 via Firebase, the Weather API, or manual lab tests
+  source: 'device' | 'weather' | 'lab';
+  // Alternative keys older firmware may publish
+  aliases?: string[];
+  color: string;
+}
+
+export const SENSOR_REGISTRY: Record<SensorKey, SensorDefinition> = {
+  ph: {
+    key: 'ph',
+    label: 'pH Level',
+    shortLabel: 'pH',
+    unit: 'pH',
+    icon: FlaskConical,
+    decimals: 2,
+    validRange: { min: 0, max: 14 },
+    safeRange: { min: 6.5, max: 8.5 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 0.1,
+    criticalMargin: 0.5,
+    source: 'device',
+    color: 'hsl(var(--status-safe))',
+  },
+  dissolvedOxygen: {
+    key: 'dissolvedOxygen',
+    label: 'Dissolved O₂',
+    shortLabel: 'DO',
+    unit: 'mg/L',
+    icon: Droplets,
+    decimals: 2,
+    validRange: { min: 0, max: 20 },
+    safeRange: { min: 5.0, max: 14.0 },
+    thresholdBounds: ['min'],
+    thresholdStep: 0.1,
+    criticalMargin: 1,
+    source: 'device',
+    aliases: ['do'],
+    color: 'hsl(var(--primary))',
+  },
+  temperature: {
+    key: 'temperature',
+    label: 'Temperature',
+    shortLabel: 'Temp',
+    unit: '°C',
+    icon: Thermometer,
+    decimals: 1,
+    validRange: { min: -10, max: 50 },
+    safeRange: { min: 24, max: 32 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 1,
+    criticalMargin: 3,
+    // Temperature comes from the Weather API, NOT Firebase
+    source: 'weather',
+    color: 'hsl(var(--status-warning))',
+  },
+  ammonia: {
+    key: 'ammonia',
+    label: 'Ammonia (NH₃)',
+    shortLabel: 'NH₃',
+    unit: 'mg/L',
+    icon: Skull,
+    decimals: 2,
+    validRange: { min: 0, max: 10 },
+    safeRange: { min: 0, max: 0.05 },
+    thresholdBounds: ['max'],
+    thresholdStep: 0.01,
+    criticalMargin: 0.15,
+    source: 'device',
+    aliases: ['nh3'],
+    color: 'hsl(280 65% 55%)',
+  },
+  nitrite: {
+    key: 'nitrite',
+    label: 'Nitrite (NO₂⁻)',
+    shortLabel: 'NO₂',
+    unit: 'mg/L',
+    icon: Biohazard,
+    decimals: 2,
+    validRange: { min: 0, max: 10 },
+    safeRange: { min: 0, max: 0.5 },
+    thresholdBounds: ['max'],
+    thresholdStep: 0.1,
+    criticalMargin: 0.5,
+    source: 'device',
+    aliases: ['no2'],
+    color: 'hsl(340 70% 55%)',
+  },
+  salinity: {
+    key: 'salinity',
+    label: 'Salinity',
+    shortLabel: 'Sal',
+    unit: 'ppt',
+    icon: Waves,
+    decimals: 1,
+    validRange: { min: 0, max: 60 },
+    safeRange: { min: 0, max: 35 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 0.5,
+    criticalMargin: 5,
+    source: 'device',
+    color: 'hsl(190 70% 45%)',
+  },
+  orp: {
+    key: 'orp',
+    label: 'ORP',
+    shortLabel: 'ORP',
+    unit: 'mV',
+    icon: Zap,
+    decimals: 0,
+    validRange: { min: -1000, max: 1000 },
+    safeRange: { min: 150, max: 400 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 10,
+    criticalMargin: 50,
+    source: 'device',
+    color: 'hsl(45 90% 50%)',
+  },
+  turbidity: {
+    key: 'turbidity',
+    label: 'Turbidity',
+    shortLabel: 'Turb',
+    unit: 'NTU',
+    icon: Eye,
+    decimals: 1,
+    validRange: { min: 0, max: 1000 },
+    safeRange: { min: 0, max: 25 },
+    thresholdBounds: ['max'],
+    thresholdStep: 1,
+    criticalMargin: 15,
+    source: 'device',
+    color: 'hsl(30 60% 45%)',
+  },
+  waterLevel: {
+    key: 'waterLevel',
+    label: 'Water Level',
+    shortLabel: 'Level',
+    unit: 'cm',
+    icon: Waves,
+    decimals: 1,
+    validRange: { min: 0, max: 500 },
+    safeRange: { min: 30, max: 80 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 1,
+    criticalMargin: 10,
+    source: 'device',
+    color: 'hsl(210 80% 55%)',
+  },
+  alkalinity: {
+    key: 'alkalinity',
+    label: 'Alkalinity',
+    shortLabel: 'Alk',
+    unit: 'mg/L CaCO₃',
+    icon: TestTube,
+    decimals: 0,
+    validRange: { min: 0, max: 1000 },
+    safeRange: { min: 75, max: 200 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 5,
+    criticalMargin: 30,
+    source: 'lab',
+    color: 'hsl(150 55% 40%)',
+  },
+  hardness: {
+    key: 'hardness',
+    label: 'Hardness',
+    shortLabel: 'Hard',
+    unit: 'mg/L CaCO₃',
+    icon: Beaker,
+    decimals: 0,
+    validRange: { min: 0, max: 2000 },
+    safeRange: { min: 50, max: 300 },
+    thresholdBounds: ['min', 'max'],
+    thresholdStep: 5,
+    criticalMargin: 40,
+    source: 'lab',
+    color: 'hsl(15 70% 50%)',
+  },
+};
+
+export const SENSOR_KEYS = Object.keys(SENSOR_REGISTRY) as SensorKey[];
+
+// Sensors published by the ESP32 under ponds/{pondId}/sensors
+export const DEVICE_SENSOR_KEYS = SENSOR_KEYS.filter(key => SENSOR_REGISTRY[key].source === 'device');
+
+export type SensorValues = Partial<Record<SensorKey, number | null>>;
+
+export function getSensorDefinition(key: SensorKey): SensorDefinition {
+  return SENSOR_REGISTRY[key];
+}
+
+export function isSensorKey(key: string): key is SensorKey {
+  return key in SENSOR_REGISTRY;
+}
+
+// Validate a raw reading against the sensor's physically plausible range
+export function isValidSensorValue(key: SensorKey, value: unknown): value is number {
+  if (value === null || value === undefined) return false;
+  if (typeof value !== 'number' || isNaN(value)) return false;
+  const { min, max } = SENSOR_REGISTRY[key].validRange;
+  return value >= min && value <= max;
+}
+
+// Read a sensor from a raw Firebase/history object, honouring legacy aliases
+export function readSensorValue(raw: Record<string, unknown>, key: SensorKey): number | null {
+  const candidates = [key, ...(SENSOR_REGISTRY[key].aliases ?? [])];
+  for (const candidate of candidates) {
+    const value = raw[candidate];
+    if (isValidSensorValue(key, value)) return Number(value);
+  }
+  return null;
+}
+
+export function formatSensorValue(key: SensorKey, value: number | null | undefined, withUnit = true): string {
+  if (value === null || value === undefined || isNaN(value)) return '--';
+  const { decimals, unit } = SENSOR_REGISTRY[key];
+  const formatted = value.toFixed(decimals);
+  return withUnit && unit !== 'pH' ? `${formatted} ${unit}` : formatted;
+}
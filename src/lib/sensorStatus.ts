@@ -0,0 +1,73 @@
+import { SENSOR_REGISTRY, SensorKey, SensorStatusLevel, SensorValues } from './sensorRegistry';
+import type { SensorThresholds, ThresholdBand } from './thresholds';
+
+/**
+ * Sensor status evaluation - the one place a reading is judged safe/warning/critical.
+ *
+ * Bands are derived from the configured threshold (or the registry safe range
+ * when none is set):
+ *   safe     - inside the threshold band
+ *   warning  - outside the band but within the sensor's critical margin
+ *   critical - beyond the critical margin
+ *
+ * SensorCard, Sparkline, PondCard, LiveSensors and useCriticalAutoMode all use
+ * this module so a reading never shows different statuses in different places.
+ */
+
+export interface StatusBands {
+  safe: ThresholdBand;
+  warning: ThresholdBand;
+}
+
+const STATUS_RANK: Record<SensorStatusLevel, number> = { safe: 0, warning: 1, critical: 2 };
+
+// Registry safe range restricted to the bounds the sensor can be configured on
+export function getDefaultBand(key: SensorKey): ThresholdBand {
+  const { thresholdBounds, safeRange } = SENSOR_REGISTRY[key];
+  return Object.fromEntries(thresholdBounds.map(bound => [bound, safeRange[bound]]));
+}
+
+export function getStatusBands(key: SensorKey, threshold?: ThresholdBand): StatusBands {
+  const safe = threshold ?? getDefaultBand(key);
+  const margin = SENSOR_REGISTRY[key].criticalMargin;
+  return {
+    safe,
+    warning: {
+      ...(safe.min !== undefined ? { min: safe.min - margin } : {}),
+      ...(safe.max !== undefined ? { max: safe.max + margin } : {}),
+    },
+  };
+}
+
+function isWithin(value: number, band: ThresholdBand): boolean {
+  if (band.min !== undefined && value < band.min) return false;
+  if (band.max !== undefined && value > band.max) return false;
+  return true;
+}
+
+export function evaluateSensorStatus(key: SensorKey, value: number, threshold?: ThresholdBand): SensorStatusLevel {
+  const bands = getStatusBands(key, threshold);
+  if (isWithin(value, bands.safe)) return 'safe';
+  if (isWithin(value, bands.warning)) return 'warning';
+  return 'critical';
+}
+
+// Status for every sensor that has a reading; missing sensors are left out
+export function evaluateSensors(
+  values: SensorValues,
+  thresholds: SensorThresholds = {}
+): Partial<Record<SensorKey, SensorStatusLevel>> {
+  const statuses: Partial<Record<SensorKey, SensorStatusLevel>> = {};
+  for (const [key, value] of Object.entries(values) as [SensorKey, number | null | undefined][]) {
+    if (typeof value !== 'number' || isNaN(value)) continue;
+    statuses[key] = evaluateSensorStatus(key, value, thresholds[key]);
+  }
+  return statuses;
+}
+
+export function worstStatus(statuses: (SensorStatusLevel | undefined)[]): SensorStatusLevel {
+  return statuses.reduce<SensorStatusLevel>(
+    (worst, status) => (status && STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst),
+    'safe'
+  );
+}
@@ -0,0 +1,148 @@
+import type { SensorThresholds } from './thresholds';
+
+/**
+ * Built-in species / life-stage presets.
+ *
+ * Applying a preset copies its bands into the pond's threshold profile
+ * (ponds.thresholds) and records the preset id in ponds.fish_type. The
+ * profile can be customised afterwards; the preset is only a starting point.
+ * Ammonia bands are for un-ionised NH₃.
+ */
+
+export type LifeStage = 'nursery' | 'growout';
+
+export interface SpeciesPreset {
+  id: string;
+  species: string;
+  scientificName: string;
+  lifeStage: LifeStage;
+  thresholds: SensorThresholds;
+}
+
+export const LIFE_STAGE_LABELS: Record<LifeStage, string> = {
+  nursery: 'Fry / Nursery',
+  growout: 'Grow-out',
+};
+
+export const SPECIES_PRESETS: SpeciesPreset[] = [
+  {
+    id: 'tilapia_nursery',
+    species: 'Tilapia',
+    scientificName: 'Oreochromis niloticus',
+    lifeStage: 'nursery',
+    thresholds: {
+      ph: { min: 6.5, max: 8.5 },
+      dissolvedOxygen: { min: 5 },
+      temperature: { min: 26, max: 30 },
+      ammonia: { max: 0.02 },
+    },
+  },
+  {
+    id: 'tilapia_growout',
+    species: 'Tilapia',
+    scientificName: 'Oreochromis niloticus',
+    lifeStage: 'growout',
+    thresholds: {
+      ph: { min: 6.5, max: 8.5 },
+      dissolvedOxygen: { min: 4 },
+      temperature: { min: 25, max: 32 },
+      ammonia: { max: 0.05 },
+    },
+  },
+  {
+    id: 'catfish_nursery',
+    species: 'Catfish',
+    scientificName: 'Pangasianodon / Clarias spp.',
+    lifeStage: 'nursery',
+    thresholds: {
+      ph: { min: 6.5, max: 8.5 },
+      dissolvedOxygen: { min: 5 },
+      temperature: { min: 26, max: 30 },
+      ammonia: { max: 0.02 },
+    },
+  },
+  {
+    id: 'catfish_growout',
+    species: 'Catfish',
+    scientificName: 'Pangasianodon / Clarias spp.',
+    lifeStage: 'growout',
+    thresholds: {
+      ph: { min: 6.5, max: 8.5 },
+      dissolvedOxygen: { min: 3 },
+      temperature: { min: 24, max: 32 },
+      ammonia: { max: 0.05 },
+    },
+  },
+  {
+    id: 'rohu_nursery',
+    species: 'Rohu',
+    scientificName: 'Labeo rohita',
+    lifeStage: 'nursery',
+    thresholds: {
+      ph: { min: 7.0, max: 8.5 },
+      dissolvedOxygen: { min: 5 },
+      temperature: { min: 26, max: 30 },
+      ammonia: { max: 0.02 },
+    },
+  },
+  {
+    id: 'rohu_growout',
+    species: 'Rohu',
+    scientificName: 'Labeo rohita',
+    lifeStage: 'growout',
+    thresholds: {
+      ph: { min: 7.0, max: 8.5 },
+      dissolvedOxygen: { min: 5 },
+      temperature: { min: 25, max: 32 },
+      ammonia: { max: 0.05 },
+    },
+  },
+  {
+    id: 'common_carp_growout',
+    species: 'Common Carp',
+    scientificName: 'Cyprinus carpio',
+    lifeStage: 'growout',
+    thresholds: {
+      ph: { min: 6.5, max: 9.0 },
+      dissolvedOxygen: { min: 4 },
+      temperature: { min: 20, max: 28 },
+      ammonia: { max: 0.05 },
+    },
+  },
+  {
+    id: 'whiteleg_shrimp_nursery',
+    species: 'Whiteleg Shrimp',
+    scientificName: 'Litopenaeus vannamei',
+    lifeStage: 'nursery',
+    thresholds: {
+      ph: { min: 7.8, max: 8.3 },
+      dissolvedOxygen: { min: 5 },
+      temperature: { min: 28, max: 31 },
+      ammonia: { max: 0.03 },
+      salinity: { min: 15, max: 25 },
+    },
+  },
+  {
+    id: 'whiteleg_shrimp_growout',
+    species: 'Whiteleg Shrimp',
+    scientificName: 'Litopenaeus vannamei',
+    lifeStage: 'growout',
+    thresholds: {
+      ph: { min: 7.5, max: 8.5 },
+      dissolvedOxygen: { min: 4.5 },
+      temperature: { min: 26, max: 32 },
+      ammonia: { max: 0.1 },
+      salinity: { min: 10, max: 30 },
+    },
+  },
+];
+
+export function getSpeciesPreset(id: string | null | undefined): SpeciesPreset | undefined {
+  if (!id) return undefined;
+  return SPECIES_PRESETS.find(preset => preset.id === id);
+}
+
+// e.g. "Tilapia · Grow-out"
+export function formatSpeciesPreset(preset: SpeciesPreset): string {
+  return `${preset.species} · ${LIFE_STAGE_LABELS[preset.lifeStage]}`;
+}
@@ -0,0 +1,109 @@
+import type { Json } from '@/integrations/supabase/types';
+import { SENSOR_KEYS, SENSOR_REGISTRY, SensorKey, ThresholdBound, isSensorKey } from './sensorRegistry';
+import { getDefaultBand } from './sensorStatus';
+
+/**
+ * Threshold profiles
+ *
+ * Resolution order for each sensor bound:
+ *   pond profile (ponds.thresholds) → user defaults (user_settings) → registry safe range
+ */
+
+export type ThresholdBand = Partial<Record<ThresholdBound, number>>;
+
+export type SensorThresholds = Partial<Record<SensorKey, ThresholdBand>>;
+
+// Sensors whose defaults are stored as columns on user_settings
+export const USER_DEFAULT_SENSORS: SensorKey[] = ['ph', 'dissolvedOxygen', 'temperature'];
+
+// Sensors that can be given limits, in display order
+export const THRESHOLD_SENSORS: SensorKey[] = SENSOR_KEYS.filter(
+  key => SENSOR_REGISTRY[key].thresholdBounds.length > 0
+);
+
+interface UserThresholdColumns {
+  temp_min: number;
+  temp_max: number;
+  ph_min: number;
+  ph_max: number;
+  do_min: number;
+}
+
+// Legacy flat key prefixes the ESP32 firmware already reads from ponds/{id}/config/thresholds
+const FIREBASE_PREFIX: Partial<Record<SensorKey, string>> = {
+  temperature: 'temp',
+  dissolvedOxygen: 'do',
+};
+
+export function thresholdsFromUserSettings(settings: UserThresholdColumns): SensorThresholds {
+  return {
+    temperature: { min: settings.temp_min, max: settings.temp_max },
+    ph: { min: settings.ph_min, max: settings.ph_max },
+    dissolvedOxygen: { min: settings.do_min },
+  };
+}
+
+export function thresholdsToUserSettings(thresholds: SensorThresholds): Partial<UserThresholdColumns> {
+  const columns: Partial<UserThresholdColumns> = {};
+  if (thresholds.temperature?.min !== undefined) columns.temp_min = thresholds.temperature.min;
+  if (thresholds.temperature?.max !== undefined) columns.temp_max = thresholds.temperature.max;
+  if (thresholds.ph?.min !== undefined) columns.ph_min = thresholds.ph.min;
+  if (thresholds.ph?.max !== undefined) columns.ph_max = thresholds.ph.max;
+  if (thresholds.dissolvedOxygen?.min !== undefined) columns.do_min = thresholds.dissolvedOxygen.min;
+  return columns;
+}
+
+function registryDefaults(): SensorThresholds {
+  const defaults: SensorThresholds = {};
+  for (const key of THRESHOLD_SENSORS) {
+    defaults[key] = getDefaultBand(key);
+  }
+  return defaults;
+}
+
+// Merge profiles left to right; later profiles win per bound
+export function resolveThresholds(...profiles: (SensorThresholds | null | undefined)[]): SensorThresholds {
+  const resolved = registryDefaults();
+  for (const profile of profiles) {
+    if (!profile) continue;
+    for (const key of THRESHOLD_SENSORS) {
+      const band = profile[key];
+      if (!band) continue;
+      for (const bound of SENSOR_REGISTRY[key].thresholdBounds) {
+        if (typeof band[bound] === 'number') {
+          resolved[key] = { ...resolved[key], [bound]: band[bound] };
+        }
+      }
+    }
+  }
+  return resolved;
+}
+
+// Sanitize a jsonb value from Supabase into a threshold profile
+export function parseThresholds(value: Json | null | undefined): SensorThresholds | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const parsed: SensorThresholds = {};
+  for (const [key, band] of Object.entries(value)) {
+    if (!isSensorKey(key) || !band || typeof band !== 'object' || Array.isArray(band)) continue;
+    const clean: ThresholdBand = {};
+    for (const bound of SENSOR_REGISTRY[key].thresholdBounds) {
+      const raw = (band as Record<string, Json | undefined>)[bound];
+      if (typeof raw === 'number' && !isNaN(raw)) clean[bound] = raw;
+    }
+    if (Object.keys(clean).length > 0) parsed[key] = clean;
+  }
+  return Object.keys(parsed).length > 0 ? parsed : null;
+}
+
+// Flatten to `temp_min`, `do_min`, `ammonia_max`... for the ESP32
+export function toFirebaseThresholds(thresholds: SensorThresholds): Record<string, number> {
+  const flat: Record<string, number> = {};
+  for (const [key, band] of Object.entries(thresholds) as [SensorKey, ThresholdBand][]) {
+    const prefix = FIREBASE_PREFIX[key] ?? key;
+    for (const [bound, value] of Object.entries(band)) {
+      if (typeof value === 'number') flat[`${prefix}_${bound}`] = value;
+    }
+  }
+  return flat;
+}
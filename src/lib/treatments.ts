@@ -0,0 +1,38 @@
+import { addDays } from 'date-fns';
+import { TREATMENT_CATEGORIES } from '@/types/treatment';
+import type { PondTreatment, TreatmentCategory } from '@/types/treatment';
+
+/**
+ * Pond treatments and withdrawal periods
+ *
+ * A treatment's withdrawal window runs from application for withdrawalDays;
+ * harvests inside any window are flagged before they're saved.
+ */
+
+export function treatmentCategoryLabel(category: TreatmentCategory): string {
+  return TREATMENT_CATEGORIES.find(option => option.value === category)?.label ?? category;
+}
+
+export function withdrawalEndsAt(treatment: PondTreatment): Date | null {
+  return treatment.withdrawalDays > 0 ? addDays(treatment.appliedAt, treatment.withdrawalDays) : null;
+}
+
+// Treatments whose withdrawal period covers `date`, ending last first
+export function activeWithdrawals(treatments: PondTreatment[], date: Date = new Date()): PondTreatment[] {
+  return treatments
+    .filter(treatment => {
+      const endsAt = withdrawalEndsAt(treatment);
+      return endsAt !== null && treatment.appliedAt <= date && date < endsAt;
+    })
+    .sort((a, b) => (withdrawalEndsAt(b)?.getTime() ?? 0) - (withdrawalEndsAt(a)?.getTime() ?? 0));
+}
+
+// When the stock is clear for harvest, or null if no withdrawal covers `date`
+export function withdrawalClearsAt(treatments: PondTreatment[], date: Date = new Date()): Date | null {
+  const [longest] = activeWithdrawals(treatments, date);
+  return longest ? withdrawalEndsAt(longest) : null;
+}
+
+export function formatTreatment(treatment: PondTreatment): string {
+  return `${treatment.product} · ${treatment.quantity} ${treatment.unit}`;
+}
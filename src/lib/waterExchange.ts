@@ -0,0 +1,66 @@
+import { eachDayOfInterval, format, startOfDay, subDays } from 'date-fns';
+import { WATER_SOURCES } from '@/types/waterExchange';
+import type { WaterExchange, WaterSource } from '@/types/waterExchange';
+
+/**
+ * Water exchange bookkeeping
+ *
+ * Percentages are shares of the full pond volume. With roughly vertical banks
+ * volume follows depth, so a refill from one level to another replaces
+ * (after - before) / after of the water.
+ */
+
+export interface ExchangeDay {
+  date: string;
+  percent: number;
+}
+
+export interface ExchangeSummary {
+  last7DaysPercent: number;
+  last30DaysPercent: number;
+  // Average over the last 30 days, per week
+  weeklyAveragePercent: number;
+  lastExchange: WaterExchange | null;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export function waterSourceLabel(source: WaterSource): string {
+  return WATER_SOURCES.find(option => option.value === source)?.label ?? source;
+}
+
+// Null when the levels don't describe a refill
+export function exchangePercentFromLevels(levelBeforeCm: number, levelAfterCm: number): number | null {
+  if (!(levelAfterCm > 0) || levelBeforeCm < 0 || levelBeforeCm >= levelAfterCm) return null;
+  return round1(((levelAfterCm - levelBeforeCm) / levelAfterCm) * 100);
+}
+
+const percentSince = (exchanges: WaterExchange[], since: Date) =>
+  round1(exchanges.filter(e => e.exchangedAt >= since).reduce((sum, e) => sum + e.percent, 0));
+
+export function summarizeExchanges(exchanges: WaterExchange[], now: Date = new Date()): ExchangeSummary {
+  const last30DaysPercent = percentSince(exchanges, subDays(now, 30));
+  const lastExchange = exchanges.reduce<WaterExchange | null>(
+    (latest, e) => (!latest || e.exchangedAt > latest.exchangedAt ? e : latest),
+    null
+  );
+  return {
+    last7DaysPercent: percentSince(exchanges, subDays(now, 7)),
+    last30DaysPercent,
+    weeklyAveragePercent: round1((last30DaysPercent / 30) * 7),
+    lastExchange,
+  };
+}
+
+// Percent exchanged per day, oldest first, with empty days included
+export function dailyExchange(exchanges: WaterExchange[], days: number, now: Date = new Date()): ExchangeDay[] {
+  const totals = new Map<string, number>();
+  for (const exchange of exchanges) {
+    const key = format(exchange.exchangedAt, 'yyyy-MM-dd');
+    totals.set(key, (totals.get(key) ?? 0) + exchange.percent);
+  }
+  return eachDayOfInterval({ start: startOfDay(subDays(now, days - 1)), end: startOfDay(now) }).map(day => ({
+    date: format(day, 'MMM d'),
+    percent: round1(totals.get(format(day, 'yyyy-MM-dd')) ?? 0),
+  }));
+}
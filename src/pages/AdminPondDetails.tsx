@@ -12,10 +12,6 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SensorCard } from '@/components/SensorCard';
 import { 
   Loader2, 
-  Droplets, 
-  Wind,
-  Lightbulb,
-  Bell,
   User,
   MapPin,
   Wifi,
@@ -24,6 +20,7 @@ import {
   Activity
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { DEVICE_ICONS, DeviceIconName } from '@/lib/deviceRegistry';
 
 interface PondDetails {
   id: string;
@@ -129,18 +126,6 @@ export default function AdminPondDetails() {
     );
   }
 
-  const getDeviceIcon = (type: string) => {
-    switch (type.toLowerCase()) {
-      case 'aerator': return Wind;
-      case 'pump': 
-      case 'motor': return Droplets;
-      case 'lights':
-      case 'light': return Lightbulb;
-      case 'buzzer': return Bell;
-      default: return Activity;
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background pb-8">
       <Header title={pond.name} showBack />
@@ -222,7 +207,7 @@ export default function AdminPondDetails() {
                   value={+sensorData.ph.toFixed(2)}
                 />
                 <SensorCard
-                  type="do"
+                  type="dissolvedOxygen"
                   value={+sensorData.dissolvedOxygen.toFixed(2)}
                 />
                 <SensorCard
@@ -252,7 +237,7 @@ export default function AdminPondDetails() {
                 ) : (
                   <div className="space-y-3">
                     {devices.map(device => {
-                      const Icon = getDeviceIcon(device.type);
+                      const Icon = DEVICE_ICONS[device.icon as DeviceIconName] ?? Activity;
                       return (
                         <div
                           key={device.id}
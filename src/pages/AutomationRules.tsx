@@ -0,0 +1,294 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { usePondData } from '@/hooks/usePondData';
+import { useAutomationRules } from '@/hooks/useAutomationRules';
+import { useCriticalAutoMode } from '@/hooks/useCriticalAutoMode';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/Header';
+import { RuleEditorDialog } from '@/components/RuleEditorDialog';
+import { AutoTuningCard } from '@/components/AutoTuningCard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Edit2, Info, Loader2, Plus, Trash2, Workflow, Zap } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { getDeviceNames } from '@/lib/deviceRegistry';
+import { AutomationRule, describeAction, describeCondition } from '@/types/automation';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+
+export default function AutomationRules() {
+  const { pondId } = useParams<{ pondId: string }>();
+  const navigate = useNavigate();
+  const { ponds, isLoading: pondsLoading } = usePondData();
+  const { isAdmin } = useAuth();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+
+  const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
+  const stablePondId = pondId || pond?.id || 'pond1';
+
+  const {
+    rules,
+    isLoading: rulesLoading,
+    isSaving,
+    addRule,
+    updateRule,
+    deleteRule,
+    toggleRule,
+  } = useAutomationRules(stablePondId);
+
+  const { isAutoModeActive, activeRuleIds } = useCriticalAutoMode(stablePondId);
+  const { devices } = useDeviceRegistry(stablePondId);
+  const automatedDevices = devices.filter(d => d.capabilities.includes('automation'));
+  const deviceNames = getDeviceNames(devices);
+
+  if (pondsLoading || rulesLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!pond) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Pond Not Found</h2>
+          <Button onClick={() => navigate('/')}>Go Back</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const openEditor = (rule: AutomationRule | null) => {
+    setEditingRule(rule);
+    setIsEditorOpen(true);
+  };
+
+  const enabledCount = rules.filter(r => r.enabled).length;
+
+  return (
+    <div className="min-h-screen bg-background pb-8">
+      <Header title="Automation Rules" showBack />
+
+      <main className="p-4 max-w-lg mx-auto">
+        {/* Header Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center justify-between mb-4"
+        >
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-violet-500 to-indigo-600 flex items-center justify-center shadow-lg">
+              <Workflow className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
+              <p className="text-xs text-muted-foreground">
+                {enabledCount} active rules
+              </p>
+            </div>
+          </div>
+
+          {!isAdmin && (
+            <Button size="sm" className="rounded-xl" disabled={isSaving} onClick={() => openEditor(null)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          )}
+        </motion.div>
+
+        {/* Auto Mode Warning */}
+        {!isAutoModeActive && (
+          <motion.div
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="mb-4"
+          >
+            <Card className="border-status-warning/30 bg-status-warning/10">
+              <CardContent className="p-3 flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-status-warning flex-shrink-0" />
+                <p className="text-xs text-status-warning">
+                  Rules only run while Auto Mode is on. Turn it on in Settings to start evaluating them.
+                </p>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        {/* Info Box */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="mb-4"
+        >
+          <Card className="border-primary/20 bg-primary/5">
+            <CardContent className="p-3 flex items-start gap-2">
+              <Info className="h-4 w-4 text-primary flex-shrink-0 mt-0.5" />
+              <div className="text-xs text-muted-foreground">
+                <p className="font-medium text-foreground mb-1">How rules run</p>
+                <ul className="space-y-0.5">
+                  <li>• Checked every minute on the server, together with the built-in Auto Mode rules</li>
+                  <li>• Actions fire once when all conditions become true</li>
+                  <li>• Devices switch back when the rule clears or its timer ends</li>
+                  <li>• Time windows use the pond's timezone ({pond.timezone || 'UTC'})</li>
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        </motion.div>
+
+        {/* Built-in rule tuning - config is owner-only */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="mb-4"
+        >
+          <AutoTuningCard pondId={stablePondId} readOnly={isAdmin || !pond.isOwner} />
+        </motion.div>
+
+        {/* Rule List */}
+        <div className="space-y-3">
+          {rules.map((rule, index) => {
+            const isTriggered = activeRuleIds.includes(rule.id);
+            return (
+              <motion.div
+                key={rule.id}
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+              >
+                <Card className={cn(!rule.enabled && 'opacity-60', isTriggered && 'border-status-warning/50')}>
+                  <CardContent className="p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="text-sm font-medium truncate">{rule.name}</span>
+                        {isTriggered && (
+                          <Badge variant="outline" className="text-[10px] border-status-warning/40 text-status-warning">
+                            <Zap className="h-3 w-3 mr-0.5" />
+                            Triggered
+                          </Badge>
+                        )}
+                      </div>
+                      {!isAdmin && (
+                        <div className="flex items-center gap-1 shrink-0">
+                          <Switch
+                            checked={rule.enabled}
+                            onCheckedChange={(checked) => toggleRule(rule.id, checked)}
+                            disabled={isSaving}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-muted-foreground"
+                            onClick={() => openEditor(rule)}
+                            disabled={isSaving}
+                          >
+                            <Edit2 className="h-3.5 w-3.5" />
+                          </Button>
+                          <AlertDialog>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                                disabled={isSaving}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>Delete Rule?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  This will permanently remove "{rule.name}". Any device it is holding will be released on the next check.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                <AlertDialogAction
+                                  onClick={() => deleteRule(rule.id)}
+                                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                >
+                                  Delete
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">If </span>
+                      {rule.conditions.map(describeCondition).join(' and ')}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {rule.actions.map((action, i) => (
+                        <Badge key={i} variant="secondary" className="text-[10px]">
+                          {describeAction(action, deviceNames)}
+                        </Badge>
+                      ))}
+                      {!!rule.minOnMinutes && (
+                        <Badge variant="outline" className="text-[10px]">min on {rule.minOnMinutes}m</Badge>
+                      )}
+                      {!!rule.minOffMinutes && (
+                        <Badge variant="outline" className="text-[10px]">min off {rule.minOffMinutes}m</Badge>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              </motion.div>
+            );
+          })}
+        </div>
+
+        {/* Empty State */}
+        {rules.length === 0 && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-center py-8"
+          >
+            <Workflow className="h-12 w-12 text-muted-foreground/30 mx-auto mb-3" />
+            <p className="text-muted-foreground">No rules yet</p>
+            <p className="text-xs text-muted-foreground/70 mb-4">
+              Combine sensor readings and time windows to drive devices, alerts and snapshots
+            </p>
+            {!isAdmin && (
+              <Button onClick={() => openEditor(null)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add First Rule
+              </Button>
+            )}
+          </motion.div>
+        )}
+      </main>
+
+      <RuleEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        rule={editingRule}
+        devices={automatedDevices}
+        isSaving={isSaving}
+        onSave={(input) => (editingRule ? updateRule(editingRule.id, input) : addRule(input))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { usePondData } from '@/hooks/usePondData';
+import { useCropCycles } from '@/hooks/useCropCycles';
+import { useFeedLogs } from '@/hooks/useFeedLogs';
+import { useTreatments } from '@/hooks/useTreatments';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/Header';
+import { CropCycleDialog } from '@/components/CropCycleDialog';
+import { GrowthCard } from '@/components/GrowthCard';
+import { CycleRecordDialog, CycleRecordSave } from '@/components/CycleRecordDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Fish,
+  Loader2,
+  Package,
+  Plus,
+  Scale,
+  Skull,
+  Sprout,
+  Trash2,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import { motion } from 'framer-motion';
+import { getSpeciesPreset } from '@/lib/speciesPresets';
+import { FeedRates } from '@/lib/feedConversion';
+import { dayOfCulture, summarizeCycle } from '@/lib/cropCycles';
+import type { CropCycle, CycleRecordKind } from '@/types/cropCycle';
+
+interface TimelineItem {
+  kind: CycleRecordKind;
+  id: string;
+  at: Date;
+  title: string;
+  detail: string;
+}
+
+const recordIcon: Record<CycleRecordKind, typeof Scale> = {
+  sampling: Scale,
+  mortality: Skull,
+  harvest: Package,
+};
+
+function timelineOf(cycle: CropCycle): TimelineItem[] {
+  return [
+    ...cycle.samplings.map(s => ({
+      kind: 'sampling' as const,
+      id: s.id,
+      at: s.sampledAt,
+      title: `Sampling · ${s.avgWeightG} g avg`,
+      detail: `${s.sampleCount} fish weighed${s.note ? ` · ${s.note}` : ''}`,
+    })),
+    ...cycle.mortalities.map(m => ({
+      kind: 'mortality' as const,
+      id: m.id,
+      at: m.recordedAt,
+      title: `Mortality · ${m.count}`,
+      detail: [m.cause, m.note].filter(Boolean).join(' · '),
+    })),
+    ...cycle.harvests.map(h => ({
+      kind: 'harvest' as const,
+      id: h.id,
+      at: h.harvestedAt,
+      title: `${h.isFinal ? 'Final harvest' : 'Partial harvest'} · ${h.weightKg} kg`,
+      detail: [h.count !== null && `${h.count} fish`, h.buyer, h.note].filter(Boolean).join(' · '),
+    })),
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+}
+
+const orDash = (value: number | null | undefined, digits = 1) =>
+  value === null || value === undefined ? '–' : value.toFixed(digits);
+
+export default function CropCycles() {
+  const { pondId } = useParams<{ pondId: string }>();
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { ponds, isLoading: pondsLoading } = usePondData();
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [recordKind, setRecordKind] = useState<CycleRecordKind | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
+  const stablePondId = pondId || pond?.id || 'pond1';
+
+  const {
+    cycles,
+    activeCycle,
+    conditions,
+    isLoading,
+    error,
+    startCycle,
+    endCycle,
+    deleteCycle,
+    addSampling,
+    addMortality,
+    addHarvest,
+    deleteRecord,
+  } = useCropCycles(stablePondId);
+  // Whole record, so older cycles get their feed totals too
+  const { logs } = useFeedLogs(stablePondId, null);
+  const { devices } = useDeviceRegistry(stablePondId);
+  const { treatments } = useTreatments(stablePondId);
+
+  if (pondsLoading || isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!pond) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Pond Not Found</h2>
+          <Button onClick={() => navigate('/')}>Go Back</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = !isAdmin && !!pond.isOwner;
+  const rates: FeedRates = Object.fromEntries(devices.map(d => [d.key, d.gramsPerSecond]));
+  const selected = cycles.find(cycle => cycle.id === selectedId) ?? activeCycle ?? cycles[0] ?? null;
+  const summary = selected ? summarizeCycle(selected, logs, rates) : null;
+  const defaultSpecies = getSpeciesPreset(pond.fishType)?.species ?? pond.fishType;
+
+  const handleRecord = (record: CycleRecordSave) => {
+    if (!selected) return Promise.resolve(false);
+    switch (record.kind) {
+      case 'sampling': return addSampling(selected.id, record.input);
+      case 'mortality': return addMortality(selected.id, record.input);
+      case 'harvest': return addHarvest(selected.id, record.input);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-8">
+      <Header title="Crop Cycles" showBack />
+
+      <main className="p-4 max-w-lg mx-auto space-y-4">
+        {/* Header Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-emerald-500 to-teal-600 flex items-center justify-center shadow-lg">
+              <Fish className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
+              <p className="text-xs text-muted-foreground">
+                {activeCycle ? `${activeCycle.name} · day ${dayOfCulture(activeCycle)}` : 'No active cycle'}
+              </p>
+            </div>
+          </div>
+          {canEdit && !activeCycle && (
+            <Button size="sm" className="rounded-xl" onClick={() => setIsStartOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Start Cycle
+            </Button>
+          )}
+        </motion.div>
+
+        {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+        {!selected ? (
+          <Card>
+            <CardContent className="py-8 text-center">
+              <Sprout className="h-12 w-12 text-muted-foreground/30 mx-auto mb-3" />
+              <p className="text-muted-foreground">No crop cycles yet</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Start a cycle when the pond is stocked to track growth, losses and harvest.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center justify-between text-base gap-2">
+                {cycles.length > 1 ? (
+                  <Select value={selected.id} onValueChange={setSelectedId}>
+                    <SelectTrigger className="h-8 text-sm flex-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {cycles.map(cycle => (
+                        <SelectItem key={cycle.id} value={cycle.id}>{cycle.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span>{selected.name}</span>
+                )}
+                <Badge variant={selected.endedAt ? 'secondary' : 'default'}>
+                  {selected.endedAt ? 'Closed' : 'Active'}
+                </Badge>
+              </CardTitle>
+              <p className="text-xs text-muted-foreground">
+                {selected.species} · stocked {format(selected.stockedAt, 'MMM d, yyyy')}
+                {selected.endedAt && ` · ended ${format(selected.endedAt, 'MMM d, yyyy')}`}
+                {selected.hatchery && ` · ${selected.hatchery}`}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {summary && (
+                <div className="grid grid-cols-3 gap-2">
+                  {[
+                    { label: 'Day', value: String(summary.days) },
+                    { label: 'Stocked', value: selected.stockedCount.toLocaleString() },
+                    { label: 'Remaining', value: summary.remainingCount.toLocaleString() },
+                    { label: 'Survival', value: `${summary.survivalPercent}%` },
+                    { label: 'Avg weight', value: summary.latestWeightG ? `${summary.latestWeightG} g` : '–' },
+                    { label: 'Feed', value: `${summary.feedKg} kg` },
+                    { label: 'Harvested', value: `${summary.harvestedKg} kg` },
+                    { label: 'Revenue', value: summary.revenue > 0 ? summary.revenue.toFixed(2) : '–' },
+                    { label: 'FCR', value: orDash(summary.fcr, 2) },
+                  ].map(stat => (
+                    <div key={stat.label} className="p-3 rounded-2xl bg-muted/50">
+                      <p className="text-[10px] text-muted-foreground mb-1">{stat.label}</p>
+                      <p className="text-sm font-bold text-foreground">{stat.value}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {canEdit && !selected.endedAt && (
+                <div className="grid grid-cols-3 gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setRecordKind('sampling')}>
+                    <Scale className="h-4 w-4 mr-1" />
+                    Sample
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRecordKind('mortality')}>
+                    <Skull className="h-4 w-4 mr-1" />
+                    Loss
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => setRecordKind('harvest')}>
+                    <Package className="h-4 w-4 mr-1" />
+                    Harvest
+                  </Button>
+                </div>
+              )}
+
+              {/* Records */}
+              <div className="space-y-2">
+                {timelineOf(selected).map(item => {
+                  const Icon = recordIcon[item.kind];
+                  return (
+                    <div key={`${item.kind}-${item.id}`} className="flex items-start gap-3 p-3 rounded-xl bg-muted/50">
+                      <Icon className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium">{item.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {format(item.at, 'MMM d, h:mm a')}{item.detail && ` · ${item.detail}`}
+                        </p>
+                      </div>
+                      {canEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() => deleteRecord(item.kind, item.id)}
+                          aria-label="Delete record"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              {canEdit && (
+                <div className="flex justify-end gap-2">
+                  {!selected.endedAt && (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="sm">End Cycle</Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>End Cycle?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            "{selected.name}" will be closed now without a final harvest. Readings, alerts and feeding after this point won't count towards it.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => endCycle(selected.id, new Date())}>
+                            End Cycle
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-destructive hover:text-destructive">
+                        Delete
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Cycle?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          This will permanently remove "{selected.name}" with its samplings, mortalities and harvests. Sensor history and feed logs are kept.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => {
+                            setSelectedId(null);
+                            deleteCycle(selected.id);
+                          }}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          Delete
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {selected && <GrowthCard cycle={selected} />}
+
+        {/* Comparison */}
+        {cycles.length > 1 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">Compare cycles</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-muted-foreground text-left">
+                    <th className="py-1 pr-2 font-medium">Cycle</th>
+                    <th className="py-1 pr-2 font-medium text-right">Days</th>
+                    <th className="py-1 pr-2 font-medium text-right">Survival</th>
+                    <th className="py-1 pr-2 font-medium text-right">Harvest</th>
+                    <th className="py-1 pr-2 font-medium text-right">Feed</th>
+                    <th className="py-1 pr-2 font-medium text-right">FCR</th>
+                    <th className="py-1 pr-2 font-medium text-right">Avg DO</th>
+                    <th className="py-1 font-medium text-right">Alerts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cycles.map(cycle => {
+                    const row = summarizeCycle(cycle, logs, rates);
+                    const water = conditions[cycle.id];
+                    return (
+                      <tr key={cycle.id} className="border-t">
+                        <td className="py-2 pr-2 font-medium truncate max-w-[90px]">{cycle.name}</td>
+                        <td className="py-2 pr-2 text-right">{row.days}</td>
+                        <td className="py-2 pr-2 text-right">{row.survivalPercent}%</td>
+                        <td className="py-2 pr-2 text-right">{row.harvestedKg} kg</td>
+                        <td className="py-2 pr-2 text-right">{row.feedKg} kg</td>
+                        <td className="py-2 pr-2 text-right">{orDash(row.fcr, 2)}</td>
+                        <td className="py-2 pr-2 text-right">{orDash(water?.avgDissolvedOxygen)}</td>
+                        <td className="py-2 text-right">{water ? water.alertCount : '–'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        )}
+      </main>
+
+      <CropCycleDialog
+        open={isStartOpen}
+        onOpenChange={setIsStartOpen}
+        defaultSpecies={defaultSpecies}
+        onSave={startCycle}
+      />
+
+      {selected && (
+        <CycleRecordDialog
+          kind={recordKind}
+          onOpenChange={(open) => !open && setRecordKind(null)}
+          stockedAt={selected.stockedAt}
+          treatments={treatments}
+          onSave={handleRecord}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { usePondData } from '@/hooks/usePondData';
+import { useDeviceActivity, DeviceActivityFilters } from '@/hooks/useDeviceActivity';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Activity,
+  CheckCircle2,
+  HelpCircle,
+  Loader2,
+  RefreshCw,
+  XCircle,
+  Clock,
+} from 'lucide-react';
+import { format, isToday, isYesterday } from 'date-fns';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { getDeviceIcon } from '@/lib/deviceRegistry';
+import {
+  ACK_RESULT_LABELS,
+  ACTIVITY_SOURCE_LABELS,
+  AckResult,
+  ActivitySource,
+  DeviceActivity as DeviceActivityEntry,
+} from '@/types/activity';
+
+const rangeOptions = [
+  { days: 1, label: 'Last 24 hours' },
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+];
+
+const ackIcon: Record<AckResult, typeof CheckCircle2> = {
+  acknowledged: CheckCircle2,
+  mismatch: XCircle,
+  unconfirmed: HelpCircle,
+  pending: Clock,
+};
+
+const sourceBadgeClass: Record<ActivitySource, string> = {
+  manual: 'border-primary/30 text-primary',
+  schedule: 'border-cyan-500/30 text-cyan-600 dark:text-cyan-400',
+  auto: 'border-blue-500/30 text-blue-600 dark:text-blue-400',
+};
+
+function dayLabel(date: Date): string {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, MMM d');
+}
+
+export default function DeviceActivity() {
+  const { pondId } = useParams<{ pondId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { ponds, isLoading: pondsLoading } = usePondData();
+  const [filters, setFilters] = useState<DeviceActivityFilters>({ deviceType: 'all', source: 'all', days: 1 });
+
+  const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
+  const stablePondId = pondId || pond?.id || 'pond1';
+
+  const { activity, isLoading, error, refetch } = useDeviceActivity(stablePondId, filters);
+  const { devices } = useDeviceRegistry(stablePondId);
+
+  if (pondsLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!pond) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Pond Not Found</h2>
+          <Button onClick={() => navigate('/')}>Go Back</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const describeActor = (entry: DeviceActivityEntry): string => {
+    if (entry.source !== 'manual') return entry.actorLabel || ACTIVITY_SOURCE_LABELS[entry.source];
+    const who = entry.actorId === user?.id ? 'You' : entry.actorName || 'A user';
+    return entry.actorLabel ? `${who} · ${entry.actorLabel}` : who;
+  };
+
+  // Group entries by calendar day for the timeline
+  const groups: { label: string; entries: DeviceActivityEntry[] }[] = [];
+  for (const entry of activity) {
+    const label = dayLabel(entry.createdAt);
+    const group = groups[groups.length - 1];
+    if (group?.label === label) group.entries.push(entry);
+    else groups.push({ label, entries: [entry] });
+  }
+
+  return (
+    <div className="min-h-screen bg-background pb-8">
+      <Header title="Device Activity" showBack />
+
+      <main className="p-4 max-w-lg mx-auto">
+        {/* Header Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center justify-between mb-4"
+        >
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-slate-500 to-slate-700 flex items-center justify-center shadow-lg">
+              <Activity className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
+              <p className="text-xs text-muted-foreground">
+                {activity.length} changes
+              </p>
+            </div>
+          </div>
+          <Button variant="ghost" size="icon" onClick={refetch} disabled={isLoading}>
+            <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+          </Button>
+        </motion.div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <Select
+            value={filters.deviceType}
+            onValueChange={(value) => setFilters(prev => ({ ...prev, deviceType: value }))}
+          >
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All devices</SelectItem>
+              {devices.map(device => (
+                <SelectItem key={device.key} value={device.key}>{device.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.source}
+            onValueChange={(value: ActivitySource | 'all') => setFilters(prev => ({ ...prev, source: value }))}
+          >
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All sources</SelectItem>
+              {(Object.keys(ACTIVITY_SOURCE_LABELS) as ActivitySource[]).map(source => (
+                <SelectItem key={source} value={source}>{ACTIVITY_SOURCE_LABELS[source]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={String(filters.days)}
+            onValueChange={(value) => setFilters(prev => ({ ...prev, days: Number(value) }))}
+          >
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rangeOptions.map(option => (
+                <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {error && (
+          <p className="text-sm text-destructive text-center py-4">{error}</p>
+        )}
+
+        {isLoading && activity.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : activity.length === 0 ? (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            className="text-center py-12"
+          >
+            <Activity className="h-12 w-12 text-muted-foreground/30 mx-auto mb-3" />
+            <p className="text-muted-foreground">No device changes in this period</p>
+          </motion.div>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => (
+              <div key={group.label}>
+                <p className="text-xs font-medium text-muted-foreground mb-2">{group.label}</p>
+                <Card>
+                  <CardContent className="p-0 divide-y">
+                    {group.entries.map(entry => {
+                      // Removed devices keep their history under the raw key
+                      const device = devices.find(d => d.key === entry.deviceType);
+                      const DeviceIcon = device ? getDeviceIcon(device) : Activity;
+                      const AckIcon = ackIcon[entry.ackResult];
+                      return (
+                        <div key={entry.id} className="flex items-start gap-3 p-3">
+                          <div className={cn(
+                            'h-8 w-8 rounded-lg flex items-center justify-center shrink-0',
+                            entry.newState === 1 ? 'bg-status-safe/10 text-status-safe' : 'bg-muted text-muted-foreground'
+                          )}>
+                            <DeviceIcon className="h-4 w-4" />
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium">
+                                {device?.name || entry.deviceType} {entry.newState === 1 ? 'ON' : 'OFF'}
+                                {entry.newLevel !== null && entry.newState === 1 && ` · ${entry.newLevel}%`}
+                              </span>
+                              <Badge variant="outline" className={cn('text-[10px]', sourceBadgeClass[entry.source])}>
+                                {ACTIVITY_SOURCE_LABELS[entry.source]}
+                              </Badge>
+                            </div>
+                            <p className="text-xs text-muted-foreground truncate">{describeActor(entry)}</p>
+                            <div className="flex items-center gap-1 mt-0.5 text-[11px]">
+                              <AckIcon className={cn(
+                                'h-3 w-3',
+                                entry.ackResult === 'acknowledged' && 'text-status-safe',
+                                entry.ackResult === 'mismatch' && 'text-status-critical',
+                                entry.ackResult === 'unconfirmed' && 'text-status-warning',
+                                entry.ackResult === 'pending' && 'text-muted-foreground'
+                              )} />
+                              <span className="text-muted-foreground">
+                                {ACK_RESULT_LABELS[entry.ackResult]}
+                                {entry.previousLevel !== null && entry.newLevel !== null && entry.previousLevel !== entry.newLevel
+                                  ? ` · ${entry.previousLevel}% → ${entry.newLevel}%`
+                                  : entry.previousState !== null && entry.previousState === entry.newState && ' · no change'}
+                              </span>
+                            </div>
+                          </div>
+                          <span className="text-xs text-muted-foreground shrink-0">
+                            {format(entry.createdAt, 'h:mm a')}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,23 +1,26 @@
 import { useParams, useNavigate } from "react-router-dom";
 import { useState } from "react";
-import { ref, set } from "firebase/database";
 import { usePondData } from "@/hooks/usePondData";
 import { useUserSettings } from "@/hooks/useUserSettings";
 import { useCriticalAutoMode } from "@/hooks/useCriticalAutoMode";
 import { useFirebasePondStatus } from "@/hooks/useFirebasePondStatus";
-import { useScheduleExecutor } from "@/hooks/useScheduleExecutor";
+import { useDeviceConfirmations } from "@/hooks/useDeviceConfirmations";
+import { sendDeviceCommand } from "@/hooks/useDeviceCommand";
+import { useDeviceRegistry } from "@/hooks/useDeviceRegistry";
 import { useAuth } from "@/contexts/AuthContext";
-import { database } from "@/lib/firebase";
 import { Header } from "@/components/Header";
 import { DeviceCard } from "@/components/DeviceCard";
+import { DeviceEditorDialog } from "@/components/DeviceEditorDialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Calendar, Loader2, PowerOff, Power, Wifi, WifiOff, ShieldCheck, Eye } from "lucide-react";
+import { Calendar, Loader2, PowerOff, Power, Wifi, WifiOff, ShieldCheck, Eye, Bot, AlertTriangle, Workflow, HelpCircle, History, Plus, Wheat } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
 import { triggerHapticHeavy } from "@/lib/haptics";
 import { cn } from "@/lib/utils";
+import { DeviceDefinition, isFeeder, supportsLevel } from "@/lib/deviceRegistry";
 
 export default function DeviceControls() {
   const { pondId } = useParams<{ pondId: string }>();
@@ -27,18 +30,46 @@ export default function DeviceControls() {
   const { isAdmin } = useAuth();
   const [isAllOff, setIsAllOff] = useState(false);
   const [isAllOn, setIsAllOn] = useState(false);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<DeviceDefinition | null>(null);
 
   const pond = ponds.find((p) => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
   const stablePondId = pondId || pond?.id || "pond1";
 
-  // Initialize critical auto mode monitoring
-  useCriticalAutoMode(stablePondId);
-  
-  // Schedule executor - runs every 30s to execute ON/OFF at scheduled times
-  useScheduleExecutor(stablePondId);
+  // Auto mode runs server-side; this only reflects the engine's state
+  const {
+    isAutoModeActive,
+    autoActivatedDevices,
+    conditions,
+    lastEvaluatedAt,
+    isEngineStale,
+  } = useCriticalAutoMode(stablePondId);
   
   // Get pond online status
   const { isOnline, lastSeen } = useFirebasePondStatus(stablePondId);
+  const { devices, isLoading: devicesLoading, isSaving, addDevice, updateDevice, removeDevice } = useDeviceRegistry(stablePondId);
+  const confirmations = useDeviceConfirmations(stablePondId);
+  const unconfirmedDevices = devices.filter((d) => confirmations[d.key] === "unconfirmed");
+
+  const sendToAll = async (state: 0 | 1) => {
+    // A feeder left on empties its hopper into the pond; feeding goes through dispenses
+    const targets = state === 1 ? devices.filter((device) => !isFeeder(device)) : devices;
+    const results = await Promise.all(
+      targets.map((device) =>
+        sendDeviceCommand(stablePondId, device.key, state, {
+          label: state === 1 ? "All On" : "All Off",
+          // Variable devices go to full output
+          ...(supportsLevel(device) ? { level: state === 1 ? 100 : 0 } : {}),
+        })
+      )
+    );
+    const unconfirmed = results.filter((result) => result !== "acknowledged").length;
+    if (unconfirmed > 0) {
+      toast.warning(`${unconfirmed} of ${results.length} devices did not confirm`);
+    } else {
+      toast.success(`All devices turned ${state === 1 ? "on" : "off"}`);
+    }
+  };
 
   const handleAllOff = async () => {
     // SECURITY: Admins cannot control devices
@@ -49,14 +80,7 @@ export default function DeviceControls() {
     triggerHapticHeavy();
     setIsAllOff(true);
     try {
-      const devices = ["motor", "aerator", "light"];
-      await Promise.all(
-        devices.map(async (device) => {
-          await set(ref(database, `ponds/${stablePondId}/devices/${device}/mode`), "manual");
-          await set(ref(database, `ponds/${stablePondId}/devices/${device}/state`), 0);
-        })
-      );
-      toast.success("All devices turned off");
+      await sendToAll(0);
     } catch (error) {
       toast.error("Failed to turn off devices");
     } finally {
@@ -73,14 +97,7 @@ export default function DeviceControls() {
     triggerHapticHeavy();
     setIsAllOn(true);
     try {
-      const devices = ["motor", "aerator", "light"];
-      await Promise.all(
-        devices.map(async (device) => {
-          await set(ref(database, `ponds/${stablePondId}/devices/${device}/mode`), "manual");
-          await set(ref(database, `ponds/${stablePondId}/devices/${device}/state`), 1);
-        })
-      );
-      toast.success("All devices turned on");
+      await sendToAll(1);
     } catch (error) {
       toast.error("Failed to turn on devices");
     } finally {
@@ -88,9 +105,16 @@ export default function DeviceControls() {
     }
   };
 
-  const deviceCount = settings.camera_enabled ? 4 : 3;
+  const deviceCount = devices.length + (settings.camera_enabled ? 1 : 0);
+  // Changing the installed hardware is owner-only, like the rest of the pond config
+  const canEditDevices = !isAdmin && !!pond?.isOwner;
+
+  const openEditor = (device: DeviceDefinition | null) => {
+    setEditingDevice(device);
+    setIsEditorOpen(true);
+  };
 
-  if (pondsLoading) {
+  if (pondsLoading || devicesLoading) {
     return (
       <div className="min-h-screen bg-muted/30 flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -174,9 +198,90 @@ export default function DeviceControls() {
                 <Calendar className="h-4 w-4" />
                 Schedules
               </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(`/pond/${pond.id}/rules`)}
+                className="text-muted-foreground hover:text-foreground gap-1.5"
+              >
+                <Workflow className="h-4 w-4" />
+                Rules
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate(`/pond/${pond.id}/activity`)}
+                className="text-muted-foreground hover:text-foreground gap-1.5"
+              >
+                <History className="h-4 w-4" />
+                Activity
+              </Button>
+
+              {devices.some(isFeeder) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate(`/pond/${pond.id}/feeding`)}
+                  className="text-muted-foreground hover:text-foreground gap-1.5"
+                >
+                  <Wheat className="h-4 w-4" />
+                  Feeding
+                </Button>
+              )}
             </div>
           </div>
 
+          {/* Automation engine status */}
+          {isAutoModeActive && (
+            <div className={cn(
+              "flex items-start gap-2 mb-4 px-3 py-2 rounded-xl text-xs",
+              isEngineStale
+                ? "bg-status-warning/10 text-status-warning"
+                : conditions.length > 0
+                ? "bg-status-critical/10 text-status-critical"
+                : "bg-muted text-muted-foreground"
+            )}>
+              {isEngineStale ? (
+                <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              ) : (
+                <Bot className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              )}
+              <div className="space-y-0.5">
+                <p className="font-medium">
+                  {isEngineStale
+                    ? "Automation engine not responding"
+                    : conditions.length > 0
+                    ? conditions.map((c) => c.message).join(" · ")
+                    : "Auto mode active - all readings in range"}
+                </p>
+                {autoActivatedDevices.length > 0 && (
+                  <p>
+                    Auto-activated: {autoActivatedDevices.map((d) => devices.find((x) => x.key === d.device)?.name ?? d.device).join(", ")}
+                  </p>
+                )}
+                {lastEvaluatedAt && (
+                  <p className="opacity-70">
+                    Last check {formatDistanceToNow(lastEvaluatedAt, { addSuffix: true })}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Devices that never acknowledged their last command */}
+          {unconfirmedDevices.length > 0 && (
+            <div className="flex items-start gap-2 mb-4 px-3 py-2 rounded-xl text-xs bg-status-warning/10 text-status-warning">
+              <HelpCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              <p>
+                <span className="font-medium">Unconfirmed: </span>
+                {unconfirmedDevices.map((d) => d.name).join(", ")} did not acknowledge the last command.
+                {!isOnline && " The controller is offline."}
+              </p>
+            </div>
+          )}
+
           {/* Quick Action Buttons - Hidden for Admins */}
           {!isAdmin && (
             <div className="flex gap-3">
@@ -217,36 +322,43 @@ export default function DeviceControls() {
 
         {/* Device Cards */}
         <div className="space-y-4">
-          <motion.div
-            initial={{ opacity: 0, y: 16 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.3, delay: 0.05 }}
-          >
-            <DeviceCard pondId={stablePondId} type="motor" title="Water Pump" readOnly={isAdmin} />
-          </motion.div>
-
-          <motion.div
-            initial={{ opacity: 0, y: 16 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.3, delay: 0.1 }}
-          >
-            <DeviceCard pondId={stablePondId} type="aerator" title="Aerator" readOnly={isAdmin} />
-          </motion.div>
+          {devices.map((device, index) => (
+            <motion.div
+              key={device.key}
+              initial={{ opacity: 0, y: 16 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: 0.05 * (index + 1) }}
+            >
+              <DeviceCard
+                pondId={stablePondId}
+                type={device.key}
+                title={device.name}
+                confirmation={confirmations[device.key]}
+                device={device}
+                readOnly={isAdmin}
+                onEdit={canEditDevices ? () => openEditor(device) : undefined}
+              />
+            </motion.div>
+          ))}
 
-          <motion.div
-            initial={{ opacity: 0, y: 16 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.3, delay: 0.15 }}
-          >
-            <DeviceCard pondId={stablePondId} type="light" title="Light" readOnly={isAdmin} />
-          </motion.div>
+          {canEditDevices && (
+            <Button
+              variant="outline"
+              className="w-full border-dashed gap-2 text-muted-foreground"
+              onClick={() => openEditor(null)}
+              disabled={isSaving}
+            >
+              <Plus className="h-4 w-4" />
+              Add Device
+            </Button>
+          )}
 
           {/* Camera - Only shown when enabled in settings */}
           {settings.camera_enabled && (
             <motion.div
               initial={{ opacity: 0, y: 16 }}
               animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.3, delay: 0.2 }}
+              transition={{ duration: 0.3, delay: 0.05 * (devices.length + 1) }}
             >
               <DeviceCard 
                 pondId={stablePondId} 
@@ -279,6 +391,16 @@ export default function DeviceControls() {
           </motion.p>
         )}
       </main>
+
+      <DeviceEditorDialog
+        open={isEditorOpen}
+        onOpenChange={setIsEditorOpen}
+        device={editingDevice}
+        usedChannels={devices.map((d) => d.channel)}
+        isSaving={isSaving}
+        onSave={(input) => (editingDevice ? updateDevice(editingDevice.key, input) : addDevice(input))}
+        onRemove={editingDevice ? () => removeDevice(editingDevice.key) : undefined}
+      />
     </div>
   );
 }
@@ -1,8 +1,11 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { useState } from 'react';
 import { usePondData } from '@/hooks/usePondData';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
 import { useScheduleManager } from '@/hooks/useScheduleManager';
 import { useUserSettings } from '@/hooks/useUserSettings';
+import { useScheduleExecutions } from '@/hooks/useScheduleExecutions';
+import { supabase } from '@/integrations/supabase/client';
 import { Header } from '@/components/Header';
 import { ScheduleStatusBadge } from '@/components/ScheduleStatusBadge';
 import { Button } from '@/components/ui/button';
@@ -10,26 +13,31 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { 
   Clock,
   Plus,
   Loader2,
-  Wind,
-  Droplets,
-  Lightbulb,
   Bell,
   Trash2,
   Edit2,
   Save,
   X,
   AlertTriangle,
-  Info
+  Info,
+  Globe,
+  History,
+  CheckCircle2,
+  XCircle,
+  MinusCircle
 } from 'lucide-react';
+import { format } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { getDeviceIcon, supportsLevel } from '@/lib/deviceRegistry';
 import { toast } from 'sonner';
-import { Schedule, DAYS_OF_WEEK, formatDays, formatTime12h, WEEKDAYS, ALL_DAYS } from '@/types/schedule';
+import { Schedule, ScheduleExecutionStatus, DAYS_OF_WEEK, formatDays, formatTime12h, WEEKDAYS, ALL_DAYS } from '@/types/schedule';
 import {
   Dialog,
   DialogContent,
@@ -56,11 +64,12 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
-const deviceConfig = [
-  { type: 'motor', name: 'Water Pump', icon: Droplets },
-  { type: 'aerator', name: 'Aerator', icon: Wind },
-  { type: 'light', name: 'Lights', icon: Lightbulb },
-];
+const executionStatusIcon: Record<ScheduleExecutionStatus, typeof CheckCircle2> = {
+  success: CheckCircle2,
+  failed: XCircle,
+  skipped: MinusCircle,
+  pending: Loader2,
+};
 
 const repeatOptions = [
   { value: 'once', label: 'Once' },
@@ -76,6 +85,7 @@ export default function DeviceSchedules() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
   const [selectedDevice, setSelectedDevice] = useState('');
+  const [isUpdatingTimezone, setIsUpdatingTimezone] = useState(false);
 
   const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
   const stablePondId = pondId || pond?.id || 'pond1';
@@ -90,15 +100,28 @@ export default function DeviceSchedules() {
     toggleSchedule 
   } = useScheduleManager(stablePondId);
 
+  const { executions } = useScheduleExecutions(stablePondId);
+  const { devices, isLoading: devicesLoading } = useDeviceRegistry(stablePondId);
+  const deviceConfig = devices
+    .filter(d => d.capabilities.includes('schedule'))
+    .map(d => ({
+      type: d.key,
+      name: d.name,
+      icon: getDeviceIcon(d),
+      levelStep: supportsLevel(d) ? d.levelStep ?? 1 : undefined,
+    }));
+  const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
   const [newSchedule, setNewSchedule] = useState({
     deviceType: '',
     startTime: '08:00',
     endTime: '18:00',
     repeat: 'daily' as 'once' | 'daily' | 'custom',
     daysOfWeek: WEEKDAYS as number[],
+    level: 100,
   });
 
-  if (pondsLoading || schedulesLoading) {
+  if (pondsLoading || schedulesLoading || devicesLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -117,6 +140,8 @@ export default function DeviceSchedules() {
     );
   }
 
+  const selectedLevelStep = deviceConfig.find(d => d.type === newSchedule.deviceType)?.levelStep;
+
   const toggleDay = (day: number) => {
     setNewSchedule(prev => ({
       ...prev,
@@ -142,6 +167,7 @@ export default function DeviceSchedules() {
       endTime: newSchedule.endTime,
       repeat: newSchedule.repeat,
       daysOfWeek: newSchedule.repeat === 'daily' ? ALL_DAYS : newSchedule.daysOfWeek,
+      ...(device?.levelStep !== undefined ? { level: newSchedule.level } : {}),
       enabled: true,
     });
 
@@ -153,10 +179,30 @@ export default function DeviceSchedules() {
         endTime: '18:00',
         repeat: 'daily',
         daysOfWeek: WEEKDAYS,
+        level: 100,
       });
     }
   };
 
+  // Schedules fire server-side in the pond's timezone, not the viewer's
+  const handleUseDeviceTimezone = async () => {
+    setIsUpdatingTimezone(true);
+    try {
+      const { error } = await supabase
+        .from('ponds')
+        .update({ timezone: deviceTimezone })
+        .eq('id', pond.id);
+
+      if (error) throw error;
+      toast.success(`Schedules now run in ${deviceTimezone}`);
+    } catch (err) {
+      console.error('Error updating pond timezone:', err);
+      toast.error('Failed to update timezone');
+    } finally {
+      setIsUpdatingTimezone(false);
+    }
+  };
+
   const handleToggle = async (scheduleId: string, enabled: boolean) => {
     await toggleSchedule(scheduleId, enabled);
   };
@@ -250,6 +296,22 @@ export default function DeviceSchedules() {
                   </div>
                 </div>
 
+                {selectedLevelStep !== undefined && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Level</Label>
+                      <span className="text-xs font-medium text-muted-foreground">{newSchedule.level}%</span>
+                    </div>
+                    <Slider
+                      value={[newSchedule.level]}
+                      min={selectedLevelStep}
+                      max={100}
+                      step={selectedLevelStep}
+                      onValueChange={([value]) => setNewSchedule(prev => ({ ...prev, level: value }))}
+                    />
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label>Repeat</Label>
                   <Select
@@ -339,7 +401,7 @@ export default function DeviceSchedules() {
               <div className="text-xs text-muted-foreground">
                 <p className="font-medium text-foreground mb-1">Schedule Execution</p>
                 <ul className="space-y-0.5">
-                  <li>• Schedules run on your local time — devices turn ON/OFF exactly at the set times</li>
+                  <li>• Schedules run on the server in the pond's timezone, even when the app is closed</li>
                   <li>• Manual commands override active schedules</li>
                   <li>• Auto Mode overrides all schedules</li>
                 </ul>
@@ -348,6 +410,31 @@ export default function DeviceSchedules() {
           </Card>
         </motion.div>
 
+        {/* Pond Timezone */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="mb-4 flex items-center justify-between gap-2 text-xs text-muted-foreground"
+        >
+          <div className="flex items-center gap-1.5">
+            <Globe className="h-3.5 w-3.5" />
+            <span>Times are in <span className="font-medium text-foreground">{pond.timezone || 'UTC'}</span></span>
+          </div>
+          {pond.timezone !== deviceTimezone && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={handleUseDeviceTimezone}
+              disabled={isUpdatingTimezone}
+            >
+              {isUpdatingTimezone && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+              Use {deviceTimezone}
+            </Button>
+          )}
+        </motion.div>
+
         {/* Schedule List by Device */}
         <div className="space-y-4">
           {schedulesByDevice.map((device, deviceIndex) => (
@@ -389,6 +476,9 @@ export default function DeviceSchedules() {
                             <span className="text-sm font-medium">
                               {formatTime12h(schedule.startTime)} – {formatTime12h(schedule.endTime)}
                             </span>
+                            {schedule.level !== undefined && (
+                              <Badge variant="outline" className="text-[10px]">{schedule.level}%</Badge>
+                            )}
                             {schedule.status && (
                               <ScheduleStatusBadge status={schedule.status} />
                             )}
@@ -465,6 +555,51 @@ export default function DeviceSchedules() {
             </Button>
           </motion.div>
         )}
+
+        {/* Execution History */}
+        {executions.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: 0.3 }}
+            className="mt-4"
+          >
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <History className="h-4 w-4 text-muted-foreground" />
+                  Recent Runs
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {executions.map(execution => {
+                  const device = deviceConfig.find(d => d.type === execution.deviceType);
+                  const StatusIcon = executionStatusIcon[execution.status];
+                  return (
+                    <div key={execution.id} className="flex items-center justify-between text-xs">
+                      <div className="flex items-center gap-2">
+                        <StatusIcon className={cn(
+                          'h-3.5 w-3.5',
+                          execution.status === 'success' && 'text-status-safe',
+                          execution.status === 'failed' && 'text-status-critical',
+                          execution.status === 'skipped' && 'text-muted-foreground',
+                          execution.status === 'pending' && 'animate-spin text-muted-foreground'
+                        )} />
+                        <span className="font-medium">{device?.name || execution.deviceType}</span>
+                        <Badge variant="outline" className="text-[10px]">{execution.action}</Badge>
+                      </div>
+                      <span className="text-muted-foreground" title={execution.message}>
+                        {format(execution.scheduledFor, 'MMM d, h:mm a')}
+                        {execution.status === 'skipped' && ' · skipped'}
+                        {execution.status === 'failed' && ' · failed'}
+                      </span>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,444 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { usePondData } from '@/hooks/usePondData';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
+import { useFeedingPlans } from '@/hooks/useFeedingPlans';
+import { useFeedLogs } from '@/hooks/useFeedLogs';
+import { useCropCycles } from '@/hooks/useCropCycles';
+import { useFirebaseSensors } from '@/hooks/useFirebaseSensors';
+import { usePondThresholds } from '@/hooks/usePondThresholds';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/Header';
+import { FeedingPlanEditor } from '@/components/FeedingPlanEditor';
+import { FeedEntryDialog } from '@/components/FeedEntryDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  Edit2,
+  HelpCircle,
+  Loader2,
+  MinusCircle,
+  Plus,
+  RefreshCw,
+  Wheat,
+  XCircle,
+} from 'lucide-react';
+import { format, isToday, isYesterday } from 'date-fns';
+import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { DeviceDefinition, getDeviceIcon, isFeeder } from '@/lib/deviceRegistry';
+import { dispenseFeed, fedGrams, rationGrams } from '@/lib/feeding';
+import { estimateBiomass, suggestedDailyFeedGrams } from '@/lib/growth';
+import { formatTime12h } from '@/types/schedule';
+import {
+  FEED_SOURCE_LABELS,
+  FEED_STATUS_LABELS,
+  FeedLogEntry,
+  FeedStatus,
+  FeedingPlan,
+} from '@/types/feeding';
+
+const statusIcon: Record<FeedStatus, typeof CheckCircle2> = {
+  dispensed: CheckCircle2,
+  suppressed: MinusCircle,
+  unconfirmed: HelpCircle,
+  failed: XCircle,
+  pending: Clock,
+};
+
+function dayLabel(date: Date): string {
+  if (isToday(date)) return 'Today';
+  if (isYesterday(date)) return 'Yesterday';
+  return format(date, 'EEEE, MMM d');
+}
+
+function describeAmount(entry: FeedLogEntry): string {
+  const parts: string[] = [];
+  if (entry.grams !== null) parts.push(`${entry.grams} g`);
+  if (entry.seconds !== null) parts.push(`${entry.seconds} s`);
+  return parts.join(' · ');
+}
+
+export default function Feeding() {
+  const { pondId } = useParams<{ pondId: string }>();
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { ponds, isLoading: pondsLoading } = usePondData();
+  const [editingFeeder, setEditingFeeder] = useState<DeviceDefinition | null>(null);
+  const [amounts, setAmounts] = useState<Record<string, { value: string; unit: 'grams' | 'seconds' }>>({});
+  const [dispensing, setDispensing] = useState<string | null>(null);
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+
+  const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
+  const stablePondId = pondId || pond?.id || 'pond1';
+
+  const { devices, isLoading: devicesLoading } = useDeviceRegistry(stablePondId);
+  const { plans, isLoading: plansLoading, isSaving, savePlan } = useFeedingPlans(stablePondId);
+  const { logs, isLoading: logsLoading, error: logsError, refetch, addHandFeeding } = useFeedLogs(stablePondId);
+  const { sensorData, isStale } = useFirebaseSensors(stablePondId);
+  const { thresholds } = usePondThresholds(stablePondId);
+  const { activeCycle } = useCropCycles(stablePondId);
+
+  const feeders = devices.filter(isFeeder);
+
+  if (pondsLoading || devicesLoading || plansLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!pond) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Pond Not Found</h2>
+          <Button onClick={() => navigate('/')}>Go Back</Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Hand entries are recorded on the owner's account, like other manual logs
+  const canLogFeed = !isAdmin && !!pond.isOwner;
+  const pondMinDo = thresholds.dissolvedOxygen?.min;
+  // Suggested from the current cycle's biomass, split evenly across feeders
+  const biomass = activeCycle ? estimateBiomass(activeCycle) : null;
+  const suggestedGrams = biomass ? suggestedDailyFeedGrams(biomass) : null;
+  const suggestedPerFeeder = suggestedGrams !== null && feeders.length > 0
+    ? Math.round(suggestedGrams / feeders.length)
+    : undefined;
+  const currentDo = !isStale ? sensorData?.dissolvedOxygen ?? null : null;
+
+  const minDoFor = (plan: FeedingPlan | undefined) => plan?.minDissolvedOxygen ?? pondMinDo;
+  const isDoLow = (plan: FeedingPlan | undefined) => {
+    const min = minDoFor(plan);
+    return currentDo !== null && min !== undefined && currentDo < min;
+  };
+
+  const handleDispense = async (feeder: DeviceDefinition) => {
+    // SECURITY: Admins cannot control devices
+    if (isAdmin) {
+      toast.error('Admin users have read-only access to devices');
+      return;
+    }
+
+    const input = amounts[feeder.key] ?? { value: '', unit: 'grams' };
+    const value = Number(input.value);
+    if (!value || value <= 0) {
+      toast.error(input.unit === 'grams' ? 'Enter how many grams to dispense' : 'Enter how long to run the feeder');
+      return;
+    }
+
+    setDispensing(feeder.key);
+    try {
+      const ack = await dispenseFeed(
+        stablePondId,
+        feeder.key,
+        input.unit === 'grams' ? { grams: value } : { seconds: value },
+        // Manual dispenses are the same feed the plan uses
+        { gramsPerSecond: feeder.gramsPerSecond, dissolvedOxygen: currentDo, details: plans[feeder.key] ?? {} }
+      );
+      if (ack) {
+        toast.success(`${feeder.name} dispensed${ack.grams !== undefined ? ` ${ack.grams} g` : ''}`);
+      } else {
+        toast.warning(`${feeder.name} did not confirm the dispense`);
+      }
+      refetch();
+    } catch (err) {
+      console.error('Dispense error:', err);
+      toast.error('Failed to send dispense');
+    } finally {
+      setDispensing(null);
+    }
+  };
+
+  const handleTogglePlan = async (feeder: DeviceDefinition, enabled: boolean) => {
+    const plan = plans[feeder.key];
+    if (!plan) return;
+    await savePlan(feeder.key, { ...plan, enabled });
+  };
+
+  // Group entries by calendar day for the log
+  const groups: { label: string; entries: FeedLogEntry[] }[] = [];
+  for (const entry of logs) {
+    const label = dayLabel(entry.fedAt);
+    const group = groups[groups.length - 1];
+    if (group?.label === label) group.entries.push(entry);
+    else groups.push({ label, entries: [entry] });
+  }
+
+  const todayLogs = logs.filter(entry => isToday(entry.fedAt));
+  const fedTodayBy = (feeder: DeviceDefinition) => todayLogs
+    .filter(entry => entry.deviceType === feeder.key)
+    .reduce((total, entry) => total + fedGrams(entry, feeder.gramsPerSecond), 0);
+  // Includes hand feeding
+  const fedToday = todayLogs.reduce((total, entry) => {
+    const feeder = devices.find(d => d.key === entry.deviceType);
+    return total + fedGrams(entry, feeder?.gramsPerSecond);
+  }, 0);
+
+  return (
+    <div className="min-h-screen bg-background pb-8">
+      <Header title="Feeding" showBack />
+
+      <main className="p-4 max-w-lg mx-auto space-y-4">
+        {/* Header Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-amber-500 to-orange-600 flex items-center justify-center shadow-lg">
+              <Wheat className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
+              <p className="text-xs text-muted-foreground">
+                {fedToday.toFixed(0)} g fed today
+                {suggestedGrams !== null && ` · ${suggestedGrams} g suggested`}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="icon" onClick={refetch} disabled={logsLoading}>
+              <RefreshCw className={cn('h-4 w-4', logsLoading && 'animate-spin')} />
+            </Button>
+            {canLogFeed && (
+              <Button size="sm" className="rounded-xl" onClick={() => setIsEntryOpen(true)}>
+                <Plus className="h-4 w-4 mr-1" />
+                Log Feed
+              </Button>
+            )}
+          </div>
+        </motion.div>
+
+        {feeders.length === 0 ? (
+          <Card>
+            <CardContent className="py-8 text-center">
+              <Wheat className="h-12 w-12 text-muted-foreground/30 mx-auto mb-3" />
+              <p className="text-muted-foreground">No feeders on this pond</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Add a device of type Feeder from Device Controls to start feeding.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          feeders.map(feeder => {
+            const plan = plans[feeder.key];
+            const FeederIcon = getDeviceIcon(feeder);
+            const input = amounts[feeder.key] ?? { value: '', unit: 'grams' as const };
+            const feederFedToday = fedTodayBy(feeder);
+            const lowDo = isDoLow(plan);
+
+            return (
+              <Card key={feeder.key}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    <span className="flex items-center gap-2">
+                      <FeederIcon className="h-4 w-4 text-primary" />
+                      {feeder.name}
+                    </span>
+                    <span className="text-xs font-normal text-muted-foreground">
+                      {feederFedToday.toFixed(0)}{plan?.enabled ? ` / ${plan.dailyGrams}` : ''} g today
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {lowDo && (
+                    <div className="flex items-start gap-2 px-3 py-2 rounded-xl text-xs bg-status-warning/10 text-status-warning">
+                      <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                      <span>
+                        DO is {currentDo?.toFixed(1)} mg/L, below {minDoFor(plan)} mg/L. Planned rations are being skipped.
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Manual dispense */}
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      value={input.value}
+                      onChange={(e) => setAmounts(prev => ({ ...prev, [feeder.key]: { ...input, value: e.target.value } }))}
+                      placeholder={input.unit === 'grams' ? 'Grams' : 'Seconds'}
+                      className="flex-1"
+                    />
+                    <Select
+                      value={input.unit}
+                      onValueChange={(unit: 'grams' | 'seconds') => setAmounts(prev => ({ ...prev, [feeder.key]: { ...input, unit } }))}
+                    >
+                      <SelectTrigger className="w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="grams">g</SelectItem>
+                        <SelectItem value="seconds">sec</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      onClick={() => handleDispense(feeder)}
+                      disabled={isAdmin || dispensing !== null}
+                    >
+                      {dispensing === feeder.key ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Dispense'}
+                    </Button>
+                  </div>
+                  {input.unit === 'grams' && !feeder.gramsPerSecond && (
+                    <p className="text-[11px] text-muted-foreground -mt-2">
+                      No feed rate set; the feeder has to weigh its output to dispense by grams.
+                    </p>
+                  )}
+
+                  {/* Plan */}
+                  <div className="rounded-xl border p-3 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <p className="text-sm font-medium">Daily plan</p>
+                        <p className="text-xs text-muted-foreground">
+                          {plan
+                            ? `${plan.dailyGrams} g in ${plan.rations.length} rations · skips below ${minDoFor(plan) ?? '–'} mg/L DO`
+                            : 'No plan yet'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        {plan && (
+                          <Switch
+                            checked={plan.enabled}
+                            onCheckedChange={(enabled) => handleTogglePlan(feeder, enabled)}
+                            disabled={isAdmin || isSaving}
+                          />
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => setEditingFeeder(feeder)}
+                          disabled={isAdmin}
+                          aria-label="Edit plan"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {plan && plan.rations.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {plan.rations.map(ration => (
+                          <Badge
+                            key={ration.time}
+                            variant="outline"
+                            className={cn('text-[11px]', !plan.enabled && 'opacity-50')}
+                          >
+                            {formatTime12h(ration.time)} · {rationGrams(plan, ration)} g
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+
+        {/* Feed log */}
+        <div>
+          <p className="text-sm font-semibold mb-2">Feed log · last 7 days</p>
+          {logsError && (
+            <p className="text-sm text-destructive text-center py-4">{logsError}</p>
+          )}
+          {logsLoading && logs.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No feeding recorded yet</p>
+          ) : (
+            <div className="space-y-4">
+              {groups.map(group => (
+                <div key={group.label}>
+                  <p className="text-xs font-medium text-muted-foreground mb-2">{group.label}</p>
+                  <Card>
+                    <CardContent className="p-0 divide-y">
+                      {group.entries.map(entry => {
+                        const feeder = devices.find(d => d.key === entry.deviceType);
+                        const StatusIcon = statusIcon[entry.status];
+                        return (
+                          <div key={entry.id} className="flex items-start gap-3 p-3">
+                            <StatusIcon className={cn(
+                              'h-4 w-4 mt-0.5 shrink-0',
+                              entry.status === 'dispensed' && 'text-status-safe',
+                              entry.status === 'suppressed' && 'text-status-warning',
+                              entry.status === 'unconfirmed' && 'text-status-warning',
+                              entry.status === 'failed' && 'text-status-critical',
+                              entry.status === 'pending' && 'text-muted-foreground'
+                            )} />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium">
+                                {feeder?.name || entry.deviceType || 'Hand feeding'} · {describeAmount(entry)}
+                              </p>
+                              <p className="text-xs text-muted-foreground truncate">
+                                {entry.source === 'plan' && entry.rationTime
+                                  ? `${formatTime12h(entry.rationTime)} ration`
+                                  : FEED_SOURCE_LABELS[entry.source]}
+                                {' · '}
+                                {FEED_STATUS_LABELS[entry.status]}
+                                {entry.dispensedGrams !== null && entry.dispensedGrams !== entry.grams && ` (${entry.dispensedGrams} g weighed)`}
+                                {entry.dissolvedOxygen !== null && ` · DO ${entry.dissolvedOxygen} mg/L`}
+                                {entry.feedType && ` · ${entry.feedType}`}
+                              </p>
+                              {entry.message && (
+                                <p className="text-[11px] text-muted-foreground truncate">{entry.message}</p>
+                              )}
+                            </div>
+                            <span className="text-xs text-muted-foreground shrink-0">
+                              {format(entry.fedAt, 'h:mm a')}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </CardContent>
+                  </Card>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <FeedingPlanEditor
+        open={editingFeeder !== null}
+        onOpenChange={(open) => !open && setEditingFeeder(null)}
+        feederName={editingFeeder?.name ?? ''}
+        plan={editingFeeder ? plans[editingFeeder.key] ?? null : null}
+        defaultMinDissolvedOxygen={pondMinDo}
+        suggestedDailyGrams={suggestedPerFeeder}
+        isSaving={isSaving}
+        onSave={(plan) => (editingFeeder ? savePlan(editingFeeder.key, plan) : Promise.resolve(false))}
+      />
+
+      <FeedEntryDialog
+        open={isEntryOpen}
+        onOpenChange={setIsEntryOpen}
+        defaults={feeders.map(f => plans[f.key]).find(Boolean)}
+        onSave={addHandFeeding}
+      />
+    </div>
+  );
+}
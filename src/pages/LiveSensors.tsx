@@ -3,6 +3,7 @@ import { useFirebaseSensors } from '@/hooks/useFirebaseSensors';
 import { usePondData } from '@/hooks/usePondData';
 import { useSensorHistory } from '@/hooks/useSensorHistory';
 import { useUserSettings } from '@/hooks/useUserSettings';
+import { usePondThresholds } from '@/hooks/usePondThresholds';
 import { useWeatherTemperature } from '@/hooks/useWeatherTemperature';
 import { Header } from '@/components/Header';
 import { SensorCard } from '@/components/SensorCard';
@@ -21,6 +22,9 @@ import {
 import { formatDistanceToNow } from 'date-fns';
 import { motion } from 'framer-motion';
 import { Card, CardContent } from '@/components/ui/card';
+import { DEVICE_SENSOR_KEYS } from '@/lib/sensorRegistry';
+import { evaluateSensors, worstStatus } from '@/lib/sensorStatus';
+import { cn } from '@/lib/utils';
 
 export default function LiveSensors() {
   const { pondId } = useParams<{ pondId: string }>();
@@ -30,8 +34,9 @@ export default function LiveSensors() {
 
   const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
   const activePondId = pondId || pond?.id || '';
+  const { thresholds } = usePondThresholds(activePondId);
 
-  // Direct Firebase sensor binding with debug info (pH and DO only)
+  // Direct Firebase sensor binding with debug info
   const { 
     sensorData, 
     isLoading: sensorLoading, 
@@ -58,16 +63,22 @@ export default function LiveSensors() {
   );
 
   // Sensor history for sparklines
-  const { phHistory, doHistory } = useSensorHistory(activePondId);
+  const { getSeries } = useSensorHistory(activePondId);
 
-  // Individual sensor validity checks (pH and DO only from Firebase)
-  const phValid = typeof sensorData?.ph === 'number' && !isNaN(sensorData.ph);
-  const doValid = typeof sensorData?.dissolvedOxygen === 'number' && !isNaN(sensorData.dissolvedOxygen);
-  const anySensorValid = phValid || doValid;
+  // Every registered ESP32 sensor that is currently reporting a valid value
+  const activeSensorKeys = DEVICE_SENSOR_KEYS.filter(
+    key => typeof sensorData?.[key] === 'number' && !isNaN(sensorData[key]!)
+  );
+  const anySensorValid = activeSensorKeys.length > 0;
+
+  // Overall pond status, judged with the same bands as each card
+  const overallStatus = sensorData
+    ? worstStatus(Object.values(evaluateSensors(sensorData, thresholds)))
+    : 'safe';
   
   // Debug log for troubleshooting
   if (import.meta.env.DEV) {
-    console.log("Sensor data from Firebase (pH, DO):", sensorData, "| pH:", phValid, "| DO:", doValid);
+    console.log("Sensor data from Firebase:", sensorData, "| active:", activeSensorKeys);
     console.log("Weather data:", weatherData);
   }
 
@@ -105,7 +116,12 @@ export default function LiveSensors() {
           className="flex items-center justify-between mb-6"
         >
           <div className="flex items-center gap-3">
-            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-status-safe to-emerald-600 flex items-center justify-center shadow-lg">
+            <div className={cn(
+              'h-12 w-12 rounded-2xl bg-gradient-to-br flex items-center justify-center shadow-lg',
+              overallStatus === 'safe' && 'from-status-safe to-emerald-600',
+              overallStatus === 'warning' && 'from-status-warning to-amber-600',
+              overallStatus === 'critical' && 'from-status-critical to-red-600'
+            )}>
               <Activity className="h-6 w-6 text-white" />
             </div>
             <div>
@@ -125,7 +141,7 @@ export default function LiveSensors() {
             <Button 
               variant="outline" 
               size="icon" 
-              onClick={() => navigate('/settings/thresholds')}
+              onClick={() => navigate(`/pond/${activePondId}/thresholds`)}
               className="rounded-xl"
             >
               <Settings className="h-4 w-4" />
@@ -197,44 +213,30 @@ export default function LiveSensors() {
           </motion.div>
         )}
 
-        {/* ESP32 Sensors (pH and DO) */}
+        {/* ESP32 Sensors */}
         {sensorLoading ? (
           <div className="flex items-center justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
         ) : anySensorValid ? (
           <div className="space-y-4">
-            {phValid && (
-              <motion.div
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ duration: 0.4, delay: 0.1 }}
-              >
-                <SensorCard 
-                  type="ph" 
-                  value={sensorData!.ph}
-                  history={phHistory}
-                  isLoading={false}
-                  isStale={isStale}
-                />
-              </motion.div>
-            )}
-            
-            {doValid && (
+            {activeSensorKeys.map((key, index) => (
               <motion.div
+                key={key}
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
-                transition={{ duration: 0.4, delay: 0.2 }}
+                transition={{ duration: 0.4, delay: 0.1 * (index + 1) }}
               >
                 <SensorCard 
-                  type="do" 
-                  value={sensorData!.dissolvedOxygen}
-                  history={doHistory}
+                  type={key} 
+                  value={sensorData![key]}
+                  history={getSeries(key)}
                   isLoading={false}
                   isStale={isStale}
+                  threshold={thresholds[key]}
                 />
               </motion.div>
-            )}
+            ))}
           </div>
         ) : (
           <Card className="border-muted bg-muted/30">
@@ -244,7 +246,7 @@ export default function LiveSensors() {
                 ESP32 Sensors Not Connected
               </h3>
               <p className="text-sm text-muted-foreground">
-                Waiting for pH and Dissolved Oxygen data from ESP32 device.
+                Waiting for sensor data from ESP32 device.
               </p>
             </CardContent>
           </Card>
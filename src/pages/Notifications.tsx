@@ -1,8 +1,16 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Header } from '@/components/Header';
 import { Card, CardContent } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   Bell, 
   BellRing, 
@@ -14,80 +22,125 @@ import {
   Wind,
   Volume2,
   VolumeX,
-  Clock
+  Clock,
+  Loader2
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences';
+import { AlertCategory, DigestFrequency } from '@/types/notifications';
 
 interface NotificationSetting {
-  id: string;
+  id: AlertCategory;
   title: string;
   description: string;
   icon: React.ElementType;
-  enabled: boolean;
   iconColor: string;
 }
 
+const alertSettings: NotificationSetting[] = [
+  {
+    id: 'critical',
+    title: 'Critical Alerts',
+    description: 'Low oxygen, extreme pH, temperature danger',
+    icon: AlertTriangle,
+    iconColor: 'text-status-critical'
+  },
+  {
+    id: 'warning',
+    title: 'Warning Alerts',
+    description: 'Parameters approaching thresholds',
+    icon: BellRing,
+    iconColor: 'text-status-warning'
+  },
+  {
+    id: 'dissolved_oxygen',
+    title: 'Dissolved Oxygen',
+    description: 'DO level changes and alerts',
+    icon: Wind,
+    iconColor: 'text-primary'
+  },
+  {
+    id: 'temperature',
+    title: 'Temperature',
+    description: 'Temperature fluctuation alerts',
+    icon: Thermometer,
+    iconColor: 'text-orange-500'
+  },
+  {
+    id: 'ph',
+    title: 'pH Level',
+    description: 'pH imbalance notifications',
+    icon: Droplets,
+    iconColor: 'text-blue-500'
+  }
+];
+
+const digestHours = Array.from({ length: 24 }, (_, hour) => ({
+  value: String(hour),
+  label: new Date(2000, 0, 1, hour).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' }),
+}));
+
 export default function Notifications() {
-  const [pushEnabled, setPushEnabled] = useState(true);
-  const [emailEnabled, setEmailEnabled] = useState(false);
-  const [soundEnabled, setSoundEnabled] = useState(true);
-  const [quietHours, setQuietHours] = useState(false);
+  const { preferences, isLoading, isSaving, savePreferences } = useNotificationPreferences();
+  const [pushEnabled, setPushEnabled] = useState(preferences.pushEnabled);
+  const [emailEnabled, setEmailEnabled] = useState(preferences.emailEnabled);
+  const [digestFrequency, setDigestFrequency] = useState<DigestFrequency>(preferences.digestFrequency);
+  const [digestHour, setDigestHour] = useState(preferences.digestHour);
+  const [soundEnabled, setSoundEnabled] = useState(preferences.soundEnabled);
+  const [quietHours, setQuietHours] = useState(preferences.quietHoursEnabled);
+  const [quietHoursStart, setQuietHoursStart] = useState(preferences.quietHoursStart);
+  const [quietHoursEnd, setQuietHoursEnd] = useState(preferences.quietHoursEnd);
+  const [categories, setCategories] = useState(preferences.categories);
 
-  const [alertSettings, setAlertSettings] = useState<NotificationSetting[]>([
-    {
-      id: 'critical',
-      title: 'Critical Alerts',
-      description: 'Low oxygen, extreme pH, temperature danger',
-      icon: AlertTriangle,
-      enabled: true,
-      iconColor: 'text-status-critical'
-    },
-    {
-      id: 'warning',
-      title: 'Warning Alerts',
-      description: 'Parameters approaching thresholds',
-      icon: BellRing,
-      enabled: true,
-      iconColor: 'text-status-warning'
-    },
-    {
-      id: 'dissolved_oxygen',
-      title: 'Dissolved Oxygen',
-      description: 'DO level changes and alerts',
-      icon: Wind,
-      enabled: true,
-      iconColor: 'text-primary'
-    },
-    {
-      id: 'temperature',
-      title: 'Temperature',
-      description: 'Temperature fluctuation alerts',
-      icon: Thermometer,
-      enabled: true,
-      iconColor: 'text-orange-500'
-    },
-    {
-      id: 'ph',
-      title: 'pH Level',
-      description: 'pH imbalance notifications',
-      icon: Droplets,
-      enabled: false,
-      iconColor: 'text-blue-500'
-    }
-  ]);
+  // Pick up the saved preferences once they load
+  useEffect(() => {
+    setPushEnabled(preferences.pushEnabled);
+    setEmailEnabled(preferences.emailEnabled);
+    setDigestFrequency(preferences.digestFrequency);
+    setDigestHour(preferences.digestHour);
+    setSoundEnabled(preferences.soundEnabled);
+    setQuietHours(preferences.quietHoursEnabled);
+    setQuietHoursStart(preferences.quietHoursStart);
+    setQuietHoursEnd(preferences.quietHoursEnd);
+    setCategories(preferences.categories);
+  }, [preferences]);
 
-  const toggleAlert = (id: string) => {
-    setAlertSettings(prev => 
-      prev.map(setting => 
-        setting.id === id ? { ...setting, enabled: !setting.enabled } : setting
-      )
-    );
+  const toggleAlert = (id: AlertCategory) => {
+    setCategories(prev => ({ ...prev, [id]: !prev[id] }));
   };
 
-  const handleSaveSettings = () => {
+  const handleSaveSettings = async () => {
+    if (quietHours && (!quietHoursStart || !quietHoursEnd || quietHoursStart === quietHoursEnd)) {
+      toast.error('Quiet hours need different start and end times');
+      return;
+    }
+
+    const saved = await savePreferences({
+      ...preferences,
+      pushEnabled,
+      emailEnabled,
+      soundEnabled,
+      digestFrequency,
+      digestHour,
+      quietHoursEnabled: quietHours,
+      quietHoursStart,
+      quietHoursEnd,
+      categories,
+    });
+    if (!saved) return;
     toast.success('Notification settings saved!');
+
+    // Push notifications need the browser's permission
+    if (pushEnabled && typeof Notification !== 'undefined') {
+      const permission = Notification.permission === 'default'
+        ? await Notification.requestPermission()
+        : Notification.permission;
+      if (permission === 'denied') {
+        toast.warning('Notifications are blocked for this site in your browser settings');
+      }
+    }
   };
 
   return (
@@ -136,26 +189,53 @@ export default function Notifications() {
                 <Switch 
                   checked={pushEnabled} 
                   onCheckedChange={setPushEnabled}
+                  disabled={isLoading}
                   className="data-[state=checked]:bg-primary"
                 />
               </div>
 
-              {/* Email */}
-              <div className="p-4 flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className="h-10 w-10 rounded-xl bg-blue-500/10 flex items-center justify-center">
-                    <Mail className="h-5 w-5 text-blue-500" />
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">Email Alerts</p>
-                    <p className="text-xs text-muted-foreground">Get notifications via email</p>
+              {/* Email digest */}
+              <div className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className="h-10 w-10 rounded-xl bg-blue-500/10 flex items-center justify-center">
+                      <Mail className="h-5 w-5 text-blue-500" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-foreground">Email Digest</p>
+                      <p className="text-xs text-muted-foreground">Summary of each pond's health by email</p>
+                    </div>
                   </div>
+                  <Switch 
+                    checked={emailEnabled} 
+                    onCheckedChange={setEmailEnabled}
+                    disabled={isLoading}
+                    className="data-[state=checked]:bg-blue-500"
+                  />
                 </div>
-                <Switch 
-                  checked={emailEnabled} 
-                  onCheckedChange={setEmailEnabled}
-                  className="data-[state=checked]:bg-blue-500"
-                />
+                {emailEnabled && (
+                  <div className="grid grid-cols-2 gap-3 pl-[3.25rem]">
+                    <Select value={digestFrequency} onValueChange={(v) => setDigestFrequency(v as DigestFrequency)}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="daily">Daily</SelectItem>
+                        <SelectItem value="weekly">Weekly (Mondays)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={String(digestHour)} onValueChange={(v) => setDigestHour(Number(v))}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {digestHours.map(hour => (
+                          <SelectItem key={hour.value} value={hour.value}>{hour.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
 
               {/* Sound */}
@@ -179,32 +259,56 @@ export default function Notifications() {
                 <Switch 
                   checked={soundEnabled} 
                   onCheckedChange={setSoundEnabled}
+                  disabled={isLoading}
                   className="data-[state=checked]:bg-violet-500"
                 />
               </div>
 
               {/* Quiet Hours */}
-              <div className="p-4 flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <div className={cn(
-                    'h-10 w-10 rounded-xl flex items-center justify-center',
-                    quietHours ? 'bg-indigo-500/10' : 'bg-muted'
-                  )}>
-                    <Clock className={cn(
-                      'h-5 w-5',
-                      quietHours ? 'text-indigo-500' : 'text-muted-foreground'
-                    )} />
-                  </div>
-                  <div>
-                    <p className="font-medium text-foreground">Quiet Hours</p>
-                    <p className="text-xs text-muted-foreground">10 PM - 6 AM (except critical)</p>
+              <div className="p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <div className={cn(
+                      'h-10 w-10 rounded-xl flex items-center justify-center',
+                      quietHours ? 'bg-indigo-500/10' : 'bg-muted'
+                    )}>
+                      <Clock className={cn(
+                        'h-5 w-5',
+                        quietHours ? 'text-indigo-500' : 'text-muted-foreground'
+                      )} />
+                    </div>
+                    <div>
+                      <p className="font-medium text-foreground">Quiet Hours</p>
+                      <p className="text-xs text-muted-foreground">
+                        {quietHoursStart} - {quietHoursEnd} (except critical)
+                      </p>
+                    </div>
                   </div>
+                  <Switch 
+                    checked={quietHours} 
+                    onCheckedChange={setQuietHours}
+                    disabled={isLoading}
+                    className="data-[state=checked]:bg-indigo-500"
+                  />
                 </div>
-                <Switch 
-                  checked={quietHours} 
-                  onCheckedChange={setQuietHours}
-                  className="data-[state=checked]:bg-indigo-500"
-                />
+                {quietHours && (
+                  <div className="grid grid-cols-2 gap-3 pl-[3.25rem]">
+                    <Input
+                      type="time"
+                      aria-label="Quiet hours start"
+                      value={quietHoursStart}
+                      onChange={(e) => setQuietHoursStart(e.target.value)}
+                      className="h-9"
+                    />
+                    <Input
+                      type="time"
+                      aria-label="Quiet hours end"
+                      value={quietHoursEnd}
+                      onChange={(e) => setQuietHoursEnd(e.target.value)}
+                      className="h-9"
+                    />
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -232,17 +336,17 @@ export default function Notifications() {
                   <div className="flex items-center gap-3">
                     <div className={cn(
                       'h-10 w-10 rounded-xl flex items-center justify-center',
-                      setting.enabled ? 'bg-primary/10' : 'bg-muted'
+                      categories[setting.id] ? 'bg-primary/10' : 'bg-muted'
                     )}>
                       <setting.icon className={cn(
                         'h-5 w-5',
-                        setting.enabled ? setting.iconColor : 'text-muted-foreground'
+                        categories[setting.id] ? setting.iconColor : 'text-muted-foreground'
                       )} />
                     </div>
                     <div>
                       <p className={cn(
                         'font-medium',
-                        setting.enabled ? 'text-foreground' : 'text-muted-foreground'
+                        categories[setting.id] ? 'text-foreground' : 'text-muted-foreground'
                       )}>
                         {setting.title}
                       </p>
@@ -250,8 +354,9 @@ export default function Notifications() {
                     </div>
                   </div>
                   <Switch 
-                    checked={setting.enabled} 
+                    checked={categories[setting.id]} 
                     onCheckedChange={() => toggleAlert(setting.id)}
+                    disabled={isLoading}
                     className="data-[state=checked]:bg-primary"
                   />
                 </motion.div>
@@ -268,8 +373,10 @@ export default function Notifications() {
         >
           <Button 
             onClick={handleSaveSettings}
+            disabled={isLoading || isSaving}
             className="w-full h-14 rounded-2xl text-lg font-semibold shadow-lg"
           >
+            {isSaving && <Loader2 className="h-5 w-5 animate-spin mr-2" />}
             Save Settings
           </Button>
         </motion.div>
@@ -3,8 +3,13 @@ import { usePondData, useAlerts } from '@/hooks/usePondData';
 import { useFirebasePondStatus } from '@/hooks/useFirebasePondStatus';
 import { useSensorData } from '@/hooks/usePondData';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCropCycles } from '@/hooks/useCropCycles';
+import { useTreatments } from '@/hooks/useTreatments';
+import { useFirebaseSensors } from '@/hooks/useFirebaseSensors';
+import { useAlertNotifications } from '@/hooks/useAlertNotifications';
 import { Header } from '@/components/Header';
 import { ActionButton } from '@/components/ActionButton';
+import { GrowthCard } from '@/components/GrowthCard';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
@@ -20,10 +25,17 @@ import {
   User,
   ShieldCheck,
   Eye,
-  Camera
+  Camera,
+  Fish,
+  Pill,
+  Droplets
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
+import { dayOfCulture } from '@/lib/cropCycles';
+import { withdrawalClearsAt } from '@/lib/treatments';
+import { formatSensorValue } from '@/lib/sensorRegistry';
+import { format } from 'date-fns';
 
 export default function PondHome() {
   const { pondId } = useParams<{ pondId: string }>();
@@ -31,6 +43,7 @@ export default function PondHome() {
   const { ponds, isLoading: pondsLoading } = usePondData();
   const { alerts } = useAlerts();
   const { isAdmin } = useAuth();
+  useAlertNotifications(alerts);
 
   // Get the pond with ownership info
   const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
@@ -42,6 +55,11 @@ export default function PondHome() {
   const { isOnline: firebaseIsOnline, lastSeen, connectionError } = useFirebasePondStatus();
   
   const pondAlerts = alerts.filter(a => a.pondId === activePondId && !a.acknowledged);
+  const { activeCycle } = useCropCycles(activePondId);
+  const { treatments } = useTreatments(activePondId);
+  const withdrawalUntil = withdrawalClearsAt(treatments);
+  const { sensorData } = useFirebaseSensors(activePondId);
+  const waterLevel = sensorData?.waterLevel ?? null;
 
   if (pondsLoading) {
     return (
@@ -160,6 +178,18 @@ export default function PondHome() {
           </Card>
         </motion.div>
 
+        {/* Current crop cycle growth */}
+        {activeCycle && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, delay: 0.05 }}
+            className="mb-6"
+          >
+            <GrowthCard cycle={activeCycle} />
+          </motion.div>
+        )}
+
         {/* Action Buttons Grid */}
         <div className="grid grid-cols-2 gap-4">
           <motion.div
@@ -223,7 +253,48 @@ export default function PondHome() {
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.4, delay: 0.5 }}
-            className="col-span-2"
+          >
+            <ActionButton
+              icon={Fish}
+              label="Crop Cycle"
+              description={activeCycle ? `Day ${dayOfCulture(activeCycle)} · ${activeCycle.species}` : 'Not stocked'}
+              variant="sensors"
+              onClick={() => navigate(`/pond/${activePondId}/cycles`)}
+            />
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, delay: 0.6 }}
+          >
+            <ActionButton
+              icon={Pill}
+              label="Treatments"
+              description={withdrawalUntil ? `Withdrawal until ${format(withdrawalUntil, 'MMM d')}` : 'Lime, salt & medication'}
+              variant="devices"
+              onClick={() => navigate(`/pond/${activePondId}/treatments`)}
+            />
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, delay: 0.7 }}
+          >
+            <ActionButton
+              icon={Droplets}
+              label="Water"
+              description={waterLevel !== null ? `Level ${formatSensorValue('waterLevel', waterLevel)}` : 'Level & exchanges'}
+              variant="sensors"
+              onClick={() => navigate(`/pond/${activePondId}/water`)}
+            />
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.4, delay: 0.8 }}
           >
             <ActionButton
               icon={Camera}
@@ -240,7 +311,7 @@ export default function PondHome() {
           className="text-center text-xs text-muted-foreground mt-8"
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
-          transition={{ duration: 0.4, delay: 0.6 }}
+          transition={{ duration: 0.4, delay: 0.9 }}
         >
           Tap any button to explore monitoring features
         </motion.p>
@@ -1,10 +1,28 @@
 import { useParams, useNavigate } from 'react-router-dom';
 import { usePondData } from '@/hooks/usePondData';
-import { useSensorHistory, TimeRange } from '@/hooks/useSensorHistory';
+import { useSensorHistory } from '@/hooks/useSensorHistory';
+import { useAuth } from '@/contexts/AuthContext';
 import { Header } from '@/components/Header';
+import { FeedReport } from '@/components/FeedReport';
+import { LabReport } from '@/components/LabReport';
+import { ExportDialog } from '@/components/ExportDialog';
+import { useLabTests } from '@/hooks/useLabTests';
+import { useTreatments } from '@/hooks/useTreatments';
+import { useCropCycles } from '@/hooks/useCropCycles';
+import { usePondThresholds } from '@/hooks/usePondThresholds';
+import { useDeviceRegistry } from '@/hooks/useDeviceRegistry';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { 
   BarChart3,
   Loader2,
@@ -12,33 +30,92 @@ import {
   TrendingDown,
   Minus,
   RefreshCw,
-  AlertCircle
+  AlertCircle,
+  Download,
+  FileText
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { motion } from 'framer-motion';
 import { useState } from 'react';
+import { endOfDay, format, parseISO, startOfDay, subDays } from 'date-fns';
 import {
   ChartContainer,
   ChartTooltip,
   ChartTooltipContent,
 } from '@/components/ui/chart';
-import { Area, AreaChart, XAxis } from 'recharts';
+import { Area, ComposedChart, Line, ReferenceLine, XAxis } from 'recharts';
+import { SENSOR_KEYS, SENSOR_REGISTRY, SensorKey, formatSensorValue } from '@/lib/sensorRegistry';
+import { treatmentCategoryLabel } from '@/lib/treatments';
+import { RESOLUTION_LABELS, TimeRange, TimeRangePreset, timeRangeBounds } from '@/lib/sensorHistory';
+import { loadPondReport } from '@/lib/pondReport';
+import { buildPondReportPdf } from '@/lib/pondReportPdf';
+import { downloadBlob, exportFilename } from '@/lib/dataExport';
 
 const chartConfig = {
-  ph: { label: 'pH Level', color: 'hsl(var(--status-safe))' },
-  dissolvedOxygen: { label: 'Dissolved Oxygen', color: 'hsl(var(--primary))' },
-  temperature: { label: 'Temperature', color: 'hsl(var(--status-warning))' },
+  ...Object.fromEntries(
+    SENSOR_KEYS.map(key => [key, { label: SENSOR_REGISTRY[key].label, color: SENSOR_REGISTRY[key].color }])
+  ),
+  lab: { label: 'Lab test', color: 'hsl(var(--foreground))' },
+  range: { label: 'Min–max' },
+};
+
+type ReportSection = 'sensors' | 'lab' | 'feed';
+
+const sectionDescriptions: Record<ReportSection, string> = {
+  sensors: 'Real-time sensor history',
+  lab: 'Manual water quality tests',
+  feed: 'Feed, feeding rate and FCR',
 };
 
+type RangeOption = TimeRangePreset | 'custom';
+
+const rangeOptions: { value: RangeOption; label: string }[] = [
+  { value: '1h', label: '1H' },
+  { value: '24h', label: '24H' },
+  { value: '7d', label: '7D' },
+  { value: '30d', label: '30D' },
+  { value: '90d', label: '90D' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shown even before any history arrives so the page is never empty
+const DEFAULT_REPORT_SENSORS: SensorKey[] = ['ph', 'dissolvedOxygen', 'temperature'];
+
 export default function Reports() {
   const { pondId } = useParams<{ pondId: string }>();
   const navigate = useNavigate();
   const { ponds, isLoading: pondsLoading } = usePondData();
-  const [timeRange, setTimeRange] = useState<TimeRange>('24h');
+  const { isAdmin } = useAuth();
+  const [rangeOption, setRangeOption] = useState<RangeOption>('24h');
+  // yyyy-MM-dd from the date inputs; whole days, local time
+  const [customFrom, setCustomFrom] = useState(() => format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [customTo, setCustomTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [section, setSection] = useState<ReportSection>('sensors');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
 
   const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
   const stablePondId = pondId || pond?.id || 'pond1';
 
-  const { history, isLoading: historyLoading, error, hasData, refetch } = useSensorHistory(stablePondId, timeRange);
+  const timeRange: TimeRange = rangeOption === 'custom'
+    ? { from: startOfDay(parseISO(customFrom)), to: endOfDay(parseISO(customTo)) }
+    : rangeOption;
+  const bounds = timeRangeBounds(timeRange);
+  // Lab tests and treatments are loaded back to the start of the range
+  const rangeDays = Math.ceil((Date.now() - bounds.from) / DAY_MS);
+
+  const { history, isLoading: historyLoading, error, hasData, resolution, refetch } = useSensorHistory(stablePondId, timeRange);
+  // Lab results plotted over the matching sensor charts
+  const { tests: labTests } = useLabTests(stablePondId, rangeDays);
+  // Treatments are marked on every chart, e.g. to see pH respond to liming
+  const { treatments } = useTreatments(stablePondId, rangeDays);
+  // A cycle's span can be picked as the custom range
+  const { cycles } = useCropCycles(stablePondId);
+  // Limits and device names for the PDF report
+  const { thresholds } = usePondThresholds(stablePondId);
+  const { devices } = useDeviceRegistry(stablePondId);
 
   if (pondsLoading) {
     return (
@@ -59,12 +136,32 @@ export default function Reports() {
     );
   }
 
+  // The PDF covers the range currently selected
+  const handleDownloadPdf = async () => {
+    setIsGeneratingPdf(true);
+    try {
+      const from = new Date(bounds.from);
+      const to = new Date(bounds.to);
+      const report = await loadPondReport({ pondId: stablePondId, pondName: pond.name, from, to, thresholds, devices });
+      downloadBlob(await buildPondReportPdf(report), `${exportFilename(pond.name, 'report', from, to)}.pdf`);
+      toast.success('Report downloaded');
+    } catch (err) {
+      console.error('Error generating report:', err);
+      toast.error('Failed to generate report');
+    } finally {
+      setIsGeneratingPdf(false);
+    }
+  };
+
+  // Only chart sensors that actually reported during the selected range
+  const reportedKeys = SENSOR_KEYS.filter(key => history.some(point => point[key] !== undefined));
+  const reportKeys = reportedKeys.length > 0 ? reportedKeys : DEFAULT_REPORT_SENSORS;
+
   // Calculate trends from history
-  const getTrend = (key: 'ph' | 'dissolvedOxygen' | 'temperature') => {
-    if (history.length < 2) return 'stable';
-    const first = history[0][key];
-    const last = history[history.length - 1][key];
-    const diff = last - first;
+  const getTrend = (key: SensorKey) => {
+    const values = history.map(point => point[key]).filter((v): v is number => v !== undefined);
+    if (values.length < 2) return 'stable';
+    const diff = values[values.length - 1] - values[0];
     if (diff > 0.3) return 'up';
     if (diff < -0.3) return 'down';
     return 'stable';
@@ -76,70 +173,123 @@ export default function Reports() {
     return <Minus className="h-4 w-4 text-muted-foreground" />;
   };
 
-  // Get latest values from history
-  const latestData = history.length > 0 ? history[history.length - 1] : null;
-
-  const summaryStats = [
-    { 
-      label: 'pH Level', 
-      value: latestData?.ph.toFixed(2) || '--', 
-      trend: getTrend('ph'),
-    },
-    { 
-      label: 'Dissolved O₂', 
-      value: latestData ? `${latestData.dissolvedOxygen.toFixed(1)} mg/L` : '--', 
-      trend: getTrend('dissolvedOxygen'),
-    },
-    { 
-      label: 'Temperature', 
-      value: latestData ? `${latestData.temperature.toFixed(1)}°C` : '--', 
-      trend: getTrend('temperature'),
-    },
-  ];
-
-  const renderChart = (dataKey: 'ph' | 'dissolvedOxygen' | 'temperature', gradientId: string, color: string, title: string) => (
-    <Card>
-      <CardHeader className="pb-2">
-        <CardTitle className="text-sm font-medium flex items-center gap-2">
-          <div className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
-          {title}
-        </CardTitle>
-      </CardHeader>
-      <CardContent>
-        {hasData ? (
-          <ChartContainer config={chartConfig} className="h-[120px] w-full">
-            <AreaChart data={history}>
-              <defs>
-                <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
-                  <stop offset="5%" stopColor={color} stopOpacity={0.3}/>
-                  <stop offset="95%" stopColor={color} stopOpacity={0}/>
-                </linearGradient>
-              </defs>
-              <XAxis 
-                dataKey="date" 
-                tick={{ fontSize: 10 }} 
-                axisLine={false} 
-                tickLine={false}
-                interval="preserveStartEnd"
-              />
-              <ChartTooltip content={<ChartTooltipContent />} />
-              <Area 
-                type="monotone" 
-                dataKey={dataKey} 
-                stroke={color} 
-                fill={`url(#${gradientId})`}
-                strokeWidth={2}
-              />
-            </AreaChart>
-          </ChartContainer>
-        ) : (
-          <div className="h-[120px] flex items-center justify-center text-muted-foreground text-sm">
-            No data available
-          </div>
-        )}
-      </CardContent>
-    </Card>
-  );
+  // Get latest value for a sensor from history
+  const getLatest = (key: SensorKey) => {
+    for (let i = history.length - 1; i >= 0; i--) {
+      if (history[i][key] !== undefined) return history[i][key];
+    }
+    return null;
+  };
+
+  const summaryStats = reportKeys.map(key => ({
+    key,
+    label: SENSOR_REGISTRY[key].label,
+    value: formatSensorValue(key, getLatest(key)),
+    trend: getTrend(key),
+  }));
+
+  const inRange = (date: Date) => date.getTime() >= bounds.from && date.getTime() <= bounds.to;
+
+  // Sensor history with the bucket's min–max as `range` and any lab results for
+  // the same parameter merged in as `lab`
+  const chartData = (key: SensorKey) => {
+    const points = history.map(point => ({ ...point, range: point.ranges?.[key] }));
+    const labPoints = labTests
+      .filter(test => inRange(test.testedAt))
+      .flatMap(test => test.results
+        .filter(result => result.parameter === key)
+        .map(result => ({
+          timestamp: test.testedAt.getTime(),
+          date: test.testedAt.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' }),
+          lab: result.value,
+        })));
+    if (labPoints.length === 0) return points;
+    return [...points, ...labPoints].sort((a, b) => a.timestamp - b.timestamp);
+  };
+
+  // The axis is categorical, so each treatment is pinned to the nearest point's label
+  const treatmentMarkers = (data: { timestamp: number; date: string }[]) => {
+    if (data.length === 0) return [];
+    return treatments
+      .filter(treatment => inRange(treatment.appliedAt))
+      .map(treatment => {
+        const at = treatment.appliedAt.getTime();
+        const nearest = data.reduce((best, point) =>
+          Math.abs(point.timestamp - at) < Math.abs(best.timestamp - at) ? point : best
+        );
+        return { id: treatment.id, x: nearest.date, label: treatmentCategoryLabel(treatment.category) };
+      });
+  };
+
+  const renderChart = (dataKey: SensorKey, gradientId: string, color: string, title: string) => {
+    const data = chartData(dataKey);
+    return (
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <div className="h-3 w-3 rounded-full" style={{ backgroundColor: color }} />
+            {title}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {hasData ? (
+            <ChartContainer config={chartConfig} className="h-[120px] w-full">
+              <ComposedChart data={data}>
+                <defs>
+                  <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+                    <stop offset="5%" stopColor={color} stopOpacity={0.3}/>
+                    <stop offset="95%" stopColor={color} stopOpacity={0}/>
+                  </linearGradient>
+                </defs>
+                <XAxis 
+                  dataKey="date" 
+                  tick={{ fontSize: 10 }} 
+                  axisLine={false} 
+                  tickLine={false}
+                  interval="preserveStartEnd"
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                {resolution !== 'raw' && (
+                  <Area
+                    type="monotone"
+                    dataKey="range"
+                    stroke="none"
+                    fill={color}
+                    fillOpacity={0.15}
+                    tooltipType="none"
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                )}
+                <Area 
+                  type="monotone" 
+                  dataKey={dataKey} 
+                  stroke={color} 
+                  fill={`url(#${gradientId})`}
+                  strokeWidth={2}
+                  connectNulls
+                />
+                <Line dataKey="lab" stroke="none" dot={{ r: 4, fill: 'var(--color-lab)' }} isAnimationActive={false} />
+                {treatmentMarkers(data).map(marker => (
+                  <ReferenceLine
+                    key={marker.id}
+                    x={marker.x}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="3 3"
+                    label={{ value: marker.label, position: 'insideTopLeft', fontSize: 9, fill: 'hsl(var(--muted-foreground))' }}
+                  />
+                ))}
+              </ComposedChart>
+            </ChartContainer>
+          ) : (
+            <div className="h-[120px] flex items-center justify-center text-muted-foreground text-sm">
+              No data available
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
 
   return (
     <div className="min-h-screen bg-background pb-8">
@@ -160,119 +310,207 @@ export default function Reports() {
             <div>
               <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
               <p className="text-xs text-muted-foreground">
-                Real-time sensor history
+                {sectionDescriptions[section]}
               </p>
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={() => refetch()}
-            disabled={historyLoading}
-          >
-            <RefreshCw className={`h-4 w-4 ${historyLoading ? 'animate-spin' : ''}`} />
-          </Button>
+          <div className="flex items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={handleDownloadPdf}
+              disabled={isGeneratingPdf}
+              aria-label="Download PDF report"
+            >
+              {isGeneratingPdf ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setIsExportOpen(true)}
+              aria-label="Export data"
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => refetch()}
+              disabled={historyLoading}
+            >
+              <RefreshCw className={`h-4 w-4 ${historyLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
         </motion.div>
 
-        {/* Error State */}
-        {error && (
+        <Tabs value={section} onValueChange={(v) => setSection(v as ReportSection)} className="w-full mb-4">
+          <TabsList className="w-full">
+            <TabsTrigger value="sensors" className="flex-1">Water Quality</TabsTrigger>
+            <TabsTrigger value="lab" className="flex-1">Lab</TabsTrigger>
+            <TabsTrigger value="feed" className="flex-1">Feed</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        {section === 'feed' ? (
+          <FeedReport pondId={stablePondId} canEdit={!isAdmin && !!pond.isOwner} />
+        ) : section === 'lab' ? (
+          <LabReport pondId={stablePondId} canEdit={!isAdmin && !!pond.isOwner} />
+        ) : (
+          <>
+          {/* Error State */}
+          {error && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="mb-4"
+            >
+              <Card className="border-destructive/50 bg-destructive/10">
+                <CardContent className="p-4 flex items-center gap-3">
+                  <AlertCircle className="h-5 w-5 text-destructive" />
+                  <div>
+                    <p className="text-sm font-medium text-destructive">Error loading data</p>
+                    <p className="text-xs text-muted-foreground">{error}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            </motion.div>
+          )}
+
+          {/* Current Stats Summary */}
           <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className="mb-4"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3, delay: 0.1 }}
+            className="grid grid-cols-3 gap-2 mb-6"
           >
-            <Card className="border-destructive/50 bg-destructive/10">
-              <CardContent className="p-4 flex items-center gap-3">
-                <AlertCircle className="h-5 w-5 text-destructive" />
-                <div>
-                  <p className="text-sm font-medium text-destructive">Error loading data</p>
-                  <p className="text-xs text-muted-foreground">{error}</p>
+            {summaryStats.map((stat) => (
+              <div 
+                key={stat.key}
+                className="p-3 rounded-2xl bg-card border shadow-sm"
+              >
+                <p className="text-[10px] text-muted-foreground mb-1">{stat.label}</p>
+                <p className="text-sm font-bold text-foreground">{stat.value}</p>
+                <div className="flex items-center gap-1 mt-1">
+                  {renderTrendIcon(stat.trend)}
+                  <span className="text-[10px] text-muted-foreground capitalize">{stat.trend}</span>
                 </div>
-              </CardContent>
-            </Card>
-          </motion.div>
-        )}
-
-        {/* Current Stats Summary */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.3, delay: 0.1 }}
-          className="grid grid-cols-3 gap-2 mb-6"
-        >
-          {summaryStats.map((stat) => (
-            <div 
-              key={stat.label}
-              className="p-3 rounded-2xl bg-card border shadow-sm"
-            >
-              <p className="text-[10px] text-muted-foreground mb-1">{stat.label}</p>
-              <p className="text-sm font-bold text-foreground">{stat.value}</p>
-              <div className="flex items-center gap-1 mt-1">
-                {renderTrendIcon(stat.trend)}
-                <span className="text-[10px] text-muted-foreground capitalize">{stat.trend}</span>
               </div>
-            </div>
-          ))}
-        </motion.div>
+            ))}
+          </motion.div>
 
-        {/* Time Range Tabs */}
-        <Tabs value={timeRange} onValueChange={(v) => setTimeRange(v as TimeRange)} className="w-full">
-          <TabsList className="w-full mb-4">
-            <TabsTrigger value="1h" className="flex-1">1 Hour</TabsTrigger>
-            <TabsTrigger value="24h" className="flex-1">24 Hours</TabsTrigger>
-            <TabsTrigger value="7d" className="flex-1">7 Days</TabsTrigger>
-          </TabsList>
+          {/* Time Range Tabs */}
+          <Tabs value={rangeOption} onValueChange={(v) => setRangeOption(v as RangeOption)} className="w-full">
+            <TabsList className="w-full mb-4">
+              {rangeOptions.map(option => (
+                <TabsTrigger key={option.value} value={option.value} className="flex-1 px-1 text-xs">
+                  {option.label}
+                </TabsTrigger>
+              ))}
+            </TabsList>
 
-          <TabsContent value={timeRange} className="mt-0 space-y-4">
-            {historyLoading ? (
-              <div className="flex items-center justify-center py-12">
-                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            {rangeOption === 'custom' && (
+              <div className="space-y-3 mb-4">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label className="text-xs">From</Label>
+                    <Input
+                      type="date"
+                      value={customFrom}
+                      max={customTo}
+                      onChange={(e) => e.target.value && setCustomFrom(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">To</Label>
+                    <Input
+                      type="date"
+                      value={customTo}
+                      min={customFrom}
+                      onChange={(e) => e.target.value && setCustomTo(e.target.value)}
+                    />
+                  </div>
+                </div>
+                {cycles.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(id) => {
+                      const cycle = cycles.find(c => c.id === id);
+                      if (!cycle) return;
+                      setCustomFrom(format(cycle.stockedAt, 'yyyy-MM-dd'));
+                      setCustomTo(format(cycle.endedAt ?? new Date(), 'yyyy-MM-dd'));
+                    }}
+                  >
+                    <SelectTrigger className="h-9 text-xs">
+                      <SelectValue placeholder="Use a crop cycle's dates" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {cycles.map(cycle => (
+                        <SelectItem key={cycle.id} value={cycle.id}>
+                          {cycle.name} · {format(cycle.stockedAt, 'MMM d')}–{cycle.endedAt ? format(cycle.endedAt, 'MMM d') : 'now'}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
-            ) : (
-              <>
-                <motion.div
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ duration: 0.4, delay: 0.2 }}
-                >
-                  {renderChart('ph', 'phGradient', 'hsl(var(--status-safe))', 'pH Level')}
-                </motion.div>
-
-                <motion.div
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ duration: 0.4, delay: 0.3 }}
-                >
-                  {renderChart('dissolvedOxygen', 'doGradient', 'hsl(var(--primary))', 'Dissolved Oxygen (mg/L)')}
-                </motion.div>
-
-                <motion.div
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ duration: 0.4, delay: 0.4 }}
-                >
-                  {renderChart('temperature', 'tempGradient', 'hsl(var(--status-warning))', 'Temperature (°C)')}
-                </motion.div>
-              </>
             )}
-          </TabsContent>
-        </Tabs>
 
-        {/* No Data Message */}
-        {!historyLoading && !hasData && !error && (
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            className="text-center py-8"
-          >
-            <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
-            <p className="text-muted-foreground">No sensor history available</p>
-            <p className="text-xs text-muted-foreground mt-1">
-              Data will appear here as your sensors record readings
+            <p className="text-[10px] text-muted-foreground text-center mb-3">
+              {RESOLUTION_LABELS[resolution]}{resolution !== 'raw' && ' · shaded band shows min–max'}
             </p>
-          </motion.div>
+
+            <TabsContent value={rangeOption} className="mt-0 space-y-4">
+              {historyLoading ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <>
+                  {reportKeys.map((key, index) => {
+                    const sensor = SENSOR_REGISTRY[key];
+                    const title = sensor.unit === 'pH' ? sensor.label : `${sensor.label} (${sensor.unit})`;
+                    return (
+                      <motion.div
+                        key={key}
+                        initial={{ opacity: 0, x: -20 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ duration: 0.4, delay: 0.2 + index * 0.1 }}
+                      >
+                        {renderChart(key, `${key}Gradient`, sensor.color, title)}
+                      </motion.div>
+                    );
+                  })}
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+
+          {/* No Data Message */}
+          {!historyLoading && !hasData && !error && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              className="text-center py-8"
+            >
+              <BarChart3 className="h-12 w-12 text-muted-foreground mx-auto mb-3" />
+              <p className="text-muted-foreground">No sensor history available</p>
+              <p className="text-xs text-muted-foreground mt-1">
+                Data will appear here as your sensors record readings
+              </p>
+            </motion.div>
+          )}
+          </>
         )}
       </main>
+
+      <ExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        pondId={stablePondId}
+        pondName={pond.name}
+        defaultFrom={new Date(bounds.from)}
+        defaultTo={new Date(bounds.to)}
+      />
     </div>
   );
 }
@@ -5,6 +5,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { DevicePairingDialog } from '@/components/DevicePairingDialog';
 import { OwnershipTransferDialog } from '@/components/OwnershipTransferDialog';
 import { RegeneratePondIdDialog } from '@/components/RegeneratePondIdDialog';
@@ -29,7 +36,8 @@ import {
   Loader2,
   Plus,
   CloudSun,
-  Thermometer
+  Thermometer,
+  History
 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
@@ -46,6 +54,15 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 
+// How long minute and hourly sensor history is kept per pond
+const retentionOptions = [
+  { days: 90, label: '3 months' },
+  { days: 180, label: '6 months' },
+  { days: 365, label: '1 year' },
+  { days: 730, label: '2 years' },
+  { days: 1825, label: '5 years' },
+];
+
 export default function Settings() {
   const navigate = useNavigate();
   const { ponds, refetch } = usePondData();
@@ -70,13 +87,30 @@ export default function Settings() {
     }
   };
 
+  const handleRetentionChange = async (pondId: string, days: number) => {
+    try {
+      const { error } = await supabase.from('ponds').update({ reading_retention_days: days }).eq('id', pondId);
+      if (error) throw error;
+      toast.success('History retention updated');
+      refetch();
+    } catch (error) {
+      console.error('Error updating history retention:', error);
+      toast.error('Failed to update history retention');
+    }
+  };
+
   const handleToggleSetting = async (key: keyof typeof settings, value: boolean) => {
     try {
       await updateSettings({ [key]: value });
-      
+      const flags = {
+        auto_mode_enabled: settings.auto_mode_enabled,
+        alerts_enabled: settings.alerts_enabled,
+        [key]: value,
+      };
+
       // Sync to Firebase for all ponds
       for (const pond of ponds) {
-        await syncToFirebase(pond.id);
+        await syncToFirebase(pond.id, undefined, flags);
       }
       
       toast.success('Setting updated');
@@ -480,6 +514,28 @@ export default function Settings() {
                             </AlertDialog>
                           </div>
                         </div>
+
+                        {pond.isOwner && (
+                          <div className="flex items-center justify-between gap-3 mt-3 pt-3 border-t">
+                            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+                              <History className="h-4 w-4" />
+                              Keep sensor history
+                            </span>
+                            <Select
+                              value={String(pond.readingRetentionDays ?? 365)}
+                              onValueChange={(value) => handleRetentionChange(pond.id, Number(value))}
+                            >
+                              <SelectTrigger className="h-8 w-32 text-xs">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {retentionOptions.map(option => (
+                                  <SelectItem key={option.days} value={String(option.days)}>{option.label}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                       </CardContent>
                     </Card>
                   </motion.div>
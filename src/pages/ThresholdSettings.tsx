@@ -1,62 +1,118 @@
-import { useNavigate } from 'react-router-dom';
+import { useParams } from 'react-router-dom';
 import { Header } from '@/components/Header';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { 
-  FlaskConical,
-  Droplets,
-  Thermometer,
+import {
   Save,
   RotateCcw,
-  Loader2
+  Loader2,
+  SlidersHorizontal
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
-import { useUserSettings } from '@/hooks/useUserSettings';
+import { useUserSettings, defaultSettings } from '@/hooks/useUserSettings';
 import { usePondData } from '@/hooks/usePondData';
+import { usePondThresholds } from '@/hooks/usePondThresholds';
+import { SENSOR_REGISTRY, SensorKey, ThresholdBound } from '@/lib/sensorRegistry';
+import {
+  SensorThresholds,
+  THRESHOLD_SENSORS,
+  USER_DEFAULT_SENSORS,
+  resolveThresholds,
+  thresholdsFromUserSettings,
+  thresholdsToUserSettings,
+} from '@/lib/thresholds';
+import { getSpeciesPreset, formatSpeciesPreset } from '@/lib/speciesPresets';
+import { SpeciesPresetSelect } from '@/components/SpeciesPresetSelect';
+import { cn } from '@/lib/utils';
+
+const SENSOR_ACCENTS: Partial<Record<SensorKey, { bg: string; text: string }>> = {
+  ph: { bg: 'bg-violet-100 dark:bg-violet-900/30', text: 'text-violet-600' },
+  dissolvedOxygen: { bg: 'bg-blue-100 dark:bg-blue-900/30', text: 'text-blue-600' },
+  temperature: { bg: 'bg-orange-100 dark:bg-orange-900/30', text: 'text-orange-600' },
+};
+
+const SENSOR_HINTS: Partial<Record<SensorKey, string>> = {
+  dissolvedOxygen: 'Below this value: Aerator turns ON automatically (if Auto Mode enabled)',
+  temperature: 'High temperature: Motor turns ON automatically (if Auto Mode enabled)',
+};
+
+function boundLabel(key: SensorKey, bound: ThresholdBound): string {
+  const { unit, thresholdBounds } = SENSOR_REGISTRY[key];
+  if (thresholdBounds.length === 1) {
+    return `${bound === 'min' ? 'Minimum' : 'Maximum'} (${unit})`;
+  }
+  const prefix = bound === 'min' ? 'Min' : 'Max';
+  return unit === 'pH' ? `${prefix} (Safe)` : `${prefix} (${unit})`;
+}
 
 export default function ThresholdSettings() {
-  const navigate = useNavigate();
-  const { settings, isLoading, updateSettings, syncToFirebase } = useUserSettings();
+  // Rendered at /settings/thresholds (user defaults) and /pond/:pondId/thresholds (pond profile)
+  const { pondId } = useParams<{ pondId?: string }>();
+  const isPondProfile = !!pondId;
+
+  const { settings, isLoading: settingsLoading, updateSettings, syncToFirebase } = useUserSettings();
   const { ponds } = usePondData();
-  
-  const [localSettings, setLocalSettings] = useState({
-    temp_min: 25,
-    temp_max: 32,
-    ph_min: 6.5,
-    ph_max: 8.5,
-    do_min: 5.0,
-  });
+  const {
+    thresholds: pondThresholds,
+    userDefaults,
+    hasCustomProfile,
+    fishType,
+    isLoading: pondLoading,
+    saveProfile,
+  } = usePondThresholds(pondId ?? '');
+
+  const pond = ponds.find(p => p.id === pondId);
+  const isLoading = settingsLoading || (isPondProfile && pondLoading);
+  const sensorKeys = isPondProfile ? THRESHOLD_SENSORS : USER_DEFAULT_SENSORS;
+
+  const [localThresholds, setLocalThresholds] = useState<SensorThresholds>(() =>
+    resolveThresholds(thresholdsFromUserSettings(defaultSettings))
+  );
+  const [useCustomProfile, setUseCustomProfile] = useState(false);
+  const [selectedPreset, setSelectedPreset] = useState<string | null>(null);
   const [isSaving, setIsSaving] = useState(false);
 
   // Sync local state with loaded settings
   useEffect(() => {
-    if (!isLoading) {
-      setLocalSettings({
-        temp_min: settings.temp_min,
-        temp_max: settings.temp_max,
-        ph_min: settings.ph_min,
-        ph_max: settings.ph_max,
-        do_min: settings.do_min,
-      });
+    if (isLoading) return;
+    if (isPondProfile) {
+      setLocalThresholds(pondThresholds);
+      setUseCustomProfile(hasCustomProfile);
+      setSelectedPreset(fishType);
+    } else {
+      setLocalThresholds(resolveThresholds(thresholdsFromUserSettings(settings)));
     }
-  }, [settings, isLoading]);
+  }, [settings, isLoading, isPondProfile, pondThresholds, hasCustomProfile, fishType]);
 
   const handleSave = async () => {
     setIsSaving(true);
     try {
-      await updateSettings(localSettings);
-      
-      // Sync to Firebase for all ponds
-      for (const pond of ponds) {
-        await syncToFirebase(pond.id);
+      if (isPondProfile) {
+        await saveProfile(useCustomProfile ? localThresholds : null, selectedPreset);
+        toast.success(
+          useCustomProfile
+            ? 'Pond thresholds saved and synced to device'
+            : 'Pond now follows your default thresholds'
+        );
+      } else {
+        const newDefaults = thresholdsFromUserSettings({
+          ...settings,
+          ...thresholdsToUserSettings(localThresholds),
+        });
+        await updateSettings(thresholdsToUserSettings(localThresholds));
+
+        // Sync to Firebase for all ponds, keeping each pond's own profile on top
+        for (const pond of ponds) {
+          await syncToFirebase(pond.id, resolveThresholds(newDefaults, pond.thresholdProfile));
+        }
+
+        toast.success('Thresholds saved and synced to devices');
       }
-      
-      toast.success('Thresholds saved and synced to devices');
     } catch (err) {
       toast.error('Failed to save thresholds');
     } finally {
@@ -65,22 +121,33 @@ export default function ThresholdSettings() {
   };
 
   const handleReset = () => {
-    setLocalSettings({
-      temp_min: 25,
-      temp_max: 32,
-      ph_min: 6.5,
-      ph_max: 8.5,
-      do_min: 5.0,
-    });
-    toast.info('Thresholds reset to defaults');
+    if (isPondProfile) {
+      setLocalThresholds(resolveThresholds(userDefaults));
+      toast.info('Thresholds reset to your defaults');
+    } else {
+      setLocalThresholds(resolveThresholds(thresholdsFromUserSettings(defaultSettings)));
+      toast.info('Thresholds reset to defaults');
+    }
+  };
+
+  // Presets only populate the form; values stay editable before saving
+  const handleApplyPreset = (presetId: string | null) => {
+    setSelectedPreset(presetId);
+    const preset = getSpeciesPreset(presetId);
+    if (!preset) return;
+    setLocalThresholds(resolveThresholds(userDefaults, preset.thresholds));
+    setUseCustomProfile(true);
+    toast.info(`${formatSpeciesPreset(preset)} preset applied — review and save`);
   };
 
-  const updateField = (field: keyof typeof localSettings, value: string) => {
+  const updateField = (key: SensorKey, bound: ThresholdBound, value: string) => {
     const numValue = parseFloat(value);
     if (isNaN(numValue)) return;
-    setLocalSettings(prev => ({ ...prev, [field]: numValue }));
+    setLocalThresholds(prev => ({ ...prev, [key]: { ...prev[key], [bound]: numValue } }));
   };
 
+  const isEditable = !isPondProfile || useCustomProfile;
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -91,131 +158,97 @@ export default function ThresholdSettings() {
 
   return (
     <div className="min-h-screen bg-background pb-8">
-      <Header title="Threshold Settings" showBack />
-      
-      <main className="p-4 max-w-lg mx-auto space-y-4">
-        {/* pH Settings */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.3 }}
-        >
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2 text-base">
-                <div className="h-8 w-8 rounded-lg bg-violet-100 dark:bg-violet-900/30 flex items-center justify-center">
-                  <FlaskConical className="h-4 w-4 text-violet-600" />
-                </div>
-                pH Level
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <Label className="text-xs">Min (Safe)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={localSettings.ph_min}
-                    onChange={(e) => updateField('ph_min', e.target.value)}
-                    className="h-9"
-                  />
-                </div>
-                <div>
-                  <Label className="text-xs">Max (Safe)</Label>
-                  <Input
-                    type="number"
-                    step="0.1"
-                    value={localSettings.ph_max}
-                    onChange={(e) => updateField('ph_max', e.target.value)}
-                    className="h-9"
-                  />
-                </div>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Values outside this range will trigger alerts
-              </p>
-            </CardContent>
-          </Card>
-        </motion.div>
+      <Header title={isPondProfile ? 'Pond Thresholds' : 'Threshold Settings'} showBack />
 
-        {/* Dissolved Oxygen Settings */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.3, delay: 0.1 }}
-        >
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2 text-base">
-                <div className="h-8 w-8 rounded-lg bg-blue-100 dark:bg-blue-900/30 flex items-center justify-center">
-                  <Droplets className="h-4 w-4 text-blue-600" />
+      <main className="p-4 max-w-lg mx-auto space-y-4">
+        {/* Pond profile toggle */}
+        {isPondProfile && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.3 }}
+          >
+            <Card>
+              <CardContent className="p-4 flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <div className="h-10 w-10 rounded-xl bg-primary/10 flex items-center justify-center">
+                    <SlidersHorizontal className="h-5 w-5 text-primary" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground">{pond?.name ?? 'This pond'}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {useCustomProfile ? 'Custom thresholds for this pond' : 'Using your default thresholds'}
+                    </p>
+                  </div>
                 </div>
-                Dissolved Oxygen
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <Label className="text-xs">Minimum (mg/L)</Label>
-                <Input
-                  type="number"
-                  step="0.1"
-                  value={localSettings.do_min}
-                  onChange={(e) => updateField('do_min', e.target.value)}
-                  className="h-9 max-w-[150px]"
+                <Switch
+                  checked={useCustomProfile}
+                  onCheckedChange={setUseCustomProfile}
+                  aria-label="Use custom thresholds for this pond"
                 />
-              </div>
-              <p className="text-xs text-muted-foreground">
-                Below this value: Aerator turns ON automatically (if Auto Mode enabled)
-              </p>
-            </CardContent>
-          </Card>
-        </motion.div>
+              </CardContent>
+              <CardContent className="px-4 pb-4 pt-0 space-y-2">
+                <Label className="text-xs">Species preset</Label>
+                <SpeciesPresetSelect
+                  value={selectedPreset}
+                  onValueChange={handleApplyPreset}
+                  placeholder="Apply a species preset"
+                />
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
 
-        {/* Temperature Settings */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.3, delay: 0.2 }}
-        >
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="flex items-center gap-2 text-base">
-                <div className="h-8 w-8 rounded-lg bg-orange-100 dark:bg-orange-900/30 flex items-center justify-center">
-                  <Thermometer className="h-4 w-4 text-orange-600" />
-                </div>
-                Temperature
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="grid grid-cols-2 gap-3">
-                <div>
-                  <Label className="text-xs">Min (°C)</Label>
-                  <Input
-                    type="number"
-                    step="1"
-                    value={localSettings.temp_min}
-                    onChange={(e) => updateField('temp_min', e.target.value)}
-                    className="h-9"
-                  />
-                </div>
-                <div>
-                  <Label className="text-xs">Max (°C)</Label>
-                  <Input
-                    type="number"
-                    step="1"
-                    value={localSettings.temp_max}
-                    onChange={(e) => updateField('temp_max', e.target.value)}
-                    className="h-9"
-                  />
-                </div>
-              </div>
-              <p className="text-xs text-muted-foreground">
-                High temperature: Motor turns ON automatically (if Auto Mode enabled)
-              </p>
-            </CardContent>
-          </Card>
-        </motion.div>
+        {sensorKeys.map((key, index) => {
+          const sensor = SENSOR_REGISTRY[key];
+          const accent = SENSOR_ACCENTS[key];
+          const band = localThresholds[key] ?? {};
+          return (
+            <motion.div
+              key={key}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: 0.1 * index }}
+            >
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <div className={cn(
+                      'h-8 w-8 rounded-lg flex items-center justify-center',
+                      accent?.bg ?? 'bg-muted'
+                    )}>
+                      <sensor.icon
+                        className={cn('h-4 w-4', accent?.text)}
+                        style={accent ? undefined : { color: sensor.color }}
+                      />
+                    </div>
+                    {sensor.label}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className={cn(sensor.thresholdBounds.length > 1 && 'grid grid-cols-2 gap-3')}>
+                    {sensor.thresholdBounds.map(bound => (
+                      <div key={bound}>
+                        <Label className="text-xs">{boundLabel(key, bound)}</Label>
+                        <Input
+                          type="number"
+                          step={sensor.thresholdStep}
+                          value={band[bound] ?? ''}
+                          onChange={(e) => updateField(key, bound, e.target.value)}
+                          disabled={!isEditable}
+                          className={cn('h-9', sensor.thresholdBounds.length === 1 && 'max-w-[150px]')}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {SENSOR_HINTS[key] ?? 'Values outside this range will trigger alerts'}
+                  </p>
+                </CardContent>
+              </Card>
+            </motion.div>
+          );
+        })}
 
         {/* Action Buttons */}
         <motion.div
@@ -228,7 +261,7 @@ export default function ThresholdSettings() {
             variant="outline"
             onClick={handleReset}
             className="flex-1"
-            disabled={isSaving}
+            disabled={isSaving || !isEditable}
           >
             <RotateCcw className="h-4 w-4 mr-2" />
             Reset
@@ -0,0 +1,158 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { usePondData } from '@/hooks/usePondData';
+import { useTreatments } from '@/hooks/useTreatments';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/Header';
+import { TreatmentDialog } from '@/components/TreatmentDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, Loader2, Pill, Plus, Trash2 } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { motion } from 'framer-motion';
+import {
+  activeWithdrawals,
+  formatTreatment,
+  treatmentCategoryLabel,
+  withdrawalClearsAt,
+  withdrawalEndsAt,
+} from '@/lib/treatments';
+
+export default function Treatments() {
+  const { pondId } = useParams<{ pondId: string }>();
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { ponds, isLoading: pondsLoading } = usePondData();
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+
+  const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
+  const stablePondId = pondId || pond?.id || 'pond1';
+
+  const { treatments, isLoading, error, addTreatment, deleteTreatment } = useTreatments(stablePondId);
+
+  if (pondsLoading || isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!pond) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Pond Not Found</h2>
+          <Button onClick={() => navigate('/')}>Go Back</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = !isAdmin && !!pond.isOwner;
+  const withdrawing = activeWithdrawals(treatments);
+  const clearsAt = withdrawalClearsAt(treatments);
+
+  return (
+    <div className="min-h-screen bg-background pb-8">
+      <Header title="Treatments" showBack />
+
+      <main className="p-4 max-w-lg mx-auto space-y-4">
+        {/* Header Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center shadow-lg">
+              <Pill className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
+              <p className="text-xs text-muted-foreground">Treatment and dosing log</p>
+            </div>
+          </div>
+          {canEdit && (
+            <Button size="sm" className="rounded-xl" onClick={() => setIsEntryOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Record
+            </Button>
+          )}
+        </motion.div>
+
+        {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+        {clearsAt && (
+          <Alert className="border-status-warning/30 bg-status-warning/10">
+            <AlertTriangle className="h-4 w-4 text-status-warning" />
+            <AlertDescription>
+              Withdrawal period until {format(clearsAt, 'MMM d, h:mm a')} ({formatDistanceToNow(clearsAt)}).
+              Don't harvest for sale before then: {withdrawing.map(t => t.product).join(', ')}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">History</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {treatments.length === 0 ? (
+              <div className="text-center py-6">
+                <Pill className="h-12 w-12 text-muted-foreground/30 mx-auto mb-3" />
+                <p className="text-muted-foreground">No treatments recorded</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Record lime, probiotics, salt and medication to keep withdrawal periods in view.
+                </p>
+              </div>
+            ) : (
+              treatments.map(treatment => {
+                const endsAt = withdrawalEndsAt(treatment);
+                const isWithdrawing = withdrawing.includes(treatment);
+                return (
+                  <div key={treatment.id} className="flex items-start gap-3 p-3 rounded-xl bg-muted/50">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">{formatTreatment(treatment)}</p>
+                        <Badge variant="secondary" className="text-[10px] px-1.5 py-0">
+                          {treatmentCategoryLabel(treatment.category)}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {format(treatment.appliedAt, 'MMM d, h:mm a')}
+                        {treatment.reason && ` · ${treatment.reason}`}
+                      </p>
+                      {endsAt && (
+                        <p className={isWithdrawing ? 'text-xs text-status-warning' : 'text-xs text-muted-foreground'}>
+                          {treatment.withdrawalDays}-day withdrawal · {isWithdrawing ? 'until' : 'ended'} {format(endsAt, 'MMM d')}
+                        </p>
+                      )}
+                      {treatment.note && <p className="text-xs text-muted-foreground italic">{treatment.note}</p>}
+                    </div>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                        onClick={() => deleteTreatment(treatment.id)}
+                        aria-label="Delete treatment"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <TreatmentDialog open={isEntryOpen} onOpenChange={setIsEntryOpen} onSave={addTreatment} />
+    </div>
+  );
+}
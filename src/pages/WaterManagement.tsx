@@ -0,0 +1,186 @@
+import { useParams, useNavigate } from 'react-router-dom';
+import { useState } from 'react';
+import { usePondData } from '@/hooks/usePondData';
+import { useFirebaseSensors } from '@/hooks/useFirebaseSensors';
+import { useWaterExchanges } from '@/hooks/useWaterExchanges';
+import { useRefillConfig } from '@/hooks/useRefillConfig';
+import { useAuth } from '@/contexts/AuthContext';
+import { Header } from '@/components/Header';
+import { WaterExchangeDialog } from '@/components/WaterExchangeDialog';
+import { RefillSettingsCard } from '@/components/RefillSettingsCard';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { Bar, BarChart, XAxis } from 'recharts';
+import { Loader2, Plus, Trash2, Waves } from 'lucide-react';
+import { format } from 'date-fns';
+import { motion } from 'framer-motion';
+import { formatSensorValue } from '@/lib/sensorRegistry';
+import { dailyExchange, summarizeExchanges, waterSourceLabel } from '@/lib/waterExchange';
+
+const chartConfig = {
+  percent: { label: 'Exchanged (%)', color: 'hsl(210 80% 55%)' },
+};
+
+export default function WaterManagement() {
+  const { pondId } = useParams<{ pondId: string }>();
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const { ponds, isLoading: pondsLoading } = usePondData();
+  const [isEntryOpen, setIsEntryOpen] = useState(false);
+
+  const pond = ponds.find(p => p.id === pondId) || (ponds.length === 1 ? ponds[0] : null);
+  const stablePondId = pondId || pond?.id || 'pond1';
+
+  const { sensorData } = useFirebaseSensors(stablePondId);
+  const { exchanges, isLoading, error, addExchange, deleteExchange } = useWaterExchanges(stablePondId);
+  const { config: refill } = useRefillConfig(stablePondId);
+
+  if (pondsLoading || isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!pond) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold mb-2">Pond Not Found</h2>
+          <Button onClick={() => navigate('/')}>Go Back</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const canEdit = !isAdmin && !!pond.isOwner;
+  const level = sensorData?.waterLevel ?? null;
+  const summary = summarizeExchanges(exchanges);
+  const daily = dailyExchange(exchanges, 30);
+
+  return (
+    <div className="min-h-screen bg-background pb-8">
+      <Header title="Water" showBack />
+
+      <main className="p-4 max-w-lg mx-auto space-y-4">
+        {/* Header Section */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.3 }}
+          className="flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            <div className="h-12 w-12 rounded-2xl bg-gradient-to-br from-sky-500 to-blue-600 flex items-center justify-center shadow-lg">
+              <Waves className="h-6 w-6 text-white" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-foreground">{pond.name}</h2>
+              <p className="text-xs text-muted-foreground">Water level and exchanges</p>
+            </div>
+          </div>
+          {canEdit && (
+            <Button size="sm" className="rounded-xl" onClick={() => setIsEntryOpen(true)}>
+              <Plus className="h-4 w-4 mr-1" />
+              Log Exchange
+            </Button>
+          )}
+        </motion.div>
+
+        {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+        <div className="grid grid-cols-3 gap-2">
+          {[
+            { label: 'Water level', value: formatSensorValue('waterLevel', level) },
+            { label: 'Last 7 days', value: `${summary.last7DaysPercent}%` },
+            { label: 'Avg / week', value: `${summary.weeklyAveragePercent}%` },
+          ].map(stat => (
+            <div key={stat.label} className="p-3 rounded-2xl bg-card border shadow-sm">
+              <p className="text-[10px] text-muted-foreground mb-1">{stat.label}</p>
+              <p className="text-sm font-bold text-foreground">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+        {refill.enabled && (
+          <p className="text-xs text-muted-foreground text-center">
+            Auto refill from below {refill.startBelowCm} cm to {refill.targetCm} cm
+          </p>
+        )}
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Exchanged per day · last 30 days</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={chartConfig} className="h-[120px] w-full">
+              <BarChart data={daily}>
+                <XAxis
+                  dataKey="date"
+                  tick={{ fontSize: 10 }}
+                  axisLine={false}
+                  tickLine={false}
+                  interval="preserveStartEnd"
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="percent" fill="var(--color-percent)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Exchanges</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {exchanges.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">No water exchanges in the last 90 days</p>
+            ) : (
+              exchanges.map(exchange => (
+                <div key={exchange.id} className="flex items-start gap-3 p-3 rounded-xl bg-muted/50">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">
+                      {exchange.percent}% · {waterSourceLabel(exchange.source)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(exchange.exchangedAt, 'MMM d, h:mm a')}
+                      {exchange.levelBeforeCm !== null && exchange.levelAfterCm !== null &&
+                        ` · ${exchange.levelBeforeCm} → ${exchange.levelAfterCm} cm`}
+                    </p>
+                    {exchange.note && <p className="text-xs text-muted-foreground italic">{exchange.note}</p>}
+                  </div>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                      onClick={() => deleteExchange(exchange.id)}
+                      aria-label="Delete exchange"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+
+        <RefillSettingsCard pondId={stablePondId} readOnly={!canEdit} />
+      </main>
+
+      <WaterExchangeDialog
+        open={isEntryOpen}
+        onOpenChange={setIsEntryOpen}
+        currentLevelCm={level}
+        onSave={addExchange}
+      />
+    </div>
+  );
+}
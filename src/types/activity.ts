@@ -0,0 +1,36 @@
+// Device activity audit log (device_activity table)
+
+export type ActivitySource = 'manual' | 'schedule' | 'auto';
+export type AckResult = 'pending' | 'acknowledged' | 'mismatch' | 'unconfirmed';
+
+export interface DeviceActivity {
+  id: string;
+  deviceType: string;
+  source: ActivitySource;
+  actorId: string | null;
+  actorLabel: string | null;
+  // Actor's display name, when it's a user
+  actorName?: string;
+  previousState: 0 | 1 | null;
+  newState: 0 | 1;
+  // 0-100%, for variable-speed and dimmable devices
+  previousLevel: number | null;
+  newLevel: number | null;
+  commandId: string | null;
+  ackResult: AckResult;
+  ackedAt: Date | null;
+  createdAt: Date;
+}
+
+export const ACTIVITY_SOURCE_LABELS: Record<ActivitySource, string> = {
+  manual: 'Manual',
+  schedule: 'Schedule',
+  auto: 'Auto Mode',
+};
+
+export const ACK_RESULT_LABELS: Record<AckResult, string> = {
+  pending: 'Awaiting ack',
+  acknowledged: 'Acknowledged',
+  mismatch: 'State mismatch',
+  unconfirmed: 'Unconfirmed',
+};
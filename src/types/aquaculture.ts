@@ -21,6 +21,8 @@ export interface Device {
   type: string;
   isOn: boolean;
   isAuto: boolean;
+  // 0-100%, for variable-speed and dimmable devices
+  level?: number;
   icon: string;
   autoCondition?: string;
 }
@@ -42,7 +44,7 @@ export interface Alert {
   id: string;
   pondId: string;
   pondName: string;
-  type: 'ph' | 'do' | 'temperature' | 'device' | 'system';
+  type: 'ph' | 'do' | 'temperature' | 'device' | 'system' | 'lab';
   severity: 'info' | 'warning' | 'critical';
   message: string;
   timestamp: Date;
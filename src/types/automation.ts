@@ -0,0 +1,115 @@
+// Automation rule types, stored at ponds/{pondId}/rules/{ruleId} and evaluated
+// by the automation-engine edge function.
+
+import { SENSOR_REGISTRY, type SensorKey } from '@/lib/sensorRegistry';
+import type {
+  RuleAction,
+  RuleCondition as SharedRuleCondition,
+  RuleDefinition,
+  RuleOperator,
+  SensorCondition as SharedSensorCondition,
+} from '@shared/automationRules.ts';
+
+// The rule model is shared with the engine; the app narrows sensors to registry keys
+export type {
+  AlertAction,
+  DeviceAction,
+  RuleAction,
+  RuleDeviceType,
+  RuleOperator,
+  SnapshotAction,
+  TimeWindowCondition,
+} from '@shared/automationRules.ts';
+
+export type SensorCondition = SharedSensorCondition<SensorKey>;
+export type RuleCondition = SharedRuleCondition<SensorKey>;
+
+export interface AutomationRule extends RuleDefinition<SensorKey> {
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Anti-chatter settings for the built-in auto-mode rules, at ponds/{id}/config/auto_tuning
+export type AutoTuningCondition = 'low_do' | 'high_temp';
+
+export interface ConditionTuning {
+  hysteresis: number;
+  sustainSeconds: number;
+  minOnMinutes: number;
+  minOffMinutes: number;
+}
+
+export type AutoTuning = Record<AutoTuningCondition, ConditionTuning>;
+
+// Same defaults as DEFAULT_TUNING in the automation engine
+export const DEFAULT_AUTO_TUNING: AutoTuning = {
+  low_do: { hysteresis: 0.5, sustainSeconds: 60, minOnMinutes: 10, minOffMinutes: 5 },
+  high_temp: { hysteresis: 1, sustainSeconds: 120, minOnMinutes: 10, minOffMinutes: 5 },
+};
+
+// Built-in refill rule, stored at ponds/{pondId}/config/refill. Pumps start when the
+// water level drops below startBelowCm and stop at targetCm or after maxRuntimeMinutes.
+export interface RefillConfig {
+  enabled: boolean;
+  startBelowCm: number;
+  targetCm: number;
+  maxRuntimeMinutes: number;
+  // Wait this long after a refill before starting another
+  cooldownMinutes: number;
+}
+
+// Same defaults as DEFAULT_REFILL in the automation engine
+export const DEFAULT_REFILL_CONFIG: RefillConfig = {
+  enabled: false,
+  startBelowCm: 40,
+  targetCm: 60,
+  maxRuntimeMinutes: 30,
+  cooldownMinutes: 30,
+};
+
+// Why the engine is holding a device, from ponds/{id}/automation/state/holds
+export type DeviceHoldKind = 'sustain' | 'min_on' | 'min_off' | 'timer';
+
+export interface DeviceHold {
+  kind: DeviceHoldKind;
+  ruleId: string;
+  until: Date;
+}
+
+export const DEVICE_HOLD_LABELS: Record<DeviceHoldKind, string> = {
+  sustain: 'Confirming reading',
+  min_on: 'Minimum run time',
+  min_off: 'Resting',
+  timer: 'Timed run',
+};
+
+export const RULE_OPERATORS: RuleOperator[] = ['<', '<=', '>', '>='];
+
+export function formatSeconds(seconds: number): string {
+  return seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds}s`;
+}
+
+export function describeCondition(condition: RuleCondition): string {
+  if (condition.type === 'time') {
+    return `time between ${condition.from}–${condition.to}`;
+  }
+  const { shortLabel, unit } = SENSOR_REGISTRY[condition.sensor] ?? { shortLabel: condition.sensor, unit: '' };
+  const suffix = unit && unit !== 'pH' ? ` ${unit}` : '';
+  const sustained = condition.forSeconds ? ` for ${formatSeconds(condition.forSeconds)}` : '';
+  const band = condition.hysteresis ? ` (±${condition.hysteresis})` : '';
+  return `${shortLabel} ${condition.operator} ${condition.value}${suffix}${band}${sustained}`;
+}
+
+export function describeAction(action: RuleAction, deviceNames: Record<string, string> = {}): string {
+  switch (action.type) {
+    case 'device': {
+      const duration = action.durationMinutes ? ` for ${action.durationMinutes} min` : '';
+      const level = action.level !== undefined && action.state === 'on' ? ` at ${action.level}%` : '';
+      return `${deviceNames[action.device] ?? action.device} ${action.state.toUpperCase()}${level}${duration}`;
+    }
+    case 'alert':
+      return `${action.severity === 'critical' ? 'Critical' : 'Warning'} alert`;
+    case 'snapshot':
+      return 'Camera snapshot';
+  }
+}
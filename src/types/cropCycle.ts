@@ -0,0 +1,107 @@
+// Crop cycles (crop_cycles) and the records kept during them. Sensor readings,
+// alerts and feed logs belong to the cycle whose stocked_at–ended_at window
+// contains them.
+
+export interface CycleSampling {
+  id: string;
+  sampledAt: Date;
+  sampleCount: number;
+  avgWeightG: number;
+  note: string | null;
+}
+
+export interface CycleMortality {
+  id: string;
+  recordedAt: Date;
+  count: number;
+  cause: string | null;
+  note: string | null;
+}
+
+export interface CycleHarvest {
+  id: string;
+  harvestedAt: Date;
+  weightKg: number;
+  count: number | null;
+  pricePerKg: number | null;
+  buyer: string | null;
+  // A final harvest ends the cycle
+  isFinal: boolean;
+  note: string | null;
+}
+
+export interface CropCycle {
+  id: string;
+  name: string;
+  species: string;
+  stockedAt: Date;
+  stockedCount: number;
+  stockingWeightG: number | null;
+  // Harvest weight the harvest date is projected to
+  targetWeightG: number | null;
+  hatchery: string | null;
+  // Null while the cycle is running
+  endedAt: Date | null;
+  note: string | null;
+  // Oldest first
+  samplings: CycleSampling[];
+  mortalities: CycleMortality[];
+  harvests: CycleHarvest[];
+}
+
+export interface CycleStockingInput {
+  name: string;
+  species: string;
+  stockedAt: Date;
+  stockedCount: number;
+  stockingWeightG?: number;
+  targetWeightG?: number;
+  hatchery?: string;
+  note?: string;
+}
+
+export interface CycleSamplingInput {
+  sampledAt: Date;
+  sampleCount: number;
+  avgWeightG: number;
+  note?: string;
+}
+
+export interface CycleMortalityInput {
+  recordedAt: Date;
+  count: number;
+  cause?: string;
+  note?: string;
+}
+
+export interface CycleHarvestInput {
+  harvestedAt: Date;
+  weightKg: number;
+  count?: number;
+  pricePerKg?: number;
+  buyer?: string;
+  isFinal: boolean;
+  note?: string;
+}
+
+export type CycleRecordKind = 'sampling' | 'mortality' | 'harvest';
+
+// Water conditions and alerts over a cycle's window (crop_cycle_conditions)
+export interface CycleConditions {
+  readingCount: number;
+  avgTemperature: number | null;
+  avgPh: number | null;
+  avgDissolvedOxygen: number | null;
+  minDissolvedOxygen: number | null;
+  alertCount: number;
+  criticalAlertCount: number;
+}
+
+export const MORTALITY_CAUSES = [
+  'Low oxygen',
+  'Disease',
+  'Predation',
+  'Handling',
+  'Water quality',
+  'Unknown',
+];
@@ -0,0 +1,57 @@
+// Feeding plans (Firebase ponds/{id}/feedingPlans/{deviceKey}), the feed_logs table
+// and the biomass estimates feeding rate and FCR are computed against
+
+// The plan types are shared with the schedule executor
+export type { FeedDetails, FeedRation, FeedingPlan } from '@shared/feedingPlan.ts';
+
+// What to dispense; at least one of the two is set
+export interface FeedAmount {
+  grams?: number;
+  seconds?: number;
+}
+
+export type FeedSource = 'manual' | 'plan';
+export type FeedStatus = 'pending' | 'dispensed' | 'suppressed' | 'unconfirmed' | 'failed';
+
+export interface FeedLogEntry {
+  id: string;
+  // Null for hand feeding
+  deviceType: string | null;
+  source: FeedSource;
+  actorId: string | null;
+  rationTime: string | null;
+  grams: number | null;
+  seconds: number | null;
+  // Weighed by the feeder, when it can
+  dispensedGrams: number | null;
+  status: FeedStatus;
+  dissolvedOxygen: number | null;
+  feedType: string | null;
+  brand: string | null;
+  cost: number | null;
+  message: string | null;
+  note: string | null;
+  // When the feed went in; may be backdated for hand entries
+  fedAt: Date;
+  createdAt: Date;
+}
+
+export interface BiomassEstimate {
+  id: string;
+  measuredAt: Date;
+  biomassKg: number;
+  note: string | null;
+}
+
+export const FEED_STATUS_LABELS: Record<FeedStatus, string> = {
+  pending: 'Dispensing',
+  dispensed: 'Dispensed',
+  suppressed: 'Skipped (low DO)',
+  unconfirmed: 'Unconfirmed',
+  failed: 'Failed',
+};
+
+export const FEED_SOURCE_LABELS: Record<FeedSource, string> = {
+  manual: 'Manual',
+  plan: 'Feeding plan',
+};
@@ -0,0 +1,36 @@
+// Manual water quality tests (lab_tests / lab_test_results). A result's parameter
+// is a sensor registry key when the registry knows it, otherwise a free-form name.
+
+export interface LabResult {
+  id: string;
+  parameter: string;
+  value: number;
+  // Only stored for free-form parameters; registry parameters use the registry unit
+  unit: string | null;
+}
+
+export interface LabTest {
+  id: string;
+  testedAt: Date;
+  method: string | null;
+  note: string | null;
+  results: LabResult[];
+}
+
+export interface LabResultInput {
+  parameter: string;
+  value: number;
+  unit?: string;
+}
+
+export interface LabTestInput {
+  testedAt: Date;
+  method?: string;
+  note?: string;
+  results: LabResultInput[];
+}
+
+export interface LabPoint {
+  at: Date;
+  value: number;
+}
@@ -0,0 +1,43 @@
+// Per-user notification preferences (notification_preferences). The email
+// digest is sent by the email-digest edge function; the app applies the rest
+// when it plays alert sounds and shows push notifications.
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+// Toggles under "Alert Types": two severities and three sensors
+export type AlertCategory = 'critical' | 'warning' | 'dissolved_oxygen' | 'temperature' | 'ph';
+
+export interface NotificationPreferences {
+  pushEnabled: boolean;
+  emailEnabled: boolean;
+  soundEnabled: boolean;
+  digestFrequency: DigestFrequency;
+  // Local hour the digest goes out; weekly digests go out on Mondays
+  digestHour: number;
+  quietHoursEnabled: boolean;
+  // "HH:mm"; the window may wrap midnight
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  categories: Record<AlertCategory, boolean>;
+  // IANA timezone for digestHour and quiet hours
+  timezone: string;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  pushEnabled: true,
+  emailEnabled: false,
+  soundEnabled: true,
+  digestFrequency: 'daily',
+  digestHour: 7,
+  quietHoursEnabled: false,
+  quietHoursStart: '22:00',
+  quietHoursEnd: '06:00',
+  categories: {
+    critical: true,
+    warning: true,
+    dissolved_oxygen: true,
+    temperature: true,
+    ph: true,
+  },
+  timezone: 'UTC',
+};
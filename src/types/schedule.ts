@@ -9,6 +9,8 @@ export interface Schedule {
   endTime: string;   // HH:mm format
   repeat: 'once' | 'daily' | 'custom';
   daysOfWeek: number[]; // 0-6, Sunday-Saturday
+  // Output while running, 0-100%, for variable-level devices
+  level?: number;
   enabled: boolean;
   createdAt: number;
   updatedAt: number;
@@ -20,17 +22,21 @@ export interface Schedule {
 
 export type ScheduleStatus = 'upcoming' | 'running' | 'completed' | 'disabled' | 'pending';
 
+// One ON/OFF event recorded by the server-side schedule executor (schedule_executions)
 export interface ScheduleExecutionLog {
   id: string;
   scheduleId: string;
-  deviceId: string;
+  deviceType: string;
   action: 'ON' | 'OFF';
-  executedAt: number;
-  success: boolean;
-  source: 'schedule' | 'manual' | 'auto';
+  scheduledFor: number;
+  executedAt?: number;
+  status: ScheduleExecutionStatus;
+  attempts: number;
   message?: string;
 }
 
+export type ScheduleExecutionStatus = 'pending' | 'success' | 'failed' | 'skipped';
+
 export interface PondAccess {
   userId: string;
   role: 'admin' | 'operator' | 'viewer';
@@ -0,0 +1,38 @@
+// Treatments and chemicals applied to a pond (pond_treatments). A treatment with
+// a withdrawal period makes the stock unfit for sale until it has passed.
+
+export type TreatmentCategory = 'lime' | 'probiotic' | 'salt' | 'medication' | 'other';
+
+export interface PondTreatment {
+  id: string;
+  appliedAt: Date;
+  category: TreatmentCategory;
+  product: string;
+  quantity: number;
+  unit: string;
+  reason: string | null;
+  // 0 when the product has no withdrawal period
+  withdrawalDays: number;
+  note: string | null;
+}
+
+export interface PondTreatmentInput {
+  appliedAt: Date;
+  category: TreatmentCategory;
+  product: string;
+  quantity: number;
+  unit: string;
+  reason?: string;
+  withdrawalDays: number;
+  note?: string;
+}
+
+export const TREATMENT_CATEGORIES: { value: TreatmentCategory; label: string; defaultUnit: string }[] = [
+  { value: 'lime', label: 'Lime', defaultUnit: 'kg' },
+  { value: 'probiotic', label: 'Probiotic', defaultUnit: 'L' },
+  { value: 'salt', label: 'Salt', defaultUnit: 'kg' },
+  { value: 'medication', label: 'Medication', defaultUnit: 'g' },
+  { value: 'other', label: 'Other', defaultUnit: 'kg' },
+];
+
+export const TREATMENT_UNITS = ['kg', 'g', 'L', 'mL', 'ppm'];
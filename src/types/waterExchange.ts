@@ -0,0 +1,33 @@
+// Water exchanges (water_exchanges): part of the pond drained and refilled from a source.
+
+export type WaterSource = 'well' | 'river' | 'reservoir' | 'rain' | 'municipal' | 'other';
+
+export interface WaterExchange {
+  id: string;
+  exchangedAt: Date;
+  // Share of the pond's volume replaced
+  percent: number;
+  source: WaterSource;
+  // Level drained to and refilled to, when measured
+  levelBeforeCm: number | null;
+  levelAfterCm: number | null;
+  note: string | null;
+}
+
+export interface WaterExchangeInput {
+  exchangedAt: Date;
+  percent: number;
+  source: WaterSource;
+  levelBeforeCm?: number;
+  levelAfterCm?: number;
+  note?: string;
+}
+
+export const WATER_SOURCES: { value: WaterSource; label: string }[] = [
+  { value: 'well', label: 'Well / borehole' },
+  { value: 'river', label: 'River / canal' },
+  { value: 'reservoir', label: 'Reservoir pond' },
+  { value: 'rain', label: 'Rainwater' },
+  { value: 'municipal', label: 'Municipal supply' },
+  { value: 'other', label: 'Other' },
+];
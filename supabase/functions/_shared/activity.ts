@@ -0,0 +1,50 @@
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+import { DeviceSnapshot, ackMatches } from "./deviceCommand.ts";
+
+// Pending rows older than this are left alone; the command has long been replaced
+const RECONCILE_WINDOW_MS = 5 * 60 * 1000;
+
+export interface ActivityRow {
+  pond_id: string;
+  device_type: string;
+  source: 'schedule' | 'auto';
+  actor_label: string;
+  previous_state: 0 | 1 | null;
+  new_state: 0 | 1;
+  previous_level?: number | null;
+  new_level?: number | null;
+  command_id: string;
+}
+
+export async function recordActivity(rows: ActivityRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const { error } = await supabaseAdmin.from('device_activity').insert(rows);
+  if (error) console.error('[activity] Failed to record device activity:', error);
+}
+
+// Resolve 'pending' activity rows from the devices' latest acks (or their expiry)
+export async function reconcileAcks(
+  pondId: string,
+  devices: Record<string, DeviceSnapshot> | null,
+  now: number
+): Promise<void> {
+  for (const [deviceType, device] of Object.entries(devices ?? {})) {
+    const command = device?.command;
+    if (!command?.id || now - command.issuedAt > RECONCILE_WINDOW_MS) continue;
+
+    const acked = device.ack?.commandId === command.id;
+    if (!acked && now < command.expiresAt) continue;
+
+    const { error } = await supabaseAdmin
+      .from('device_activity')
+      .update(acked
+        ? {
+            ack_result: ackMatches(command, device.ack!) ? 'acknowledged' : 'mismatch',
+            acked_at: new Date(device.ack!.at).toISOString(),
+          }
+        : { ack_result: 'unconfirmed' })
+      .match({ pond_id: pondId, device_type: deviceType, command_id: command.id, ack_result: 'pending' });
+
+    if (error) console.error(`[activity] Failed to reconcile ack for ${pondId}/${deviceType}:`, error);
+  }
+}
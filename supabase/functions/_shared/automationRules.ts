@@ -0,0 +1,61 @@
+// Automation rule model, stored at ponds/{pondId}/rules/{ruleId}. The engine
+// reads it from here and the app imports it as @shared/automationRules.ts,
+// narrowing `Sensor` to its sensor registry keys.
+
+// Device key from the pond's device registry (ponds/{pondId}/deviceRegistry)
+export type RuleDeviceType = string;
+export type RuleOperator = '<' | '<=' | '>' | '>=';
+
+export interface SensorCondition<Sensor extends string = string> {
+  type: 'sensor';
+  sensor: Sensor;
+  operator: RuleOperator;
+  value: number;
+  // Condition must hold continuously this long before it counts
+  forSeconds?: number;
+  // Once triggered, stays matched until the reading is this far back past `value`
+  hysteresis?: number;
+}
+
+export interface TimeWindowCondition {
+  type: 'time';
+  from: string; // "HH:mm", pond-local
+  to: string;
+}
+
+export type RuleCondition<Sensor extends string = string> = SensorCondition<Sensor> | TimeWindowCondition;
+
+export interface DeviceAction {
+  type: 'device';
+  device: RuleDeviceType;
+  state: 'on' | 'off';
+  // 0-100% for variable-level devices; full output when unset
+  level?: number;
+  // Switch back after this long; otherwise held until the rule clears
+  durationMinutes?: number;
+}
+
+export interface AlertAction {
+  type: 'alert';
+  severity: 'warning' | 'critical';
+  message: string;
+}
+
+export interface SnapshotAction {
+  type: 'snapshot';
+}
+
+export type RuleAction = DeviceAction | AlertAction | SnapshotAction;
+
+export interface RuleDefinition<Sensor extends string = string> {
+  id: string;
+  name: string;
+  enabled: boolean;
+  // All conditions must match (AND)
+  conditions: RuleCondition<Sensor>[];
+  actions: RuleAction[];
+  // Stay active at least this long once triggered, even if conditions clear
+  minOnMinutes?: number;
+  // Don't re-trigger for this long after clearing
+  minOffMinutes?: number;
+}
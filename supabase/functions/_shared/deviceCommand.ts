@@ -0,0 +1,74 @@
+// Device command envelope and ack, written under ponds/{id}/devices/{type}. The
+// app imports the types and the ack check from here (@shared/deviceCommand.ts);
+// src/lib/deviceCommands.ts describes the protocol.
+
+// Server commands aren't retried, so give the board a full cron cycle to pick them up
+const SERVER_COMMAND_TTL_MS = 60 * 1000;
+
+export type CommandIssuer = 'app' | 'automation' | 'schedule';
+
+export interface DeviceCommandEnvelope {
+  id: string;
+  state: 0 | 1;
+  level?: number;
+  mode: 'manual' | 'auto';
+  issuer: CommandIssuer;
+  // Firebase uid for app-issued commands
+  issuedBy?: string;
+  issuedAt: number;
+  expiresAt: number;
+  attempt: number;
+}
+
+export interface DeviceAck {
+  commandId: string;
+  state: 0 | 1;
+  // Only sent by firmware that drives levels
+  level?: number;
+  at: number;
+}
+
+export interface DeviceSnapshot {
+  state?: number;
+  level?: number;
+  command?: DeviceCommandEnvelope;
+  ack?: DeviceAck;
+}
+
+// Whether an ack reports the output the command asked for
+export function ackMatches(command: Pick<DeviceCommandEnvelope, 'state' | 'level'>, ack: DeviceAck): boolean {
+  if (ack.state !== command.state) return false;
+  // Older firmware acks without a level; the relay state is all we can check
+  return command.level === undefined || ack.level === undefined || ack.level === command.level;
+}
+
+// Multi-path update (relative to ponds/{id}) writing a command with its desired state
+export function buildCommand(
+  deviceType: string,
+  state: 0 | 1,
+  mode: 'manual' | 'auto',
+  issuer: 'automation' | 'schedule',
+  // 0-100%, for variable-level devices
+  level?: number
+): { commandId: string; updates: Record<string, unknown> } {
+  const commandId = crypto.randomUUID();
+  const issuedAt = Date.now();
+  return {
+    commandId,
+    updates: {
+      [`devices/${deviceType}/command`]: {
+        id: commandId,
+        state,
+        ...(level !== undefined ? { level } : {}),
+        mode,
+        issuer,
+        issuedAt,
+        expiresAt: issuedAt + SERVER_COMMAND_TTL_MS,
+        attempt: 1,
+      },
+      [`devices/${deviceType}/state`]: state,
+      [`devices/${deviceType}/mode`]: mode,
+      ...(level !== undefined ? { [`devices/${deviceType}/level`]: level } : {}),
+    },
+  };
+}
@@ -0,0 +1,69 @@
+// Per-pond device registry at ponds/{pondId}/deviceRegistry/{key}, where `key`
+// is also the node under devices/ and schedules/ that the controller and
+// automation read. Ponds without a registry get DEFAULT_DEVICES, the original
+// motor/aerator/light layout. The app adds icons and editing helpers on top
+// (src/lib/deviceRegistry.ts).
+
+export type DeviceKind = 'pump' | 'aerator' | 'light' | 'feeder' | 'heater' | 'other';
+
+export type DeviceCapability = 'schedule' | 'automation' | 'level';
+
+export type DeviceIconName = 'Droplets' | 'Wind' | 'Lightbulb' | 'Wheat' | 'Flame' | 'Fan' | 'Waves' | 'Plug';
+
+export interface DeviceDefinition {
+  key: string;
+  name: string;
+  kind: DeviceKind;
+  icon: DeviceIconName;
+  // Relay channel on the pond controller (1-based)
+  channel: number;
+  powerWatts?: number;
+  capabilities: DeviceCapability[];
+  // Level granularity in %, for devices with the 'level' capability (e.g. 25 for a 4-speed pump)
+  levelStep?: number;
+  // Feeder calibration, used to turn grams into auger run time
+  gramsPerSecond?: number;
+  order: number;
+}
+
+export const DEVICE_ICON_NAMES: DeviceIconName[] = ['Droplets', 'Wind', 'Lightbulb', 'Wheat', 'Flame', 'Fan', 'Waves', 'Plug'];
+
+export const DEVICE_KINDS: Record<DeviceKind, { label: string; subtitle: string; icon: DeviceIconName }> = {
+  pump: { label: 'Water Pump', subtitle: 'Water circulation', icon: 'Droplets' },
+  aerator: { label: 'Aerator', subtitle: 'Oxygen supply', icon: 'Wind' },
+  light: { label: 'Light', subtitle: 'Pond lighting', icon: 'Lightbulb' },
+  feeder: { label: 'Feeder', subtitle: 'Automatic feeding', icon: 'Wheat' },
+  heater: { label: 'Heater', subtitle: 'Water heating', icon: 'Flame' },
+  other: { label: 'Other', subtitle: 'Relay device', icon: 'Plug' },
+};
+
+export const DEFAULT_DEVICES: DeviceDefinition[] = [
+  { key: 'motor', name: 'Water Pump', kind: 'pump', icon: 'Droplets', channel: 1, capabilities: ['schedule', 'automation'], order: 0 },
+  { key: 'aerator', name: 'Aerator', kind: 'aerator', icon: 'Wind', channel: 2, capabilities: ['schedule', 'automation'], order: 1 },
+  { key: 'light', name: 'Light', kind: 'light', icon: 'Lightbulb', channel: 3, capabilities: ['schedule', 'automation'], order: 2 },
+];
+
+// Parses the Firebase registry node, falling back to the default layout
+export function parseDeviceRegistry(raw: Record<string, Partial<DeviceDefinition>> | null): DeviceDefinition[] {
+  const entries = Object.entries(raw ?? {}).filter(([, value]) => value && typeof value === 'object');
+  if (entries.length === 0) return DEFAULT_DEVICES;
+
+  return entries
+    .map(([key, value], index) => {
+      const kind = value.kind && value.kind in DEVICE_KINDS ? value.kind : 'other';
+      return {
+        key,
+        name: typeof value.name === 'string' && value.name ? value.name : key,
+        kind,
+        icon: value.icon && DEVICE_ICON_NAMES.includes(value.icon) ? value.icon : DEVICE_KINDS[kind].icon,
+        channel: typeof value.channel === 'number' ? value.channel : index + 1,
+        ...(typeof value.powerWatts === 'number' ? { powerWatts: value.powerWatts } : {}),
+        // Firebase may hand arrays back as index-keyed objects
+        capabilities: Object.values(value.capabilities ?? {}) as DeviceCapability[],
+        ...(typeof value.levelStep === 'number' ? { levelStep: value.levelStep } : {}),
+        ...(typeof value.gramsPerSecond === 'number' ? { gramsPerSecond: value.gramsPerSecond } : {}),
+        order: typeof value.order === 'number' ? value.order : index,
+      };
+    })
+    .sort((a, b) => a.order - b.order);
+}
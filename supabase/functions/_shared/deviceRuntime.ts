@@ -0,0 +1,66 @@
+// Device on-time over a period, from the device_activity log. The app's pond
+// report imports this as @shared/deviceRuntime.ts; the email digest uses it too.
+
+export interface RuntimeActivityRow {
+  device_type: string;
+  new_state: number;
+  ack_result: string;
+  created_at: string;
+}
+
+export interface DeviceRuntimeTotals {
+  device: string;
+  switchOns: number;
+  runtimeMs: number;
+}
+
+// Time each device spent on between `from` and `to` (or now, if sooner).
+// Devices start in their state at `from`, from device_states_at, and only
+// changes the controller acknowledged count - an unconfirmed or mismatched
+// command says nothing about the relay. Rows are oldest first; devices that
+// stayed off are left out.
+export function deviceRuntimes(
+  rows: RuntimeActivityRow[],
+  startStates: Record<string, number>,
+  from: number,
+  to: number
+): DeviceRuntimeTotals[] {
+  const end = Math.min(to, Date.now());
+  const onSince = new Map<string, number | null>(
+    Object.entries(startStates).map(([device, state]) => [device, state === 1 ? from : null])
+  );
+  const totals = new Map<string, DeviceRuntimeTotals>();
+  const totalFor = (device: string) => {
+    const total = totals.get(device) ?? { device, switchOns: 0, runtimeMs: 0 };
+    totals.set(device, total);
+    return total;
+  };
+
+  for (const row of rows) {
+    if (row.ack_result !== 'acknowledged') continue;
+    const at = new Date(row.created_at).getTime();
+    const since = onSince.get(row.device_type) ?? null;
+    if (row.new_state === 1 && since === null) {
+      onSince.set(row.device_type, at);
+      totalFor(row.device_type).switchOns++;
+    } else if (row.new_state === 0 && since !== null) {
+      totalFor(row.device_type).runtimeMs += at - since;
+      onSince.set(row.device_type, null);
+    }
+  }
+  for (const [device, since] of onSince) {
+    if (since !== null) totalFor(device).runtimeMs += Math.max(0, end - since);
+  }
+
+  return [...totals.values()]
+    .filter(total => total.runtimeMs > 0 || total.switchOns > 0)
+    .sort((a, b) => b.runtimeMs - a.runtimeMs);
+}
+
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
@@ -0,0 +1,33 @@
+// Feeder dispense order and ack at ponds/{id}/devices/{key}. Used by the
+// feeding code here and, as @shared/dispense.ts, by the app's src/lib/feeding.ts,
+// which describes the protocol.
+
+export interface DispenseEnvelope {
+  id: string;
+  grams?: number;
+  seconds?: number;
+  issuer: 'app' | 'schedule';
+  issuedBy?: string;
+  issuedAt: number;
+  expiresAt: number;
+}
+
+export interface DispenseAck {
+  dispenseId: string;
+  grams?: number;
+  seconds?: number;
+  at: number;
+}
+
+export interface FeederSnapshot {
+  dispense?: DispenseEnvelope;
+  dispenseAck?: DispenseAck;
+}
+
+// Longest run we wait for when the feeder stops by weight
+export const MAX_DISPENSE_SECONDS = 120;
+
+// When a dispense that hasn't acked can be given up on: its start deadline plus the run
+export function dispenseDeadline(dispense: Pick<DispenseEnvelope, 'expiresAt' | 'seconds'>): number {
+  return dispense.expiresAt + (dispense.seconds ?? MAX_DISPENSE_SECONDS) * 1000;
+}
@@ -0,0 +1,61 @@
+// Feeder dispense orders from the server; the envelope and ack are in dispense.ts.
+
+import { supabaseAdmin } from "./supabaseAdmin.ts";
+import { FeederSnapshot, dispenseDeadline } from "./dispense.ts";
+
+export type { FeederSnapshot };
+
+// Server dispenses get a full cron cycle to be picked up
+const SERVER_DISPENSE_TTL_MS = 60 * 1000;
+// Pending rows older than this are left alone; the dispense has long been replaced
+export const RECONCILE_WINDOW_MS = 10 * 60 * 1000;
+
+// Multi-path update (relative to ponds/{id}) writing a one-shot dispense
+export function buildDispense(
+  deviceType: string,
+  amount: { grams?: number; seconds?: number }
+): { dispenseId: string; updates: Record<string, unknown> } {
+  const dispenseId = crypto.randomUUID();
+  const issuedAt = Date.now();
+  return {
+    dispenseId,
+    updates: {
+      [`devices/${deviceType}/dispense`]: {
+        id: dispenseId,
+        ...(amount.grams !== undefined ? { grams: amount.grams } : {}),
+        ...(amount.seconds !== undefined ? { seconds: amount.seconds } : {}),
+        issuer: 'schedule',
+        issuedAt,
+        expiresAt: issuedAt + SERVER_DISPENSE_TTL_MS,
+      },
+    },
+  };
+}
+
+// Resolve 'pending' rations and manual dispenses from the feeders' latest acks (or their deadline)
+export async function reconcileDispenseAcks(
+  pondId: string,
+  devices: Record<string, FeederSnapshot> | null,
+  now: number
+): Promise<void> {
+  for (const [deviceType, device] of Object.entries(devices ?? {})) {
+    const dispense = device?.dispense;
+    if (!dispense?.id || now - dispense.issuedAt > RECONCILE_WINDOW_MS) continue;
+
+    const ack = device.dispenseAck?.dispenseId === dispense.id ? device.dispenseAck : null;
+    if (!ack && now < dispenseDeadline(dispense)) continue;
+
+    const { error } = await supabaseAdmin
+      .from('feed_logs')
+      .update(ack
+        ? {
+            status: 'dispensed',
+            dispensed_grams: typeof ack.grams === 'number' ? ack.grams : null,
+            acked_at: new Date(ack.at).toISOString(),
+          }
+        : { status: 'unconfirmed' })
+      .match({ pond_id: pondId, device_type: deviceType, dispense_id: dispense.id, status: 'pending' });
+
+    if (error) console.error(`[feeding] Failed to reconcile dispense for ${pondId}/${deviceType}:`, error);
+  }
+}
@@ -0,0 +1,25 @@
+// Feeding plans, stored at ponds/{id}/feedingPlans/{deviceKey}. The schedule
+// executor dispenses them and the app imports the types as @shared/feedingPlan.ts.
+
+export interface FeedRation {
+  time: string; // "HH:mm", pond-local
+  // Share of the daily amount, 0-100
+  percent: number;
+}
+
+// Feed details recorded with each entry; cost is worked out from pricePerKg
+export interface FeedDetails {
+  feedType?: string;
+  brand?: string;
+  pricePerKg?: number;
+}
+
+// Feed details are copied onto each entry the plan dispenses
+export interface FeedingPlan extends FeedDetails {
+  enabled: boolean;
+  dailyGrams: number;
+  rations: FeedRation[];
+  // Rations are skipped while DO is below this (mg/L); the pond's DO minimum when unset
+  minDissolvedOxygen?: number;
+  updatedAt?: number;
+}
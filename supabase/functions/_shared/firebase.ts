@@ -0,0 +1,70 @@
+// Minimal Firebase Realtime Database REST client for edge functions.
+// Authenticates with the database secret, which bypasses security rules,
+// so it must only ever be used server-side.
+
+const FIREBASE_DATABASE_URL = Deno.env.get('FIREBASE_DATABASE_URL');
+const FIREBASE_DATABASE_SECRET = Deno.env.get('FIREBASE_DATABASE_SECRET');
+
+export function isFirebaseConfigured(): boolean {
+  return !!FIREBASE_DATABASE_URL && !!FIREBASE_DATABASE_SECRET;
+}
+
+function buildUrl(path: string, params: Record<string, string> = {}): string {
+  const base = FIREBASE_DATABASE_URL!.replace(/\/$/, '');
+  const search = new URLSearchParams({ auth: FIREBASE_DATABASE_SECRET!, ...params });
+  return `${base}/${path.replace(/^\//, '')}.json?${search.toString()}`;
+}
+
+async function request<T>(method: string, path: string, body?: unknown, params?: Record<string, string>): Promise<T> {
+  const response = await fetch(buildUrl(path, params), {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new Error(`Firebase ${method} ${path} failed (${response.status}): ${text}`);
+  }
+
+  return await response.json() as T;
+}
+
+export function firebaseGet<T>(path: string): Promise<T | null> {
+  return request<T | null>('GET', path);
+}
+
+// Ordered range query; the path needs a matching ".indexOn" in the database rules
+export function firebaseQuery<T>(
+  path: string,
+  orderBy: string,
+  range: { startAt?: number; endAt?: number }
+): Promise<T | null> {
+  const params: Record<string, string> = { orderBy: JSON.stringify(orderBy) };
+  if (range.startAt !== undefined) params.startAt = String(range.startAt);
+  if (range.endAt !== undefined) params.endAt = String(range.endAt);
+  return request<T | null>('GET', path, undefined, params);
+}
+
+// Child keys only, without downloading the data underneath
+export async function firebaseKeys(path: string): Promise<string[]> {
+  const data = await request<Record<string, true> | null>('GET', path, undefined, { shallow: 'true' });
+  return data ? Object.keys(data) : [];
+}
+
+export function firebaseSet<T>(path: string, value: T): Promise<T> {
+  return request<T>('PUT', path, value);
+}
+
+// Multi-path update; keys may be nested paths relative to `path`
+export function firebaseUpdate(path: string, values: Record<string, unknown>): Promise<unknown> {
+  return request('PATCH', path, values);
+}
+
+export async function firebasePush(path: string, value: unknown): Promise<string> {
+  const { name } = await request<{ name: string }>('POST', path, value);
+  return name;
+}
+
+// Placeholder resolved by Firebase to its own server time
+export const SERVER_TIMESTAMP = { '.sv': 'timestamp' } as const;
@@ -0,0 +1,74 @@
+// Outgoing mail for edge functions. MAIL_TRANSPORT picks how it's delivered:
+//   smtp - any SMTP server (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_TLS)
+//   log  - printed to the function log instead of sent (the default)
+// For local testing, point smtp at a stand-in such as Mailpit.
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = Deno.env.get('MAIL_FROM') ?? 'AquaFarm Monitor <no-reply@aquafarm.local>';
+
+function smtpTransport(): MailTransport {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) throw new Error('SMTP_HOST not configured');
+  const tls = Deno.env.get('SMTP_TLS') !== 'false';
+  const port = Number(Deno.env.get('SMTP_PORT') ?? (tls ? 465 : 25));
+  const username = Deno.env.get('SMTP_USER');
+  const password = Deno.env.get('SMTP_PASSWORD') ?? '';
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      // A connection per message; digests go out a handful at a time
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port,
+          tls,
+          ...(username ? { auth: { username, password } } : {}),
+        },
+        // Local stand-ins speak plain SMTP without STARTTLS
+        ...(tls ? {} : { debug: { allowUnsecure: true, noStartTLS: true } }),
+      });
+      try {
+        await client.send({
+          from: MAIL_FROM,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          ...(message.html ? { html: message.html } : {}),
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+const logTransport: MailTransport = {
+  name: 'log',
+  send(message) {
+    console.log(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    return Promise.resolve();
+  },
+};
+
+export function getMailTransport(): MailTransport {
+  const transport = Deno.env.get('MAIL_TRANSPORT') ?? 'log';
+  switch (transport) {
+    case 'smtp': return smtpTransport();
+    case 'log': return logTransport;
+    default: throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
@@ -0,0 +1,24 @@
+// Sensor value parsing shared by the automation engine and history ingestion.
+
+// Valid ranges from src/lib/sensorRegistry.ts (-127 = disconnected probe)
+export const SENSOR_RANGES: Record<string, { min: number; max: number; aliases?: string[] }> = {
+  ph: { min: 0, max: 14 },
+  dissolvedOxygen: { min: 0, max: 20, aliases: ['do'] },
+  temperature: { min: -10, max: 50 },
+  ammonia: { min: 0, max: 10 },
+  nitrite: { min: 0, max: 10 },
+  salinity: { min: 0, max: 60 },
+  orp: { min: -1000, max: 1000 },
+  turbidity: { min: 0, max: 1000 },
+  waterLevel: { min: 0, max: 500 },
+};
+
+// Every known sensor, null when missing or out of range
+export function readSensorValues(raw: Record<string, unknown>): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+  for (const [key, { min, max, aliases = [] }] of Object.entries(SENSOR_RANGES)) {
+    const value = [key, ...aliases].map(k => raw[k]).find(v => typeof v === 'number' && !isNaN(v));
+    values[key] = typeof value === 'number' && value >= min && value <= max ? value : null;
+  }
+  return values;
+}
@@ -0,0 +1,8 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Service-role client for scheduled jobs; bypasses RLS, server-side only
+export const supabaseAdmin = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+  { auth: { persistSession: false } }
+);
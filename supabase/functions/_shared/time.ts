@@ -0,0 +1,46 @@
+// Wall-clock helpers for evaluating pond-local times ("HH:mm") in an IANA timezone.
+// No Deno APIs here: the app imports this file too, as @shared/time.ts.
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export function parseTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time ?? '');
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < 1440 ? minutes : null;
+}
+
+// Day-of-week (0=Sun) and minute-of-day in the given timezone
+export function localTime(now: Date, timeZone: string): { day: number; minuteOfDay: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(get('weekday')),
+    minuteOfDay: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// True when minuteOfDay falls in [from, to); windows may wrap midnight (22:00–06:00)
+export function isWithinWindow(minuteOfDay: number, from: number, to: number): boolean {
+  if (from === to) return true;
+  return from < to
+    ? minuteOfDay >= from && minuteOfDay < to
+    : minuteOfDay >= from || minuteOfDay < to;
+}
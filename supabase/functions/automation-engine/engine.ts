@@ -0,0 +1,502 @@
+// Pure auto-mode evaluation: sensors + thresholds + rules + previous state in,
+// device commands + alerts + next state + log entries out. No I/O here.
+
+import { AutomationRule, DeviceAction, DeviceType, RuleState, evaluateRule } from "./rules.ts";
+import { DeviceDefinition } from "../_shared/deviceRegistry.ts";
+
+export type ConditionType = 'low_do' | 'high_temp' | 'low_temp' | 'abnormal_ph';
+export type Severity = 'warning' | 'critical';
+
+export interface SensorReadings {
+  ph: number | null;
+  dissolvedOxygen: number | null;
+  temperature: number | null;
+  [sensor: string]: number | null;
+}
+
+// Flat keys as written by the app to ponds/{id}/config/thresholds
+export interface FlatThresholds {
+  temp_min?: number;
+  temp_max?: number;
+  ph_min?: number;
+  ph_max?: number;
+  do_min?: number;
+  [key: string]: number | undefined;
+}
+
+// Anti-chatter settings for a built-in auto-mode condition
+export interface ConditionTuning {
+  hysteresis?: number;
+  sustainSeconds?: number;
+  minOnMinutes?: number;
+  minOffMinutes?: number;
+}
+
+// Refill to a target water level, written by the app to ponds/{id}/config/refill
+export interface RefillSettings {
+  enabled: boolean;
+  startBelowCm: number;
+  targetCm: number;
+  // Safeguard: pumps stop after this long even if the target isn't reached
+  maxRuntimeMinutes: number;
+  cooldownMinutes: number;
+}
+
+export interface PondConfig {
+  thresholds?: FlatThresholds;
+  auto_mode_enabled?: boolean;
+  alerts_enabled?: boolean;
+  auto_tuning?: Partial<Record<'low_do' | 'high_temp', ConditionTuning>>;
+  refill?: Partial<RefillSettings>;
+}
+
+export interface ActiveCondition {
+  severity: Severity;
+  message: string;
+  value: number;
+  since: number;
+}
+
+export interface AutoActivation {
+  // Id of the rule holding the device
+  reason: string;
+  since: number;
+  // Timed actions release at this time even if the rule still matches
+  until?: number;
+  // State to put the device back into on release
+  restoreState: 0 | 1;
+  // Level to restore, for variable-level devices
+  restoreLevel?: number;
+}
+
+// Why the engine is holding a device in its current state
+export interface DeviceHold {
+  kind: 'sustain' | 'min_on' | 'min_off' | 'timer';
+  ruleId: string;
+  until: number;
+}
+
+// Stored at ponds/{id}/automation/state
+export interface EngineState {
+  evaluatedAt: number;
+  conditions: Partial<Record<ConditionType, ActiveCondition>>;
+  activeDevices: Partial<Record<DeviceType, AutoActivation>>;
+  rules: Record<string, RuleState>;
+  holds?: Partial<Record<DeviceType, DeviceHold>>;
+  // Set when the last run didn't evaluate, e.g. 'stale_sensors'
+  skippedReason?: string;
+}
+
+export interface DeviceCommand {
+  device: DeviceType;
+  state: 0 | 1;
+  // Set for variable-level devices
+  level?: number;
+  mode: 'auto' | 'manual';
+  reason: string;
+  // For the activity log, e.g. "Low DO → Aerator released"
+  label: string;
+}
+
+export interface AlertOutput {
+  severity: Severity;
+  message: string;
+  ruleId: string;
+}
+
+export interface LogEntry {
+  at: number;
+  type:
+    | 'condition_raised'
+    | 'condition_cleared'
+    | 'rule_triggered'
+    | 'rule_cleared'
+    | 'device_on'
+    | 'device_off'
+    | 'alert'
+    | 'snapshot';
+  condition?: ConditionType;
+  ruleId?: string;
+  device?: DeviceType;
+  message: string;
+}
+
+interface Condition {
+  type: ConditionType;
+  severity: Severity;
+  message: string;
+  value: number;
+}
+
+// Same defaults and critical margins as the app (src/lib/sensorRegistry.ts)
+const DEFAULTS = { temp_min: 24, temp_max: 32, ph_min: 6.5, ph_max: 8.5, do_min: 5 };
+const MARGIN = { temperature: 3, ph: 0.5, dissolvedOxygen: 1 };
+
+// Keeps the aerator/pump from chattering when a reading hovers at the threshold
+export const DEFAULT_TUNING: Record<'low_do' | 'high_temp', Required<ConditionTuning>> = {
+  low_do: { hysteresis: 0.5, sustainSeconds: 60, minOnMinutes: 10, minOffMinutes: 5 },
+  high_temp: { hysteresis: 1, sustainSeconds: 120, minOnMinutes: 10, minOffMinutes: 5 },
+};
+
+function tuningFor(config: PondConfig, type: 'low_do' | 'high_temp'): Required<ConditionTuning> {
+  const tuning = { ...DEFAULT_TUNING[type] };
+  for (const [key, value] of Object.entries(config.auto_tuning?.[type] ?? {})) {
+    if (typeof value === 'number' && !isNaN(value) && value >= 0) tuning[key as keyof ConditionTuning] = value;
+  }
+  return tuning;
+}
+
+// Same defaults as DEFAULT_REFILL_CONFIG in src/types/automation.ts
+export const DEFAULT_REFILL: RefillSettings = {
+  enabled: false,
+  startBelowCm: 40,
+  targetCm: 60,
+  maxRuntimeMinutes: 30,
+  cooldownMinutes: 30,
+};
+
+export const REFILL_RULE_ID = 'builtin_refill';
+
+// Null unless refill is enabled with a usable target and runtime
+export function refillSettings(config: PondConfig): RefillSettings | null {
+  const settings = { ...DEFAULT_REFILL };
+  for (const [key, value] of Object.entries(config.refill ?? {})) {
+    if (key === 'enabled') settings.enabled = value === true;
+    else if (typeof value === 'number' && !isNaN(value) && value >= 0) settings[key as Exclude<keyof RefillSettings, 'enabled'>] = value;
+  }
+  if (!settings.enabled || settings.targetCm <= settings.startBelowCm || settings.maxRuntimeMinutes <= 0) return null;
+  return settings;
+}
+
+export const emptyState = (): EngineState => ({ evaluatedAt: 0, conditions: {}, activeDevices: {}, rules: {} });
+
+function limit(thresholds: FlatThresholds | undefined, key: keyof typeof DEFAULTS): number {
+  const value = thresholds?.[key];
+  return typeof value === 'number' && !isNaN(value) ? value : DEFAULTS[key];
+}
+
+// Threshold breaches shown to the user as alerts
+export function evaluateConditions(sensors: SensorReadings, thresholds?: FlatThresholds): Condition[] {
+  const conditions: Condition[] = [];
+  const doMin = limit(thresholds, 'do_min');
+  const tempMin = limit(thresholds, 'temp_min');
+  const tempMax = limit(thresholds, 'temp_max');
+  const phMin = limit(thresholds, 'ph_min');
+  const phMax = limit(thresholds, 'ph_max');
+
+  const { dissolvedOxygen, temperature, ph } = sensors;
+
+  if (dissolvedOxygen !== null && dissolvedOxygen < doMin) {
+    conditions.push({
+      type: 'low_do',
+      severity: dissolvedOxygen < doMin - MARGIN.dissolvedOxygen ? 'critical' : 'warning',
+      message: `Low DO: ${dissolvedOxygen.toFixed(1)} mg/L`,
+      value: dissolvedOxygen,
+    });
+  }
+
+  if (temperature !== null && temperature > tempMax) {
+    conditions.push({
+      type: 'high_temp',
+      severity: temperature > tempMax + MARGIN.temperature ? 'critical' : 'warning',
+      message: `High Temp: ${temperature.toFixed(1)}°C`,
+      value: temperature,
+    });
+  }
+
+  if (temperature !== null && temperature < tempMin) {
+    conditions.push({
+      type: 'low_temp',
+      severity: temperature < tempMin - MARGIN.temperature ? 'critical' : 'warning',
+      message: `Low Temp: ${temperature.toFixed(1)}°C`,
+      value: temperature,
+    });
+  }
+
+  if (ph !== null && (ph < phMin || ph > phMax)) {
+    conditions.push({
+      type: 'abnormal_ph',
+      severity: ph < phMin - MARGIN.ph || ph > phMax + MARGIN.ph ? 'critical' : 'warning',
+      message: `Abnormal pH: ${ph.toFixed(2)}`,
+      value: ph,
+    });
+  }
+
+  return conditions;
+}
+
+// The original auto-mode behaviour, expressed as rules over the configured thresholds.
+// Low DO runs every aerator and high temperature every pump in the registry; with
+// refill enabled, a low water level runs the pumps until the target level is back.
+export function builtInRules(config: PondConfig, devices: DeviceDefinition[]): AutomationRule[] {
+  const lowDo = tuningFor(config, 'low_do');
+  const highTemp = tuningFor(config, 'high_temp');
+  const refill = refillSettings(config);
+  const switchOn = (kind: DeviceDefinition['kind'], durationMinutes?: number): DeviceAction[] =>
+    devices.filter(d => d.kind === kind).map((d): DeviceAction => ({
+      type: 'device',
+      device: d.key,
+      state: 'on',
+      ...(durationMinutes ? { durationMinutes } : {}),
+    }));
+  const refillRules: AutomationRule[] = refill ? [{
+    id: REFILL_RULE_ID,
+    name: 'Low Water → Refill',
+    enabled: true,
+    builtIn: true,
+    minOffMinutes: refill.cooldownMinutes,
+    conditions: [{
+      type: 'sensor',
+      sensor: 'waterLevel',
+      operator: '<',
+      value: refill.startBelowCm,
+      forSeconds: 60,
+      // Stays matched until the level is back up to the target
+      hysteresis: refill.targetCm - refill.startBelowCm,
+    }],
+    // The timer is the runtime safeguard; the rule stays active, so pumps won't restart until the level recovers
+    actions: switchOn('pump', refill.maxRuntimeMinutes),
+  }] : [];
+  return [
+    {
+      id: 'builtin_low_do',
+      name: 'Low DO → Aerator',
+      enabled: true,
+      builtIn: true,
+      minOnMinutes: lowDo.minOnMinutes,
+      minOffMinutes: lowDo.minOffMinutes,
+      conditions: [{
+        type: 'sensor',
+        sensor: 'dissolvedOxygen',
+        operator: '<',
+        value: limit(config.thresholds, 'do_min'),
+        forSeconds: lowDo.sustainSeconds,
+        hysteresis: lowDo.hysteresis,
+      }],
+      actions: switchOn('aerator'),
+    },
+    {
+      id: 'builtin_high_temp',
+      name: 'High Temp → Water Pump',
+      enabled: true,
+      builtIn: true,
+      minOnMinutes: highTemp.minOnMinutes,
+      minOffMinutes: highTemp.minOffMinutes,
+      conditions: [{
+        type: 'sensor',
+        sensor: 'temperature',
+        operator: '>',
+        value: limit(config.thresholds, 'temp_max'),
+        forSeconds: highTemp.sustainSeconds,
+        hysteresis: highTemp.hysteresis,
+      }],
+      actions: switchOn('pump'),
+    },
+    ...refillRules,
+  ];
+}
+
+export interface EngineInput {
+  sensors: SensorReadings;
+  config: PondConfig;
+  rules: AutomationRule[];
+  devices: DeviceDefinition[];
+  deviceStates: Partial<Record<DeviceType, 0 | 1>>;
+  // Current 0-100% output of variable-level devices
+  deviceLevels: Partial<Record<DeviceType, number>>;
+  minuteOfDay: number;
+  now: number;
+}
+
+export interface EngineResult {
+  state: EngineState;
+  commands: DeviceCommand[];
+  alerts: AlertOutput[];
+  snapshots: string[];
+  log: LogEntry[];
+}
+
+export function runEngine(input: EngineInput, previous: EngineState): EngineResult {
+  const { sensors, config, deviceStates, deviceLevels, minuteOfDay, now } = input;
+  const commands: DeviceCommand[] = [];
+  const alerts: AlertOutput[] = [];
+  const snapshots: string[] = [];
+  const log: LogEntry[] = [];
+  const state: EngineState = {
+    evaluatedAt: now,
+    conditions: {},
+    activeDevices: { ...previous.activeDevices },
+    rules: {},
+  };
+
+  // Threshold conditions (display and history only; actions come from rules)
+  for (const condition of evaluateConditions(sensors, config.thresholds)) {
+    const existing = previous.conditions[condition.type];
+    state.conditions[condition.type] = {
+      severity: condition.severity,
+      message: condition.message,
+      value: condition.value,
+      since: existing?.since ?? now,
+    };
+    if (!existing) {
+      log.push({ at: now, type: 'condition_raised', condition: condition.type, message: condition.message });
+    }
+  }
+  for (const type of Object.keys(previous.conditions) as ConditionType[]) {
+    if (state.conditions[type]) continue;
+    log.push({ at: now, type: 'condition_cleared', condition: type, message: `${type} returned to safe range` });
+  }
+
+  // Only registered devices that allow automation can be switched; removed devices are skipped
+  const controllable = input.devices.filter(d => d.capabilities.includes('automation'));
+  const controllableKeys = new Set(controllable.map(d => d.key));
+  const levelKeys = new Set(input.devices.filter(d => d.capabilities.includes('level')).map(d => d.key));
+  const rules = [...builtInRules(config, controllable), ...input.rules]
+    .filter(rule => rule.enabled)
+    .map(rule => ({
+      ...rule,
+      actions: rule.actions.filter(a => a.type !== 'device' || controllableKeys.has(a.device)),
+    }));
+  const ruleName = (id: string) => rules.find(rule => rule.id === id)?.name ?? id;
+
+  const release = (device: DeviceType, activation: AutoActivation, why: string) => {
+    delete state.activeDevices[device];
+    commands.push({
+      device,
+      state: activation.restoreState,
+      ...(activation.restoreLevel !== undefined ? { level: activation.restoreLevel } : {}),
+      mode: 'manual',
+      reason: activation.reason,
+      label: `${ruleName(activation.reason)} released`,
+    });
+    log.push({
+      at: now,
+      type: activation.restoreState === 1 ? 'device_on' : 'device_off',
+      ruleId: activation.reason,
+      device,
+      message: `${device} switched ${activation.restoreState === 1 ? 'ON' : 'OFF'} (${why})`,
+    });
+  };
+
+  const pendingHolds: Partial<Record<DeviceType, DeviceHold>> = {};
+
+  for (const rule of rules) {
+    const prior = previous.rules?.[rule.id];
+    const { matched, matchingSince, sustainedAt } = evaluateRule(rule, prior, { sensors, minuteOfDay, now });
+    const wasActive = prior?.active ?? false;
+    const activatedAt = prior?.activatedAt ?? now;
+    const minOnUntil = activatedAt + (rule.minOnMinutes ?? 0) * 60000;
+    const cooldownUntil = prior?.cooldownUntil ?? 0;
+
+    // Minimum on time keeps an active rule alive; minimum off time delays re-triggering
+    const active = wasActive ? matched || now < minOnUntil : matched && now >= cooldownUntil;
+    const nextCooldown = wasActive && !active && rule.minOffMinutes
+      ? now + rule.minOffMinutes * 60000
+      : cooldownUntil > now ? cooldownUntil : undefined;
+
+    state.rules[rule.id] = {
+      active,
+      ...(active ? { activatedAt: wasActive ? activatedAt : now } : {}),
+      matchingSince,
+      ...(nextCooldown ? { cooldownUntil: nextCooldown } : {}),
+    };
+
+    // Surface why a device is waiting, so the app can show the timer
+    const devices = rule.actions.flatMap(a => (a.type === 'device' ? [a.device] : []));
+    const hold: DeviceHold | null =
+      active && now < minOnUntil ? { kind: 'min_on', ruleId: rule.id, until: minOnUntil }
+      : !active && nextCooldown ? { kind: 'min_off', ruleId: rule.id, until: nextCooldown }
+      : !active && sustainedAt ? { kind: 'sustain', ruleId: rule.id, until: sustainedAt }
+      : null;
+    if (hold) {
+      for (const device of devices) pendingHolds[device] ??= hold;
+    }
+
+    if (active && !wasActive) {
+      log.push({ at: now, type: 'rule_triggered', ruleId: rule.id, message: `${rule.name} triggered` });
+
+      for (const action of rule.actions) {
+        if (action.type === 'device') {
+          // First rule to claim a device keeps it until it lets go
+          if (state.activeDevices[action.device]) continue;
+          const target = action.state === 'on' ? 1 : 0;
+          const current = deviceStates[action.device];
+          const restoreState = current ?? (target === 1 ? 0 : 1);
+          // Variable devices run at the action's level (full output if unset) and restore theirs
+          const hasLevel = levelKeys.has(action.device);
+          const level = hasLevel ? (target === 1 ? action.level ?? 100 : 0) : undefined;
+          state.activeDevices[action.device] = {
+            reason: rule.id,
+            since: now,
+            restoreState,
+            ...(hasLevel ? { restoreLevel: deviceLevels[action.device] ?? (restoreState === 1 ? 100 : 0) } : {}),
+            ...(action.durationMinutes ? { until: now + action.durationMinutes * 60000 } : {}),
+          };
+          commands.push({
+            device: action.device,
+            state: target,
+            ...(level !== undefined ? { level } : {}),
+            mode: 'auto',
+            reason: rule.id,
+            label: rule.name,
+          });
+          log.push({
+            at: now,
+            type: target === 1 ? 'device_on' : 'device_off',
+            ruleId: rule.id,
+            device: action.device,
+            message: `${action.device} switched ${target === 1 ? 'ON' : 'OFF'} (${rule.name})`,
+          });
+        } else if (action.type === 'alert') {
+          alerts.push({ severity: action.severity, message: action.message || rule.name, ruleId: rule.id });
+          log.push({ at: now, type: 'alert', ruleId: rule.id, message: action.message || rule.name });
+        } else if (action.type === 'snapshot') {
+          snapshots.push(rule.id);
+          log.push({ at: now, type: 'snapshot', ruleId: rule.id, message: `Camera snapshot requested (${rule.name})` });
+        }
+      }
+    }
+
+    if (!active && wasActive) {
+      log.push({ at: now, type: 'rule_cleared', ruleId: rule.id, message: `${rule.name} cleared` });
+    }
+  }
+
+  // Release devices whose rule has cleared, been removed, or whose timer ran out
+  let refillTimedOut = false;
+  for (const [device, activation] of Object.entries(state.activeDevices) as [DeviceType, AutoActivation][]) {
+    const ruleState = state.rules[activation.reason];
+    if (!input.devices.some(d => d.key === device)) {
+      // Removed from the registry - nothing left to switch back
+      delete state.activeDevices[device];
+    } else if (!ruleState?.active) {
+      release(device, activation, `${activation.reason} cleared`);
+    } else if (activation.until !== undefined && now >= activation.until) {
+      release(device, activation, `${activation.reason} timer elapsed`);
+      if (activation.reason === REFILL_RULE_ID) refillTimedOut = true;
+    }
+  }
+
+  // The target wasn't reached in time - a leak, a dry source or a stuck sensor needs looking at
+  if (refillTimedOut) {
+    const level = sensors.waterLevel;
+    const message = `Refill stopped after its maximum runtime with the water level at ${typeof level === 'number' ? `${level.toFixed(1)} cm` : 'unknown'}`;
+    alerts.push({ severity: 'warning', message, ruleId: REFILL_RULE_ID });
+    log.push({ at: now, type: 'alert', ruleId: REFILL_RULE_ID, message });
+  }
+
+  // Holds only describe devices the engine controls or is about to control
+  const holds: Partial<Record<DeviceType, DeviceHold>> = {};
+  for (const [device, hold] of Object.entries(pendingHolds) as [DeviceType, DeviceHold][]) {
+    const owner = state.activeDevices[device];
+    if (!owner || owner.reason === hold.ruleId) holds[device] = hold;
+  }
+  for (const [device, activation] of Object.entries(state.activeDevices) as [DeviceType, AutoActivation][]) {
+    if (!holds[device] && activation.until !== undefined) {
+      holds[device] = { kind: 'timer', ruleId: activation.reason, until: activation.until };
+    }
+  }
+  if (Object.keys(holds).length > 0) state.holds = holds;
+
+  return { state, commands, alerts, snapshots, log };
+}
@@ -0,0 +1,205 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  firebaseGet,
+  firebaseKeys,
+  firebasePush,
+  firebaseSet,
+  firebaseUpdate,
+  isFirebaseConfigured,
+} from "../_shared/firebase.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { DeviceSnapshot, buildCommand } from "../_shared/deviceCommand.ts";
+import { ActivityRow, reconcileAcks, recordActivity } from "../_shared/activity.ts";
+import { FeederSnapshot, reconcileDispenseAcks } from "../_shared/feeding.ts";
+import { DeviceDefinition, parseDeviceRegistry } from "../_shared/deviceRegistry.ts";
+import { isValidTimeZone, localTime } from "../_shared/time.ts";
+import { readSensorValues } from "../_shared/sensors.ts";
+import { EngineState, PondConfig, SensorReadings, emptyState, runEngine } from "./engine.ts";
+import { AutomationRule, DeviceType, parseRules } from "./rules.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Don't act on readings from a board that has stopped reporting
+const STALE_SENSOR_MS = 5 * 60 * 1000;
+
+interface PondResult {
+  pondId: string;
+  status: 'evaluated' | 'auto_mode_off' | 'stale' | 'no_data' | 'error';
+  commands?: number;
+  error?: string;
+}
+
+function parseSensors(raw: Record<string, unknown>): SensorReadings {
+  return { ph: null, dissolvedOxygen: null, temperature: null, ...readSensorValues(raw) };
+}
+
+function parseDeviceLevels(raw: Record<string, DeviceSnapshot> | null): Partial<Record<DeviceType, number>> {
+  const levels: Partial<Record<DeviceType, number>> = {};
+  for (const [device, value] of Object.entries(raw ?? {})) {
+    if (value && typeof value.level === 'number') levels[device] = value.level;
+  }
+  return levels;
+}
+
+function parseDeviceStates(raw: Record<string, DeviceSnapshot> | null): Partial<Record<DeviceType, 0 | 1>> {
+  const states: Partial<Record<DeviceType, 0 | 1>> = {};
+  for (const [device, value] of Object.entries(raw ?? {})) {
+    if (value && typeof value.state === 'number') states[device as DeviceType] = value.state === 1 ? 1 : 0;
+  }
+  return states;
+}
+
+async function evaluatePond(pondId: string, timeZone: string, now: number): Promise<PondResult> {
+  const base = `ponds/${pondId}`;
+  const [config, rawSensors, lastSeen, previous, rawRules, rawDevices, rawRegistry] = await Promise.all([
+    firebaseGet<PondConfig>(`${base}/config`),
+    firebaseGet<Record<string, unknown>>(`${base}/sensors`),
+    firebaseGet<number>(`${base}/lastSeen`),
+    firebaseGet<EngineState>(`${base}/automation/state`),
+    firebaseGet<Record<string, Partial<AutomationRule>>>(`${base}/rules`),
+    firebaseGet<Record<string, DeviceSnapshot & FeederSnapshot>>(`${base}/devices`),
+    firebaseGet<Record<string, Partial<DeviceDefinition>>>(`${base}/deviceRegistry`),
+  ]);
+
+  // Runs for every pond, auto mode or not, so manual and schedule commands get their ack result too
+  await reconcileAcks(pondId, rawDevices, now);
+  await reconcileDispenseAcks(pondId, rawDevices, now);
+
+  if (!config?.auto_mode_enabled) {
+    // The user has taken over; forget what we switched on but leave devices as they are
+    if (previous && Object.keys(previous.activeDevices ?? {}).length > 0) {
+      await firebaseSet(`${base}/automation/state`, { ...emptyState(), evaluatedAt: now });
+    }
+    return { pondId, status: 'auto_mode_off' };
+  }
+
+  if (!rawSensors) return { pondId, status: 'no_data' };
+
+  if (typeof lastSeen === 'number' && now - lastSeen > STALE_SENSOR_MS) {
+    await firebaseUpdate(`${base}/automation/state`, { evaluatedAt: now, skippedReason: 'stale_sensors' });
+    return { pondId, status: 'stale' };
+  }
+
+  const priorState: EngineState = {
+    ...emptyState(),
+    ...previous,
+    conditions: previous?.conditions ?? {},
+    activeDevices: previous?.activeDevices ?? {},
+    rules: previous?.rules ?? {},
+  };
+
+  const result = runEngine({
+    sensors: parseSensors(rawSensors),
+    config,
+    rules: parseRules(rawRules),
+    devices: parseDeviceRegistry(rawRegistry),
+    deviceStates: parseDeviceStates(rawDevices),
+    deviceLevels: parseDeviceLevels(rawDevices),
+    minuteOfDay: localTime(new Date(now), timeZone).minuteOfDay,
+    now,
+  }, priorState);
+
+  // Device commands first, so the state never claims a device the board wasn't told about
+  if (result.commands.length > 0) {
+    const updates: Record<string, unknown> = {};
+    const activity: ActivityRow[] = [];
+    const deviceStates = parseDeviceStates(rawDevices);
+    const deviceLevels = parseDeviceLevels(rawDevices);
+    for (const command of result.commands) {
+      const { commandId, updates: commandWrites } = buildCommand(command.device, command.state, command.mode, 'automation', command.level);
+      Object.assign(updates, commandWrites);
+      activity.push({
+        pond_id: pondId,
+        device_type: command.device,
+        source: 'auto',
+        actor_label: command.label,
+        previous_state: deviceStates[command.device] ?? null,
+        new_state: command.state,
+        ...(command.level !== undefined ? { previous_level: deviceLevels[command.device] ?? null, new_level: command.level } : {}),
+        command_id: commandId,
+      });
+    }
+    await firebaseUpdate(base, updates);
+    await recordActivity(activity);
+  }
+
+  await firebaseSet(`${base}/automation/state`, result.state);
+
+  // Rule alerts land with the sensor alerts so the app's alert feed picks them up
+  for (const alert of result.alerts) {
+    await firebasePush(`${base}/alerts`, {
+      type: 'system',
+      message: alert.message,
+      severity: alert.severity,
+      timestamp: now,
+      acknowledged: false,
+      ruleId: alert.ruleId,
+    });
+  }
+  // Camera gateways watch this queue and upload a still for each request
+  for (const ruleId of result.snapshots) {
+    await firebasePush(`${base}/snapshotRequests`, { requestedAt: now, ruleId });
+  }
+
+  for (const entry of result.log) {
+    await firebasePush(`${base}/automation/log`, entry);
+  }
+
+  if (result.commands.length > 0) {
+    console.log(`[automation] ${pondId}:`, result.commands.map(c => `${c.device}=${c.state}`).join(', '));
+  }
+
+  return { pondId, status: 'evaluated', commands: result.commands.length };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (!isFirebaseConfigured()) {
+      console.error('FIREBASE_DATABASE_URL / FIREBASE_DATABASE_SECRET not configured');
+      return new Response(
+        JSON.stringify({ error: 'Automation engine not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled runs evaluate every pond; `{ pondId }` evaluates a single pond
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const pondIds: string[] = typeof body.pondId === 'string' ? [body.pondId] : await firebaseKeys('ponds');
+
+    // Time-window conditions are pond-local
+    const { data: pondRows, error: pondError } = await supabaseAdmin.from('ponds').select('id, timezone');
+    if (pondError) console.error('[automation] Failed to load pond timezones:', pondError);
+    const timeZones = new Map((pondRows ?? []).map((p: { id: string; timezone: string }) => [p.id, p.timezone]));
+
+    const now = Date.now();
+    const results: PondResult[] = [];
+    for (const pondId of pondIds) {
+      const timeZone = timeZones.get(pondId);
+      try {
+        results.push(await evaluatePond(pondId, isValidTimeZone(timeZone) ? timeZone : 'UTC', now));
+      } catch (error) {
+        console.error(`[automation] Error evaluating pond ${pondId}:`, error);
+        results.push({ pondId, status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ evaluatedAt: now, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error running automation engine:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
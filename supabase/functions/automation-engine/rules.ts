@@ -0,0 +1,111 @@
+// Evaluation of automation rules, shared by built-in auto mode and user rules.
+
+import { isWithinWindow, parseTime } from "../_shared/time.ts";
+import {
+  RuleDefinition,
+  RuleDeviceType,
+  RuleOperator,
+  SensorCondition,
+} from "../_shared/automationRules.ts";
+
+export type { DeviceAction } from "../_shared/automationRules.ts";
+
+// Key under ponds/{pondId}/devices, from the pond's device registry
+export type DeviceType = RuleDeviceType;
+
+export interface AutomationRule extends RuleDefinition {
+  builtIn?: boolean;
+}
+
+export interface RuleState {
+  active: boolean;
+  activatedAt?: number;
+  // When each sensor condition (by index) started matching
+  matchingSince?: Record<string, number>;
+  // Set on clear when the rule has a minimum off time
+  cooldownUntil?: number;
+}
+
+export interface RuleContext {
+  sensors: Record<string, number | null>;
+  minuteOfDay: number;
+  now: number;
+}
+
+function compare(value: number, operator: RuleOperator, target: number): boolean {
+  switch (operator) {
+    case '<': return value < target;
+    case '<=': return value <= target;
+    case '>': return value > target;
+    case '>=': return value >= target;
+  }
+}
+
+// Widen the comparison by the hysteresis band while the rule is active
+function releaseTarget(condition: SensorCondition, active: boolean): number {
+  const band = active ? condition.hysteresis ?? 0 : 0;
+  return condition.operator === '<' || condition.operator === '<=' ? condition.value + band : condition.value - band;
+}
+
+export interface RuleEvaluation {
+  matched: boolean;
+  matchingSince: Record<string, number>;
+  // When every condition matches but one is still waiting out forSeconds
+  sustainedAt?: number;
+}
+
+// Evaluate a rule's conditions; returns whether it matches and the updated timers
+export function evaluateRule(
+  rule: AutomationRule,
+  previous: RuleState | undefined,
+  context: RuleContext
+): RuleEvaluation {
+  const matchingSince: Record<string, number> = {};
+  const active = previous?.active ?? false;
+  let matched = rule.conditions.length > 0;
+  let pending = false;
+  let sustainedAt = 0;
+
+  rule.conditions.forEach((condition, index) => {
+    if (condition.type === 'time') {
+      const from = parseTime(condition.from);
+      const to = parseTime(condition.to);
+      if (from === null || to === null || !isWithinWindow(context.minuteOfDay, from, to)) matched = false;
+      return;
+    }
+
+    const value = context.sensors[condition.sensor];
+    // A missing reading never satisfies a condition
+    if (typeof value !== 'number' || !compare(value, condition.operator, releaseTarget(condition, active))) {
+      matched = false;
+      return;
+    }
+
+    const since = previous?.matchingSince?.[index] ?? context.now;
+    matchingSince[index] = since;
+    const readyAt = since + (condition.forSeconds ?? 0) * 1000;
+    // Sustain only gates triggering; an active rule is already past it
+    if (!active && context.now < readyAt) {
+      pending = true;
+      sustainedAt = Math.max(sustainedAt, readyAt);
+    }
+  });
+
+  if (matched && pending) return { matched: false, matchingSince, sustainedAt };
+  return { matched, matchingSince };
+}
+
+export function parseRules(raw: Record<string, Partial<AutomationRule>> | null): AutomationRule[] {
+  if (!raw) return [];
+  return Object.entries(raw)
+    .filter(([, rule]) => rule && typeof rule === 'object')
+    .map(([id, rule]) => ({
+      id,
+      name: rule.name ?? id,
+      enabled: rule.enabled !== false,
+      ...(typeof rule.minOnMinutes === 'number' ? { minOnMinutes: rule.minOnMinutes } : {}),
+      ...(typeof rule.minOffMinutes === 'number' ? { minOffMinutes: rule.minOffMinutes } : {}),
+      conditions: Array.isArray(rule.conditions) ? rule.conditions : Object.values(rule.conditions ?? {}),
+      actions: Array.isArray(rule.actions) ? rule.actions : Object.values(rule.actions ?? {}),
+    }));
+}
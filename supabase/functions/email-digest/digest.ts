@@ -0,0 +1,121 @@
+// Pond health digest: the figures for each pond and the email built from them.
+
+import { DeviceRuntimeTotals, formatDuration } from "../_shared/deviceRuntime.ts";
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DeviceRuntime extends DeviceRuntimeTotals {
+  name: string;
+}
+
+export interface PondDigest {
+  pondName: string;
+  doThreshold: number;
+  // Null when the pond stored no DO readings in the period
+  dissolvedOxygen: { min: number; avg: number; max: number } | null;
+  msBelowThreshold: number;
+  alerts: { critical: number; warning: number; info: number };
+  runtimes: DeviceRuntime[];
+}
+
+export interface Digest {
+  frequency: DigestFrequency;
+  from: Date;
+  to: Date;
+  timeZone: string;
+  ponds: PondDigest[];
+}
+
+function formatPeriod(digest: Digest): string {
+  const format = (date: Date) => new Intl.DateTimeFormat('en-GB', {
+    timeZone: digest.timeZone,
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(date);
+  return `${format(digest.from)} - ${format(digest.to)}`;
+}
+
+function alertSummary(alerts: PondDigest['alerts']): string {
+  const total = alerts.critical + alerts.warning + alerts.info;
+  if (total === 0) return 'none';
+  const parts = [
+    alerts.critical ? `${alerts.critical} critical` : '',
+    alerts.warning ? `${alerts.warning} warning` : '',
+    alerts.info ? `${alerts.info} info` : '',
+  ].filter(Boolean);
+  return `${total} (${parts.join(', ')})`;
+}
+
+function oxygenSummary(pond: PondDigest): string {
+  const oxygen = pond.dissolvedOxygen;
+  if (!oxygen) return 'no readings';
+  return `min ${oxygen.min.toFixed(2)}, avg ${oxygen.avg.toFixed(2)}, max ${oxygen.max.toFixed(2)} mg/L`;
+}
+
+function belowSummary(pond: PondDigest): string {
+  return pond.dissolvedOxygen ? formatDuration(pond.msBelowThreshold) : '-';
+}
+
+function runtimeLine(runtime: DeviceRuntime): string {
+  return `${runtime.name}: ${formatDuration(runtime.runtimeMs)} (switched on ${runtime.switchOns}x)`;
+}
+
+export function digestSubject(digest: Digest): string {
+  const critical = digest.ponds.reduce((sum, pond) => sum + pond.alerts.critical, 0);
+  const title = digest.frequency === 'weekly' ? 'Weekly pond digest' : 'Daily pond digest';
+  return critical > 0 ? `${title} - ${critical} critical alert${critical === 1 ? '' : 's'}` : title;
+}
+
+export function renderDigestText(digest: Digest): string {
+  const lines = [digestSubject(digest), formatPeriod(digest), ''];
+  for (const pond of digest.ponds) {
+    lines.push(
+      pond.pondName,
+      `  Dissolved oxygen: ${oxygenSummary(pond)}`,
+      `  Below ${pond.doThreshold} mg/L: ${belowSummary(pond)}`,
+      `  Alerts: ${alertSummary(pond.alerts)}`,
+      pond.runtimes.length ? '  Devices:' : '  Devices: no activity',
+      ...pond.runtimes.map(runtime => `    ${runtimeLine(runtime)}`),
+      ''
+    );
+  }
+  lines.push('You can turn this email off under Notifications.');
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function renderDigestHtml(digest: Digest): string {
+  const row = (label: string, value: string, highlight = false) =>
+    `<tr><td style="padding:4px 12px 4px 0;color:#64748b">${label}</td>` +
+    `<td style="padding:4px 0;${highlight ? 'color:#dc2626;font-weight:600' : ''}">${value}</td></tr>`;
+
+  const ponds = digest.ponds.map(pond => {
+    const devices = pond.runtimes.length
+      ? pond.runtimes.map(runtime => escapeHtml(runtimeLine(runtime))).join('<br>')
+      : 'No activity';
+    return `<h2 style="font-size:16px;margin:24px 0 8px">${escapeHtml(pond.pondName)}</h2>` +
+      '<table style="border-collapse:collapse;font-size:14px">' +
+      row('Dissolved oxygen', oxygenSummary(pond)) +
+      row(`Below ${pond.doThreshold} mg/L`, belowSummary(pond), pond.msBelowThreshold > 0) +
+      row('Alerts', alertSummary(pond.alerts), pond.alerts.critical > 0) +
+      row('Devices', devices) +
+      '</table>';
+  }).join('');
+
+  return '<div style="font-family:Arial,sans-serif;color:#0f172a;max-width:560px">' +
+    `<h1 style="font-size:20px;margin:0">${escapeHtml(digestSubject(digest))}</h1>` +
+    `<p style="color:#64748b;margin:4px 0 0">${escapeHtml(formatPeriod(digest))}</p>` +
+    ponds +
+    '<p style="color:#94a3b8;font-size:12px;margin-top:24px">You can turn this email off under Notifications.</p>' +
+    '</div>';
+}
@@ -0,0 +1,285 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { firebaseGet, firebaseQuery, isFirebaseConfigured } from "../_shared/firebase.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { DeviceDefinition, parseDeviceRegistry } from "../_shared/deviceRegistry.ts";
+import { MailTransport, getMailTransport } from "../_shared/mail.ts";
+import { isValidTimeZone, localTime } from "../_shared/time.ts";
+import { RuntimeActivityRow, deviceRuntimes } from "../_shared/deviceRuntime.ts";
+import {
+  Digest,
+  DigestFrequency,
+  PondDigest,
+  digestSubject,
+  renderDigestHtml,
+  renderDigestText,
+} from "./digest.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const PERIOD_MS: Record<DigestFrequency, number> = {
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+};
+// A digest claimed this recently is not sent again, even if the job is retried
+const RESEND_GUARD_MS = 20 * HOUR_MS;
+// Registry safe minimum, used when neither the pond nor the user set one
+const DEFAULT_DO_MIN = 5.0;
+const PAGE_SIZE = 1000;
+const MONDAY = 1;
+
+interface Preferences {
+  user_id: string;
+  digest_frequency: string;
+  digest_hour: number;
+  timezone: string;
+  last_digest_at: string | null;
+}
+
+interface UserResult {
+  userId: string;
+  status: 'sent' | 'already_sent' | 'no_email' | 'no_ponds' | 'error';
+  ponds?: number;
+  error?: string;
+}
+
+function frequencyOf(prefs: Preferences): DigestFrequency {
+  return prefs.digest_frequency === 'weekly' ? 'weekly' : 'daily';
+}
+
+// The cron job calls with the service role key. verify_jwt also lets the anon key
+// and user tokens through; those may only ask for the caller's own digest.
+async function callerOf(req: Request): Promise<{ serviceRole: boolean; userId: string | null }> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  if (token && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return { serviceRole: true, userId: null };
+  if (!token) return { serviceRole: false, userId: null };
+  const { data } = await supabaseAdmin.auth.getUser(token);
+  return { serviceRole: false, userId: data.user?.id ?? null };
+}
+
+// The job runs hourly; a digest is due in the run that falls in the user's local hour
+function isDue(prefs: Preferences, now: Date): boolean {
+  const timeZone = isValidTimeZone(prefs.timezone) ? prefs.timezone : 'UTC';
+  const { day, minuteOfDay } = localTime(now, timeZone);
+  if (Math.floor(minuteOfDay / 60) !== prefs.digest_hour) return false;
+  return frequencyOf(prefs) === 'daily' || day === MONDAY;
+}
+
+// Marks the digest as sent before it goes out, so overlapping runs can't both send it
+async function claimDigest(prefs: Preferences, now: Date): Promise<boolean> {
+  const cutoff = new Date(now.getTime() - RESEND_GUARD_MS).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('notification_preferences')
+    .update({ last_digest_at: now.toISOString() })
+    .eq('user_id', prefs.user_id)
+    .or(`last_digest_at.is.null,last_digest_at.lt.${cutoff}`)
+    .select('user_id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+async function releaseDigest(prefs: Preferences): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('notification_preferences')
+    .update({ last_digest_at: prefs.last_digest_at })
+    .eq('user_id', prefs.user_id);
+  if (error) console.error(`[email-digest] Error releasing digest for user ${prefs.user_id}:`, error);
+}
+
+async function loadActivity(pondId: string, from: Date, to: Date): Promise<RuntimeActivityRow[]> {
+  const rows: RuntimeActivityRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('device_activity')
+      .select('device_type, new_state, ack_result, created_at')
+      .eq('pond_id', pondId)
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+async function buildPondDigest(
+  pond: { id: string; name: string; thresholds: Record<string, Record<string, unknown>> | null },
+  userDoMin: number | null,
+  from: Date,
+  to: Date
+): Promise<PondDigest> {
+  // Same order as the app: pond profile, then the user's defaults, then the registry
+  const pondDoMin = pond.thresholds?.dissolvedOxygen?.min;
+  const doThreshold = typeof pondDoMin === 'number' ? pondDoMin : userDoMin ?? DEFAULT_DO_MIN;
+
+  const [summary, alerts, registry, activity, startStates] = await Promise.all([
+    supabaseAdmin.rpc('dissolved_oxygen_summary', {
+      _pond_id: pond.id,
+      _from: from.toISOString(),
+      _to: to.toISOString(),
+      _threshold: doThreshold,
+    }),
+    firebaseQuery<Record<string, Record<string, unknown>>>(
+      `ponds/${pond.id}/alerts`,
+      'timestamp',
+      { startAt: from.getTime(), endAt: to.getTime() - 1 }
+    ),
+    firebaseGet<Record<string, Partial<DeviceDefinition>>>(`ponds/${pond.id}/deviceRegistry`),
+    loadActivity(pond.id, from, to),
+    supabaseAdmin.rpc('device_states_at', { _pond_id: pond.id, _at: from.toISOString() }),
+  ]);
+  if (summary.error) throw summary.error;
+  if (startStates.error) throw startStates.error;
+
+  const oxygen = summary.data?.[0];
+  const alertCounts = { critical: 0, warning: 0, info: 0 };
+  for (const alert of Object.values(alerts ?? {})) {
+    const severity = alert?.severity;
+    if (severity === 'critical' || severity === 'info') alertCounts[severity]++;
+    else alertCounts.warning++;
+  }
+  const names = Object.fromEntries(parseDeviceRegistry(registry).map(device => [device.key, device.name]));
+
+  return {
+    pondName: pond.name,
+    doThreshold,
+    dissolvedOxygen: oxygen && oxygen.reading_count > 0
+      ? {
+        min: Number(oxygen.min_dissolved_oxygen),
+        avg: Number(oxygen.avg_dissolved_oxygen),
+        max: Number(oxygen.max_dissolved_oxygen),
+      }
+      : null,
+    msBelowThreshold: Number(oxygen?.seconds_below_threshold ?? 0) * 1000,
+    alerts: alertCounts,
+    runtimes: deviceRuntimes(
+      activity,
+      Object.fromEntries((startStates.data ?? []).map((row: { device_type: string; state: number }) => [row.device_type, row.state])),
+      from.getTime(),
+      to.getTime()
+    ).map(runtime => ({ ...runtime, name: names[runtime.device] ?? runtime.device })),
+  };
+}
+
+async function sendDigest(prefs: Preferences, now: Date, transport: MailTransport): Promise<UserResult> {
+  const userId = prefs.user_id;
+
+  const { data: userData, error: userError } = await supabaseAdmin.auth.admin.getUserById(userId);
+  if (userError) throw userError;
+  const email = userData.user?.email;
+  if (!email) return { userId, status: 'no_email' };
+
+  const [{ data: ponds, error: pondError }, { data: settings, error: settingsError }] = await Promise.all([
+    supabaseAdmin.from('ponds').select('id, name, thresholds').eq('user_id', userId).order('name'),
+    supabaseAdmin.from('user_settings').select('do_min').eq('user_id', userId).maybeSingle(),
+  ]);
+  if (pondError) throw pondError;
+  if (settingsError) throw settingsError;
+  if (!ponds || ponds.length === 0) return { userId, status: 'no_ponds' };
+
+  const frequency = frequencyOf(prefs);
+  const from = new Date(now.getTime() - PERIOD_MS[frequency]);
+  const userDoMin = settings ? Number(settings.do_min) : null;
+
+  const pondDigests: PondDigest[] = [];
+  for (const pond of ponds) {
+    pondDigests.push(await buildPondDigest(pond, userDoMin, from, now));
+  }
+
+  const digest: Digest = {
+    frequency,
+    from,
+    to: now,
+    timeZone: isValidTimeZone(prefs.timezone) ? prefs.timezone : 'UTC',
+    ponds: pondDigests,
+  };
+  await transport.send({
+    to: email,
+    subject: digestSubject(digest),
+    text: renderDigestText(digest),
+    html: renderDigestHtml(digest),
+  });
+
+  return { userId, status: 'sent', ponds: pondDigests.length };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (!isFirebaseConfigured()) {
+      console.error('FIREBASE_DATABASE_URL / FIREBASE_DATABASE_SECRET not configured');
+      return new Response(
+        JSON.stringify({ error: 'Email digest not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled runs send every digest that is due; `{ userId }` sends one user's digest now
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    const forced = typeof body.userId === 'string';
+    const caller = await callerOf(req);
+    if (!caller.serviceRole && !(forced && caller.userId === body.userId)) {
+      return new Response(
+        JSON.stringify({ error: 'Forbidden' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const transport = getMailTransport();
+    const now = new Date();
+
+    if (forced) {
+      // Never opened Notifications; a row with the defaults holds the resend guard
+      const { error: seedError } = await supabaseAdmin
+        .from('notification_preferences')
+        .upsert({ user_id: body.userId }, { onConflict: 'user_id', ignoreDuplicates: true });
+      if (seedError) throw seedError;
+    }
+
+    let query = supabaseAdmin
+      .from('notification_preferences')
+      .select('user_id, digest_frequency, digest_hour, timezone, last_digest_at');
+    query = forced ? query.eq('user_id', body.userId) : query.eq('email_enabled', true);
+    const { data: prefRows, error: prefError } = await query;
+    if (prefError) throw prefError;
+
+    // A forced digest skips the schedule but not the resend guard
+    const due: Preferences[] = forced ? prefRows ?? [] : (prefRows ?? []).filter(prefs => isDue(prefs, now));
+
+    const results: UserResult[] = [];
+    for (const prefs of due) {
+      try {
+        if (!(await claimDigest(prefs, now))) {
+          results.push({ userId: prefs.user_id, status: 'already_sent' });
+          continue;
+        }
+        results.push(await sendDigest(prefs, now, transport));
+      } catch (error) {
+        console.error(`[email-digest] Error sending digest for user ${prefs.user_id}:`, error);
+        results.push({ userId: prefs.user_id, status: 'error', error: error instanceof Error ? error.message : String(error) });
+        // Nothing went out, so the next run may try again
+        await releaseDigest(prefs);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ transport: transport.name, sentAt: now.getTime(), results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error sending email digests:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,57 @@
+// Pure feeding-plan timing: which rations are due right now in a pond's timezone.
+
+import { localTime, parseTime } from "../_shared/time.ts";
+import { FeedRation, FeedingPlan } from "../_shared/feedingPlan.ts";
+import { dueEvent } from "./schedule.ts";
+
+// A plan as read back from Firebase: any field may be missing
+export interface FeedingPlanData extends Partial<Omit<FeedingPlan, 'rations'>> {
+  rations?: FeedRation[] | Record<string, FeedRation>;
+}
+
+export interface DueRation {
+  deviceType: string;
+  time: string;
+  grams: number;
+  // The exact UTC instant the ration was due, truncated to the minute
+  scheduledFor: Date;
+  plan: FeedingPlanData;
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export function findDueRations(
+  plans: Record<string, FeedingPlanData | null> | null,
+  now: Date,
+  timeZone: string
+): DueRation[] {
+  if (!plans) return [];
+
+  const local = localTime(now, timeZone);
+  const rations: DueRation[] = [];
+
+  for (const [deviceType, plan] of Object.entries(plans)) {
+    if (!plan || typeof plan !== 'object' || plan.enabled !== true) continue;
+    const dailyGrams = typeof plan.dailyGrams === 'number' ? plan.dailyGrams : 0;
+    if (dailyGrams <= 0) continue;
+
+    // Firebase may hand arrays back as index-keyed objects
+    for (const ration of Object.values(plan.rations ?? {})) {
+      if (!ration || typeof ration.percent !== 'number' || ration.percent <= 0) continue;
+      const target = parseTime(ration.time);
+      if (target === null) continue;
+
+      const scheduledFor = dueEvent(target, now, local, EVERY_DAY);
+      if (!scheduledFor) continue;
+      rations.push({
+        deviceType,
+        time: ration.time,
+        grams: Math.round(dailyGrams * ration.percent / 10) / 10,
+        scheduledFor,
+        plan,
+      });
+    }
+  }
+
+  return rations.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+}
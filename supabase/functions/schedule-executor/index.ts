@@ -0,0 +1,363 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { firebaseGet, firebasePush, firebaseUpdate, isFirebaseConfigured } from "../_shared/firebase.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { isValidTimeZone } from "../_shared/time.ts";
+import { DeviceSnapshot, buildCommand } from "../_shared/deviceCommand.ts";
+import { recordActivity } from "../_shared/activity.ts";
+import { RECONCILE_WINDOW_MS, buildDispense } from "../_shared/feeding.ts";
+import { DeviceDefinition, parseDeviceRegistry } from "../_shared/deviceRegistry.ts";
+import { CATCH_UP_MINUTES, DueEvent, ScheduleData, findDueEvents } from "./schedule.ts";
+import { DueRation, FeedingPlanData, findDueRations } from "./feeding.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface PondRow {
+  id: string;
+  timezone: string;
+}
+
+// Feeding is held back below this DO when neither the plan nor the pond sets a minimum
+const DEFAULT_MIN_DO = 5;
+// Don't judge feeding on readings from a board that has stopped reporting
+const STALE_SENSOR_MS = 5 * 60 * 1000;
+// A pending claim this old was abandoned mid-run (same as claim_schedule_execution)
+const ABANDONED_CLAIM_MS = 2 * 60 * 1000;
+
+interface EventResult {
+  pondId: string;
+  scheduleId: string;
+  action: 'ON' | 'OFF';
+  status: 'success' | 'failed' | 'skipped' | 'already_executed';
+}
+
+interface RationResult {
+  pondId: string;
+  deviceType: string;
+  time: string;
+  status: 'dispensing' | 'suppressed' | 'failed' | 'already_executed';
+}
+
+async function finishExecution(pondId: string, event: DueEvent, status: 'success' | 'failed' | 'skipped', message?: string) {
+  const { error } = await supabaseAdmin
+    .from('schedule_executions')
+    .update({ status, message: message ?? null, executed_at: new Date().toISOString() })
+    .match({
+      pond_id: pondId,
+      schedule_id: event.scheduleId,
+      action: event.action,
+      scheduled_for: event.scheduledFor.toISOString(),
+    });
+
+  if (error) console.error('[schedule-executor] Failed to record execution:', error);
+}
+
+// Whether a command id recorded on a claim reached the device
+async function commandLanded(pondId: string, deviceType: string, commandId: string): Promise<boolean> {
+  const device = await firebaseGet<DeviceSnapshot>(`ponds/${pondId}/devices/${deviceType}`);
+  return device?.command?.id === commandId || device?.ack?.commandId === commandId;
+}
+
+async function runEvent(pondId: string, event: DueEvent, autoModeEnabled: boolean): Promise<EventResult['status']> {
+  // Only the caller that wins the claim may act on this event. A claim left
+  // pending by a run that died is reclaimed, so an event fires at least once.
+  const { data: claimed, error: claimError } = await supabaseAdmin.rpc('claim_schedule_execution', {
+    _pond_id: pondId,
+    _schedule_id: event.scheduleId,
+    _device_type: event.deviceType,
+    _action: event.action,
+    _scheduled_for: event.scheduledFor.toISOString(),
+  });
+
+  if (claimError) throw claimError;
+  if (!claimed) return 'already_executed';
+
+  const match = {
+    pond_id: pondId,
+    schedule_id: event.scheduleId,
+    action: event.action,
+    scheduled_for: event.scheduledFor.toISOString(),
+  };
+  const { data: execution, error: executionError } = await supabaseAdmin
+    .from('schedule_executions')
+    .select('command_id')
+    .match(match)
+    .single();
+  if (executionError) throw executionError;
+
+  // An earlier attempt recorded its command; don't send it again if it got through
+  if (execution.command_id && await commandLanded(pondId, event.deviceType, execution.command_id)) {
+    await finishExecution(pondId, event, 'success', 'Sent by an earlier attempt');
+    return 'success';
+  }
+
+  // Auto mode overrides all schedules
+  if (autoModeEnabled) {
+    await finishExecution(pondId, event, 'skipped', 'Auto mode enabled');
+    return 'skipped';
+  }
+
+  const base = `ponds/${pondId}`;
+  const schedulePath = `schedules/${event.deviceType}/${event.scheduleId}`;
+
+  try {
+    const newState = event.action === 'ON' ? 1 : 0;
+    // Level schedules run at their setpoint and switch to 0% at the end
+    const level = typeof event.schedule.level === 'number' ? (newState === 1 ? event.schedule.level : 0) : undefined;
+    const previous = await firebaseGet<DeviceSnapshot>(`${base}/devices/${event.deviceType}`);
+    const { commandId, updates: commandWrites } = buildCommand(event.deviceType, newState, 'manual', 'schedule', level);
+    const updates: Record<string, unknown> = {
+      ...commandWrites,
+      [`${schedulePath}/lastExecuted`]: Date.now(),
+    };
+
+    // 'once' schedules disable themselves after switching off
+    if (event.action === 'OFF' && event.schedule.repeat === 'once') {
+      updates[`${schedulePath}/enabled`] = false;
+      updates[`${schedulePath}/isActive`] = false;
+    }
+
+    // Recorded first, so a retry can tell whether this write got through
+    const { error: recordError } = await supabaseAdmin
+      .from('schedule_executions')
+      .update({ command_id: commandId })
+      .match(match);
+    if (recordError) throw recordError;
+
+    await firebaseUpdate(base, updates);
+    await finishExecution(pondId, event, 'success');
+    await recordActivity([{
+      pond_id: pondId,
+      device_type: event.deviceType,
+      source: 'schedule',
+      actor_label: `Schedule ${event.schedule.startTime}–${event.schedule.endTime}`,
+      previous_state: previous?.state === 1 ? 1 : previous?.state === 0 ? 0 : null,
+      new_state: newState,
+      ...(level !== undefined ? { previous_level: previous?.level ?? null, new_level: level } : {}),
+      command_id: commandId,
+    }]);
+    console.log(`[schedule-executor] ${pondId}/${event.deviceType} → ${event.action} (schedule:${event.scheduleId})`);
+    return 'success';
+  } catch (error) {
+    console.error(`[schedule-executor] Failed to send ${event.action} to ${event.deviceType}:`, error);
+    await finishExecution(pondId, event, 'failed', error instanceof Error ? error.message : String(error));
+    return 'failed';
+  }
+}
+
+// Claims abandoned mid-run after their catch-up window has passed can't be
+// retried any more; settle them from the device so none stays pending unseen
+async function settleAbandonedClaims(now: Date): Promise<void> {
+  const { data: abandoned, error } = await supabaseAdmin
+    .from('schedule_executions')
+    .select('id, pond_id, device_type, command_id')
+    .eq('status', 'pending')
+    .lt('claimed_at', new Date(now.getTime() - ABANDONED_CLAIM_MS).toISOString())
+    .lt('scheduled_for', new Date(now.getTime() - CATCH_UP_MINUTES * 60000).toISOString());
+  if (error) throw error;
+
+  for (const row of abandoned ?? []) {
+    const landed = row.command_id !== null && await commandLanded(row.pond_id, row.device_type, row.command_id);
+    const { error: updateError } = await supabaseAdmin
+      .from('schedule_executions')
+      .update(landed
+        ? { status: 'success', message: 'Run interrupted after the command was sent', executed_at: now.toISOString() }
+        : { status: 'failed', message: 'Run interrupted before the command was sent', executed_at: now.toISOString() })
+      .eq('id', row.id)
+      .eq('status', 'pending');
+    if (updateError) console.error('[schedule-executor] Failed to settle abandoned execution:', updateError);
+  }
+}
+
+// Rations claimed by a run that died before it sent the dispense never reach the
+// feeder; those sent but never reconciled are past the ack window. Neither would
+// ever leave 'pending' otherwise.
+async function settleAbandonedRations(now: Date): Promise<void> {
+  const { error: unsentError } = await supabaseAdmin
+    .from('feed_logs')
+    .update({ status: 'failed', message: 'Run interrupted before the dispense was sent', cost: null })
+    .eq('source', 'plan')
+    .eq('status', 'pending')
+    .is('dispense_id', null)
+    .lt('created_at', new Date(now.getTime() - ABANDONED_CLAIM_MS).toISOString());
+  if (unsentError) console.error('[schedule-executor] Failed to settle abandoned rations:', unsentError);
+
+  const { error: unackedError } = await supabaseAdmin
+    .from('feed_logs')
+    .update({ status: 'unconfirmed' })
+    .eq('status', 'pending')
+    .not('dispense_id', 'is', null)
+    .lt('created_at', new Date(now.getTime() - RECONCILE_WINDOW_MS).toISOString());
+  if (unackedError) console.error('[schedule-executor] Failed to settle unacknowledged dispenses:', unackedError);
+}
+
+// Latest DO reading, or null when there is none we can trust
+async function readDissolvedOxygen(pondId: string, now: number): Promise<number | null> {
+  const [sensors, lastSeen] = await Promise.all([
+    firebaseGet<Record<string, unknown>>(`ponds/${pondId}/sensors`),
+    firebaseGet<number>(`ponds/${pondId}/lastSeen`),
+  ]);
+  if (typeof lastSeen === 'number' && now - lastSeen > STALE_SENSOR_MS) return null;
+  const value = [sensors?.dissolvedOxygen, sensors?.do].find(v => typeof v === 'number' && !isNaN(v));
+  return typeof value === 'number' && value >= 0 && value <= 20 ? value : null;
+}
+
+async function runRation(
+  pondId: string,
+  ration: DueRation,
+  context: { dissolvedOxygen: number | null; pondMinDo: number; gramsPerSecond?: number }
+): Promise<RationResult['status']> {
+  const seconds = context.gramsPerSecond ? Math.round(ration.grams / context.gramsPerSecond * 10) / 10 : undefined;
+
+  // Exactly-once: the unique (pond, feeder, scheduled_for) row is the claim
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('feed_logs')
+    .upsert({
+      pond_id: pondId,
+      device_type: ration.deviceType,
+      source: 'plan',
+      ration_time: ration.time,
+      scheduled_for: ration.scheduledFor.toISOString(),
+      grams: ration.grams,
+      seconds: seconds ?? null,
+      dissolved_oxygen: context.dissolvedOxygen,
+      feed_type: typeof ration.plan.feedType === 'string' ? ration.plan.feedType : null,
+      brand: typeof ration.plan.brand === 'string' ? ration.plan.brand : null,
+      cost: typeof ration.plan.pricePerKg === 'number' ? Math.round(ration.grams * ration.plan.pricePerKg / 10) / 100 : null,
+      fed_at: ration.scheduledFor.toISOString(),
+    }, { onConflict: 'pond_id,device_type,scheduled_for', ignoreDuplicates: true })
+    .select('id');
+
+  if (claimError) throw claimError;
+  if (!claimed || claimed.length === 0) return 'already_executed';
+  const rowId = claimed[0].id;
+
+  const minDo = typeof ration.plan.minDissolvedOxygen === 'number' ? ration.plan.minDissolvedOxygen : context.pondMinDo;
+  // Uneaten feed rots and pulls DO down further; an unknown reading doesn't hold feeding back
+  if (context.dissolvedOxygen !== null && context.dissolvedOxygen < minDo) {
+    const message = `DO ${context.dissolvedOxygen} mg/L below ${minDo} mg/L`;
+    await supabaseAdmin.from('feed_logs').update({ status: 'suppressed', message, cost: null }).eq('id', rowId);
+    await firebasePush(`ponds/${pondId}/alerts`, {
+      type: 'system',
+      message: `Skipped ${ration.grams} g feeding at ${ration.time}: ${message}`,
+      severity: 'warning',
+      timestamp: Date.now(),
+      acknowledged: false,
+    });
+    return 'suppressed';
+  }
+
+  try {
+    const { dispenseId, updates } = buildDispense(ration.deviceType, { grams: ration.grams, seconds });
+    // Stored before the dispense goes out, so the feeder's ack always finds its row
+    const { error: linkError } = await supabaseAdmin.from('feed_logs').update({ dispense_id: dispenseId }).eq('id', rowId);
+    if (linkError) throw linkError;
+    await firebaseUpdate(`ponds/${pondId}`, updates);
+    // Stays 'pending' until the automation engine sees the feeder's ack
+    console.log(`[schedule-executor] ${pondId}/${ration.deviceType} → dispense ${ration.grams} g (ration ${ration.time})`);
+    return 'dispensing';
+  } catch (error) {
+    console.error(`[schedule-executor] Failed to dispense on ${ration.deviceType}:`, error);
+    await supabaseAdmin
+      .from('feed_logs')
+      .update({ status: 'failed', message: error instanceof Error ? error.message : String(error), cost: null })
+      .eq('id', rowId);
+    return 'failed';
+  }
+}
+
+async function runRations(pondId: string, rations: DueRation[], now: Date): Promise<RationResult[]> {
+  const [rawRegistry, doMin, dissolvedOxygen] = await Promise.all([
+    firebaseGet<Record<string, Partial<DeviceDefinition>>>(`ponds/${pondId}/deviceRegistry`),
+    firebaseGet<number>(`ponds/${pondId}/config/thresholds/do_min`),
+    readDissolvedOxygen(pondId, now.getTime()),
+  ]);
+  const feeders = new Map(parseDeviceRegistry(rawRegistry).filter(d => d.kind === 'feeder').map(d => [d.key, d]));
+  const pondMinDo = typeof doMin === 'number' ? doMin : DEFAULT_MIN_DO;
+
+  const results: RationResult[] = [];
+  for (const ration of rations) {
+    const feeder = feeders.get(ration.deviceType);
+    // Plans left behind by a removed feeder are ignored
+    if (!feeder) continue;
+    const status = await runRation(pondId, ration, { dissolvedOxygen, pondMinDo, gramsPerSecond: feeder.gramsPerSecond });
+    results.push({ pondId, deviceType: ration.deviceType, time: ration.time, status });
+  }
+  return results;
+}
+
+async function runPond(pond: PondRow, now: Date): Promise<{ events: EventResult[]; rations: RationResult[] }> {
+  const timeZone = isValidTimeZone(pond.timezone) ? pond.timezone : 'UTC';
+  const [schedules, plans] = await Promise.all([
+    firebaseGet<Record<string, Record<string, ScheduleData>>>(`ponds/${pond.id}/schedules`),
+    firebaseGet<Record<string, FeedingPlanData>>(`ponds/${pond.id}/feedingPlans`),
+  ]);
+  const events = findDueEvents(schedules, now, timeZone);
+  const dueRations = findDueRations(plans, now, timeZone);
+
+  const results: EventResult[] = [];
+  if (events.length > 0) {
+    const autoModeEnabled = (await firebaseGet<boolean>(`ponds/${pond.id}/config/auto_mode_enabled`)) === true;
+    for (const event of events) {
+      const status = await runEvent(pond.id, event, autoModeEnabled);
+      results.push({ pondId: pond.id, scheduleId: event.scheduleId, action: event.action, status });
+    }
+  }
+
+  // Feeding plans run whether or not auto mode is on; only low DO holds them back
+  const rations = dueRations.length > 0 ? await runRations(pond.id, dueRations, now) : [];
+  return { events: results, rations };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (!isFirebaseConfigured()) {
+      console.error('FIREBASE_DATABASE_URL / FIREBASE_DATABASE_SECRET not configured');
+      return new Response(
+        JSON.stringify({ error: 'Schedule executor not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: ponds, error } = await supabaseAdmin.from('ponds').select('id, timezone');
+    if (error) throw error;
+
+    const now = new Date();
+    try {
+      await settleAbandonedClaims(now);
+    } catch (err) {
+      console.error('[schedule-executor] Error settling abandoned executions:', err);
+    }
+    await settleAbandonedRations(now);
+
+    const results: EventResult[] = [];
+    const feeding: RationResult[] = [];
+    for (const pond of (ponds ?? []) as PondRow[]) {
+      try {
+        const { events, rations } = await runPond(pond, now);
+        results.push(...events);
+        feeding.push(...rations);
+      } catch (err) {
+        console.error(`[schedule-executor] Error processing pond ${pond.id}:`, err);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ranAt: now.toISOString(), results, feeding }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error running schedule executor:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,86 @@
+// Pure schedule timing: which ON/OFF events are due right now in a pond's timezone.
+
+import { localTime, parseTime } from "../_shared/time.ts";
+
+export interface ScheduleData {
+  startTime: string; // "HH:mm"
+  endTime: string;   // "HH:mm"
+  daysOfWeek?: number[];
+  enabled?: boolean;
+  isActive?: boolean;
+  deviceName?: string;
+  repeat?: 'once' | 'daily' | 'custom';
+  // Output while running, 0-100%, for variable-level devices
+  level?: number;
+}
+
+export interface DueEvent {
+  scheduleId: string;
+  deviceType: string;
+  action: 'ON' | 'OFF';
+  // The exact UTC instant the event was due, truncated to the minute
+  scheduledFor: Date;
+  schedule: ScheduleData;
+}
+
+// Events are still fired if the executor runs up to this late (cron jitter, retries)
+export const CATCH_UP_MINUTES = 5;
+
+// When the event at `target` (minute of day) is due right now, the UTC minute it was due
+export function dueEvent(
+  target: number,
+  now: Date,
+  local: { day: number; minuteOfDay: number },
+  daysOfWeek: number[]
+): Date | null {
+  // Minutes since the target time, wrapping past midnight
+  const minutesSince = (local.minuteOfDay - target + 1440) % 1440;
+  if (minutesSince > CATCH_UP_MINUTES) return null;
+
+  // The day the event belongs to (yesterday if we wrapped past midnight)
+  const eventDay = local.minuteOfDay >= target ? local.day : (local.day + 6) % 7;
+  if (!daysOfWeek.includes(eventDay)) return null;
+
+  const minute = Math.floor(now.getTime() / 60000) * 60000;
+  return new Date(minute - minutesSince * 60000);
+}
+
+export function findDueEvents(
+  schedules: Record<string, Record<string, ScheduleData> | null> | null,
+  now: Date,
+  timeZone: string
+): DueEvent[] {
+  if (!schedules) return [];
+
+  const local = localTime(now, timeZone);
+  const events: DueEvent[] = [];
+
+  for (const [deviceType, deviceSchedules] of Object.entries(schedules)) {
+    if (!deviceSchedules || typeof deviceSchedules !== 'object') continue;
+
+    for (const [scheduleId, schedule] of Object.entries(deviceSchedules)) {
+      if (!schedule || typeof schedule !== 'object') continue;
+      if (schedule.enabled === false || schedule.isActive === false) continue;
+
+      const daysOfWeek = schedule.daysOfWeek ?? [0, 1, 2, 3, 4, 5, 6];
+      const start = parseTime(schedule.startTime);
+      const end = parseTime(schedule.endTime);
+
+      if (start !== null) {
+        const scheduledFor = dueEvent(start, now, local, daysOfWeek);
+        if (scheduledFor) events.push({ scheduleId, deviceType, action: 'ON', scheduledFor, schedule });
+      }
+      if (end !== null) {
+        // Overnight schedules (22:00–06:00) end on the day after they start
+        const offDays = start !== null && end < start ? daysOfWeek.map(d => (d + 1) % 7) : daysOfWeek;
+        const scheduledFor = dueEvent(end, now, local, offDays);
+        if (scheduledFor) events.push({ scheduleId, deviceType, action: 'OFF', scheduledFor, schedule });
+      }
+    }
+  }
+
+  // OFF before ON so back-to-back schedules on one device end up ON
+  return events.sort((a, b) =>
+    a.scheduledFor.getTime() - b.scheduledFor.getTime() || (a.action === 'OFF' ? -1 : 1)
+  );
+}
@@ -0,0 +1,167 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { firebaseGet, firebaseQuery, isFirebaseConfigured } from "../_shared/firebase.ts";
+import { supabaseAdmin } from "../_shared/supabaseAdmin.ts";
+import { readSensorValues } from "../_shared/sensors.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const MINUTE_MS = 60 * 1000;
+// How far back a pond that has never been ingested (or was offline) is filled in
+const MAX_BACKFILL_MS = 7 * 24 * 60 * MINUTE_MS;
+const UPSERT_BATCH = 500;
+
+// Firebase sensor key -> sensor_readings column
+const COLUMNS: Record<string, string> = {
+  ph: 'ph',
+  dissolvedOxygen: 'dissolved_oxygen',
+  temperature: 'temperature',
+  ammonia: 'ammonia',
+  nitrite: 'nitrite',
+  salinity: 'salinity',
+  orp: 'orp',
+  turbidity: 'turbidity',
+  waterLevel: 'water_level',
+};
+
+interface Sample {
+  timestamp: number;
+  values: Record<string, number | null>;
+}
+
+interface PondResult {
+  pondId: string;
+  status: 'ingested' | 'up_to_date' | 'no_data' | 'error';
+  rows?: number;
+  error?: string;
+}
+
+// One row per minute: the average of each sensor's valid readings in that minute
+function bucketByMinute(pondId: string, samples: Sample[]): Record<string, unknown>[] {
+  const buckets = new Map<number, Sample[]>();
+  for (const sample of samples) {
+    const minute = Math.floor(sample.timestamp / MINUTE_MS) * MINUTE_MS;
+    buckets.set(minute, [...(buckets.get(minute) ?? []), sample]);
+  }
+
+  return [...buckets.entries()].map(([minute, bucket]) => {
+    const row: Record<string, unknown> = {
+      pond_id: pondId,
+      recorded_at: new Date(minute).toISOString(),
+      sample_count: bucket.length,
+      bucket_seconds: 60,
+    };
+    for (const [key, column] of Object.entries(COLUMNS)) {
+      const values = bucket.map(s => s.values[key]).filter((v): v is number => v !== null);
+      row[column] = values.length > 0
+        ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 1000) / 1000
+        : null;
+    }
+    return row;
+  });
+}
+
+async function readSamples(pondId: string, from: number, until: number): Promise<Sample[]> {
+  const base = `ponds/${pondId}`;
+  const history = await firebaseQuery<Record<string, Record<string, unknown>>>(
+    `${base}/history`,
+    'timestamp',
+    { startAt: from, endAt: until - 1 }
+  );
+
+  const samples: Sample[] = Object.values(history ?? {})
+    .filter(entry => entry && typeof entry.timestamp === 'number')
+    .map(entry => ({ timestamp: entry.timestamp as number, values: readSensorValues(entry) }));
+  if (samples.length > 0) return samples;
+
+  // Boards that don't keep a history still get the live reading stored once a minute
+  const [sensors, lastSeen] = await Promise.all([
+    firebaseGet<Record<string, unknown>>(`${base}/sensors`),
+    firebaseGet<number>(`${base}/lastSeen`),
+  ]);
+  if (!sensors || typeof lastSeen !== 'number' || lastSeen < from || lastSeen >= until) return [];
+  return [{ timestamp: lastSeen, values: readSensorValues(sensors) }];
+}
+
+async function ingestPond(pondId: string, now: number): Promise<PondResult> {
+  const { data: latest, error: latestError } = await supabaseAdmin
+    .from('sensor_readings')
+    .select('recorded_at')
+    .eq('pond_id', pondId)
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (latestError) throw latestError;
+
+  // Complete minutes only, so a bucket is never written while readings are still arriving
+  const until = Math.floor(now / MINUTE_MS) * MINUTE_MS;
+  const resumeAt = latest ? new Date(latest.recorded_at).getTime() + MINUTE_MS : 0;
+  const from = Math.max(resumeAt, until - MAX_BACKFILL_MS);
+  if (from >= until) return { pondId, status: 'up_to_date' };
+
+  const samples = (await readSamples(pondId, from, until))
+    .filter(sample => Object.values(sample.values).some(v => v !== null));
+  if (samples.length === 0) return { pondId, status: 'no_data' };
+
+  const rows = bucketByMinute(pondId, samples);
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH) {
+    const { error } = await supabaseAdmin
+      .from('sensor_readings')
+      .upsert(rows.slice(i, i + UPSERT_BATCH), { onConflict: 'pond_id,recorded_at', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  return { pondId, status: 'ingested', rows: rows.length };
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (!isFirebaseConfigured()) {
+      console.error('FIREBASE_DATABASE_URL / FIREBASE_DATABASE_SECRET not configured');
+      return new Response(
+        JSON.stringify({ error: 'Sensor ingestion not configured' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Scheduled runs ingest every pond; `{ pondId }` ingests a single pond
+    const body = req.method === 'POST' ? await req.json().catch(() => ({})) : {};
+    let pondIds: string[];
+    if (typeof body.pondId === 'string') {
+      pondIds = [body.pondId];
+    } else {
+      const { data: pondRows, error: pondError } = await supabaseAdmin.from('ponds').select('id');
+      if (pondError) throw pondError;
+      pondIds = (pondRows ?? []).map((p: { id: string }) => p.id);
+    }
+
+    const now = Date.now();
+    const results: PondResult[] = [];
+    for (const pondId of pondIds) {
+      try {
+        results.push(await ingestPond(pondId, now));
+      } catch (error) {
+        console.error(`[sensor-ingest] Error ingesting pond ${pondId}:`, error);
+        results.push({ pondId, status: 'error', error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ ingestedAt: now, results }),
+      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error ingesting sensor readings:', error);
+    return new Response(
+      JSON.stringify({ error: 'Internal server error' }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,4 @@
+-- Per-pond threshold profile, keyed by sensor (e.g. {"dissolvedOxygen": {"min": 4}}).
+-- NULL means the pond follows the owner's defaults in user_settings.
+ALTER TABLE public.ponds
+ADD COLUMN IF NOT EXISTS thresholds jsonb DEFAULT NULL;
@@ -0,0 +1,4 @@
+-- Species / life-stage preset the pond was set up with (see src/lib/speciesPresets.ts).
+-- Informational only: the applied limits live in ponds.thresholds and can be edited freely.
+ALTER TABLE public.ponds
+ADD COLUMN IF NOT EXISTS fish_type text DEFAULT NULL;
@@ -0,0 +1,21 @@
+-- Run the auto-mode engine every minute, independent of any open browser tab.
+-- Requires two Vault secrets (Dashboard → Project Settings → Vault):
+--   project_url      e.g. https://<project-ref>.supabase.co
+--   service_role_key the project's service role key
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'automation-engine',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/automation-engine',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,93 @@
+-- Pond timezone: schedule start/end times are wall-clock times in this zone.
+-- Existing ponds default to the app's default location (Manila).
+ALTER TABLE public.ponds
+ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Asia/Manila';
+
+-- One row per schedule event (ON at startTime, OFF at endTime) per occurrence.
+-- The unique key is what makes the server-side executor exactly-once.
+CREATE TABLE public.schedule_executions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  schedule_id TEXT NOT NULL,
+  device_type TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('ON', 'OFF')),
+  scheduled_for TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'success', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  executed_at TIMESTAMPTZ,
+  message TEXT,
+  CONSTRAINT unique_schedule_execution UNIQUE (pond_id, schedule_id, action, scheduled_for)
+);
+
+CREATE INDEX idx_schedule_executions_pond_time
+  ON public.schedule_executions (pond_id, scheduled_for DESC);
+
+ALTER TABLE public.schedule_executions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for users; only the executor (service role) writes
+CREATE POLICY "Users can view executions for their ponds"
+  ON public.schedule_executions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Atomically claim an execution slot. Returns true when the caller should run it:
+-- a new slot, a failed attempt (up to 3 tries), or a claim abandoned mid-run.
+CREATE OR REPLACE FUNCTION public.claim_schedule_execution(
+  _pond_id UUID,
+  _schedule_id TEXT,
+  _device_type TEXT,
+  _action TEXT,
+  _scheduled_for TIMESTAMPTZ
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _claimed_id UUID;
+BEGIN
+  INSERT INTO public.schedule_executions (pond_id, schedule_id, device_type, action, scheduled_for)
+  VALUES (_pond_id, _schedule_id, _device_type, _action, _scheduled_for)
+  ON CONFLICT ON CONSTRAINT unique_schedule_execution DO NOTHING
+  RETURNING id INTO _claimed_id;
+
+  IF _claimed_id IS NOT NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  UPDATE public.schedule_executions
+  SET status = 'pending', attempts = attempts + 1, claimed_at = now(), message = NULL
+  WHERE pond_id = _pond_id
+    AND schedule_id = _schedule_id
+    AND action = _action
+    AND scheduled_for = _scheduled_for
+    AND attempts < 3
+    AND (status = 'failed' OR (status = 'pending' AND claimed_at < now() - interval '2 minutes'))
+  RETURNING id INTO _claimed_id;
+
+  RETURN _claimed_id IS NOT NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_schedule_execution(UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- Run the schedule executor every minute (same Vault secrets as the automation engine)
+SELECT cron.schedule(
+  'schedule-executor',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/schedule-executor',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
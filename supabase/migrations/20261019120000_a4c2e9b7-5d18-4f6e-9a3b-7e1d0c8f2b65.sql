@@ -0,0 +1,46 @@
+-- Audit trail of every device state change: who or what issued it, the
+-- state before and after, and whether the controller acknowledged it.
+CREATE TABLE public.device_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  device_type TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'schedule', 'auto')),
+  -- User for manual changes; NULL for server-issued commands
+  actor_id UUID,
+  -- Human-readable origin, e.g. "All Off", a schedule id or an automation rule id
+  actor_label TEXT,
+  previous_state SMALLINT CHECK (previous_state IN (0, 1)),
+  new_state SMALLINT NOT NULL CHECK (new_state IN (0, 1)),
+  command_id TEXT,
+  ack_result TEXT NOT NULL DEFAULT 'pending' CHECK (ack_result IN ('pending', 'acknowledged', 'mismatch', 'unconfirmed')),
+  acked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_device_activity_pond_time
+  ON public.device_activity (pond_id, created_at DESC);
+
+CREATE INDEX idx_device_activity_command
+  ON public.device_activity (command_id)
+  WHERE ack_result = 'pending';
+
+ALTER TABLE public.device_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view activity for their ponds"
+  ON public.device_activity FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- The app records manual changes on the owner's behalf; server-side sources
+-- (schedules, auto mode) are written by edge functions with the service role
+CREATE POLICY "Owners can record manual activity"
+  ON public.device_activity FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    source = 'manual'
+    AND actor_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
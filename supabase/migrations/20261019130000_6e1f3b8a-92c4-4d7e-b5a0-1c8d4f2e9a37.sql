@@ -0,0 +1,4 @@
+-- Variable-speed / dimmable devices: record the 0-100% level alongside the on/off state
+ALTER TABLE public.device_activity
+  ADD COLUMN previous_level SMALLINT CHECK (previous_level BETWEEN 0 AND 100),
+  ADD COLUMN new_level SMALLINT CHECK (new_level BETWEEN 0 AND 100);
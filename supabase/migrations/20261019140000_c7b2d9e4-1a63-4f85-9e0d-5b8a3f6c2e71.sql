@@ -0,0 +1,53 @@
+-- Feed log: one row per feeder dispense, manual or from a feeding plan ration,
+-- including rations the schedule executor held back because DO was low.
+CREATE TABLE public.feed_logs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  device_type TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('manual', 'plan')),
+  -- User for manual dispenses; NULL for plan rations
+  actor_id UUID,
+  -- Plan rations: the "HH:mm" ration time and the UTC instant it was due
+  ration_time TEXT,
+  scheduled_for TIMESTAMPTZ,
+  grams NUMERIC(8, 1) CHECK (grams >= 0),
+  seconds NUMERIC(6, 1) CHECK (seconds >= 0),
+  -- Reported by the feeder's ack, when it weighs what it dispensed
+  dispensed_grams NUMERIC(8, 1),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'dispensed', 'suppressed', 'unconfirmed', 'failed')),
+  -- DO reading at dispense time; the reason for 'suppressed' rows
+  dissolved_oxygen NUMERIC(5, 2),
+  dispense_id TEXT,
+  message TEXT,
+  acked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Exactly-once per plan ration; manual rows have no scheduled_for and never conflict
+  CONSTRAINT unique_feed_ration UNIQUE (pond_id, device_type, scheduled_for)
+);
+
+CREATE INDEX idx_feed_logs_pond_time
+  ON public.feed_logs (pond_id, created_at DESC);
+
+CREATE INDEX idx_feed_logs_dispense
+  ON public.feed_logs (dispense_id)
+  WHERE status = 'pending';
+
+ALTER TABLE public.feed_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view feed logs for their ponds"
+  ON public.feed_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+-- Plan rations are written by the schedule executor with the service role
+CREATE POLICY "Owners can record manual feeding"
+  ON public.feed_logs FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    source = 'manual'
+    AND actor_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
@@ -0,0 +1,71 @@
+-- Feed type, brand and cost on feed log entries, and hand feeding without a feeder.
+-- fed_at is when the feed went in; manual entries may be backdated.
+ALTER TABLE public.feed_logs
+  ALTER COLUMN device_type DROP NOT NULL,
+  ADD COLUMN feed_type TEXT,
+  ADD COLUMN brand TEXT,
+  ADD COLUMN cost NUMERIC(10, 2) CHECK (cost >= 0),
+  ADD COLUMN fed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN note TEXT;
+
+UPDATE public.feed_logs SET fed_at = created_at;
+
+CREATE INDEX idx_feed_logs_pond_fed_at
+  ON public.feed_logs (pond_id, fed_at DESC);
+
+-- Owners can correct or remove what they entered by hand
+CREATE POLICY "Owners can update manual feeding"
+  ON public.feed_logs FOR UPDATE
+  TO authenticated
+  USING (
+    source = 'manual'
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  )
+  WITH CHECK (source = 'manual');
+
+CREATE POLICY "Owners can delete manual feeding"
+  ON public.feed_logs FOR DELETE
+  TO authenticated
+  USING (
+    source = 'manual'
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+-- Standing stock estimates, the denominator for feeding rate and FCR
+CREATE TABLE public.biomass_estimates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  measured_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  biomass_kg NUMERIC(10, 1) NOT NULL CHECK (biomass_kg > 0),
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_biomass_estimates_pond_time
+  ON public.biomass_estimates (pond_id, measured_at DESC);
+
+ALTER TABLE public.biomass_estimates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view biomass for their ponds"
+  ON public.biomass_estimates FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record biomass"
+  ON public.biomass_estimates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete biomass"
+  ON public.biomass_estimates FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
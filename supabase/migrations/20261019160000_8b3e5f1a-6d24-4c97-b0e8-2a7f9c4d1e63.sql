@@ -0,0 +1,238 @@
+-- Crop cycles: one production run in a pond, from stocking to final harvest.
+-- Sensor readings, alerts and feed logs belong to the cycle whose
+-- [stocked_at, ended_at) window contains them, so cycles may not overlap.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE public.crop_cycles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  species TEXT NOT NULL,
+  stocked_at TIMESTAMPTZ NOT NULL,
+  stocked_count INTEGER NOT NULL CHECK (stocked_count > 0),
+  stocking_weight_g NUMERIC(10, 2) CHECK (stocking_weight_g > 0),
+  hatchery TEXT,
+  -- Null while the cycle is running
+  ended_at TIMESTAMPTZ,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT crop_cycle_ends_after_stocking CHECK (ended_at IS NULL OR ended_at > stocked_at),
+  CONSTRAINT crop_cycle_pond UNIQUE (id, pond_id),
+  CONSTRAINT no_overlapping_crop_cycles EXCLUDE USING gist (
+    pond_id WITH =,
+    tstzrange(stocked_at, ended_at) WITH &&
+  )
+);
+
+CREATE INDEX idx_crop_cycles_pond_stocked
+  ON public.crop_cycles (pond_id, stocked_at DESC);
+
+CREATE TRIGGER update_crop_cycles_updated_at
+  BEFORE UPDATE ON public.crop_cycles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Records within a cycle. pond_id is repeated so the policies match the other pond tables;
+-- the composite key keeps it in step with the cycle's pond.
+CREATE TABLE public.cycle_samplings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cycle_id UUID NOT NULL,
+  pond_id UUID NOT NULL,
+  sampled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sample_count INTEGER NOT NULL CHECK (sample_count > 0),
+  avg_weight_g NUMERIC(10, 2) NOT NULL CHECK (avg_weight_g > 0),
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  FOREIGN KEY (cycle_id, pond_id) REFERENCES public.crop_cycles(id, pond_id) ON DELETE CASCADE
+);
+
+CREATE TABLE public.cycle_mortalities (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cycle_id UUID NOT NULL,
+  pond_id UUID NOT NULL,
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  count INTEGER NOT NULL CHECK (count > 0),
+  cause TEXT,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  FOREIGN KEY (cycle_id, pond_id) REFERENCES public.crop_cycles(id, pond_id) ON DELETE CASCADE
+);
+
+CREATE TABLE public.cycle_harvests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  cycle_id UUID NOT NULL,
+  pond_id UUID NOT NULL,
+  harvested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  weight_kg NUMERIC(10, 1) NOT NULL CHECK (weight_kg > 0),
+  count INTEGER CHECK (count > 0),
+  price_per_kg NUMERIC(10, 2) CHECK (price_per_kg >= 0),
+  buyer TEXT,
+  -- A final harvest closes the cycle; partial harvests don't
+  is_final BOOLEAN NOT NULL DEFAULT false,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  FOREIGN KEY (cycle_id, pond_id) REFERENCES public.crop_cycles(id, pond_id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_cycle_samplings_cycle ON public.cycle_samplings (cycle_id, sampled_at);
+CREATE INDEX idx_cycle_mortalities_cycle ON public.cycle_mortalities (cycle_id, recorded_at);
+CREATE INDEX idx_cycle_harvests_cycle ON public.cycle_harvests (cycle_id, harvested_at);
+
+ALTER TABLE public.crop_cycles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cycle_samplings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cycle_mortalities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cycle_harvests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view crop cycles for their ponds"
+  ON public.crop_cycles FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can start crop cycles"
+  ON public.crop_cycles FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can update crop cycles"
+  ON public.crop_cycles FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete crop cycles"
+  ON public.crop_cycles FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view samplings for their ponds"
+  ON public.cycle_samplings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record samplings"
+  ON public.cycle_samplings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete samplings"
+  ON public.cycle_samplings FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view mortalities for their ponds"
+  ON public.cycle_mortalities FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record mortalities"
+  ON public.cycle_mortalities FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete mortalities"
+  ON public.cycle_mortalities FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view harvests for their ponds"
+  ON public.cycle_harvests FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record harvests"
+  ON public.cycle_harvests FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete harvests"
+  ON public.cycle_harvests FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+-- Water conditions and alerts over a cycle's window, for comparing cycles.
+-- Runs as the caller, so it only sees what their policies allow.
+CREATE OR REPLACE FUNCTION public.crop_cycle_conditions(_cycle_id UUID)
+RETURNS TABLE (
+  reading_count BIGINT,
+  avg_temperature NUMERIC,
+  avg_ph NUMERIC,
+  avg_dissolved_oxygen NUMERIC,
+  min_dissolved_oxygen NUMERIC,
+  alert_count BIGINT,
+  critical_alert_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH cycle AS (
+    SELECT pond_id, stocked_at, COALESCE(ended_at, now()) AS ended_at
+    FROM public.crop_cycles
+    WHERE id = _cycle_id
+  ),
+  readings AS (
+    SELECT
+      count(*) AS reading_count,
+      round(avg(r.temperature)::numeric, 2) AS avg_temperature,
+      round(avg(r.ph)::numeric, 2) AS avg_ph,
+      round(avg(r.dissolved_oxygen)::numeric, 2) AS avg_dissolved_oxygen,
+      round(min(r.dissolved_oxygen)::numeric, 2) AS min_dissolved_oxygen
+    FROM public.sensor_readings r, cycle c
+    WHERE r.pond_id = c.pond_id AND r.recorded_at >= c.stocked_at AND r.recorded_at < c.ended_at
+  ),
+  cycle_alerts AS (
+    SELECT
+      count(*) AS alert_count,
+      count(*) FILTER (WHERE a.severity = 'critical') AS critical_alert_count
+    FROM public.alerts a, cycle c
+    WHERE a.pond_id = c.pond_id AND a.triggered_at >= c.stocked_at AND a.triggered_at < c.ended_at
+  )
+  SELECT
+    readings.reading_count,
+    readings.avg_temperature,
+    readings.avg_ph,
+    readings.avg_dissolved_oxygen,
+    readings.min_dissolved_oxygen,
+    cycle_alerts.alert_count,
+    cycle_alerts.critical_alert_count
+  FROM readings, cycle_alerts
+  WHERE EXISTS (SELECT 1 FROM cycle);
+$$;
@@ -0,0 +1,3 @@
+-- Harvest weight a cycle is grown to; the harvest date is projected from sampled growth
+ALTER TABLE public.crop_cycles
+  ADD COLUMN target_weight_g NUMERIC(10, 1) CHECK (target_weight_g > 0);
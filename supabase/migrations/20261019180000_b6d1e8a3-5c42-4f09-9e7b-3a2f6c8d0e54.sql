@@ -0,0 +1,73 @@
+-- Water quality tests done by hand with kits. One lab_tests row per sampling,
+-- one lab_test_results row per parameter measured. parameter is a sensor
+-- registry key (ammonia, nitrite, alkalinity, ...) or a free-form name for
+-- anything the registry doesn't know.
+CREATE TABLE public.lab_tests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  tested_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Kit or instrument used
+  method TEXT,
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT lab_test_pond UNIQUE (id, pond_id)
+);
+
+CREATE TABLE public.lab_test_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_id UUID NOT NULL,
+  pond_id UUID NOT NULL,
+  parameter TEXT NOT NULL CHECK (length(parameter) BETWEEN 1 AND 40),
+  value NUMERIC NOT NULL,
+  unit TEXT,
+  FOREIGN KEY (test_id, pond_id) REFERENCES public.lab_tests(id, pond_id) ON DELETE CASCADE,
+  CONSTRAINT unique_lab_test_parameter UNIQUE (test_id, parameter)
+);
+
+CREATE INDEX idx_lab_tests_pond_tested
+  ON public.lab_tests (pond_id, tested_at DESC);
+
+CREATE INDEX idx_lab_test_results_pond_parameter
+  ON public.lab_test_results (pond_id, parameter);
+
+ALTER TABLE public.lab_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lab_test_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lab tests for their ponds"
+  ON public.lab_tests FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record lab tests"
+  ON public.lab_tests FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete lab tests"
+  ON public.lab_tests FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view lab results for their ponds"
+  ON public.lab_test_results FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record lab results"
+  ON public.lab_test_results FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
@@ -0,0 +1,45 @@
+-- Treatments and chemicals applied to a pond (lime, probiotics, salt,
+-- medication). withdrawal_days is how long after application the stock must
+-- not be harvested for sale; 0 means no withdrawal period.
+CREATE TABLE public.pond_treatments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  category TEXT NOT NULL CHECK (category IN ('lime', 'probiotic', 'salt', 'medication', 'other')),
+  product TEXT NOT NULL CHECK (length(product) BETWEEN 1 AND 80),
+  quantity NUMERIC(10, 2) NOT NULL CHECK (quantity > 0),
+  unit TEXT NOT NULL,
+  reason TEXT,
+  withdrawal_days INTEGER NOT NULL DEFAULT 0 CHECK (withdrawal_days BETWEEN 0 AND 365),
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pond_treatments_pond_applied
+  ON public.pond_treatments (pond_id, applied_at DESC);
+
+ALTER TABLE public.pond_treatments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view treatments for their ponds"
+  ON public.pond_treatments FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record treatments"
+  ON public.pond_treatments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete treatments"
+  ON public.pond_treatments FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
@@ -0,0 +1,47 @@
+-- Water level is now read from the board's level sensor; keep it with the other readings
+ALTER TABLE public.sensor_readings
+  ADD COLUMN water_level NUMERIC(6, 1);
+
+-- Water exchanges: draining part of the pond and refilling it from a source.
+-- percent is the share of the pond's volume replaced; the levels are optional
+-- and, when given, are what percent was worked out from.
+CREATE TABLE public.water_exchanges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pond_id UUID NOT NULL REFERENCES public.ponds(id) ON DELETE CASCADE,
+  exchanged_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  percent NUMERIC(5, 1) NOT NULL CHECK (percent > 0 AND percent <= 100),
+  source TEXT NOT NULL CHECK (source IN ('well', 'river', 'reservoir', 'rain', 'municipal', 'other')),
+  level_before_cm NUMERIC(6, 1) CHECK (level_before_cm >= 0),
+  level_after_cm NUMERIC(6, 1) CHECK (level_after_cm >= 0),
+  note TEXT,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_water_exchanges_pond_exchanged
+  ON public.water_exchanges (pond_id, exchanged_at DESC);
+
+ALTER TABLE public.water_exchanges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view water exchanges for their ponds"
+  ON public.water_exchanges FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Owners can record water exchanges"
+  ON public.water_exchanges FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Owners can delete water exchanges"
+  ON public.water_exchanges FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
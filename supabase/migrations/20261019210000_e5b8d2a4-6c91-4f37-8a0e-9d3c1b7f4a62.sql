@@ -0,0 +1,102 @@
+-- Long-term sensor history. The sensor-ingest edge function copies each pond's
+-- Firebase history into sensor_readings as one row per minute (the average of
+-- the readings in that minute). Minute rows older than 30 days are compacted
+-- into hourly rows, and everything older than the pond's retention is removed.
+ALTER TABLE public.sensor_readings
+  ALTER COLUMN ph DROP NOT NULL,
+  ALTER COLUMN dissolved_oxygen DROP NOT NULL,
+  ALTER COLUMN temperature DROP NOT NULL,
+  ADD COLUMN ammonia NUMERIC(8, 3),
+  ADD COLUMN nitrite NUMERIC(8, 3),
+  ADD COLUMN salinity NUMERIC(6, 2),
+  ADD COLUMN orp NUMERIC(7, 1),
+  ADD COLUMN turbidity NUMERIC(7, 1),
+  -- Readings averaged into the row, and the width of its bucket
+  ADD COLUMN sample_count INTEGER NOT NULL DEFAULT 1 CHECK (sample_count > 0),
+  ADD COLUMN bucket_seconds INTEGER NOT NULL DEFAULT 60 CHECK (bucket_seconds > 0),
+  ADD CONSTRAINT unique_sensor_reading_bucket UNIQUE (pond_id, recorded_at);
+
+CREATE POLICY "Users can view sensor history for their ponds"
+  ON public.sensor_readings FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+    OR public.has_role(auth.uid(), 'admin')
+  );
+
+ALTER TABLE public.ponds
+  ADD COLUMN reading_retention_days INTEGER NOT NULL DEFAULT 365
+    CHECK (reading_retention_days BETWEEN 30 AND 3650);
+
+CREATE OR REPLACE FUNCTION public.compact_sensor_readings()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Whole hours only, so an hour is never split between minute and hourly rows
+  _cutoff TIMESTAMPTZ := date_trunc('hour', now() - interval '30 days');
+BEGIN
+  CREATE TEMP TABLE hourly_readings ON COMMIT DROP AS
+  SELECT
+    pond_id,
+    date_trunc('hour', recorded_at) AS recorded_at,
+    sum(sample_count)::integer AS sample_count,
+    -- Weighted by samples, ignoring buckets where the sensor didn't report
+    sum(ph * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE ph IS NOT NULL), 0) AS ph,
+    sum(dissolved_oxygen * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE dissolved_oxygen IS NOT NULL), 0) AS dissolved_oxygen,
+    sum(temperature * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE temperature IS NOT NULL), 0) AS temperature,
+    sum(ammonia * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE ammonia IS NOT NULL), 0) AS ammonia,
+    sum(nitrite * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE nitrite IS NOT NULL), 0) AS nitrite,
+    sum(salinity * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE salinity IS NOT NULL), 0) AS salinity,
+    sum(orp * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE orp IS NOT NULL), 0) AS orp,
+    sum(turbidity * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE turbidity IS NOT NULL), 0) AS turbidity,
+    sum(water_level * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE water_level IS NOT NULL), 0) AS water_level
+  FROM public.sensor_readings
+  WHERE recorded_at < _cutoff AND bucket_seconds < 3600
+  GROUP BY pond_id, date_trunc('hour', recorded_at);
+
+  DELETE FROM public.sensor_readings
+  WHERE recorded_at < _cutoff AND bucket_seconds < 3600;
+
+  INSERT INTO public.sensor_readings (
+    pond_id, recorded_at, sample_count, bucket_seconds,
+    ph, dissolved_oxygen, temperature, ammonia, nitrite, salinity, orp, turbidity, water_level
+  )
+  SELECT
+    pond_id, recorded_at, sample_count, 3600,
+    ph, dissolved_oxygen, temperature, ammonia, nitrite, salinity, orp, turbidity, water_level
+  FROM hourly_readings
+  ON CONFLICT (pond_id, recorded_at) DO NOTHING;
+
+  DELETE FROM public.sensor_readings r
+  USING public.ponds p
+  WHERE r.pond_id = p.id
+    AND r.recorded_at < now() - make_interval(days => p.reading_retention_days);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.compact_sensor_readings() FROM PUBLIC, anon, authenticated;
+
+-- Same Vault secrets as the automation engine
+SELECT cron.schedule(
+  'sensor-ingest',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/sensor-ingest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+SELECT cron.schedule(
+  'compact-sensor-readings',
+  '15 3 * * *',
+  $$ SELECT public.compact_sensor_readings(); $$
+);
@@ -0,0 +1,84 @@
+-- Sensor history aggregated into fixed buckets (5 minutes, an hour, a day) for
+-- charts over long ranges. Averages are weighted by the readings each stored row
+-- covers; min and max are of the stored minute or hourly averages. Buckets are
+-- aligned to UTC. Runs with the caller's rights, so RLS on sensor_readings applies.
+CREATE OR REPLACE FUNCTION public.sensor_history_buckets(
+  _pond_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _bucket_seconds INTEGER
+)
+RETURNS TABLE (
+  bucket_start TIMESTAMPTZ,
+  sample_count INTEGER,
+  ph_avg NUMERIC,
+  ph_min NUMERIC,
+  ph_max NUMERIC,
+  dissolved_oxygen_avg NUMERIC,
+  dissolved_oxygen_min NUMERIC,
+  dissolved_oxygen_max NUMERIC,
+  temperature_avg NUMERIC,
+  temperature_min NUMERIC,
+  temperature_max NUMERIC,
+  ammonia_avg NUMERIC,
+  ammonia_min NUMERIC,
+  ammonia_max NUMERIC,
+  nitrite_avg NUMERIC,
+  nitrite_min NUMERIC,
+  nitrite_max NUMERIC,
+  salinity_avg NUMERIC,
+  salinity_min NUMERIC,
+  salinity_max NUMERIC,
+  orp_avg NUMERIC,
+  orp_min NUMERIC,
+  orp_max NUMERIC,
+  turbidity_avg NUMERIC,
+  turbidity_min NUMERIC,
+  turbidity_max NUMERIC,
+  water_level_avg NUMERIC,
+  water_level_min NUMERIC,
+  water_level_max NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    date_bin(make_interval(secs => GREATEST(_bucket_seconds, 60)), recorded_at, TIMESTAMPTZ '1970-01-01 00:00:00+00'),
+    sum(sample_count)::integer,
+    sum(ph * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE ph IS NOT NULL), 0),
+    min(ph),
+    max(ph),
+    sum(dissolved_oxygen * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE dissolved_oxygen IS NOT NULL), 0),
+    min(dissolved_oxygen),
+    max(dissolved_oxygen),
+    sum(temperature * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE temperature IS NOT NULL), 0),
+    min(temperature),
+    max(temperature),
+    sum(ammonia * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE ammonia IS NOT NULL), 0),
+    min(ammonia),
+    max(ammonia),
+    sum(nitrite * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE nitrite IS NOT NULL), 0),
+    min(nitrite),
+    max(nitrite),
+    sum(salinity * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE salinity IS NOT NULL), 0),
+    min(salinity),
+    max(salinity),
+    sum(orp * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE orp IS NOT NULL), 0),
+    min(orp),
+    max(orp),
+    sum(turbidity * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE turbidity IS NOT NULL), 0),
+    min(turbidity),
+    max(turbidity),
+    sum(water_level * sample_count) / NULLIF(sum(sample_count) FILTER (WHERE water_level IS NOT NULL), 0),
+    min(water_level),
+    max(water_level)
+  FROM public.sensor_readings
+  WHERE pond_id = _pond_id
+    AND recorded_at >= _from
+    AND recorded_at < _to
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sensor_history_buckets(UUID, TIMESTAMPTZ, TIMESTAMPTZ, INTEGER) TO authenticated;
@@ -0,0 +1,87 @@
+-- Per-user notification preferences. For now this holds the email digest: a
+-- summary of each of the user's ponds sent by the email-digest edge function.
+CREATE TABLE public.notification_preferences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  email_enabled BOOLEAN NOT NULL DEFAULT false,
+  digest_frequency TEXT NOT NULL DEFAULT 'daily' CHECK (digest_frequency IN ('daily', 'weekly')),
+  -- Local hour the digest goes out; weekly digests go out on Mondays
+  digest_hour SMALLINT NOT NULL DEFAULT 7 CHECK (digest_hour BETWEEN 0 AND 23),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT unique_notification_preferences UNIQUE (user_id)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Dissolved oxygen over a period for the digest. Time below the threshold is
+-- counted in whole stored rows (a minute each for the last 30 days).
+CREATE OR REPLACE FUNCTION public.dissolved_oxygen_summary(
+  _pond_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _threshold NUMERIC
+)
+RETURNS TABLE (
+  min_dissolved_oxygen NUMERIC,
+  max_dissolved_oxygen NUMERIC,
+  avg_dissolved_oxygen NUMERIC,
+  seconds_below_threshold BIGINT,
+  reading_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    min(r.dissolved_oxygen),
+    max(r.dissolved_oxygen),
+    round(sum(r.dissolved_oxygen * r.sample_count) / nullif(sum(r.sample_count), 0), 2),
+    coalesce(sum(r.bucket_seconds) FILTER (WHERE r.dissolved_oxygen < _threshold), 0),
+    count(*)
+  FROM public.sensor_readings r
+  WHERE r.pond_id = _pond_id
+    AND r.recorded_at >= _from
+    AND r.recorded_at < _to
+    AND r.dissolved_oxygen IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dissolved_oxygen_summary(UUID, TIMESTAMPTZ, TIMESTAMPTZ, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- Hourly; each user's digest goes out in the run that matches their local hour
+SELECT cron.schedule(
+  'email-digest',
+  '0 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/email-digest',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
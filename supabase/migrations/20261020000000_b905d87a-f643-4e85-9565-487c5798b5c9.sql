@@ -0,0 +1,17 @@
+-- The rest of the Notifications page: delivery channels, quiet hours and the
+-- alert categories. Enforced by the app when it plays alert sounds and shows
+-- push notifications.
+ALTER TABLE public.notification_preferences
+  ADD COLUMN push_enabled BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN sound_enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Non-critical alerts are held back between start and end ("HH:mm", may wrap midnight)
+  ADD COLUMN quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN quiet_hours_start TEXT NOT NULL DEFAULT '22:00'
+    CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  ADD COLUMN quiet_hours_end TEXT NOT NULL DEFAULT '06:00'
+    CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  ADD COLUMN critical_alerts BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN warning_alerts BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN dissolved_oxygen_alerts BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN temperature_alerts BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN ph_alerts BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,10 @@
+-- The command written for a claimed schedule event, recorded before it is sent.
+-- When a run dies between the claim and the Firebase write, the next run can
+-- tell from the device whether the command landed instead of firing it twice.
+ALTER TABLE public.schedule_executions
+ADD COLUMN IF NOT EXISTS command_id TEXT;
+
+-- Claims abandoned mid-run are swept by status and age
+CREATE INDEX IF NOT EXISTS idx_schedule_executions_pending
+  ON public.schedule_executions (claimed_at)
+  WHERE status = 'pending';
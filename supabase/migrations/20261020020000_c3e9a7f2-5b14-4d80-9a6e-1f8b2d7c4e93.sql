@@ -0,0 +1,15 @@
+-- The updated row must still belong to one of the owner's ponds, so an owner
+-- can't move a manual entry onto someone else's pond.
+DROP POLICY IF EXISTS "Owners can update manual feeding" ON public.feed_logs;
+
+CREATE POLICY "Owners can update manual feeding"
+  ON public.feed_logs FOR UPDATE
+  TO authenticated
+  USING (
+    source = 'manual'
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  )
+  WITH CHECK (
+    source = 'manual'
+    AND EXISTS (SELECT 1 FROM public.ponds p WHERE p.id = pond_id AND p.user_id = auth.uid())
+  );
@@ -0,0 +1,33 @@
+-- Alerts are kept in Firebase (ponds/{id}/alerts), so the app counts a cycle's
+-- alerts there; this only summarises the stored readings. Rows are aggregated
+-- buckets, so averages are weighted by how many samples each one holds.
+DROP FUNCTION IF EXISTS public.crop_cycle_conditions(UUID);
+
+CREATE FUNCTION public.crop_cycle_conditions(_cycle_id UUID)
+RETURNS TABLE (
+  reading_count BIGINT,
+  avg_temperature NUMERIC,
+  avg_ph NUMERIC,
+  avg_dissolved_oxygen NUMERIC,
+  min_dissolved_oxygen NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH cycle AS (
+    SELECT pond_id, stocked_at, COALESCE(ended_at, now()) AS ended_at
+    FROM public.crop_cycles
+    WHERE id = _cycle_id
+  )
+  SELECT
+    COALESCE(sum(r.sample_count), 0)::bigint AS reading_count,
+    round((sum(r.temperature * r.sample_count) / NULLIF(sum(r.sample_count) FILTER (WHERE r.temperature IS NOT NULL), 0))::numeric, 2) AS avg_temperature,
+    round((sum(r.ph * r.sample_count) / NULLIF(sum(r.sample_count) FILTER (WHERE r.ph IS NOT NULL), 0))::numeric, 2) AS avg_ph,
+    round((sum(r.dissolved_oxygen * r.sample_count) / NULLIF(sum(r.sample_count) FILTER (WHERE r.dissolved_oxygen IS NOT NULL), 0))::numeric, 2) AS avg_dissolved_oxygen,
+    round(min(r.dissolved_oxygen)::numeric, 2) AS min_dissolved_oxygen
+  FROM cycle c
+  LEFT JOIN public.sensor_readings r
+    ON r.pond_id = c.pond_id AND r.recorded_at >= c.stocked_at AND r.recorded_at < c.ended_at
+  GROUP BY c.pond_id;
+$$;
@@ -0,0 +1,24 @@
+-- Each device's state at a point in time: the last change the controller
+-- acknowledged before it. Runtimes over a period start from these states, so a
+-- device that stayed on the whole time still counts.
+-- Runs as the caller, so it only sees what their policies allow.
+CREATE INDEX IF NOT EXISTS idx_device_activity_acknowledged
+  ON public.device_activity (pond_id, device_type, created_at DESC)
+  WHERE ack_result = 'acknowledged';
+
+CREATE OR REPLACE FUNCTION public.device_states_at(_pond_id UUID, _at TIMESTAMPTZ)
+RETURNS TABLE (
+  device_type TEXT,
+  state SMALLINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (a.device_type) a.device_type, a.new_state
+  FROM public.device_activity a
+  WHERE a.pond_id = _pond_id
+    AND a.created_at < _at
+    AND a.ack_result = 'acknowledged'
+  ORDER BY a.device_type, a.created_at DESC;
+$$;
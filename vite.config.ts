@@ -13,6 +13,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Pure modules the edge functions and the app both use
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
   },
 }));